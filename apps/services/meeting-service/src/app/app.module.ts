@@ -4,7 +4,16 @@ import { SharedModule } from '@meetgenie/shared';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { MeetingController } from './meeting.controller';
+import { PlatformConnectionController } from './platform-connection.controller';
+import { PlatformWebhookController } from './platform-webhook.controller';
 import { MeetingService } from './meeting.service';
+import { MeetingLifecycleService } from './meeting-lifecycle.service';
+import { MeetingSchedulerService } from './meeting-scheduler.service';
+import { MeetingTranscriptionService } from './meeting-transcription.service';
+import { ParticipantTrackerService } from './participant-tracker.service';
+import { PlatformWebhookService } from './platform-webhook.service';
+import { RecordingImportService } from './recording-import.service';
+import { ScreenShareCaptureService } from './screen-share-capture.service';
 
 @Module({
   imports: [
@@ -14,7 +23,18 @@ import { MeetingService } from './meeting.service';
     }),
     SharedModule,
   ],
-  controllers: [AppController, MeetingController],
-  providers: [AppService, MeetingService],
+  controllers: [AppController, MeetingController, PlatformConnectionController, PlatformWebhookController],
+  providers: [
+    AppService,
+    // Listens for recorder events, so it must be ready before sessions are reconciled
+    MeetingLifecycleService,
+    MeetingService,
+    MeetingSchedulerService,
+    MeetingTranscriptionService,
+    ParticipantTrackerService,
+    PlatformWebhookService,
+    RecordingImportService,
+    ScreenShareCaptureService,
+  ],
 })
 export class AppModule {}
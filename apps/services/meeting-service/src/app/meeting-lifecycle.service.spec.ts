@@ -0,0 +1,248 @@
+import { ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import type { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { KafkaService, MeetingPersistenceService } from '@meetgenie/shared';
+import { MeetingLifecycleService } from './meeting-lifecycle.service';
+
+jest.mock('@meetgenie/shared', () => {
+  const MeetingStatus = {
+    SCHEDULED: 'scheduled',
+    JOINING: 'joining',
+    IN_PROGRESS: 'in_progress',
+    PROCESSING: 'processing',
+    COMPLETED: 'completed',
+    FAILED: 'failed',
+    CANCELLED: 'cancelled'
+  };
+
+  return {
+    MeetingPersistenceService: class {},
+    KafkaService: class {},
+    MeetingStatus,
+    MEETING_STATUS_TRANSITIONS: {
+      [MeetingStatus.SCHEDULED]: [MeetingStatus.JOINING, MeetingStatus.CANCELLED],
+      [MeetingStatus.JOINING]: [MeetingStatus.IN_PROGRESS, MeetingStatus.FAILED, MeetingStatus.CANCELLED],
+      [MeetingStatus.IN_PROGRESS]: [MeetingStatus.PROCESSING, MeetingStatus.FAILED],
+      [MeetingStatus.PROCESSING]: [MeetingStatus.COMPLETED, MeetingStatus.FAILED],
+      [MeetingStatus.COMPLETED]: [],
+      [MeetingStatus.FAILED]: [],
+      [MeetingStatus.CANCELLED]: []
+    }
+  };
+});
+
+describe('MeetingLifecycleService', () => {
+  let meeting: { id: string; organizerId: string; status: string };
+  let meetingPersistence: {
+    findMeeting: jest.Mock;
+    findMeetingBySessionId: jest.Mock;
+    transitionMeetingStatus: jest.Mock;
+    markMeetingFailed: jest.Mock;
+    getMeetingStatusHistory: jest.Mock;
+    hasRecordings: jest.Mock;
+    hasPendingTranscripts: jest.Mock;
+  };
+  let kafkaService: { publish: jest.Mock; subscribe: jest.Mock };
+  let eventEmitter: EventEmitter2;
+  let service: MeetingLifecycleService;
+  let onTranscriptionEvent: (message: { value?: Buffer }) => Promise<void>;
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+  const statuses = () => meetingPersistence.transitionMeetingStatus.mock.calls.map(([, to]) => to);
+
+  // Moves the stored meeting, as the conditional write would
+  const applyTransition = async (meetingId: string, to: string, reason: string) => {
+    const from = meeting.status;
+    meeting.status = to;
+    return { meetingId, from, to, reason, changedAt: new Date() };
+  };
+
+  const receive = (event: Record<string, unknown>) =>
+    onTranscriptionEvent({ value: Buffer.from(JSON.stringify(event)) });
+
+  beforeEach(async () => {
+    meeting = { id: 'meeting-1', organizerId: 'user-1', status: 'scheduled' };
+    meetingPersistence = {
+      findMeeting: jest.fn().mockImplementation(async () => ({ ...meeting })),
+      findMeetingBySessionId: jest.fn().mockImplementation(async () => ({ ...meeting })),
+      transitionMeetingStatus: jest.fn().mockImplementation(applyTransition),
+      markMeetingFailed: jest.fn().mockImplementation((meetingId, reason) => applyTransition(meetingId, 'failed', reason)),
+      getMeetingStatusHistory: jest.fn().mockResolvedValue([]),
+      hasRecordings: jest.fn().mockResolvedValue(false),
+      hasPendingTranscripts: jest.fn().mockResolvedValue(false)
+    };
+    kafkaService = {
+      publish: jest.fn(),
+      subscribe: jest.fn().mockImplementation(async (_topic, _group, handler) => {
+        onTranscriptionEvent = handler;
+      })
+    };
+    eventEmitter = new EventEmitter2();
+    const configService = {
+      get: jest.fn().mockReturnValue({ transcriptionEvents: 'transcription-events', meetingEvents: 'meeting-events' })
+    };
+
+    service = new MeetingLifecycleService(
+      meetingPersistence as unknown as MeetingPersistenceService,
+      kafkaService as unknown as KafkaService,
+      eventEmitter,
+      configService as unknown as ConfigService
+    );
+    await service.onModuleInit();
+  });
+
+  describe('transitions', () => {
+    it('should store and publish an allowed move', async () => {
+      const change = await service.transition('meeting-1', 'joining' as never, 'Scheduled join');
+
+      expect(change).toEqual(expect.objectContaining({ from: 'scheduled', to: 'joining' }));
+      expect(kafkaService.publish).toHaveBeenCalledWith(
+        'meeting-events',
+        expect.objectContaining({
+          type: 'meeting.status_changed',
+          meetingId: 'meeting-1',
+          userId: 'user-1',
+          data: { from: 'scheduled', to: 'joining', reason: 'Scheduled join' }
+        }),
+        'meeting-1'
+      );
+    });
+
+    it('should reject a move the lifecycle does not allow', async () => {
+      await expect(service.transition('meeting-1', 'completed' as never, 'Too early')).rejects.toBeInstanceOf(
+        ConflictException
+      );
+      expect(meetingPersistence.transitionMeetingStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject a move that lost a race with another one', async () => {
+      meetingPersistence.transitionMeetingStatus.mockResolvedValue(null);
+
+      await expect(service.transition('meeting-1', 'joining' as never, 'Scheduled join')).rejects.toBeInstanceOf(
+        ConflictException
+      );
+      expect(kafkaService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should reject moves of unknown meetings', async () => {
+      meetingPersistence.findMeeting.mockResolvedValue(null);
+
+      await expect(service.transition('meeting-x', 'joining' as never, 'Scheduled join')).rejects.toBeInstanceOf(
+        NotFoundException
+      );
+    });
+
+    it('should fail meetings through the persistence that closes their recordings', async () => {
+      meeting.status = 'in_progress';
+
+      await service.transition('meeting-1', 'failed' as never, 'Bot was removed');
+
+      expect(meetingPersistence.markMeetingFailed).toHaveBeenCalledWith('meeting-1', 'Bot was removed');
+      expect(meetingPersistence.transitionMeetingStatus).not.toHaveBeenCalled();
+    });
+
+    it('should only let the organizer cancel', async () => {
+      await expect(service.cancel('meeting-1', 'user-2')).rejects.toBeInstanceOf(ForbiddenException);
+
+      await service.cancel('meeting-1', 'user-1');
+      expect(meeting.status).toBe('cancelled');
+    });
+  });
+
+  describe('session events', () => {
+    const emit = async (event: string, data: Record<string, unknown> = {}) => {
+      eventEmitter.emit(event, { sessionId: 'session-1', timestamp: new Date(), ...data });
+      await flush();
+    };
+
+    it('should move a meeting joined by hand through joining to in progress', async () => {
+      await emit('meeting.joined');
+
+      expect(statuses()).toEqual(['joining', 'in_progress']);
+    });
+
+    it('should complete a meeting that ends without recordings', async () => {
+      meeting.status = 'in_progress';
+
+      await emit('meeting.left');
+
+      expect(statuses()).toEqual(['processing', 'completed']);
+    });
+
+    it('should keep a meeting processing while its transcripts are produced', async () => {
+      meeting.status = 'in_progress';
+      meetingPersistence.hasRecordings.mockResolvedValue(true);
+      meetingPersistence.hasPendingTranscripts.mockResolvedValue(true);
+
+      await emit('platform.meeting_ended');
+
+      expect(meeting.status).toBe('processing');
+    });
+
+    it('should complete a meeting whose transcripts finished before it ended', async () => {
+      meeting.status = 'in_progress';
+      meetingPersistence.hasRecordings.mockResolvedValue(true);
+
+      await emit('meeting.left');
+
+      expect(meeting.status).toBe('completed');
+    });
+
+    it('should skip moves the meeting has already passed', async () => {
+      meeting.status = 'failed';
+
+      await emit('meeting.left');
+
+      expect(meetingPersistence.transitionMeetingStatus).not.toHaveBeenCalled();
+      expect(meeting.status).toBe('failed');
+    });
+
+    it('should fail the meeting when the connection fails', async () => {
+      meeting.status = 'in_progress';
+
+      await emit('meeting.connection_failed', { reason: 'Retries exhausted' });
+
+      expect(meetingPersistence.markMeetingFailed).toHaveBeenCalledWith('meeting-1', 'Retries exhausted');
+    });
+  });
+
+  describe('transcription events', () => {
+    beforeEach(() => {
+      meeting.status = 'processing';
+    });
+
+    it('should complete the meeting once its last transcript completes', async () => {
+      await receive({ type: 'transcription.completed', meetingId: 'meeting-1', transcriptId: 'transcript-1' });
+
+      expect(meeting.status).toBe('completed');
+    });
+
+    it('should wait for the meeting transcripts still being produced', async () => {
+      meetingPersistence.hasPendingTranscripts.mockResolvedValue(true);
+
+      await receive({ type: 'transcription.completed', meetingId: 'meeting-1', transcriptId: 'transcript-1' });
+
+      expect(meeting.status).toBe('processing');
+    });
+
+    it('should leave a meeting still in progress to complete when it ends', async () => {
+      meeting.status = 'in_progress';
+
+      await expect(
+        receive({ type: 'transcription.completed', meetingId: 'meeting-1', transcriptId: 'transcript-1' })
+      ).resolves.toBeUndefined();
+      expect(meeting.status).toBe('in_progress');
+    });
+
+    it('should fail the meeting when transcription fails', async () => {
+      await receive({ type: 'transcription.failed', meetingId: 'meeting-1', transcriptId: 'transcript-1' });
+
+      expect(meeting.status).toBe('failed');
+    });
+
+    it('should ignore unreadable messages', async () => {
+      await expect(onTranscriptionEvent({ value: Buffer.from('not json') })).resolves.toBeUndefined();
+      expect(meetingPersistence.findMeeting).not.toHaveBeenCalled();
+    });
+  });
+});
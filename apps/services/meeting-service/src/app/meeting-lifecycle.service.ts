@@ -0,0 +1,216 @@
+import { Injectable, Logger, OnModuleInit, NotFoundException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import * as crypto from 'crypto';
+import {
+  MeetingPersistenceService,
+  KafkaService,
+  MeetingStatus,
+  MeetingStatusChange,
+  MEETING_STATUS_TRANSITIONS,
+  MeetingEvent,
+  MeetingPlatformEvent,
+  TranscriptionEvent
+} from '@meetgenie/shared';
+
+// Payload of the recorder's meeting.* events
+interface SessionEvent {
+  sessionId: string;
+  reason?: string;
+  timestamp: Date;
+}
+
+// Owns meeting status: scheduled -> joining -> in_progress -> processing ->
+// completed, with failed and cancelled as the other final states. Every change
+// is validated, stored with its reason and published as a MeetingEvent
+@Injectable()
+export class MeetingLifecycleService implements OnModuleInit {
+  private readonly logger = new Logger(MeetingLifecycleService.name);
+  // Events for one session are applied in order so joins never overtake leaves
+  private sessionQueues = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly meetingPersistence: MeetingPersistenceService,
+    private readonly kafkaService: KafkaService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService
+  ) {}
+
+  async onModuleInit() {
+    this.eventEmitter.on('meeting.joined', (event: SessionEvent) => {
+      this.enqueue(event.sessionId, () => this.handleSessionJoined(event.sessionId));
+    });
+
+    this.eventEmitter.on('meeting.left', (event: SessionEvent) => {
+      this.enqueue(event.sessionId, () => this.handleSessionEnded(event.sessionId, 'Left the meeting'));
+    });
+
+    this.eventEmitter.on('platform.meeting_ended', (event: MeetingPlatformEvent) => {
+      this.enqueue(event.sessionId, () => this.handleSessionEnded(event.sessionId, 'Meeting ended on the platform'));
+    });
+
+    this.eventEmitter.on('meeting.connection_failed', (event: SessionEvent) => {
+      this.enqueue(event.sessionId, () =>
+        this.handleSessionFailed(event.sessionId, event.reason || 'Connection to the meeting failed')
+      );
+    });
+
+    // Processing is finished once the meeting's transcripts are
+    const topics = this.configService.get('kafka.topics');
+    await this.kafkaService.subscribe(topics.transcriptionEvents, 'meeting-service-lifecycle', async (message) => {
+      let event: TranscriptionEvent;
+      try {
+        event = JSON.parse(message.value?.toString() || '{}');
+      } catch {
+        this.logger.warn(`Ignoring unreadable message on ${topics.transcriptionEvents}`);
+        return;
+      }
+
+      if (event.type === 'transcription.completed' && event.meetingId) {
+        await this.handleTranscriptCompleted(event.meetingId);
+      } else if (event.type === 'transcription.failed' && event.meetingId) {
+        await this.advance(event.meetingId, MeetingStatus.FAILED, 'Transcription failed');
+      }
+    });
+  }
+
+  // Explicit transitions, e.g. from the scheduler or the API; illegal ones are rejected
+  async transition(meetingId: string, to: MeetingStatus, reason: string): Promise<MeetingStatusChange> {
+    const meeting = await this.meetingPersistence.findMeeting(meetingId);
+    if (!meeting) {
+      throw new NotFoundException(`Meeting not found: ${meetingId}`);
+    }
+
+    const from = meeting.status as MeetingStatus;
+    if (!MEETING_STATUS_TRANSITIONS[from].includes(to)) {
+      throw new ConflictException(`Meeting ${meetingId} cannot move from ${from} to ${to}`);
+    }
+
+    const change = to === MeetingStatus.FAILED
+      ? await this.meetingPersistence.markMeetingFailed(meetingId, reason)
+      : await this.meetingPersistence.transitionMeetingStatus(meetingId, to, reason);
+    if (!change) {
+      throw new ConflictException(`Meeting ${meetingId} is no longer ${from}`);
+    }
+
+    this.logger.log(`Meeting ${meetingId} moved from ${from} to ${to}: ${reason}`);
+    await this.publish(meeting.organizerId, change);
+    return change;
+  }
+
+  async cancel(meetingId: string, userId: string, reason?: string): Promise<MeetingStatusChange> {
+    const meeting = await this.meetingPersistence.findMeeting(meetingId);
+    if (!meeting) {
+      throw new NotFoundException(`Meeting not found: ${meetingId}`);
+    }
+    if (meeting.organizerId !== userId) {
+      throw new ForbiddenException('Only the organizer can cancel a meeting');
+    }
+
+    return this.transition(meetingId, MeetingStatus.CANCELLED, reason || 'Cancelled by the organizer');
+  }
+
+  async getHistory(meetingId: string): Promise<MeetingStatusChange[]> {
+    const meeting = await this.meetingPersistence.findMeeting(meetingId);
+    if (!meeting) {
+      throw new NotFoundException(`Meeting not found: ${meetingId}`);
+    }
+
+    return this.meetingPersistence.getMeetingStatusHistory(meetingId);
+  }
+
+  private async handleSessionJoined(sessionId: string): Promise<void> {
+    const meeting = await this.meetingPersistence.findMeetingBySessionId(sessionId);
+    if (!meeting) {
+      return;
+    }
+
+    // Meetings joined by hand skip the scheduler, which normally moves them to joining
+    if (meeting.status === MeetingStatus.SCHEDULED) {
+      await this.advance(meeting.id, MeetingStatus.JOINING, 'Joining the meeting');
+    }
+    await this.advance(meeting.id, MeetingStatus.IN_PROGRESS, 'Joined the meeting');
+  }
+
+  private async handleSessionEnded(sessionId: string, reason: string): Promise<void> {
+    const meeting = await this.meetingPersistence.findMeetingBySessionId(sessionId);
+    if (!meeting || !(await this.advance(meeting.id, MeetingStatus.PROCESSING, reason))) {
+      return;
+    }
+
+    if (!(await this.meetingPersistence.hasRecordings(meeting.id))) {
+      await this.advance(meeting.id, MeetingStatus.COMPLETED, 'Nothing was recorded to process');
+    } else if (!(await this.meetingPersistence.hasPendingTranscripts(meeting.id))) {
+      // Recordings stopped before the meeting ended may be transcribed already
+      await this.advance(meeting.id, MeetingStatus.COMPLETED, 'Transcripts completed');
+    }
+  }
+
+  // A transcript completing before the meeting ends is picked up when it does
+  private async handleTranscriptCompleted(meetingId: string): Promise<void> {
+    if (!(await this.meetingPersistence.hasPendingTranscripts(meetingId))) {
+      await this.advance(meetingId, MeetingStatus.COMPLETED, 'Transcripts completed');
+    }
+  }
+
+  private async handleSessionFailed(sessionId: string, reason: string): Promise<void> {
+    const meeting = await this.meetingPersistence.findMeetingBySessionId(sessionId);
+    if (meeting) {
+      await this.advance(meeting.id, MeetingStatus.FAILED, reason);
+    }
+  }
+
+  // Event-driven transitions are skipped, not rejected, when the meeting has
+  // already moved past them (e.g. a leave after the meeting failed)
+  private async advance(meetingId: string, to: MeetingStatus, reason: string): Promise<boolean> {
+    try {
+      await this.transition(meetingId, to, reason);
+      return true;
+    } catch (error) {
+      if (error instanceof ConflictException || error instanceof NotFoundException) {
+        this.logger.debug(`Skipping move of meeting ${meetingId} to ${to}: ${error.message}`);
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Publishing failures are logged; the stored transition stays the source of truth
+  private async publish(organizerId: string, change: MeetingStatusChange): Promise<void> {
+    const event: MeetingEvent = {
+      id: crypto.randomUUID(),
+      timestamp: change.changedAt,
+      version: '1.0',
+      source: 'meeting-service',
+      type: 'meeting.status_changed',
+      meetingId: change.meetingId,
+      userId: organizerId,
+      data: {
+        from: change.from,
+        to: change.to,
+        reason: change.reason
+      }
+    };
+
+    try {
+      const topics = this.configService.get('kafka.topics');
+      await this.kafkaService.publish(topics.meetingEvents, event, change.meetingId);
+    } catch (error) {
+      this.logger.error(`Failed to publish status change of meeting ${change.meetingId}:`, error);
+    }
+  }
+
+  private enqueue(sessionId: string, operation: () => Promise<void>): void {
+    const previous = this.sessionQueues.get(sessionId) || Promise.resolve();
+    const next = previous
+      .then(operation)
+      .catch(error => this.logger.error(`Failed to update meeting status for session ${sessionId}:`, error))
+      .finally(() => {
+        if (this.sessionQueues.get(sessionId) === next) {
+          this.sessionQueues.delete(sessionId);
+        }
+      });
+
+    this.sessionQueues.set(sessionId, next);
+  }
+}
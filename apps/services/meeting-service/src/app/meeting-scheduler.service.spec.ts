@@ -0,0 +1,221 @@
+import {
+  SessionQueuedError,
+  type MeetingRecorderService,
+  type MeetingPersistenceService,
+  type PlatformConnectionService,
+  type RedisService
+} from '@meetgenie/shared';
+import type { MeetingLifecycleService } from './meeting-lifecycle.service';
+import { MeetingSchedulerService } from './meeting-scheduler.service';
+
+jest.mock('@meetgenie/shared', () => ({
+  MeetingRecorderService: class {},
+  MeetingPersistenceService: class {},
+  PlatformConnectionService: class {},
+  RedisService: class {},
+  SessionQueuedError: class extends Error {
+    constructor(
+      message: string,
+      readonly ticket: string,
+      readonly position: number,
+      readonly retryAfterSeconds: number
+    ) {
+      super(message);
+    }
+  },
+  MeetingStatus: {
+    SCHEDULED: 'scheduled',
+    JOINING: 'joining',
+    IN_PROGRESS: 'in_progress',
+    FAILED: 'failed'
+  },
+  DEFAULT_RECORDING_CONFIG: { audioOnly: true, autoStart: true, autoStop: true, cloudStorage: true, localStorage: false }
+}));
+jest.mock('./meeting-lifecycle.service', () => ({ MeetingLifecycleService: class {} }));
+
+describe('MeetingSchedulerService', () => {
+  const session = { sessionId: 'session-1', meetingId: 'zoom-123', platform: 'zoom' };
+  const credentials = { platform: 'zoom', accessToken: 'organizer-token' };
+
+  let meeting: Record<string, unknown>;
+  let locks: Set<string>;
+  let redisService: { acquireLock: jest.Mock; releaseLock: jest.Mock; expire: jest.Mock };
+  let adapter: { getMeetingInfo: jest.Mock; retryWithBackoff: jest.Mock };
+  let meetingRecorder: {
+    getPlatformAdapter: jest.Mock;
+    findSessionByPlatformMeeting: jest.Mock;
+    joinMeeting: jest.Mock;
+    startRecording: jest.Mock;
+    leaveMeeting: jest.Mock;
+  };
+  let meetingPersistence: { findMeetingsDueForAutoJoin: jest.Mock; findMeeting: jest.Mock };
+  let platformConnections: { getCredentials: jest.Mock };
+  let meetingLifecycle: { transition: jest.Mock };
+  let service: MeetingSchedulerService;
+
+  // Joins run in the background of the scan; waiting in line takes a timer
+  const flush = async () => {
+    for (let i = 0; i < 20; i++) {
+      await new Promise(resolve => setTimeout(resolve, 1));
+    }
+  };
+  const statuses = () => meetingLifecycle.transition.mock.calls.map(([, to]) => to);
+
+  beforeEach(() => {
+    meeting = {
+      id: 'meeting-1',
+      platform: 'zoom',
+      platformMeetingId: 'zoom-123',
+      status: 'scheduled',
+      sessionId: null,
+      title: 'Standup',
+      scheduledTime: new Date(),
+      organizerId: 'user-1',
+      metadata: { meetingUrl: 'https://zoom.us/j/123', password: 'secret' },
+      organizer: { email: 'host@example.com', preferences: { recording: { multiTrack: true } } }
+    };
+    locks = new Set();
+    redisService = {
+      acquireLock: jest.fn(async (key: string) => {
+        if (locks.has(key)) {
+          return null;
+        }
+        locks.add(key);
+        return 'lock-token';
+      }),
+      releaseLock: jest.fn(async (key: string) => locks.delete(key)),
+      expire: jest.fn(async () => true)
+    };
+    // Retries straight away, as often as the adapter's backoff would
+    adapter = {
+      getMeetingInfo: jest.fn(async () => ({ meetingUrl: 'https://zoom.us/j/123?pwd=platform', password: 'platform' })),
+      retryWithBackoff: jest.fn(async (operation: () => Promise<unknown>, maxRetries: number) => {
+        for (let attempt = 0; ; attempt++) {
+          try {
+            return await operation();
+          } catch (error) {
+            if (attempt === maxRetries) {
+              throw error;
+            }
+          }
+        }
+      })
+    };
+    meetingRecorder = {
+      getPlatformAdapter: jest.fn(() => adapter),
+      findSessionByPlatformMeeting: jest.fn(() => undefined),
+      joinMeeting: jest.fn(async () => session),
+      startRecording: jest.fn(async () => ({ id: 'rec-1' })),
+      leaveMeeting: jest.fn(async () => undefined)
+    };
+    meetingPersistence = {
+      findMeetingsDueForAutoJoin: jest.fn(async () => [meeting]),
+      findMeeting: jest.fn(async () => ({ ...meeting }))
+    };
+    platformConnections = { getCredentials: jest.fn(async () => credentials) };
+    meetingLifecycle = { transition: jest.fn(async () => undefined) };
+
+    service = new MeetingSchedulerService(
+      meetingRecorder as unknown as MeetingRecorderService,
+      meetingPersistence as unknown as MeetingPersistenceService,
+      platformConnections as unknown as PlatformConnectionService,
+      redisService as unknown as RedisService,
+      meetingLifecycle as unknown as MeetingLifecycleService
+    );
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  it("should join due meetings under a lock and record them with the organizer's settings", async () => {
+    await service.scanUpcomingMeetings();
+    await flush();
+
+    expect(redisService.acquireLock).toHaveBeenCalledWith('meeting:auto-join:meeting-1', 600);
+    expect(statuses()).toEqual(['joining']);
+    expect(meetingRecorder.joinMeeting).toHaveBeenCalledWith(
+      expect.objectContaining({
+        meetingId: 'zoom-123',
+        meetingUrl: 'https://zoom.us/j/123',
+        password: 'secret',
+        organizerId: 'user-1',
+        scheduledMeetingId: 'meeting-1'
+      }),
+      undefined
+    );
+    expect(meetingRecorder.startRecording).toHaveBeenCalledWith(
+      'session-1',
+      expect.objectContaining({ autoStart: true, multiTrack: true })
+    );
+    expect(adapter.getMeetingInfo).not.toHaveBeenCalled();
+    expect(locks.size).toBe(0);
+  });
+
+  it('should leave a meeting to the replica holding its lock', async () => {
+    locks.add('meeting:auto-join:meeting-1');
+
+    await service.scanUpcomingMeetings();
+    await flush();
+
+    expect(meetingPersistence.findMeeting).not.toHaveBeenCalled();
+    expect(meetingRecorder.joinMeeting).not.toHaveBeenCalled();
+  });
+
+  it('should skip a meeting that was joined between the scan and taking the lock', async () => {
+    meetingPersistence.findMeeting.mockResolvedValue({ ...meeting, status: 'joining', sessionId: 'session-0' });
+
+    await service.scanUpcomingMeetings();
+    await flush();
+
+    expect(meetingLifecycle.transition).not.toHaveBeenCalled();
+    expect(meetingRecorder.joinMeeting).not.toHaveBeenCalled();
+    expect(locks.size).toBe(0);
+  });
+
+  it('should retry a failing join and then fail the meeting', async () => {
+    meetingRecorder.joinMeeting.mockRejectedValue(new Error('Meeting has not started'));
+
+    await service.scanUpcomingMeetings();
+    await flush();
+
+    // The first attempt and AUTO_JOIN_MAX_RETRIES more
+    expect(meetingRecorder.joinMeeting).toHaveBeenCalledTimes(4);
+    expect(statuses()).toEqual(['joining', 'failed']);
+    expect(meetingLifecycle.transition).toHaveBeenLastCalledWith(
+      'meeting-1',
+      'failed',
+      'Auto-join failed: Meeting has not started'
+    );
+    expect(meetingRecorder.startRecording).not.toHaveBeenCalled();
+    expect(locks.size).toBe(0);
+  });
+
+  it('should wait in line with its queue ticket while over a session limit', async () => {
+    meetingRecorder.joinMeeting.mockRejectedValueOnce(new SessionQueuedError('Over the session limit', 'ticket-1', 2, 0));
+
+    await service.scanUpcomingMeetings();
+    await flush();
+
+    expect(meetingRecorder.joinMeeting).toHaveBeenCalledTimes(2);
+    expect(meetingRecorder.joinMeeting).toHaveBeenLastCalledWith(expect.anything(), 'ticket-1');
+    // Waiting keeps the lock so no other replica takes the join over
+    expect(redisService.expire).toHaveBeenCalledWith('meeting:auto-join:meeting-1', 600);
+    expect(adapter.retryWithBackoff).toHaveBeenCalledTimes(2);
+    expect(statuses()).toEqual(['joining']);
+  });
+
+  it("should look up a missing join URL with the organizer's connection", async () => {
+    meeting.metadata = {};
+
+    await service.scanUpcomingMeetings();
+    await flush();
+
+    expect(platformConnections.getCredentials).toHaveBeenCalledWith('user-1', 'zoom');
+    expect(adapter.getMeetingInfo).toHaveBeenCalledWith('zoom-123', credentials);
+    expect(meetingRecorder.joinMeeting).toHaveBeenCalledWith(
+      expect.objectContaining({ meetingUrl: 'https://zoom.us/j/123?pwd=platform', password: 'platform' }),
+      undefined
+    );
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import {
+  MeetingRecorderService,
+  MeetingPersistenceService,
+  PlatformConnectionService,
+  RedisService,
+  SessionQueuedError,
+  MeetingPlatform,
+  MeetingStatus,
+  MeetingJoinInfo,
+  MeetingSession,
+  RecordingConfig,
+  DEFAULT_RECORDING_CONFIG
+} from '@meetgenie/shared';
+import { MeetingLifecycleService } from './meeting-lifecycle.service';
+
+type DueMeeting = Awaited<ReturnType<MeetingPersistenceService['findMeetingsDueForAutoJoin']>>[number];
+
+@Injectable()
+export class MeetingSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MeetingSchedulerService.name);
+  private scanInterval: NodeJS.Timeout | null = null;
+  private tokenRefreshInterval: NodeJS.Timeout | null = null;
+  private inFlight = new Set<string>();
+  private stopped = false;
+
+  // Auto-join settings, overridable through environment variables
+  private readonly leadSeconds = Number(process.env.AUTO_JOIN_LEAD_SECONDS || 60);
+  private readonly scanIntervalMs = Number(process.env.AUTO_JOIN_SCAN_INTERVAL_MS || 30000);
+  private readonly maxLatenessSeconds = Number(process.env.AUTO_JOIN_MAX_LATENESS_SECONDS || 900);
+  private readonly maxRetries = Number(process.env.AUTO_JOIN_MAX_RETRIES || 3);
+  private readonly retryBaseDelayMs = Number(process.env.AUTO_JOIN_RETRY_BASE_DELAY_MS || 2000);
+  private readonly lockTtlSeconds = 600;
+  // Connected-account tokens are refreshed ahead of expiry, not only on join
+  private readonly tokenRefreshIntervalMs = Number(process.env.PLATFORM_TOKEN_REFRESH_INTERVAL_MS || 300000);
+
+  constructor(
+    private readonly meetingRecorder: MeetingRecorderService,
+    private readonly meetingPersistence: MeetingPersistenceService,
+    private readonly platformConnections: PlatformConnectionService,
+    private readonly redisService: RedisService,
+    private readonly meetingLifecycle: MeetingLifecycleService
+  ) {}
+
+  onModuleInit() {
+    this.tokenRefreshInterval = setInterval(() => {
+      this.platformConnections
+        .refreshExpiringConnections((this.tokenRefreshIntervalMs / 1000) * 2)
+        .catch(error => this.logger.error('Failed to refresh platform connections:', error));
+    }, this.tokenRefreshIntervalMs);
+
+    if (process.env.AUTO_JOIN_ENABLED === 'false') {
+      this.logger.log('Scheduled auto-join is disabled');
+      return;
+    }
+
+    this.scanInterval = setInterval(() => {
+      this.scanUpcomingMeetings().catch(error =>
+        this.logger.error('Failed to scan upcoming meetings:', error)
+      );
+    }, this.scanIntervalMs);
+
+    this.logger.log(`Scheduled auto-join enabled with ${this.leadSeconds}s lead`);
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+
+    if (this.tokenRefreshInterval) {
+      clearInterval(this.tokenRefreshInterval);
+      this.tokenRefreshInterval = null;
+    }
+
+    if (this.scanInterval) {
+      clearInterval(this.scanInterval);
+      this.scanInterval = null;
+    }
+  }
+
+  async scanUpcomingMeetings(): Promise<void> {
+    const now = Date.now();
+    const meetings = await this.meetingPersistence.findMeetingsDueForAutoJoin(
+      new Date(now - this.maxLatenessSeconds * 1000),
+      new Date(now + this.leadSeconds * 1000)
+    );
+
+    for (const meeting of meetings) {
+      if (this.inFlight.has(meeting.id)) {
+        continue;
+      }
+
+      this.inFlight.add(meeting.id);
+      this.autoJoinMeeting(meeting)
+        .catch(error => this.logger.error(`Auto-join of meeting ${meeting.id} failed:`, error))
+        .finally(() => this.inFlight.delete(meeting.id));
+    }
+  }
+
+  private async autoJoinMeeting(meeting: DueMeeting): Promise<void> {
+    const lockKey = `meeting:auto-join:${meeting.id}`;
+    const lockToken = await this.redisService.acquireLock(lockKey, this.lockTtlSeconds);
+    if (!lockToken) {
+      this.logger.debug(`Meeting ${meeting.id} is being joined by another replica`);
+      return;
+    }
+
+    try {
+      const platform = meeting.platform as MeetingPlatform;
+
+      // Another replica may have joined between our scan and taking the lock
+      const current = await this.meetingPersistence.findMeeting(meeting.id);
+      if (
+        !current ||
+        current.status !== MeetingStatus.SCHEDULED ||
+        current.sessionId ||
+        this.meetingRecorder.findSessionByPlatformMeeting(platform, meeting.platformMeetingId)
+      ) {
+        this.logger.debug(`Meeting ${meeting.id} is no longer waiting to be joined`);
+        return;
+      }
+
+      const adapter = this.meetingRecorder.getPlatformAdapter(platform);
+      if (!adapter) {
+        throw new Error(`No adapter registered for platform: ${platform}`);
+      }
+
+      const joinInfo = await this.buildJoinInfo(meeting);
+      const config = this.getRecordingConfig(meeting.organizer.preferences);
+
+      this.logger.log(`Auto-joining meeting ${meeting.id} (${platform} ${meeting.platformMeetingId})`);
+      await this.meetingLifecycle.transition(meeting.id, MeetingStatus.JOINING, 'Auto-join started');
+
+      let session;
+      try {
+        session = await adapter.retryWithBackoff(
+          () => this.joinInLine(meeting, joinInfo, lockKey),
+          this.maxRetries,
+          this.retryBaseDelayMs
+        );
+      } catch (error) {
+        await this.meetingLifecycle.transition(
+          meeting.id,
+          MeetingStatus.FAILED,
+          `Auto-join failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+        return;
+      }
+
+      if (!config.autoStart) {
+        return;
+      }
+
+      try {
+        await adapter.retryWithBackoff(
+          () => this.meetingRecorder.startRecording(session.sessionId, config),
+          this.maxRetries,
+          this.retryBaseDelayMs
+        );
+      } catch (error) {
+        // Failed before leaving, so the leave does not move the meeting to processing
+        await this.meetingLifecycle.transition(
+          meeting.id,
+          MeetingStatus.FAILED,
+          `Auto-start recording failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+        await this.meetingRecorder.leaveMeeting(session.sessionId).catch(leaveError =>
+          this.logger.error(`Failed to leave session ${session.sessionId}:`, leaveError)
+        );
+      }
+    } finally {
+      await this.redisService.releaseLock(lockKey, lockToken).catch(error =>
+        this.logger.error(`Failed to release auto-join lock for ${meeting.id}:`, error)
+      );
+    }
+  }
+
+  // A join over a session limit keeps its place in line by retrying with its
+  // queue ticket, until the meeting is too late to join
+  private async joinInLine(meeting: DueMeeting, joinInfo: MeetingJoinInfo, lockKey: string): Promise<MeetingSession> {
+    const deadline = meeting.scheduledTime.getTime() + this.maxLatenessSeconds * 1000;
+    let queueTicket: string | undefined;
+
+    for (;;) {
+      try {
+        return await this.meetingRecorder.joinMeeting(joinInfo, queueTicket);
+      } catch (error) {
+        const retryAt = error instanceof SessionQueuedError ? Date.now() + error.retryAfterSeconds * 1000 : Infinity;
+        if (!(error instanceof SessionQueuedError) || this.stopped || retryAt > deadline) {
+          throw error;
+        }
+
+        this.logger.log(`Auto-join of meeting ${meeting.id} is waiting for a session slot (position ${error.position})`);
+        queueTicket = error.ticket;
+        // Waiting in line must not let another replica take over the join
+        await this.redisService.expire(lockKey, this.lockTtlSeconds);
+        await new Promise(resolve => setTimeout(resolve, error.retryAfterSeconds * 1000));
+      }
+    }
+  }
+
+  private async buildJoinInfo(meeting: DueMeeting): Promise<MeetingJoinInfo> {
+    const platform = meeting.platform as MeetingPlatform;
+    const metadata = (meeting.metadata ?? {}) as Record<string, unknown>;
+
+    const joinInfo: MeetingJoinInfo = {
+      meetingId: meeting.platformMeetingId,
+      meetingUrl: typeof metadata.meetingUrl === 'string' ? metadata.meetingUrl : '',
+      password: typeof metadata.password === 'string' ? metadata.password : undefined,
+      platform,
+      scheduledTime: meeting.scheduledTime,
+      hostEmail: meeting.organizer.email,
+      title: meeting.title,
+      organizerId: meeting.organizerId,
+      scheduledMeetingId: meeting.id
+    };
+
+    if (!joinInfo.meetingUrl) {
+      // Fall back to the platform for the join URL and password, asked as the
+      // organizer's connected account since it is their meeting
+      const adapter = this.meetingRecorder.getPlatformAdapter(platform);
+      const credentials = await this.platformConnections.getCredentials(meeting.organizerId, platform);
+      const platformInfo = await adapter?.getMeetingInfo(meeting.platformMeetingId, credentials ?? undefined);
+      joinInfo.meetingUrl = platformInfo?.meetingUrl || '';
+      joinInfo.password = joinInfo.password ?? platformInfo?.password;
+    }
+
+    return joinInfo;
+  }
+
+  private getRecordingConfig(preferences: unknown): RecordingConfig {
+    const recording =
+      preferences && typeof preferences === 'object'
+        ? (preferences as { recording?: Partial<RecordingConfig> }).recording
+        : undefined;
+
+    return { ...DEFAULT_RECORDING_CONFIG, ...recording };
+  }
+}
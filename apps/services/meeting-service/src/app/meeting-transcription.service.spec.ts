@@ -0,0 +1,230 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { ConfigService } from '@nestjs/config';
+import { PassThrough } from 'stream';
+import type {
+  KafkaService,
+  MeetingPersistenceService,
+  MeetingRecorderService,
+  TranscriptPersistenceService,
+  TranscriptionServiceImpl
+} from '@meetgenie/shared';
+import { MeetingTranscriptionService } from './meeting-transcription.service';
+
+jest.mock('@meetgenie/shared', () => ({
+  MeetingRecorderService: class {},
+  MeetingPersistenceService: class {},
+  TranscriptPersistenceService: class {},
+  TranscriptionServiceImpl: class {},
+  KafkaService: class {},
+  AUTO_LANGUAGE: 'auto'
+}));
+
+describe('MeetingTranscriptionService', () => {
+  let meetingRecorder: { getAudioStream: jest.Mock; getParticipantAudioStreams: jest.Mock };
+  let transcriptionService: {
+    openLiveTranscription: jest.Mock;
+    attachAudioStream: jest.Mock;
+    attachAudioTrack: jest.Mock;
+    finalizeTranscript: jest.Mock;
+  };
+  let meetingPersistence: { findMeetingBySessionId: jest.Mock };
+  let transcriptPersistence: { createTranscript: jest.Mock; markTranscriptFailed: jest.Mock };
+  let kafkaService: { publish: jest.Mock };
+  let eventEmitter: EventEmitter2;
+  let mixed: PassThrough;
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  const startRecording = async (multiTrack: boolean) => {
+    eventEmitter.emit('recording.started', { recordingId: 'rec-1', sessionId: 'session-1', meetingId: 'meeting-1', multiTrack });
+    await flush();
+  };
+
+  beforeEach(() => {
+    mixed = new PassThrough();
+    meetingRecorder = {
+      getAudioStream: jest.fn().mockResolvedValue(mixed),
+      getParticipantAudioStreams: jest.fn()
+    };
+    transcriptionService = {
+      openLiveTranscription: jest.fn().mockResolvedValue({ sessionId: 'transcription-1' }),
+      attachAudioStream: jest.fn().mockResolvedValue(undefined),
+      attachAudioTrack: jest.fn().mockResolvedValue(undefined),
+      finalizeTranscript: jest.fn().mockResolvedValue({ segments: [{}, {}], language: 'en' })
+    };
+    meetingPersistence = { findMeetingBySessionId: jest.fn().mockResolvedValue({ id: 'meeting-row-1' }) };
+    transcriptPersistence = {
+      createTranscript: jest.fn().mockResolvedValue('transcript-1'),
+      markTranscriptFailed: jest.fn().mockResolvedValue(undefined)
+    };
+    kafkaService = { publish: jest.fn() };
+    eventEmitter = new EventEmitter2();
+    const configService = { get: jest.fn().mockReturnValue({ transcriptionEvents: 'transcription-events' }) };
+
+    const service = new MeetingTranscriptionService(
+      meetingRecorder as unknown as MeetingRecorderService,
+      meetingPersistence as unknown as MeetingPersistenceService,
+      transcriptPersistence as unknown as TranscriptPersistenceService,
+      transcriptionService as unknown as TranscriptionServiceImpl,
+      kafkaService as unknown as KafkaService,
+      eventEmitter,
+      configService as unknown as ConfigService
+    );
+    service.onModuleInit();
+  });
+
+  it('should transcribe the mixed audio of a single-track recording', async () => {
+    await startRecording(false);
+
+    expect(meetingRecorder.getParticipantAudioStreams).not.toHaveBeenCalled();
+    expect(transcriptionService.attachAudioStream).toHaveBeenCalledWith('transcription-1', mixed);
+  });
+
+  it('should leave recordings without live audio to their cloud recording', async () => {
+    eventEmitter.emit('recording.started', { recordingId: 'rec-1', sessionId: 'session-1', meetingId: 'meeting-1', liveAudio: false });
+    await flush();
+
+    expect(transcriptPersistence.createTranscript).not.toHaveBeenCalled();
+    expect(transcriptionService.openLiveTranscription).not.toHaveBeenCalled();
+  });
+
+  it("should attach each participant's audio of a multi-track recording as their own track", async () => {
+    const alice = new PassThrough();
+    const bob = new PassThrough();
+    meetingRecorder.getParticipantAudioStreams.mockResolvedValue([
+      { participantId: 'alice', name: 'Alice', stream: alice },
+      { participantId: 'bob', stream: bob }
+    ]);
+
+    await startRecording(true);
+
+    expect(transcriptionService.attachAudioTrack).toHaveBeenCalledWith('transcription-1', {
+      speakerId: 'alice',
+      speakerName: 'Alice',
+      stream: alice
+    });
+    expect(transcriptionService.attachAudioTrack).toHaveBeenCalledWith('transcription-1', {
+      speakerId: 'bob',
+      speakerName: undefined,
+      stream: bob
+    });
+    expect(meetingRecorder.getAudioStream).not.toHaveBeenCalled();
+    expect(transcriptionService.attachAudioStream).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the mixed audio when the participant tracks cannot be opened', async () => {
+    meetingRecorder.getParticipantAudioStreams.mockRejectedValue(new Error('Per-participant audio is not supported'));
+
+    await startRecording(true);
+
+    expect(transcriptionService.attachAudioTrack).not.toHaveBeenCalled();
+    expect(transcriptionService.attachAudioStream).toHaveBeenCalledWith('transcription-1', mixed);
+  });
+
+  it('should fall back to the mixed audio when there are no participant tracks', async () => {
+    meetingRecorder.getParticipantAudioStreams.mockResolvedValue([]);
+
+    await startRecording(true);
+
+    expect(transcriptionService.attachAudioStream).toHaveBeenCalledWith('transcription-1', mixed);
+  });
+
+  it('should drop the tracks from before a reconnection and attach the new ones', async () => {
+    const before = new PassThrough();
+    const after = new PassThrough();
+    meetingRecorder.getParticipantAudioStreams
+      .mockResolvedValueOnce([{ participantId: 'alice', stream: before }])
+      .mockResolvedValueOnce([{ participantId: 'alice', stream: after }]);
+
+    await startRecording(true);
+    eventEmitter.emit('meeting.connection_gap', {
+      sessionId: 'session-1',
+      recordingId: 'rec-1',
+      gap: { start: 1000, end: 2000, reason: 'disconnected' },
+      restored: true
+    });
+    await flush();
+
+    expect(before.destroyed).toBe(true);
+    expect(transcriptionService.attachAudioTrack).toHaveBeenLastCalledWith(
+      'transcription-1',
+      expect.objectContaining({ speakerId: 'alice', stream: after })
+    );
+  });
+
+  it('should close the tracks and finalize the transcript when the recording stops', async () => {
+    const alice = new PassThrough();
+    meetingRecorder.getParticipantAudioStreams.mockResolvedValue([{ participantId: 'alice', stream: alice }]);
+
+    await startRecording(true);
+    eventEmitter.emit('recording.stopped', { recordingId: 'rec-1', sessionId: 'session-1', meetingId: 'meeting-1' });
+    await flush();
+
+    expect(alice.destroyed).toBe(true);
+    expect(transcriptionService.finalizeTranscript).toHaveBeenCalledWith('transcription-1');
+  });
+
+  describe('transcripts', () => {
+    const stopRecording = async () => {
+      eventEmitter.emit('recording.stopped', { recordingId: 'rec-1', sessionId: 'session-1', meetingId: 'meeting-1' });
+      await flush();
+    };
+
+    it("should write the transcription into a new transcript of the recorder's meeting", async () => {
+      await startRecording(false);
+
+      expect(transcriptPersistence.createTranscript).toHaveBeenCalledWith('meeting-row-1');
+      expect(transcriptionService.openLiveTranscription).toHaveBeenCalledWith(
+        expect.objectContaining({ transcriptId: 'transcript-1' })
+      );
+    });
+
+    it('should publish the completed transcript so the meeting can complete', async () => {
+      await startRecording(false);
+      await stopRecording();
+
+      expect(kafkaService.publish).toHaveBeenCalledWith(
+        'transcription-events',
+        expect.objectContaining({
+          type: 'transcription.completed',
+          meetingId: 'meeting-row-1',
+          transcriptId: 'transcript-1',
+          data: { segmentCount: 2, language: 'en' }
+        }),
+        'meeting-row-1'
+      );
+    });
+
+    it('should fail the transcript when it cannot be finalized', async () => {
+      transcriptionService.finalizeTranscript.mockRejectedValue(new Error('model unavailable'));
+
+      await startRecording(false);
+      await stopRecording();
+
+      expect(transcriptPersistence.markTranscriptFailed).toHaveBeenCalledWith('transcript-1');
+      expect(kafkaService.publish).toHaveBeenCalledWith(
+        'transcription-events',
+        expect.objectContaining({ type: 'transcription.failed', transcriptId: 'transcript-1' }),
+        'meeting-row-1'
+      );
+    });
+
+    it('should finalize a recording stopped while its transcription was still opening', async () => {
+      eventEmitter.emit('recording.started', { recordingId: 'rec-1', sessionId: 'session-1', meetingId: 'meeting-1' });
+      await stopRecording();
+
+      expect(transcriptionService.finalizeTranscript).toHaveBeenCalledWith('transcription-1');
+    });
+
+    it('should transcribe meetings that were never persisted without storing or publishing', async () => {
+      meetingPersistence.findMeetingBySessionId.mockResolvedValue(null);
+
+      await startRecording(false);
+      await stopRecording();
+
+      expect(transcriptPersistence.createTranscript).not.toHaveBeenCalled();
+      expect(transcriptionService.finalizeTranscript).toHaveBeenCalled();
+      expect(kafkaService.publish).not.toHaveBeenCalled();
+    });
+  });
+});
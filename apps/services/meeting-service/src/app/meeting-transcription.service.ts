@@ -0,0 +1,285 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Readable } from 'stream';
+import * as crypto from 'crypto';
+import {
+  MeetingRecorderService,
+  MeetingPersistenceService,
+  TranscriptPersistenceService,
+  TranscriptionServiceImpl,
+  TranscriptionConfig,
+  AUTO_LANGUAGE,
+  TranscriptionEvent,
+  KafkaService,
+  ConnectionGap
+} from '@meetgenie/shared';
+
+// Payload of the recorder's recording.* events
+interface RecordingEvent {
+  recordingId: string;
+  sessionId: string;
+  meetingId: string;
+  multiTrack?: boolean;
+  liveAudio?: boolean;
+}
+
+// Payload of the recorder's meeting.connection_gap event
+interface ConnectionGapEvent {
+  sessionId: string;
+  recordingId?: string;
+  gap: ConnectionGap;
+  restored: boolean;
+}
+
+// A participant's track, or the mixed audio when speakerId is unset
+interface AudioSource {
+  speakerId?: string;
+  speakerName?: string;
+  stream: NodeJS.ReadableStream;
+}
+
+interface LiveTranscription {
+  transcriptionSessionId: string;
+  // Unset for meetings that were never persisted, whose transcripts are not stored
+  meetingId?: string;
+  transcriptId?: string;
+  multiTrack: boolean;
+  audio: NodeJS.ReadableStream[];
+  generation: number; // bumped whenever the attached audio is replaced or dropped
+  // Settles once the attached audio has been transcribed
+  attached: Promise<void>;
+}
+
+// Transcribes recordings live from the meeting's audio. A reconnection gives
+// the meeting session a new audio stream, which is attached to the same
+// transcription session, so the transcript carries on after the gap.
+// Multi-track recordings attach each participant's audio as its own track,
+// or the mixed audio where the platform cannot deliver the tracks. Results are
+// published like those of recorded transcriptions, to complete the meeting
+@Injectable()
+export class MeetingTranscriptionService implements OnModuleInit {
+  private readonly logger = new Logger(MeetingTranscriptionService.name);
+  private transcriptions = new Map<string, LiveTranscription>(); // recordingId -> transcription
+  private starting = new Map<string, Promise<void>>(); // recordingId -> transcription being opened
+
+  // Adapters deliver meeting audio as the raw PCM the pipeline expects
+  private readonly config: TranscriptionConfig = {
+    modelName: 'facebook/wav2vec2-large-960h-lv60-self',
+    language: AUTO_LANGUAGE,
+    enableSpeakerDiarization: true,
+    chunkSize: 1024 * 16,
+    overlapSize: 1024 * 2,
+    confidenceThreshold: 0.7,
+    sampleRate: 16000,
+    channels: 1,
+    bitDepth: 16
+  };
+
+  constructor(
+    private readonly meetingRecorder: MeetingRecorderService,
+    private readonly meetingPersistence: MeetingPersistenceService,
+    private readonly transcriptPersistence: TranscriptPersistenceService,
+    private readonly transcriptionService: TranscriptionServiceImpl,
+    private readonly kafkaService: KafkaService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService
+  ) {}
+
+  onModuleInit() {
+    this.eventEmitter.on('recording.started', (event: RecordingEvent) => {
+      // Platforms without live audio are transcribed from their cloud recordings
+      if (event.liveAudio === false) {
+        return;
+      }
+      if (this.transcriptions.has(event.recordingId) || this.starting.has(event.recordingId)) {
+        return;
+      }
+
+      const starting = this.startTranscription(event).finally(() => this.starting.delete(event.recordingId));
+      this.starting.set(event.recordingId, starting);
+    });
+
+    this.eventEmitter.on('meeting.connection_gap', (event: ConnectionGapEvent) => {
+      if (event.restored && event.recordingId) {
+        this.reattachAudio(event.recordingId, event.sessionId);
+      }
+    });
+
+    this.eventEmitter.on('recording.stopped', (event: RecordingEvent) => {
+      this.finishTranscription(event.recordingId);
+    });
+  }
+
+  private async startTranscription(event: RecordingEvent): Promise<void> {
+    let meetingId: string | undefined;
+    let transcriptId: string | undefined;
+
+    try {
+      const meeting = await this.meetingPersistence.findMeetingBySessionId(event.sessionId);
+      meetingId = meeting?.id;
+      transcriptId = meeting ? await this.transcriptPersistence.createTranscript(meeting.id) : undefined;
+
+      const session = await this.transcriptionService.openLiveTranscription({ ...this.config, transcriptId });
+      session.meetingId = event.meetingId;
+
+      const transcription: LiveTranscription = {
+        transcriptionSessionId: session.sessionId,
+        meetingId,
+        transcriptId,
+        multiTrack: !!event.multiTrack,
+        audio: [],
+        generation: 0,
+        attached: Promise.resolve()
+      };
+      this.transcriptions.set(event.recordingId, transcription);
+      this.attachAudio(transcription, event.sessionId);
+
+      this.logger.log(`Transcribing recording ${event.recordingId} in session ${session.sessionId}`);
+    } catch (error) {
+      this.logger.error(`Failed to start transcribing recording ${event.recordingId}:`, error);
+      await this.failTranscript(meetingId, transcriptId, error);
+    }
+  }
+
+  // The stream from before the gap is dropped, should the adapter not have ended it
+  private reattachAudio(recordingId: string, sessionId: string): void {
+    const transcription = this.transcriptions.get(recordingId);
+    if (!transcription) {
+      return;
+    }
+
+    this.logger.log(`Reattaching audio of session ${sessionId} to recording ${recordingId}'s transcription`);
+    this.detachAudio(transcription);
+    this.attachAudio(transcription, sessionId);
+  }
+
+  private attachAudio(transcription: LiveTranscription, sessionId: string): void {
+    const previous = transcription.attached;
+    const generation = transcription.generation;
+
+    transcription.attached = this.openAudio(sessionId, transcription.multiTrack)
+      .then(async tracks => {
+        // Replaced or stopped while the streams were being opened
+        if (transcription.generation !== generation) {
+          tracks.forEach(track => this.destroyStream(track.stream));
+          return;
+        }
+
+        transcription.audio = tracks.map(track => track.stream);
+        // Windows of the previous streams are written before the new ones start
+        await previous;
+        await Promise.all(
+          tracks.map(({ speakerId, speakerName, stream }) =>
+            speakerId
+              ? this.transcriptionService.attachAudioTrack(transcription.transcriptionSessionId, { speakerId, speakerName, stream })
+              : this.transcriptionService.attachAudioStream(transcription.transcriptionSessionId, stream)
+          )
+        );
+      })
+      .catch(error => {
+        this.logger.error(`Failed to transcribe audio of session ${sessionId}:`, error);
+      });
+  }
+
+  // Participants who join later are picked up at the next reconnection
+  private async openAudio(sessionId: string, multiTrack: boolean): Promise<AudioSource[]> {
+    if (multiTrack) {
+      try {
+        const participants = await this.meetingRecorder.getParticipantAudioStreams(sessionId);
+        if (participants.length > 0) {
+          return participants.map(participant => ({
+            speakerId: participant.participantId,
+            speakerName: participant.name,
+            stream: participant.stream
+          }));
+        }
+        this.logger.warn(`No participant audio in session ${sessionId}; transcribing the mixed audio`);
+      } catch (error) {
+        this.logger.warn(`Failed to open participant audio of session ${sessionId}; transcribing the mixed audio:`, error);
+      }
+    }
+
+    return [{ stream: await this.meetingRecorder.getAudioStream(sessionId) }];
+  }
+
+  private detachAudio(transcription: LiveTranscription): void {
+    transcription.generation++;
+    transcription.audio.forEach(audio => this.destroyStream(audio));
+    transcription.audio = [];
+  }
+
+  private destroyStream(audio: NodeJS.ReadableStream): void {
+    if (audio instanceof Readable && !audio.destroyed) {
+      audio.destroy();
+    }
+  }
+
+  // The bot may stay in the meeting after the recording stops, so its audio
+  // stream is closed here rather than waited on
+  private async finishTranscription(recordingId: string): Promise<void> {
+    // A recording stopped right after it started waits for its transcription to open
+    await this.starting.get(recordingId);
+
+    const transcription = this.transcriptions.get(recordingId);
+    if (!transcription) {
+      return;
+    }
+
+    this.transcriptions.delete(recordingId);
+    this.detachAudio(transcription);
+
+    try {
+      await transcription.attached;
+      const transcript = await this.transcriptionService.finalizeTranscript(transcription.transcriptionSessionId);
+      this.logger.log(`Finished transcribing recording ${recordingId}`);
+
+      await this.publishResult(transcription.meetingId, transcription.transcriptId, 'transcription.completed', {
+        segmentCount: transcript.segments.length,
+        language: transcript.language
+      });
+    } catch (error) {
+      this.logger.error(`Failed to finish transcribing recording ${recordingId}:`, error);
+      await this.failTranscript(transcription.meetingId, transcription.transcriptId, error);
+    }
+  }
+
+  private async failTranscript(meetingId: string | undefined, transcriptId: string | undefined, error: unknown): Promise<void> {
+    if (transcriptId) {
+      await this.transcriptPersistence.markTranscriptFailed(transcriptId).catch(() => undefined);
+    }
+    await this.publishResult(meetingId, transcriptId, 'transcription.failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  // Publishing failures are logged; the transcript row stays the source of truth
+  private async publishResult(
+    meetingId: string | undefined,
+    transcriptId: string | undefined,
+    type: 'transcription.completed' | 'transcription.failed',
+    data: Record<string, unknown>
+  ): Promise<void> {
+    if (!meetingId || !transcriptId) {
+      return;
+    }
+
+    const event: TranscriptionEvent = {
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      version: '1.0',
+      source: 'meeting-service',
+      type,
+      meetingId,
+      transcriptId,
+      data
+    };
+
+    try {
+      const topics = this.configService.get('kafka.topics');
+      await this.kafkaService.publish(topics.transcriptionEvents, event, meetingId);
+    } catch (error) {
+      this.logger.error(`Failed to publish ${type} for meeting ${meetingId}:`, error);
+    }
+  }
+}
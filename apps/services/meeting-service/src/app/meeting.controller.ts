@@ -1,24 +1,49 @@
-import { Controller, Post, Get, Delete, Body, Param, Query, Logger } from '@nestjs/common';
+import { Controller, Post, Get, Put, Delete, Body, Param, Query, Logger, UseGuards, BadRequestException, StreamableFile } from '@nestjs/common';
 import { MeetingService } from './meeting.service';
+import { ParticipantTrackerService } from './participant-tracker.service';
+import { RecordingImportService, RecordingImportResult } from './recording-import.service';
+import { MeetingLifecycleService } from './meeting-lifecycle.service';
+import { ScreenShareCaptureService } from './screen-share-capture.service';
 import {
+  AuthGuard,
+  MeetingMemberGuard,
+  CurrentUser,
+  UserSession,
   MeetingPlatform,
   MeetingJoinInfo,
   MeetingSession,
   MeetingRecording,
   RecordingConfig,
-  MeetingParticipant
+  MeetingParticipant,
+  ParticipantTimeline,
+  SpeakerLink,
+  MeetingStatusChange,
+  VisualSegment
 } from '@meetgenie/shared';
 
 @Controller('meetings')
 export class MeetingController {
   private readonly logger = new Logger(MeetingController.name);
 
-  constructor(private readonly meetingService: MeetingService) {}
+  constructor(
+    private readonly meetingService: MeetingService,
+    private readonly participantTracker: ParticipantTrackerService,
+    private readonly recordingImport: RecordingImportService,
+    private readonly meetingLifecycle: MeetingLifecycleService,
+    private readonly screenShareCapture: ScreenShareCaptureService
+  ) {}
 
   @Post('join')
-  async joinMeeting(@Body() joinInfo: MeetingJoinInfo): Promise<MeetingSession> {
+  @UseGuards(AuthGuard)
+  async joinMeeting(
+    @CurrentUser() user: UserSession,
+    @Body() body: MeetingJoinInfo & { queueTicket?: string }
+  ): Promise<MeetingSession> {
+    const { queueTicket, ...joinInfo } = body;
     this.logger.log(`Joining meeting: ${joinInfo.meetingId} on ${joinInfo.platform}`);
-    return this.meetingService.joinMeeting(joinInfo);
+    // Joins use the caller's connected account, never one named in the body.
+    // A join over a session limit answers 429 with a ticket to retry with.
+    return this.meetingService.joinMeeting({ ...joinInfo, organizerId: user.userId }, queueTicket);
   }
 
   @Delete('sessions/:sessionId')
@@ -61,6 +86,79 @@ export class MeetingController {
     return this.meetingService.getParticipants(sessionId);
   }
 
+  @Get(':meetingId/participants/timeline')
+  async getParticipantTimeline(@Param('meetingId') meetingId: string): Promise<ParticipantTimeline> {
+    return this.participantTracker.getTimeline(meetingId);
+  }
+
+  @Put(':meetingId/speakers/:speakerId/participant')
+  @UseGuards(AuthGuard, MeetingMemberGuard)
+  async linkSpeaker(
+    @Param('meetingId') meetingId: string,
+    @Param('speakerId') speakerId: string,
+    @Body() body: { participantId: string | null }
+  ): Promise<SpeakerLink> {
+    if (body?.participantId !== undefined && body.participantId !== null && typeof body.participantId !== 'string') {
+      throw new BadRequestException('participantId must be a participant id or null');
+    }
+
+    this.logger.log(`Linking speaker ${speakerId} to participant ${body.participantId} in meeting ${meetingId}`);
+    return this.participantTracker.overrideSpeakerLink(meetingId, speakerId, body?.participantId ?? null);
+  }
+
+  @Get(':meetingId/visual-segments')
+  @UseGuards(AuthGuard, MeetingMemberGuard)
+  async getVisualSegments(@Param('meetingId') meetingId: string): Promise<VisualSegment[]> {
+    return this.screenShareCapture.getVisualSegments(meetingId);
+  }
+
+  @Get(':meetingId/visual-segments/:segmentId/thumbnail')
+  @UseGuards(AuthGuard, MeetingMemberGuard)
+  async getVisualSegmentThumbnail(
+    @Param('meetingId') meetingId: string,
+    @Param('segmentId') segmentId: string
+  ): Promise<StreamableFile> {
+    const thumbnail = await this.screenShareCapture.getThumbnail(meetingId, segmentId);
+    return new StreamableFile(thumbnail, { type: 'image/jpeg' });
+  }
+
+  @Get(':meetingId/status/history')
+  @UseGuards(AuthGuard, MeetingMemberGuard)
+  async getStatusHistory(@Param('meetingId') meetingId: string): Promise<MeetingStatusChange[]> {
+    return this.meetingLifecycle.getHistory(meetingId);
+  }
+
+  @Post(':meetingId/cancel')
+  @UseGuards(AuthGuard)
+  async cancelMeeting(
+    @CurrentUser() user: UserSession,
+    @Param('meetingId') meetingId: string,
+    @Body() body: { reason?: string }
+  ): Promise<MeetingStatusChange> {
+    this.logger.log(`Cancelling meeting ${meetingId}`);
+    return this.meetingLifecycle.cancel(meetingId, user.userId, body?.reason);
+  }
+
+  @Post('imports/:platform')
+  @UseGuards(AuthGuard)
+  async importRecordings(
+    @CurrentUser() user: UserSession,
+    @Param('platform') platform: MeetingPlatform,
+    @Body() body: { since?: string }
+  ): Promise<RecordingImportResult> {
+    if (!Object.values(MeetingPlatform).includes(platform)) {
+      throw new BadRequestException(`Unsupported platform: ${platform}`);
+    }
+
+    const since = body?.since ? new Date(body.since) : undefined;
+    if (since && isNaN(since.getTime())) {
+      throw new BadRequestException(`Invalid since date: ${body.since}`);
+    }
+
+    this.logger.log(`Importing ${platform} recordings for user ${user.userId}`);
+    return this.recordingImport.importRecordings(user.userId, platform, since);
+  }
+
   @Get('sessions')
   async getActiveSessions(): Promise<MeetingSession[]> {
     return this.meetingService.getActiveSessions();
@@ -1,13 +1,17 @@
-import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy, HttpException, HttpStatus } from '@nestjs/common';
 import {
   MeetingRecorderService,
   PlatformAdapterFactory,
+  SessionCapacityService,
+  SessionQueuedError,
+  PoolUtilization,
   MeetingPlatform,
   MeetingJoinInfo,
   MeetingSession,
   MeetingRecording,
   RecordingConfig,
   MeetingParticipant,
+  ParticipantAudioStream,
   MeetingCredentials,
   ConnectionStatus
 } from '@meetgenie/shared';
@@ -18,12 +22,15 @@ export class MeetingService implements OnModuleInit, OnModuleDestroy {
 
   constructor(
     private readonly meetingRecorder: MeetingRecorderService,
-    private readonly platformFactory: PlatformAdapterFactory
+    private readonly platformFactory: PlatformAdapterFactory,
+    private readonly sessionCapacity: SessionCapacityService
   ) {}
 
   async onModuleInit() {
     this.logger.log('Initializing Meeting Service...');
+    this.configureReconnectPolicy();
     await this.initializePlatformAdapters();
+    await this.reconcilePersistedSessions();
   }
 
   async onModuleDestroy() {
@@ -52,6 +59,26 @@ export class MeetingService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  private configureReconnectPolicy(): void {
+    this.meetingRecorder.configureReconnectPolicy({
+      enabled: process.env.RECONNECT_ENABLED !== 'false',
+      ...(process.env.RECONNECT_MAX_RETRIES && {
+        maxRetries: Number(process.env.RECONNECT_MAX_RETRIES)
+      }),
+      ...(process.env.RECONNECT_BASE_DELAY_MS && {
+        baseDelay: Number(process.env.RECONNECT_BASE_DELAY_MS)
+      })
+    });
+  }
+
+  private async reconcilePersistedSessions(): Promise<void> {
+    try {
+      await this.meetingRecorder.reconcilePersistedSessions();
+    } catch (error) {
+      this.logger.error('Failed to reconcile persisted meeting sessions:', error);
+    }
+  }
+
   private async authenticatePlatforms(): Promise<void> {
     const platforms = this.platformFactory.getSupportedPlatforms();
     
@@ -106,17 +133,35 @@ export class MeetingService implements OnModuleInit, OnModuleDestroy {
           clientSecret: process.env.WEBEX_CLIENT_SECRET
         };
       
+      case MeetingPlatform.LOCAL:
+        return {
+          platform: MeetingPlatform.LOCAL
+        };
+      
       default:
         return null;
     }
   }
 
   // Meeting session management
-  async joinMeeting(joinInfo: MeetingJoinInfo): Promise<MeetingSession> {
+  async joinMeeting(joinInfo: MeetingJoinInfo, queueTicket?: string): Promise<MeetingSession> {
     try {
       this.logger.log(`Joining meeting ${joinInfo.meetingId} on ${joinInfo.platform}`);
-      return await this.meetingRecorder.joinMeeting(joinInfo);
+      return await this.meetingRecorder.joinMeeting(joinInfo, queueTicket);
     } catch (error) {
+      // Over a session limit: the caller retries later with the ticket
+      if (error instanceof SessionQueuedError) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.TOO_MANY_REQUESTS,
+            message: error.message,
+            queueTicket: error.ticket,
+            position: error.position,
+            retryAfterSeconds: error.retryAfterSeconds
+          },
+          HttpStatus.TOO_MANY_REQUESTS
+        );
+      }
       this.logger.error(`Failed to join meeting ${joinInfo.meetingId}:`, error);
       throw error;
     }
@@ -165,7 +210,7 @@ export class MeetingService implements OnModuleInit, OnModuleDestroy {
 
   async getRecording(recordingId: string): Promise<MeetingRecording> {
     try {
-      const recording = this.meetingRecorder.getActiveRecording(recordingId);
+      const recording = await this.meetingRecorder.getRecording(recordingId);
       if (!recording) {
         throw new Error(`Recording not found: ${recordingId}`);
       }
@@ -202,6 +247,16 @@ export class MeetingService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  // Per-participant streams for sessions recorded in multi-track mode
+  async getParticipantAudioStreams(sessionId: string): Promise<ParticipantAudioStream[]> {
+    try {
+      return await this.meetingRecorder.getParticipantAudioStreams(sessionId);
+    } catch (error) {
+      this.logger.error(`Failed to get participant audio streams for session ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
   // Status and monitoring
   getActiveSessions(): MeetingSession[] {
     return this.meetingRecorder.getActiveSessions();
@@ -230,6 +285,7 @@ export class MeetingService implements OnModuleInit, OnModuleDestroy {
     platforms: Record<string, any>;
     activeSessions: number;
     activeRecordings: number;
+    capacity?: PoolUtilization;
   }> {
     try {
       const platformStatuses = await this.getPlatformStatuses();
@@ -249,7 +305,8 @@ export class MeetingService implements OnModuleInit, OnModuleDestroy {
         status: 'healthy',
         platforms,
         activeSessions: activeSessions.length,
-        activeRecordings: activeRecordings.length
+        activeRecordings: activeRecordings.length,
+        capacity: await this.sessionCapacity.getUtilization()
       };
     } catch (error) {
       this.logger.error('Health check failed:', error);
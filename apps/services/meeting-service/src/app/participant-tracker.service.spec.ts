@@ -0,0 +1,245 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { PrismaService, SpeakerLinkingService } from '@meetgenie/shared';
+import { ParticipantTrackerService } from './participant-tracker.service';
+
+jest.mock('@meetgenie/shared', () => ({
+  PrismaService: class {},
+  SpeakerLinkingService: class {},
+  ParticipantRole: {
+    HOST: 'host',
+    CO_HOST: 'co_host',
+    PARTICIPANT: 'participant',
+    ATTENDEE: 'attendee'
+  }
+}));
+
+describe('ParticipantTrackerService', () => {
+  const meetingStart = new Date('2024-01-01T10:00:00Z');
+  const at = (seconds: number) => new Date(meetingStart.getTime() + seconds * 1000);
+
+  let prisma: {
+    meeting: { findUnique: jest.Mock };
+    meetingParticipant: { findFirst: jest.Mock; findMany: jest.Mock; create: jest.Mock; update: jest.Mock };
+    activeSpeakerHint: { create: jest.Mock; updateMany: jest.Mock };
+    transcriptSegment: { findMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let speakerLinking: { linkSpeakers: jest.Mock };
+  let eventEmitter: EventEmitter2;
+
+  // Every mocked query resolves at once, so one macrotask drains the session queue
+  const emit = async (type: string, seconds: number, data: Record<string, unknown> = {}) => {
+    eventEmitter.emit(`platform.${type}`, {
+      type,
+      sessionId: 'session-1',
+      meetingId: 'platform-meeting-1',
+      platform: 'zoom',
+      timestamp: at(seconds),
+      data
+    });
+    await new Promise(resolve => setImmediate(resolve));
+  };
+
+  const givenParticipant = (overrides: Record<string, unknown>) => {
+    prisma.meetingParticipant.findFirst.mockResolvedValue({
+      id: 'p-alice',
+      name: 'Alice',
+      role: 'participant',
+      joinTime: at(0),
+      platformParticipantId: 'zoom-alice',
+      intervals: [],
+      ...overrides
+    });
+  };
+
+  beforeEach(() => {
+    prisma = {
+      meeting: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'meeting-1',
+          scheduledTime: meetingStart,
+          actualStartTime: meetingStart,
+          actualEndTime: null,
+          participants: []
+        })
+      },
+      meetingParticipant: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(),
+        update: jest.fn()
+      },
+      activeSpeakerHint: { create: jest.fn(), updateMany: jest.fn() },
+      transcriptSegment: { findMany: jest.fn().mockResolvedValue([]) },
+      $transaction: jest.fn().mockResolvedValue([])
+    };
+    speakerLinking = { linkSpeakers: jest.fn() };
+    eventEmitter = new EventEmitter2();
+
+    const service = new ParticipantTrackerService(
+      prisma as unknown as PrismaService,
+      speakerLinking as unknown as SpeakerLinkingService,
+      eventEmitter
+    );
+    service.onModuleInit();
+  });
+
+  describe('joins and leaves', () => {
+    it('should create a participant with an open interval on first join', async () => {
+      await emit('participant_joined', 5, { participantId: 'zoom-alice', name: 'Alice' });
+
+      expect(prisma.meetingParticipant.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          meetingId: 'meeting-1',
+          name: 'Alice',
+          platformParticipantId: 'zoom-alice',
+          joinTime: at(5),
+          intervals: [{ joinTime: at(5).toISOString(), leaveTime: null }]
+        })
+      });
+    });
+
+    it('should close the open interval when the participant leaves', async () => {
+      givenParticipant({ intervals: [{ joinTime: at(0).toISOString(), leaveTime: null }] });
+
+      await emit('participant_left', 60, { participantId: 'zoom-alice' });
+
+      expect(prisma.meetingParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'p-alice' },
+        data: {
+          leaveTime: at(60),
+          intervals: [{ joinTime: at(0).toISOString(), leaveTime: at(60).toISOString() }]
+        }
+      });
+    });
+
+    it('should add an interval when the participant rejoins', async () => {
+      givenParticipant({
+        leaveTime: at(60),
+        intervals: [{ joinTime: at(0).toISOString(), leaveTime: at(60).toISOString() }]
+      });
+
+      await emit('participant_joined', 90, { participantId: 'zoom-alice' });
+
+      const update = prisma.meetingParticipant.update.mock.calls[0][0];
+      expect(update.data.joinTime).toEqual(at(0));
+      expect(update.data.leaveTime).toBeNull();
+      expect(update.data.intervals).toEqual([
+        { joinTime: at(0).toISOString(), leaveTime: at(60).toISOString() },
+        { joinTime: at(90).toISOString(), leaveTime: null }
+      ]);
+    });
+
+    it('should ignore a join of a participant who is already present', async () => {
+      givenParticipant({ intervals: [{ joinTime: at(0).toISOString(), leaveTime: null }] });
+
+      await emit('participant_joined', 10, { participantId: 'zoom-alice' });
+
+      expect(prisma.meetingParticipant.update).not.toHaveBeenCalled();
+      expect(prisma.meetingParticipant.create).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a leave of a participant who never joined', async () => {
+      await emit('participant_left', 10, { participantId: 'zoom-nobody' });
+
+      expect(prisma.meetingParticipant.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore events of sessions without a persisted meeting', async () => {
+      prisma.meeting.findUnique.mockResolvedValue(null);
+
+      await emit('participant_joined', 5, { participantId: 'zoom-alice', name: 'Alice' });
+
+      expect(prisma.meetingParticipant.findFirst).not.toHaveBeenCalled();
+      expect(prisma.meetingParticipant.create).not.toHaveBeenCalled();
+    });
+
+    it('should apply the events of a session in order', async () => {
+      let finishCreate: () => void = () => undefined;
+      prisma.meetingParticipant.create.mockReturnValue(new Promise<void>(resolve => (finishCreate = resolve)));
+
+      eventEmitter.emit('platform.participant_joined', {
+        sessionId: 'session-1',
+        timestamp: at(5),
+        data: { participantId: 'zoom-alice', name: 'Alice' }
+      });
+      eventEmitter.emit('platform.participant_left', {
+        sessionId: 'session-1',
+        timestamp: at(6),
+        data: { participantId: 'zoom-alice' }
+      });
+      await new Promise(resolve => setImmediate(resolve));
+
+      // The leave waits for the join to be written
+      expect(prisma.meetingParticipant.findFirst).toHaveBeenCalledTimes(2); // participantId, then name
+      givenParticipant({ intervals: [{ joinTime: at(5).toISOString(), leaveTime: null }] });
+      finishCreate();
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(prisma.meetingParticipant.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ leaveTime: at(6) }) })
+      );
+    });
+
+    it('should close every open interval and link speakers when the meeting ends', async () => {
+      prisma.meetingParticipant.findMany.mockResolvedValue([
+        { id: 'p-alice', intervals: [{ joinTime: at(0).toISOString(), leaveTime: null }] },
+        { id: 'p-bob', intervals: [{ joinTime: at(0).toISOString(), leaveTime: at(30).toISOString() }] }
+      ]);
+
+      await emit('meeting_ended', 120);
+
+      expect(prisma.meetingParticipant.update).toHaveBeenCalledTimes(1);
+      expect(prisma.meetingParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'p-alice' },
+        data: {
+          leaveTime: at(120),
+          intervals: [{ joinTime: at(0).toISOString(), leaveTime: at(120).toISOString() }]
+        }
+      });
+      expect(prisma.activeSpeakerHint.updateMany).toHaveBeenCalledWith({
+        where: { meetingId: 'meeting-1', endTime: null },
+        data: { endTime: at(120) }
+      });
+      expect(speakerLinking.linkSpeakers).toHaveBeenCalledWith('meeting-1');
+    });
+  });
+
+  describe('roles', () => {
+    it('should store the role a participant joins with', async () => {
+      await emit('participant_joined', 0, { participantId: 'zoom-host', name: 'Host', role: 'host' });
+
+      expect(prisma.meetingParticipant.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ role: 'organizer' })
+      });
+    });
+
+    it('should keep the default role when the platform reports none', async () => {
+      await emit('participant_joined', 0, { participantId: 'zoom-alice', name: 'Alice' });
+
+      expect(prisma.meetingParticipant.create.mock.calls[0][0].data).not.toHaveProperty('role');
+    });
+
+    it('should update the role of a participant rejoining with a new one', async () => {
+      givenParticipant({
+        leaveTime: at(60),
+        intervals: [{ joinTime: at(0).toISOString(), leaveTime: at(60).toISOString() }]
+      });
+
+      await emit('participant_joined', 90, { participantId: 'zoom-alice', role: 'co_host' });
+
+      expect(prisma.meetingParticipant.update.mock.calls[0][0].data.role).toBe('presenter');
+    });
+
+    it('should update the role of a participant already present', async () => {
+      givenParticipant({ intervals: [{ joinTime: at(0).toISOString(), leaveTime: null }] });
+
+      await emit('participant_joined', 10, { participantId: 'zoom-alice', role: 'host' });
+
+      expect(prisma.meetingParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'p-alice' },
+        data: { role: 'organizer' }
+      });
+    });
+  });
+});
@@ -0,0 +1,438 @@
+import { Injectable, Logger, OnModuleInit, NotFoundException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  PrismaService,
+  SpeakerLinkingService,
+  MeetingPlatformEvent,
+  ParticipantInterval,
+  ParticipantRole,
+  ParticipantTimeline,
+  ParticipantTimelineEntry,
+  SpeakerLink
+} from '@meetgenie/shared';
+
+// Stored as JSON on MeetingParticipant.intervals
+type StoredInterval = {
+  joinTime: string;
+  leaveTime: string | null;
+};
+
+interface ParticipantEventData {
+  participantId?: string;
+  name?: string;
+  email?: string;
+  role?: ParticipantRole;
+}
+
+// Database roles, as MeetingPersistenceService stores the initial participant list
+type StoredRole = 'organizer' | 'presenter' | 'participant';
+
+interface TrackedParticipant {
+  id: string;
+  name: string;
+  intervals: StoredInterval[];
+}
+
+interface AttributedSegment {
+  startTime: number; // ms from meeting start
+  endTime: number;
+  speakerId: string | null;
+  speaker: { name: string | null; participantId: string | null } | null;
+}
+
+@Injectable()
+export class ParticipantTrackerService implements OnModuleInit {
+  private readonly logger = new Logger(ParticipantTrackerService.name);
+  // Events for one session are applied in order so join/leave pairs never race
+  private sessionQueues = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly speakerLinking: SpeakerLinkingService,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
+
+  onModuleInit() {
+    this.eventEmitter.on('platform.participant_joined', (event: MeetingPlatformEvent) => {
+      this.enqueue(event.sessionId, () => this.recordJoin(event));
+    });
+
+    this.eventEmitter.on('platform.participant_left', (event: MeetingPlatformEvent) => {
+      this.enqueue(event.sessionId, () => this.recordLeave(event));
+    });
+
+    this.eventEmitter.on('platform.active_speaker_changed', (event: MeetingPlatformEvent) => {
+      this.enqueue(event.sessionId, () => this.recordActiveSpeaker(event));
+    });
+
+    this.eventEmitter.on('platform.meeting_ended', (event: MeetingPlatformEvent) => {
+      this.enqueue(event.sessionId, () => this.finalizeSession(event.sessionId, event.timestamp));
+    });
+
+    this.eventEmitter.on('meeting.left', (event: { sessionId: string; timestamp: Date }) => {
+      this.enqueue(event.sessionId, () => this.finalizeSession(event.sessionId, event.timestamp));
+    });
+  }
+
+  async getTimeline(meetingId: string): Promise<ParticipantTimeline> {
+    const meeting = await this.prismaService.meeting.findUnique({
+      where: { id: meetingId },
+      include: { participants: { orderBy: { createdAt: 'asc' } } }
+    });
+
+    if (!meeting) {
+      throw new NotFoundException(`Meeting not found: ${meetingId}`);
+    }
+
+    const meetingStart = meeting.actualStartTime ?? meeting.scheduledTime;
+    const participants: TrackedParticipant[] = meeting.participants.map(participant => ({
+      id: participant.id,
+      name: participant.name,
+      intervals: this.parseIntervals(participant.intervals)
+    }));
+
+    const { speakingTimes, speakerIds, unattributed } = await this.computeSpeakingTimes(
+      meetingId,
+      meetingStart,
+      participants
+    );
+    const totalSpeakingTime = Array.from(speakingTimes.values()).reduce((sum, ms) => sum + ms, 0);
+
+    const entries: ParticipantTimelineEntry[] = meeting.participants.map((participant, index) => {
+      const speakingTime = speakingTimes.get(participant.id) || 0;
+      return {
+        participantId: participant.id,
+        userId: participant.userId ?? undefined,
+        name: participant.name,
+        email: participant.email ?? undefined,
+        role: participant.role,
+        joinTime: participant.joinTime ?? undefined,
+        leaveTime: participant.leaveTime ?? undefined,
+        intervals: participants[index].intervals.map(interval => this.toInterval(interval)),
+        speakingTime: Math.round(speakingTime / 1000),
+        speakingShare: totalSpeakingTime > 0 ? speakingTime / totalSpeakingTime : 0,
+        speakerIds: Array.from(speakerIds.get(participant.id) || [])
+      };
+    });
+
+    return {
+      meetingId,
+      startTime: meeting.actualStartTime ?? undefined,
+      endTime: meeting.actualEndTime ?? undefined,
+      participants: entries,
+      unattributedSpeakingTime: Math.round(unattributed / 1000)
+    };
+  }
+
+  // Recomputes and stores speaking time for every participant of a meeting
+  async updateSpeakingTimes(meetingId: string): Promise<void> {
+    const timeline = await this.getTimeline(meetingId);
+
+    await this.prismaService.$transaction(
+      timeline.participants.map(participant =>
+        this.prismaService.meetingParticipant.update({
+          where: { id: participant.participantId },
+          data: { speakingTime: participant.speakingTime }
+        })
+      )
+    );
+  }
+
+  // Manual override of an automatic speaker link; speaking times follow the new link
+  async overrideSpeakerLink(
+    meetingId: string,
+    speakerId: string,
+    participantId: string | null
+  ): Promise<SpeakerLink> {
+    const link = await this.speakerLinking.linkSpeakerManually(meetingId, speakerId, participantId);
+    if (!link) {
+      throw new NotFoundException(
+        participantId
+          ? `Speaker ${speakerId} or participant ${participantId} not found in meeting ${meetingId}`
+          : `Speaker ${speakerId} not found in meeting ${meetingId}`
+      );
+    }
+
+    await this.updateSpeakingTimes(meetingId);
+    return link;
+  }
+
+  private enqueue(sessionId: string, operation: () => Promise<void>): void {
+    const previous = this.sessionQueues.get(sessionId) || Promise.resolve();
+    const next = previous
+      .then(operation)
+      .catch(error => this.logger.error(`Failed to track participants for session ${sessionId}:`, error))
+      .finally(() => {
+        if (this.sessionQueues.get(sessionId) === next) {
+          this.sessionQueues.delete(sessionId);
+        }
+      });
+
+    this.sessionQueues.set(sessionId, next);
+  }
+
+  private async recordJoin(event: MeetingPlatformEvent): Promise<void> {
+    const meeting = await this.findMeetingBySession(event.sessionId);
+    if (!meeting) {
+      return;
+    }
+
+    const data = (event.data || {}) as ParticipantEventData;
+    const participant = await this.findParticipant(meeting.id, data);
+    const joinTime = event.timestamp.toISOString();
+
+    if (!participant) {
+      await this.prismaService.meetingParticipant.create({
+        data: {
+          meetingId: meeting.id,
+          name: data.name || data.participantId || 'Unknown participant',
+          email: data.email,
+          ...(data.role && { role: this.toStoredRole(data.role) }),
+          platformParticipantId: data.participantId,
+          joinTime: event.timestamp,
+          intervals: [{ joinTime, leaveTime: null }]
+        }
+      });
+      return;
+    }
+
+    // Rejoining can come with a new role, e.g. after being made co-host
+    const role = data.role && this.toStoredRole(data.role);
+    const intervals = this.parseIntervals(participant.intervals);
+    if (intervals.some(interval => !interval.leaveTime)) {
+      // Already present, e.g. the initial participant list included them
+      if (role && role !== participant.role) {
+        await this.prismaService.meetingParticipant.update({
+          where: { id: participant.id },
+          data: { role }
+        });
+      }
+      return;
+    }
+
+    await this.prismaService.meetingParticipant.update({
+      where: { id: participant.id },
+      data: {
+        ...(role && { role }),
+        joinTime: participant.joinTime ?? event.timestamp,
+        leaveTime: null,
+        platformParticipantId: participant.platformParticipantId ?? data.participantId,
+        intervals: [...intervals, { joinTime, leaveTime: null }]
+      }
+    });
+  }
+
+  private async recordLeave(event: MeetingPlatformEvent): Promise<void> {
+    const meeting = await this.findMeetingBySession(event.sessionId);
+    if (!meeting) {
+      return;
+    }
+
+    const participant = await this.findParticipant(meeting.id, (event.data || {}) as ParticipantEventData);
+    if (!participant) {
+      this.logger.warn(`Participant left before joining in session ${event.sessionId}`);
+      return;
+    }
+
+    await this.prismaService.meetingParticipant.update({
+      where: { id: participant.id },
+      data: {
+        leaveTime: event.timestamp,
+        intervals: this.closeIntervals(this.parseIntervals(participant.intervals), event.timestamp)
+      }
+    });
+  }
+
+  // Active-speaker indicators from the platform become hints for speaker linking
+  private async recordActiveSpeaker(event: MeetingPlatformEvent): Promise<void> {
+    const meeting = await this.findMeetingBySession(event.sessionId);
+    if (!meeting) {
+      return;
+    }
+
+    await this.closeActiveSpeakerHints(meeting.id, event.timestamp);
+
+    const data = (event.data || {}) as ParticipantEventData;
+    if (!data.participantId && !data.email && !data.name) {
+      // Nobody is speaking
+      return;
+    }
+
+    const participant = await this.findParticipant(meeting.id, data);
+    if (!participant) {
+      this.logger.debug(`Active speaker is not a known participant in session ${event.sessionId}`);
+      return;
+    }
+
+    await this.prismaService.activeSpeakerHint.create({
+      data: {
+        meetingId: meeting.id,
+        participantId: participant.id,
+        startTime: event.timestamp
+      }
+    });
+  }
+
+  private async finalizeSession(sessionId: string, endTime: Date): Promise<void> {
+    const meeting = await this.findMeetingBySession(sessionId);
+    if (!meeting) {
+      return;
+    }
+
+    const participants = await this.prismaService.meetingParticipant.findMany({
+      where: { meetingId: meeting.id }
+    });
+
+    for (const participant of participants) {
+      const intervals = this.parseIntervals(participant.intervals);
+      if (intervals.some(interval => !interval.leaveTime)) {
+        await this.prismaService.meetingParticipant.update({
+          where: { id: participant.id },
+          data: {
+            leaveTime: endTime,
+            intervals: this.closeIntervals(intervals, endTime)
+          }
+        });
+      }
+    }
+
+    await this.closeActiveSpeakerHints(meeting.id, endTime);
+    await this.speakerLinking.linkSpeakers(meeting.id);
+    await this.updateSpeakingTimes(meeting.id);
+    this.logger.log(`Finalized participant timeline for meeting ${meeting.id}`);
+  }
+
+  private async computeSpeakingTimes(
+    meetingId: string,
+    meetingStart: Date,
+    participants: TrackedParticipant[]
+  ): Promise<{
+    speakingTimes: Map<string, number>;
+    speakerIds: Map<string, Set<string>>;
+    unattributed: number;
+  }> {
+    const segments: AttributedSegment[] = await this.prismaService.transcriptSegment.findMany({
+      where: { transcript: { meetingId } },
+      select: {
+        startTime: true,
+        endTime: true,
+        speakerId: true,
+        speaker: { select: { name: true, participantId: true } }
+      }
+    });
+
+    const speakingTimes = new Map<string, number>();
+    const speakerIds = new Map<string, Set<string>>();
+    let unattributed = 0;
+
+    for (const segment of segments) {
+      const duration = Math.max(0, segment.endTime - segment.startTime);
+      const participantId = this.mapSpeakerToParticipant(segment, meetingStart, participants);
+
+      if (!participantId) {
+        unattributed += duration;
+        continue;
+      }
+
+      speakingTimes.set(participantId, (speakingTimes.get(participantId) || 0) + duration);
+      if (segment.speakerId) {
+        const ids = speakerIds.get(participantId) || new Set<string>();
+        ids.add(segment.speakerId);
+        speakerIds.set(participantId, ids);
+      }
+    }
+
+    return { speakingTimes, speakerIds, unattributed };
+  }
+
+  // A diarized speaker maps to a participant through an explicit link, a
+  // matching name, or by being the only participant present at the time
+  private mapSpeakerToParticipant(
+    segment: AttributedSegment,
+    meetingStart: Date,
+    participants: TrackedParticipant[]
+  ): string | null {
+    if (segment.speaker?.participantId) {
+      return segment.speaker.participantId;
+    }
+
+    const speakerName = segment.speaker?.name?.trim().toLowerCase();
+    if (speakerName) {
+      const named = participants.find(participant => participant.name.trim().toLowerCase() === speakerName);
+      if (named) {
+        return named.id;
+      }
+    }
+
+    const spokenAt = meetingStart.getTime() + segment.startTime;
+    const present = participants.filter(participant =>
+      participant.intervals.some(interval =>
+        new Date(interval.joinTime).getTime() <= spokenAt &&
+        (!interval.leaveTime || new Date(interval.leaveTime).getTime() >= spokenAt)
+      )
+    );
+
+    return present.length === 1 ? present[0].id : null;
+  }
+
+  private async closeActiveSpeakerHints(meetingId: string, endTime: Date): Promise<void> {
+    await this.prismaService.activeSpeakerHint.updateMany({
+      where: { meetingId, endTime: null },
+      data: { endTime }
+    });
+  }
+
+  private async findMeetingBySession(sessionId: string) {
+    return this.prismaService.meeting.findUnique({
+      where: { sessionId },
+      select: { id: true }
+    });
+  }
+
+  private async findParticipant(meetingId: string, data: ParticipantEventData) {
+    const candidates = [
+      data.participantId && { platformParticipantId: data.participantId },
+      data.email && { email: data.email },
+      data.name && { name: data.name }
+    ].filter(Boolean) as Array<Record<string, string>>;
+
+    for (const where of candidates) {
+      const participant = await this.prismaService.meetingParticipant.findFirst({
+        where: { meetingId, ...where }
+      });
+      if (participant) {
+        return participant;
+      }
+    }
+
+    return null;
+  }
+
+  private toStoredRole(role: ParticipantRole): StoredRole {
+    switch (role) {
+      case ParticipantRole.HOST:
+        return 'organizer';
+      case ParticipantRole.CO_HOST:
+        return 'presenter';
+      default:
+        return 'participant';
+    }
+  }
+
+  private parseIntervals(value: unknown): StoredInterval[] {
+    return Array.isArray(value) ? (value as unknown as StoredInterval[]) : [];
+  }
+
+  private closeIntervals(intervals: StoredInterval[], leaveTime: Date): StoredInterval[] {
+    return intervals.map(interval =>
+      interval.leaveTime ? interval : { ...interval, leaveTime: leaveTime.toISOString() }
+    );
+  }
+
+  private toInterval(interval: StoredInterval): ParticipantInterval {
+    return {
+      joinTime: new Date(interval.joinTime),
+      leaveTime: interval.leaveTime ? new Date(interval.leaveTime) : undefined
+    };
+  }
+}
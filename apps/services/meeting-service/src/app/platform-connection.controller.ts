@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Logger,
+  BadRequestException,
+  NotFoundException
+} from '@nestjs/common';
+import {
+  AuthGuard,
+  CurrentUser,
+  UserSession,
+  MeetingPlatform,
+  PlatformAuthorization,
+  PlatformConnection,
+  PlatformConnectionService
+} from '@meetgenie/shared';
+
+@Controller('connections')
+export class PlatformConnectionController {
+  private readonly logger = new Logger(PlatformConnectionController.name);
+
+  constructor(private readonly platformConnections: PlatformConnectionService) {}
+
+  @Get()
+  @UseGuards(AuthGuard)
+  async listConnections(@CurrentUser() user: UserSession): Promise<PlatformConnection[]> {
+    return this.platformConnections.listConnections(user.userId);
+  }
+
+  @Post(':platform')
+  @UseGuards(AuthGuard)
+  async connect(
+    @CurrentUser() user: UserSession,
+    @Param('platform') platform: string,
+    @Body() body: { redirectUri?: string }
+  ): Promise<PlatformAuthorization> {
+    const redirectUri = this.platformConnections.resolveRedirectUri(body?.redirectUri);
+    if (!redirectUri) {
+      throw new BadRequestException(
+        body?.redirectUri ? `redirectUri is not allowed: ${body.redirectUri}` : 'No OAuth redirect URI is configured'
+      );
+    }
+
+    this.logger.log(`Starting ${platform} connection for user ${user.userId}`);
+    return this.platformConnections.createAuthorization(
+      user.userId,
+      this.parsePlatform(platform),
+      redirectUri
+    );
+  }
+
+  // The platform sends the user back to the app's redirect page, which passes
+  // the code and state on here as that user; the state must have been issued
+  // to the same user for the same platform
+  @Get(':platform/callback')
+  @UseGuards(AuthGuard)
+  async completeConnection(
+    @CurrentUser() user: UserSession,
+    @Param('platform') platform: string,
+    @Query('code') code: string,
+    @Query('state') state: string,
+    @Query('error') error?: string
+  ): Promise<PlatformConnection> {
+    const meetingPlatform = this.parsePlatform(platform);
+    if (error) {
+      throw new BadRequestException(`Authorization was denied: ${error}`);
+    }
+    if (!code || !state) {
+      throw new BadRequestException('code and state are required');
+    }
+
+    const connection = await this.platformConnections.completeAuthorization(user.userId, meetingPlatform, state, code);
+    if (!connection) {
+      throw new BadRequestException('Authorization state is invalid or has expired');
+    }
+    return connection;
+  }
+
+  @Delete(':platform')
+  @UseGuards(AuthGuard)
+  async revoke(
+    @CurrentUser() user: UserSession,
+    @Param('platform') platform: string
+  ): Promise<void> {
+    this.logger.log(`Revoking ${platform} connection for user ${user.userId}`);
+    const revoked = await this.platformConnections.revokeConnection(
+      user.userId,
+      this.parsePlatform(platform)
+    );
+    if (!revoked) {
+      throw new NotFoundException(`No ${platform} connection found`);
+    }
+  }
+
+  private parsePlatform(platform: string): MeetingPlatform {
+    if (!Object.values(MeetingPlatform).includes(platform as MeetingPlatform)) {
+      throw new BadRequestException(`Unsupported platform: ${platform}`);
+    }
+    return platform as MeetingPlatform;
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Headers,
+  Query,
+  Req,
+  Res,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  RawBodyRequest,
+  UnauthorizedException
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { MeetingPlatform } from '@meetgenie/shared';
+import {
+  PlatformWebhookService,
+  ZoomWebhookPayload,
+  TeamsNotification,
+  GoogleMeetPushPayload,
+  WebexWebhookPayload
+} from './platform-webhook.service';
+
+@Controller('webhooks')
+export class PlatformWebhookController {
+  private readonly logger = new Logger(PlatformWebhookController.name);
+
+  constructor(private readonly webhookService: PlatformWebhookService) {}
+
+  @Post(MeetingPlatform.ZOOM)
+  @HttpCode(HttpStatus.OK)
+  async handleZoom(
+    @Req() req: RawBodyRequest<Request>,
+    @Body() body: ZoomWebhookPayload,
+    @Headers('x-zm-request-timestamp') timestamp: string,
+    @Headers('x-zm-signature') signature: string
+  ) {
+    if (!this.webhookService.verifyZoomSignature(this.getRawBody(req), timestamp, signature)) {
+      throw new UnauthorizedException('Invalid signature');
+    }
+
+    if (body.event === 'endpoint.url_validation' && body.payload.plainToken) {
+      return this.webhookService.answerZoomUrlValidation(body.payload.plainToken);
+    }
+
+    return this.dispatch(MeetingPlatform.ZOOM, this.webhookService.normalizeZoom(body));
+  }
+
+  @Post(MeetingPlatform.TEAMS)
+  async handleTeams(
+    @Res({ passthrough: true }) res: Response,
+    @Body() body: { value?: TeamsNotification[] },
+    @Query('validationToken') validationToken?: string
+  ) {
+    // Graph validates a new subscription by asking us to echo a token
+    if (validationToken) {
+      res.status(HttpStatus.OK).type('text/plain');
+      return validationToken;
+    }
+
+    const notifications = body.value || [];
+    if (!this.webhookService.verifyTeamsClientState(notifications)) {
+      throw new UnauthorizedException('Invalid client state');
+    }
+
+    res.status(HttpStatus.ACCEPTED);
+    return this.dispatch(MeetingPlatform.TEAMS, this.webhookService.normalizeTeams(notifications));
+  }
+
+  @Post(MeetingPlatform.GOOGLE_MEET)
+  @HttpCode(HttpStatus.OK)
+  async handleGoogleMeet(@Body() body: GoogleMeetPushPayload, @Query('token') token?: string) {
+    if (!this.webhookService.verifyGoogleMeetToken(token)) {
+      throw new UnauthorizedException('Invalid token');
+    }
+
+    return this.dispatch(MeetingPlatform.GOOGLE_MEET, this.webhookService.normalizeGoogleMeet(body));
+  }
+
+  @Post(MeetingPlatform.WEBEX)
+  @HttpCode(HttpStatus.OK)
+  async handleWebex(
+    @Req() req: RawBodyRequest<Request>,
+    @Body() body: WebexWebhookPayload,
+    @Headers('x-spark-signature') signature: string
+  ) {
+    if (!this.webhookService.verifyWebexSignature(this.getRawBody(req), signature)) {
+      throw new UnauthorizedException('Invalid signature');
+    }
+
+    return this.dispatch(MeetingPlatform.WEBEX, this.webhookService.normalizeWebex(body));
+  }
+
+  private async dispatch(platform: MeetingPlatform, events: Parameters<PlatformWebhookService['dispatch']>[1]) {
+    this.logger.log(`Received ${platform} webhook with ${events.length} event(s)`);
+    const processed = await this.webhookService.dispatch(platform, events);
+    return { received: true, processed };
+  }
+
+  // Signatures cover the exact bytes sent, so the parsed body cannot be used
+  private getRawBody(req: RawBodyRequest<Request>): Buffer {
+    if (!req.rawBody) {
+      throw new UnauthorizedException('Missing request body');
+    }
+    return req.rawBody;
+  }
+}
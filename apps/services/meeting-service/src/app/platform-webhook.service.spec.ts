@@ -0,0 +1,282 @@
+import * as crypto from 'crypto';
+import type { ConfigService } from '@nestjs/config';
+import type {
+  KafkaService,
+  MeetingPersistenceService,
+  MeetingRecorderService
+} from '@meetgenie/shared';
+import { PlatformWebhookService } from './platform-webhook.service';
+
+jest.mock('@meetgenie/shared', () => ({
+  MeetingRecorderService: class {},
+  MeetingPersistenceService: class {},
+  KafkaService: class {},
+  MeetingPlatform: { ZOOM: 'zoom', TEAMS: 'teams', GOOGLE_MEET: 'google_meet', WEBEX: 'webex' },
+  MeetingEventType: {
+    MEETING_STARTED: 'meeting_started',
+    MEETING_ENDED: 'meeting_ended',
+    PARTICIPANT_JOINED: 'participant_joined',
+    CHAT_MESSAGE: 'chat_message',
+    RECORDING_COMPLETED: 'recording_completed'
+  }
+}));
+
+describe('PlatformWebhookService', () => {
+  const hmac = (algorithm: string, secret: string, payload: string) =>
+    crypto.createHmac(algorithm, secret).update(payload, 'utf8').digest('hex');
+
+  let meetingRecorder: { handlePlatformEvent: jest.Mock; findSessionByPlatformMeeting: jest.Mock };
+  let meetingPersistence: {
+    findMeetingByPlatformId: jest.Mock;
+    findRecording: jest.Mock;
+    recordWebhookRecording: jest.Mock;
+  };
+  let kafkaService: { publish: jest.Mock };
+  let service: PlatformWebhookService;
+
+  beforeEach(() => {
+    // Secrets are read when the service is constructed
+    process.env.ZOOM_WEBHOOK_SECRET_TOKEN = 'zoom-secret';
+    process.env.TEAMS_WEBHOOK_CLIENT_STATE = 'teams-state';
+    process.env.GOOGLE_MEET_WEBHOOK_TOKEN = 'google-token';
+    process.env.WEBEX_WEBHOOK_SECRET = 'webex-secret';
+
+    meetingRecorder = { handlePlatformEvent: jest.fn(), findSessionByPlatformMeeting: jest.fn() };
+    meetingPersistence = {
+      findMeetingByPlatformId: jest.fn().mockResolvedValue({ id: 'meeting-1', organizerId: 'user-1', sessionId: 'session-1' }),
+      findRecording: jest.fn().mockResolvedValue(null),
+      recordWebhookRecording: jest.fn().mockResolvedValue({
+        meeting: { id: 'meeting-1', organizerId: 'user-1' },
+        transcriptId: 'transcript-1'
+      })
+    };
+    kafkaService = { publish: jest.fn() };
+    const configService = { get: jest.fn().mockReturnValue({ transcriptionEvents: 'transcription-events' }) };
+
+    service = new PlatformWebhookService(
+      meetingRecorder as unknown as MeetingRecorderService,
+      meetingPersistence as unknown as MeetingPersistenceService,
+      kafkaService as unknown as KafkaService,
+      configService as unknown as ConfigService
+    );
+  });
+
+  describe('Zoom signatures', () => {
+    const body = Buffer.from('{"event":"meeting.started"}');
+    const now = () => String(Math.floor(Date.now() / 1000));
+    const sign = (timestamp: string, secret = 'zoom-secret') =>
+      'v0=' + hmac('sha256', secret, `v0:${timestamp}:${body.toString('utf8')}`);
+
+    it('should accept a fresh request signed with the secret', () => {
+      const timestamp = now();
+      expect(service.verifyZoomSignature(body, timestamp, sign(timestamp))).toBe(true);
+    });
+
+    it('should reject a request signed with another secret', () => {
+      const timestamp = now();
+      expect(service.verifyZoomSignature(body, timestamp, sign(timestamp, 'other-secret'))).toBe(false);
+    });
+
+    it('should reject a tampered body', () => {
+      const timestamp = now();
+      expect(service.verifyZoomSignature(Buffer.from('{"event":"meeting.ended"}'), timestamp, sign(timestamp))).toBe(false);
+    });
+
+    it('should reject a request older than five minutes', () => {
+      const timestamp = String(Math.floor(Date.now() / 1000) - 301);
+      expect(service.verifyZoomSignature(body, timestamp, sign(timestamp))).toBe(false);
+    });
+
+    it('should reject a request without a signature or timestamp', () => {
+      expect(service.verifyZoomSignature(body, now(), undefined)).toBe(false);
+      expect(service.verifyZoomSignature(body, undefined, sign(now()))).toBe(false);
+    });
+
+    it('should answer a URL validation with the token signed by the secret', () => {
+      expect(service.answerZoomUrlValidation('plain')).toEqual({
+        plainToken: 'plain',
+        encryptedToken: hmac('sha256', 'zoom-secret', 'plain')
+      });
+    });
+  });
+
+  describe('Webex signatures', () => {
+    const body = Buffer.from('{"resource":"meetings","event":"started"}');
+
+    it('should accept a body signed with the secret', () => {
+      expect(service.verifyWebexSignature(body, hmac('sha1', 'webex-secret', body.toString('utf8')))).toBe(true);
+    });
+
+    it('should reject a body signed with another secret or not signed', () => {
+      expect(service.verifyWebexSignature(body, hmac('sha1', 'other-secret', body.toString('utf8')))).toBe(false);
+      expect(service.verifyWebexSignature(body, undefined)).toBe(false);
+    });
+
+    it('should reject every request when no secret is configured', () => {
+      process.env.WEBEX_WEBHOOK_SECRET = '';
+      const unconfigured = new PlatformWebhookService(
+        meetingRecorder as unknown as MeetingRecorderService,
+        meetingPersistence as unknown as MeetingPersistenceService,
+        kafkaService as unknown as KafkaService,
+        { get: jest.fn() } as unknown as ConfigService
+      );
+
+      expect(unconfigured.verifyWebexSignature(body, hmac('sha1', '', body.toString('utf8')))).toBe(false);
+    });
+  });
+
+  describe('Teams client state', () => {
+    const notification = (clientState?: string) => ({
+      subscriptionId: 'sub-1',
+      clientState,
+      changeType: 'created',
+      resource: 'communications/onlineMeetings/abc'
+    });
+
+    it('should accept notifications carrying the client state', () => {
+      expect(service.verifyTeamsClientState([notification('teams-state'), notification('teams-state')])).toBe(true);
+    });
+
+    it('should reject a batch with any other client state', () => {
+      expect(service.verifyTeamsClientState([notification('teams-state'), notification('forged')])).toBe(false);
+      expect(service.verifyTeamsClientState([notification()])).toBe(false);
+    });
+
+    it('should reject an empty batch', () => {
+      expect(service.verifyTeamsClientState([])).toBe(false);
+    });
+  });
+
+  describe('Google Meet pushes', () => {
+    it('should accept only the configured token', () => {
+      expect(service.verifyGoogleMeetToken('google-token')).toBe(true);
+      expect(service.verifyGoogleMeetToken('other-token')).toBe(false);
+      expect(service.verifyGoogleMeetToken(undefined)).toBe(false);
+    });
+
+    it('should ignore an event whose data is not JSON', () => {
+      const events = service.normalizeGoogleMeet({
+        message: {
+          data: Buffer.from('not json').toString('base64'),
+          attributes: {
+            'ce-type': 'google.workspace.meet.conference.v2.started',
+            'ce-subject': '//meet.googleapis.com/spaces/abc-defg-hij'
+          }
+        }
+      });
+
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('recording transcription requests', () => {
+    const recordingEvent = (downloadToken?: string) => ({
+      type: 'recording_completed',
+      platformMeetingId: 'zoom-meeting-1',
+      data: { recordingId: 'rec-1' },
+      recording: { recordingId: 'rec-1', downloadUrl: 'https://zoom.us/rec/download/rec-1', downloadToken }
+    });
+
+    it("should name the organizer's connection rather than publish its token", async () => {
+      await service.dispatch('zoom' as never, [recordingEvent() as never]);
+
+      const request = kafkaService.publish.mock.calls[0][1];
+      expect(request).toEqual(expect.objectContaining({ connectionUserId: 'user-1', meetingId: 'meeting-1' }));
+      expect(request.downloadToken).toBeUndefined();
+    });
+
+    it('should request the transcript into the rows it stored for the recording', async () => {
+      await service.dispatch('zoom' as never, [recordingEvent() as never]);
+
+      expect(meetingPersistence.recordWebhookRecording).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'rec-1', platform: 'zoom', platformMeetingId: 'zoom-meeting-1' })
+      );
+      expect(kafkaService.publish.mock.calls[0][1]).toEqual(
+        expect.objectContaining({ meetingId: 'meeting-1', transcriptId: 'transcript-1' })
+      );
+    });
+
+    it('should store a meeting the bot never joined for its host', async () => {
+      const [event] = service.normalizeZoom({
+        event: 'recording.completed',
+        payload: {
+          object: {
+            id: 123,
+            topic: 'Planning',
+            host_email: 'host@example.com',
+            start_time: '2024-01-01T10:00:00Z',
+            duration: 30,
+            recording_files: [
+              { id: 'rec-1', file_type: 'M4A', recording_type: 'audio_only', download_url: 'https://zoom.us/rec/download/rec-1' }
+            ]
+          }
+        }
+      });
+
+      await service.dispatch('zoom' as never, [event]);
+
+      expect(meetingPersistence.recordWebhookRecording).toHaveBeenCalledWith({
+        id: 'rec-1',
+        platform: 'zoom',
+        platformMeetingId: '123',
+        title: 'Planning',
+        startTime: new Date('2024-01-01T10:00:00Z'),
+        duration: 1800,
+        fileType: 'M4A',
+        downloadUrl: 'https://zoom.us/rec/download/rec-1',
+        hostEmail: 'host@example.com'
+      });
+    });
+
+    it('should not request a transcript when no user hosts the meeting', async () => {
+      meetingPersistence.recordWebhookRecording.mockResolvedValueOnce(null);
+
+      await service.dispatch('zoom' as never, [recordingEvent() as never]);
+
+      expect(kafkaService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should transcribe a redelivered recording only once', async () => {
+      meetingPersistence.findRecording.mockResolvedValueOnce({ id: 'recording-1' });
+
+      await service.dispatch('zoom' as never, [recordingEvent() as never]);
+
+      expect(meetingPersistence.recordWebhookRecording).not.toHaveBeenCalled();
+      expect(kafkaService.publish).not.toHaveBeenCalled();
+    });
+
+    it("should have a Google Meet recording fetched with the organizer's connection", async () => {
+      const events = service.normalizeGoogleMeet({
+        message: {
+          data: Buffer.from(JSON.stringify({ recording: { name: 'conferenceRecords/c-1/recordings/r-1' } })).toString('base64'),
+          attributes: {
+            'ce-type': 'google.workspace.meet.recording.v2.fileGenerated',
+            'ce-subject': '//meet.googleapis.com/spaces/abc-defg-hij'
+          }
+        }
+      });
+
+      await service.dispatch('google_meet' as never, events);
+
+      const request = kafkaService.publish.mock.calls[0][1];
+      expect(request).toEqual(
+        expect.objectContaining({
+          platform: 'google_meet',
+          recordingId: 'conferenceRecords/c-1/recordings/r-1',
+          connectionUserId: 'user-1',
+          meetingId: 'meeting-1',
+          transcriptId: 'transcript-1'
+        })
+      );
+      expect(request.downloadUrl).toBeUndefined();
+    });
+
+    it('should pass on a token the platform scoped to the recording', async () => {
+      await service.dispatch('zoom' as never, [recordingEvent('scoped-token') as never]);
+
+      const request = kafkaService.publish.mock.calls[0][1];
+      expect(request.downloadToken).toBe('scoped-token');
+      expect(request.connectionUserId).toBeUndefined();
+    });
+  });
+});
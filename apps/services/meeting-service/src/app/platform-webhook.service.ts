@@ -0,0 +1,492 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import {
+  MeetingRecorderService,
+  MeetingPersistenceService,
+  KafkaService,
+  MeetingPlatform,
+  MeetingEventType,
+  MeetingPlatformEvent,
+  RecordingTranscriptionRequest
+} from '@meetgenie/shared';
+
+// A webhook payload reduced to what the recorder understands
+export interface NormalizedWebhookEvent {
+  type: MeetingEventType;
+  platformMeetingId: string;
+  data: Record<string, unknown>;
+  recording?: {
+    recordingId: string;
+    downloadUrl?: string;
+    downloadToken?: string;
+    fileType?: string;
+    // Used to create the meeting when the bot never joined it
+    title?: string;
+    startTime?: Date;
+    duration?: number; // seconds
+    hostEmail?: string;
+  };
+}
+
+export interface ZoomWebhookPayload {
+  event: string;
+  download_token?: string;
+  payload: {
+    plainToken?: string;
+    object?: {
+      id?: string | number;
+      uuid?: string;
+      topic?: string;
+      host_email?: string;
+      start_time?: string;
+      duration?: number; // minutes
+      participant?: { user_id?: string; id?: string; user_name?: string; email?: string };
+      chat_message?: { sender_session_id?: string; sender_name?: string; message?: string; date_time?: string };
+      recording_files?: Array<{
+        id: string;
+        file_type: string;
+        recording_type?: string;
+        download_url: string;
+      }>;
+    };
+  };
+}
+
+export interface TeamsNotification {
+  subscriptionId: string;
+  clientState?: string;
+  changeType: string;
+  resource: string;
+  resourceData?: {
+    '@odata.type'?: string;
+    id?: string;
+    eventType?: string;
+    participants?: Array<{ id?: string; identity?: { user?: { id?: string; displayName?: string } } }>;
+  };
+}
+
+export interface GoogleMeetPushPayload {
+  message: {
+    data?: string;
+    attributes?: Record<string, string>;
+  };
+}
+
+export interface WebexWebhookPayload {
+  resource: string;
+  event: string;
+  data: {
+    id: string;
+    meetingId?: string;
+    personId?: string;
+    personEmail?: string;
+    displayName?: string;
+    downloadUrl?: string;
+    format?: string;
+    hostEmail?: string;
+  };
+}
+
+// Zoom rejects requests older than five minutes; so do we
+const MAX_SIGNATURE_AGE_SECONDS = 300;
+
+@Injectable()
+export class PlatformWebhookService {
+  private readonly logger = new Logger(PlatformWebhookService.name);
+
+  // Shared secrets configured when registering the webhooks with each platform
+  private readonly zoomSecretToken = process.env.ZOOM_WEBHOOK_SECRET_TOKEN || '';
+  private readonly teamsClientState = process.env.TEAMS_WEBHOOK_CLIENT_STATE || '';
+  private readonly googleMeetToken = process.env.GOOGLE_MEET_WEBHOOK_TOKEN || '';
+  private readonly webexSecret = process.env.WEBEX_WEBHOOK_SECRET || '';
+
+  constructor(
+    private readonly meetingRecorder: MeetingRecorderService,
+    private readonly meetingPersistence: MeetingPersistenceService,
+    private readonly kafkaService: KafkaService,
+    private readonly configService: ConfigService
+  ) {}
+
+  // Signature verification
+
+  verifyZoomSignature(rawBody: Buffer, timestamp?: string, signature?: string): boolean {
+    if (!this.zoomSecretToken || !timestamp || !signature || !this.isFresh(timestamp)) {
+      return false;
+    }
+
+    const expected = 'v0=' + this.hmac('sha256', this.zoomSecretToken, `v0:${timestamp}:${rawBody.toString('utf8')}`);
+    return this.safeEqual(signature, expected);
+  }
+
+  // Zoom checks endpoint ownership by asking us to sign a random token
+  answerZoomUrlValidation(plainToken: string): { plainToken: string; encryptedToken: string } {
+    return {
+      plainToken,
+      encryptedToken: this.hmac('sha256', this.zoomSecretToken, plainToken)
+    };
+  }
+
+  verifyTeamsClientState(notifications: TeamsNotification[]): boolean {
+    return (
+      !!this.teamsClientState &&
+      notifications.length > 0 &&
+      notifications.every(notification => this.safeEqual(notification.clientState || '', this.teamsClientState))
+    );
+  }
+
+  verifyGoogleMeetToken(token?: string): boolean {
+    return !!this.googleMeetToken && !!token && this.safeEqual(token, this.googleMeetToken);
+  }
+
+  verifyWebexSignature(rawBody: Buffer, signature?: string): boolean {
+    if (!this.webexSecret || !signature) {
+      return false;
+    }
+    return this.safeEqual(signature, this.hmac('sha1', this.webexSecret, rawBody.toString('utf8')));
+  }
+
+  // Payload normalization
+
+  normalizeZoom(payload: ZoomWebhookPayload): NormalizedWebhookEvent[] {
+    const object = payload.payload?.object;
+    if (!object?.id) {
+      return [];
+    }
+    const platformMeetingId = String(object.id);
+
+    switch (payload.event) {
+      case 'meeting.started':
+        return [{ type: MeetingEventType.MEETING_STARTED, platformMeetingId, data: { topic: object.topic } }];
+      case 'meeting.ended':
+        return [{ type: MeetingEventType.MEETING_ENDED, platformMeetingId, data: { topic: object.topic } }];
+      case 'meeting.participant_joined':
+        return [{
+          type: MeetingEventType.PARTICIPANT_JOINED,
+          platformMeetingId,
+          data: {
+            participantId: object.participant?.user_id || object.participant?.id,
+            name: object.participant?.user_name,
+            email: object.participant?.email
+          }
+        }];
+      case 'meeting.chat_message_sent': {
+        const chat = object.chat_message;
+        if (!chat?.message) {
+          return [];
+        }
+        return [{
+          type: MeetingEventType.CHAT_MESSAGE,
+          platformMeetingId,
+          data: {
+            participantId: chat.sender_session_id,
+            name: chat.sender_name,
+            message: chat.message,
+            sentAt: chat.date_time
+          }
+        }];
+      }
+      case 'recording.completed': {
+        // Prefer the audio-only file; it is smaller and all we transcribe
+        const files = object.recording_files || [];
+        const file =
+          files.find(f => f.recording_type === 'audio_only') ||
+          files.find(f => f.file_type === 'M4A') ||
+          files.find(f => f.file_type === 'MP4');
+        if (!file) {
+          return [];
+        }
+        return [{
+          type: MeetingEventType.RECORDING_COMPLETED,
+          platformMeetingId,
+          data: { recordingId: file.id, fileType: file.file_type },
+          recording: {
+            recordingId: file.id,
+            downloadUrl: file.download_url,
+            downloadToken: payload.download_token,
+            fileType: file.file_type,
+            title: object.topic,
+            startTime: object.start_time ? new Date(object.start_time) : undefined,
+            duration: object.duration !== undefined ? object.duration * 60 : undefined,
+            hostEmail: object.host_email
+          }
+        }];
+      }
+      default:
+        return [];
+    }
+  }
+
+  normalizeTeams(notifications: TeamsNotification[]): NormalizedWebhookEvent[] {
+    const events: NormalizedWebhookEvent[] = [];
+
+    for (const notification of notifications) {
+      const platformMeetingId = this.extractTeamsMeetingId(notification.resource);
+      if (!platformMeetingId) {
+        continue;
+      }
+
+      const resourceData = notification.resourceData || {};
+
+      if (notification.resource.includes('/recordings') && notification.changeType === 'created') {
+        const recordingId = resourceData.id || notification.resource.split('/').pop() || '';
+        events.push({
+          type: MeetingEventType.RECORDING_COMPLETED,
+          platformMeetingId,
+          data: { recordingId },
+          recording: {
+            recordingId,
+            downloadUrl: `https://graph.microsoft.com/v1.0/${notification.resource}/content`,
+            fileType: 'MP4'
+          }
+        });
+        continue;
+      }
+
+      switch (resourceData.eventType) {
+        case 'callStarted':
+          events.push({ type: MeetingEventType.MEETING_STARTED, platformMeetingId, data: {} });
+          break;
+        case 'callEnded':
+          events.push({ type: MeetingEventType.MEETING_ENDED, platformMeetingId, data: {} });
+          break;
+        case 'rosterUpdated':
+          for (const participant of resourceData.participants || []) {
+            events.push({
+              type: MeetingEventType.PARTICIPANT_JOINED,
+              platformMeetingId,
+              data: {
+                participantId: participant.identity?.user?.id || participant.id,
+                name: participant.identity?.user?.displayName
+              }
+            });
+          }
+          break;
+      }
+    }
+
+    return events;
+  }
+
+  normalizeGoogleMeet(payload: GoogleMeetPushPayload): NormalizedWebhookEvent[] {
+    const attributes = payload.message?.attributes || {};
+    const eventType = attributes['ce-type'] || '';
+    // The subject names the meeting space, e.g. //meet.googleapis.com/spaces/abc-defg-hij
+    const platformMeetingId = (attributes['ce-subject'] || '').split('/spaces/')[1];
+    if (!platformMeetingId) {
+      return [];
+    }
+
+    const data = this.parseGoogleMeetData(payload.message.data);
+    if (!data) {
+      this.logger.warn(`Ignoring Google Meet ${eventType} event with unreadable data`);
+      return [];
+    }
+
+    switch (eventType) {
+      case 'google.workspace.meet.conference.v2.started':
+        return [{
+          type: MeetingEventType.MEETING_STARTED,
+          platformMeetingId,
+          data: { conferenceRecord: data.conferenceRecord?.name }
+        }];
+      case 'google.workspace.meet.conference.v2.ended':
+        return [{
+          type: MeetingEventType.MEETING_ENDED,
+          platformMeetingId,
+          data: { conferenceRecord: data.conferenceRecord?.name }
+        }];
+      case 'google.workspace.meet.participant.v2.joined':
+        return [{
+          type: MeetingEventType.PARTICIPANT_JOINED,
+          platformMeetingId,
+          data: { participantId: data.participantSession?.name?.split('/participantSessions/')[0] }
+        }];
+      case 'google.workspace.meet.recording.v2.fileGenerated': {
+        const recordingId = data.recording?.name;
+        if (!recordingId) {
+          return [];
+        }
+        // The file lives in the organizer's Drive and is resolved through the adapter
+        return [{
+          type: MeetingEventType.RECORDING_COMPLETED,
+          platformMeetingId,
+          data: { recordingId },
+          recording: { recordingId, fileType: 'MP4' }
+        }];
+      }
+      default:
+        return [];
+    }
+  }
+
+  normalizeWebex(payload: WebexWebhookPayload): NormalizedWebhookEvent[] {
+    const platformMeetingId = payload.data?.meetingId || payload.data?.id;
+    if (!platformMeetingId) {
+      return [];
+    }
+
+    switch (`${payload.resource}.${payload.event}`) {
+      case 'meetings.started':
+        return [{ type: MeetingEventType.MEETING_STARTED, platformMeetingId, data: {} }];
+      case 'meetings.ended':
+        return [{ type: MeetingEventType.MEETING_ENDED, platformMeetingId, data: {} }];
+      case 'meetingParticipants.joined':
+        return [{
+          type: MeetingEventType.PARTICIPANT_JOINED,
+          platformMeetingId,
+          data: {
+            participantId: payload.data.personId || payload.data.id,
+            name: payload.data.displayName,
+            email: payload.data.personEmail
+          }
+        }];
+      case 'recordings.created':
+        return [{
+          type: MeetingEventType.RECORDING_COMPLETED,
+          platformMeetingId,
+          data: { recordingId: payload.data.id },
+          recording: {
+            recordingId: payload.data.id,
+            downloadUrl: payload.data.downloadUrl,
+            fileType: payload.data.format,
+            hostEmail: payload.data.hostEmail
+          }
+        }];
+      default:
+        return [];
+    }
+  }
+
+  // Dispatch
+
+  async dispatch(platform: MeetingPlatform, events: NormalizedWebhookEvent[]): Promise<number> {
+    for (const event of events) {
+      const sessionId = await this.resolveSessionId(platform, event.platformMeetingId);
+
+      const platformEvent: MeetingPlatformEvent = {
+        type: event.type,
+        sessionId,
+        meetingId: event.platformMeetingId,
+        platform,
+        timestamp: new Date(),
+        data: { ...event.data, source: 'webhook' }
+      };
+      await this.meetingRecorder.handlePlatformEvent(platformEvent);
+
+      if (event.recording) {
+        await this.requestTranscription(platform, event.platformMeetingId, event.recording);
+      }
+    }
+
+    return events.length;
+  }
+
+  private async requestTranscription(
+    platform: MeetingPlatform,
+    platformMeetingId: string,
+    recording: NonNullable<NormalizedWebhookEvent['recording']>
+  ): Promise<void> {
+    // Platforms redeliver webhooks; a recording is only transcribed once
+    if (await this.meetingPersistence.findRecording(recording.recordingId)) {
+      this.logger.log(`Transcription of ${platform} recording ${recording.recordingId} was already requested`);
+      return;
+    }
+
+    // The transcript is written to rows that exist before the request does, so
+    // that its segments are kept and the meeting lifecycle hears of the result
+    const stored = await this.meetingPersistence.recordWebhookRecording({
+      id: recording.recordingId,
+      platform,
+      platformMeetingId,
+      title: recording.title,
+      startTime: recording.startTime ?? new Date(),
+      duration: recording.duration,
+      fileType: recording.fileType,
+      downloadUrl: recording.downloadUrl,
+      hostEmail: recording.hostEmail
+    });
+    if (!stored) {
+      this.logger.warn(
+        `No user hosts ${platform} meeting ${platformMeetingId}; skipping transcription of recording ${recording.recordingId}`
+      );
+      return;
+    }
+
+    const request: RecordingTranscriptionRequest = {
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      version: '1.0',
+      source: 'meeting-service',
+      type: 'transcription.recording_requested',
+      platform,
+      platformMeetingId,
+      recordingId: recording.recordingId,
+      downloadUrl: recording.downloadUrl,
+      downloadToken: recording.downloadToken,
+      // Without a webhook-scoped token, the organizer's connected account
+      // downloads it; recordings without a URL are fetched through the adapter
+      connectionUserId: recording.downloadToken ? undefined : stored.meeting.organizerId,
+      meetingId: stored.meeting.id,
+      transcriptId: stored.transcriptId,
+      fileType: recording.fileType
+    };
+
+    const topics = this.configService.get('kafka.topics');
+    await this.kafkaService.publish(topics.transcriptionEvents, request, platformMeetingId);
+    this.logger.log(`Requested transcription of ${platform} recording ${recording.recordingId}`);
+  }
+
+  // Webhooks also arrive for meetings the bot never joined; those get a
+  // synthetic session id so listeners can still correlate them
+  private async resolveSessionId(platform: MeetingPlatform, platformMeetingId: string): Promise<string> {
+    const session = this.meetingRecorder.findSessionByPlatformMeeting(platform, platformMeetingId);
+    if (session) {
+      return session.sessionId;
+    }
+
+    const meeting = await this.meetingPersistence.findMeetingByPlatformId(platform, platformMeetingId);
+    return meeting?.sessionId || `webhook_${platform}_${platformMeetingId}`;
+  }
+
+  private extractTeamsMeetingId(resource: string): string | undefined {
+    // e.g. communications/onlineMeetings/{id}/recordings/{recordingId}
+    const match = resource.match(/onlineMeetings(?:\('([^']+)'\)|\/([^/]+))/);
+    return match ? match[1] || match[2] : undefined;
+  }
+
+  // The event body is base64-encoded JSON; null when it is not
+  private parseGoogleMeetData(encoded?: string): {
+    conferenceRecord?: { name: string };
+    participantSession?: { name: string };
+    recording?: { name: string };
+  } | null {
+    if (!encoded) {
+      return {};
+    }
+
+    try {
+      const data = JSON.parse(Buffer.from(encoded, 'base64').toString('utf8'));
+      return data && typeof data === 'object' ? data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private isFresh(timestamp: string): boolean {
+    const seconds = Number(timestamp);
+    // Zoom sends seconds; tolerate milliseconds as well
+    const millis = seconds > 1e12 ? seconds : seconds * 1000;
+    return Number.isFinite(millis) && Math.abs(Date.now() - millis) <= MAX_SIGNATURE_AGE_SECONDS * 1000;
+  }
+
+  private hmac(algorithm: 'sha1' | 'sha256', secret: string, payload: string): string {
+    return crypto.createHmac(algorithm, secret).update(payload, 'utf8').digest('hex');
+  }
+
+  private safeEqual(actual: string, expected: string): boolean {
+    const a = Buffer.from(actual);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,84 @@
+import type { ConfigService } from '@nestjs/config';
+import type {
+  KafkaService,
+  MeetingPersistenceService,
+  PlatformAdapterFactory,
+  PlatformConnectionService,
+  RedisService
+} from '@meetgenie/shared';
+import { RecordingImportService } from './recording-import.service';
+
+jest.mock('@meetgenie/shared', () => ({
+  PlatformAdapterFactory: class {},
+  PlatformConnectionService: class {},
+  MeetingPersistenceService: class {},
+  KafkaService: class {},
+  RedisService: class {}
+}));
+
+describe('RecordingImportService', () => {
+  const recording = (id: string, platformMeetingId: string) => ({
+    id,
+    platform: 'zoom',
+    platformMeetingId,
+    title: 'Weekly sync',
+    startTime: new Date('2024-01-01T10:00:00Z'),
+    downloadUrl: `https://zoom.us/rec/download/${id}`,
+    fileType: 'M4A'
+  });
+
+  let adapter: { listCloudRecordings: jest.Mock };
+  let meetingPersistence: { findMeetingByPlatformId: jest.Mock; recordImportedRecording: jest.Mock };
+  let kafkaService: { publish: jest.Mock };
+  let service: RecordingImportService;
+
+  beforeEach(() => {
+    adapter = {
+      listCloudRecordings: jest.fn().mockResolvedValue([recording('rec-1', 'meeting-a'), recording('rec-2', 'meeting-b')])
+    };
+    const platformConnections = {
+      getCredentials: jest.fn().mockResolvedValue({ platform: 'zoom', accessToken: 'user-access-token' })
+    };
+    meetingPersistence = {
+      findMeetingByPlatformId: jest.fn().mockResolvedValue(null),
+      recordImportedRecording: jest.fn().mockImplementation(async (_userId, imported) => ({
+        meeting: { id: `meeting-for-${imported.id}` },
+        transcriptId: `transcript-for-${imported.id}`
+      }))
+    };
+    kafkaService = { publish: jest.fn() };
+    const redisService = { acquireLock: jest.fn().mockResolvedValue('lock-token'), releaseLock: jest.fn() };
+    const configService = { get: jest.fn().mockReturnValue({ transcriptionEvents: 'transcription-events' }) };
+
+    service = new RecordingImportService(
+      { getAdapter: () => adapter } as unknown as PlatformAdapterFactory,
+      platformConnections as unknown as PlatformConnectionService,
+      meetingPersistence as unknown as MeetingPersistenceService,
+      kafkaService as unknown as KafkaService,
+      redisService as unknown as RedisService,
+      configService as unknown as ConfigService
+    );
+  });
+
+  it("should request transcriptions naming the user's connection rather than its token", async () => {
+    const result = await service.importRecordings('user-1', 'zoom' as never);
+
+    expect(result.imported).toHaveLength(2);
+    for (const [, request] of kafkaService.publish.mock.calls) {
+      expect(request.connectionUserId).toBe('user-1');
+      expect(request.downloadToken).toBeUndefined();
+      expect(JSON.stringify(request)).not.toContain('user-access-token');
+    }
+  });
+
+  it('should skip recordings of meetings that are already known', async () => {
+    meetingPersistence.findMeetingByPlatformId.mockImplementation(async (_platform, id) =>
+      id === 'meeting-a' ? { id: 'existing' } : null
+    );
+
+    const result = await service.importRecordings('user-1', 'zoom' as never);
+
+    expect(result.skipped).toEqual([{ recordingId: 'rec-1', platformMeetingId: 'meeting-a', reason: 'already_imported' }]);
+    expect(result.imported.map(imported => imported.recordingId)).toEqual(['rec-2']);
+  });
+});
@@ -0,0 +1,139 @@
+import { Injectable, Logger, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import {
+  PlatformAdapterFactory,
+  PlatformConnectionService,
+  MeetingPersistenceService,
+  KafkaService,
+  RedisService,
+  MeetingPlatform,
+  CloudRecording,
+  RecordingTranscriptionRequest
+} from '@meetgenie/shared';
+
+export interface ImportedRecording {
+  recordingId: string;
+  platformMeetingId: string;
+  meetingId: string;
+  transcriptId: string;
+}
+
+export interface SkippedRecording {
+  recordingId: string;
+  platformMeetingId: string;
+  reason: 'already_imported' | 'failed';
+}
+
+export interface RecordingImportResult {
+  platform: MeetingPlatform;
+  since: Date;
+  imported: ImportedRecording[];
+  skipped: SkippedRecording[];
+}
+
+// How far back an import looks when the caller gives no start date
+const DEFAULT_IMPORT_WINDOW_DAYS = 30;
+const IMPORT_LOCK_TTL_SECONDS = 300;
+
+@Injectable()
+export class RecordingImportService {
+  private readonly logger = new Logger(RecordingImportService.name);
+
+  constructor(
+    private readonly platformFactory: PlatformAdapterFactory,
+    private readonly platformConnections: PlatformConnectionService,
+    private readonly meetingPersistence: MeetingPersistenceService,
+    private readonly kafkaService: KafkaService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService
+  ) {}
+
+  // Imports every recording the user's platform account stored since the given
+  // date; meetings already known by platform meeting id are left untouched
+  async importRecordings(userId: string, platform: MeetingPlatform, since?: Date): Promise<RecordingImportResult> {
+    const from = since ?? new Date(Date.now() - DEFAULT_IMPORT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    // One import per user and platform at a time, so dedupe cannot race itself
+    const lockKey = `recording-import:${userId}:${platform}`;
+    const lockToken = await this.redisService.acquireLock(lockKey, IMPORT_LOCK_TTL_SECONDS);
+    if (!lockToken) {
+      throw new ConflictException(`An import of ${platform} recordings is already running`);
+    }
+
+    try {
+      const credentials = await this.platformConnections.getCredentials(userId, platform);
+      const adapter = this.platformFactory.getAdapter(platform);
+      const recordings = await adapter.listCloudRecordings(from, credentials ?? undefined);
+
+      this.logger.log(`Found ${recordings.length} ${platform} recordings since ${from.toISOString()} for user ${userId}`);
+
+      const result: RecordingImportResult = { platform, since: from, imported: [], skipped: [] };
+      const seen = new Set<string>();
+
+      for (const recording of recordings) {
+        const existing = seen.has(recording.platformMeetingId)
+          || (await this.meetingPersistence.findMeetingByPlatformId(platform, recording.platformMeetingId));
+
+        if (existing) {
+          result.skipped.push(this.toSkipped(recording, 'already_imported'));
+          continue;
+        }
+        seen.add(recording.platformMeetingId);
+
+        try {
+          result.imported.push(await this.importRecording(userId, recording));
+        } catch (error) {
+          this.logger.error(`Failed to import ${platform} recording ${recording.id}:`, error);
+          result.skipped.push(this.toSkipped(recording, 'failed'));
+        }
+      }
+
+      this.logger.log(
+        `Imported ${result.imported.length} ${platform} recordings for user ${userId} (${result.skipped.length} skipped)`
+      );
+      return result;
+    } finally {
+      await this.redisService.releaseLock(lockKey, lockToken);
+    }
+  }
+
+  private async importRecording(userId: string, recording: CloudRecording): Promise<ImportedRecording> {
+    const { meeting, transcriptId } = await this.meetingPersistence.recordImportedRecording(userId, recording);
+
+    const request: RecordingTranscriptionRequest = {
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      version: '1.0',
+      source: 'meeting-service',
+      type: 'transcription.recording_requested',
+      platform: recording.platform,
+      platformMeetingId: recording.platformMeetingId,
+      recordingId: recording.id,
+      downloadUrl: recording.downloadUrl,
+      // The transcription service downloads with the importing user's connection
+      connectionUserId: userId,
+      meetingId: meeting.id,
+      transcriptId,
+      fileType: recording.fileType
+    };
+
+    const topics = this.configService.get('kafka.topics');
+    await this.kafkaService.publish(topics.transcriptionEvents, request, recording.platformMeetingId);
+
+    return {
+      recordingId: recording.id,
+      platformMeetingId: recording.platformMeetingId,
+      meetingId: meeting.id,
+      transcriptId
+    };
+  }
+
+  private toSkipped(recording: CloudRecording, reason: SkippedRecording['reason']): SkippedRecording {
+    return {
+      recordingId: recording.id,
+      platformMeetingId: recording.platformMeetingId,
+      reason
+    };
+  }
+}
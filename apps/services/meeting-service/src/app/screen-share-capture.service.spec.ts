@@ -0,0 +1,234 @@
+import { NotFoundException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EventEmitter } from 'events';
+import { PassThrough, Writable } from 'stream';
+import type { MeetingPersistenceService, MeetingRecorderService } from '@meetgenie/shared';
+import { ScreenShareCaptureService } from './screen-share-capture.service';
+
+jest.mock('@meetgenie/shared', () => ({
+  MeetingRecorderService: class {},
+  MeetingPersistenceService: class {}
+}));
+
+// A chainable stand-in for an ffmpeg command; the capture pipes frames into a
+// stream the test writes to, thumbnails come back as a fixed JPEG
+interface FakeCommand extends EventEmitter {
+  output?: Writable;
+  kill: jest.Mock;
+}
+
+const mockCommands: FakeCommand[] = [];
+
+jest.mock('fluent-ffmpeg', () => {
+  const create = () => {
+    const command = new EventEmitter() as FakeCommand;
+    command.kill = jest.fn();
+    for (const method of ['videoFilters', 'outputOptions', 'videoCodec', 'format', 'inputFormat', 'frames']) {
+      (command as unknown as Record<string, unknown>)[method] = () => command;
+    }
+    (command as unknown as Record<string, unknown>).pipe = (output?: Writable) => {
+      if (output) {
+        command.output = output;
+        mockCommands.push(command);
+        return output;
+      }
+      const thumbnail = new PassThrough();
+      thumbnail.end(Buffer.from('jpeg'));
+      return thumbnail;
+    };
+    return command;
+  };
+  return { __esModule: true, default: jest.fn(create) };
+});
+
+// Texts tesseract reads, one per frame in order
+const mockRecognized: string[] = [];
+
+jest.mock('child_process', () => ({
+  spawn: jest.fn(() => {
+    const tesseract = new EventEmitter() as EventEmitter & Record<string, unknown>;
+    tesseract.stdout = new EventEmitter();
+    tesseract.stderr = new EventEmitter();
+    tesseract.stdin = {
+      end: () =>
+        setImmediate(() => {
+          const rows = (mockRecognized.shift() || '').split('\n').flatMap((line, lineNumber) =>
+            line.split(' ').map((word, wordNumber) =>
+              ['5', '1', '1', '1', String(lineNumber + 1), String(wordNumber + 1), '0', '0', '0', '0', '90', word].join('\t')
+            )
+          );
+          (tesseract.stdout as EventEmitter).emit('data', Buffer.from(['level\tpage_num', ...rows].join('\n')));
+          tesseract.emit('close', 0);
+        })
+    };
+    return tesseract;
+  })
+}));
+
+describe('ScreenShareCaptureService', () => {
+  const startTime = new Date('2024-01-01T10:00:00Z');
+
+  let meetingRecorder: { getActiveRecording: jest.Mock; getScreenShareStream: jest.Mock };
+  let meetingPersistence: {
+    getVisualSegments: jest.Mock;
+    getVisualSegmentThumbnail: jest.Mock;
+    recordVisualSegment: jest.Mock;
+  };
+  let eventEmitter: EventEmitter2;
+  let service: ScreenShareCaptureService;
+
+  const flush = async () => {
+    for (let i = 0; i < 10; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  // A PNG's signature, then chunks of a 4-byte length, 4-byte type, data and a 4-byte CRC
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+  };
+  const frame = (name: string, image = Buffer.from(name)) =>
+    Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk('IHDR', Buffer.alloc(13)),
+      chunk('IDAT', image),
+      chunk('IEND', Buffer.alloc(0))
+    ]);
+
+  const startRecording = async (captureScreenShare = true) => {
+    meetingRecorder.getActiveRecording.mockReturnValue({ id: 'rec-1', sessionId: 'session-1', startTime, captureScreenShare });
+    eventEmitter.emit('recording.started', { recordingId: 'rec-1', sessionId: 'session-1' });
+    await flush();
+    return mockCommands[mockCommands.length - 1];
+  };
+
+  // ffmpeg reports each selected frame's time on stderr before writing it
+  const show = (command: FakeCommand, seconds: number, image: Buffer) => {
+    command.emit('stderr', `[Parsed_showinfo_1 @ 0x1] n:   0 pts:   1 pts_time:${seconds} duration: 1`);
+    command.output?.write(image);
+  };
+
+  beforeEach(() => {
+    mockCommands.length = 0;
+    mockRecognized.length = 0;
+    meetingRecorder = {
+      getActiveRecording: jest.fn(),
+      getScreenShareStream: jest.fn().mockResolvedValue(new PassThrough())
+    };
+    meetingPersistence = {
+      getVisualSegments: jest.fn().mockResolvedValue([]),
+      getVisualSegmentThumbnail: jest.fn().mockResolvedValue(null),
+      recordVisualSegment: jest.fn().mockResolvedValue(undefined)
+    };
+    eventEmitter = new EventEmitter2();
+
+    service = new ScreenShareCaptureService(
+      meetingRecorder as unknown as MeetingRecorderService,
+      meetingPersistence as unknown as MeetingPersistenceService,
+      eventEmitter
+    );
+    service.onModuleInit();
+  });
+
+  it('should store the text and thumbnail of each frame at its time in the recording', async () => {
+    mockRecognized.push('Quarterly results\nRevenue up');
+    const command = await startRecording();
+
+    show(command, 12.5, frame('slide-1'));
+    await flush();
+
+    expect(meetingPersistence.recordVisualSegment).toHaveBeenCalledWith('session-1', 'rec-1', {
+      capturedAt: new Date(startTime.getTime() + 12500),
+      text: 'Quarterly results\nRevenue up',
+      confidence: 0.9,
+      thumbnail: Buffer.from('jpeg')
+    });
+  });
+
+  it('should put together frames that arrive over several chunks', async () => {
+    mockRecognized.push('Agenda', 'Roadmap');
+    const command = await startRecording();
+    const frames = Buffer.concat([frame('slide-1'), frame('slide-2')]);
+
+    command.emit('stderr', 'Parsed_showinfo_1 n:0 pts_time:1');
+    command.emit('stderr', 'Parsed_showinfo_1 n:1 pts_time:30');
+    command.output?.write(frames.subarray(0, 9));
+    command.output?.write(frames.subarray(9, 20));
+    command.output?.write(frames.subarray(20));
+    await flush();
+
+    const segments = meetingPersistence.recordVisualSegment.mock.calls.map(([, , segment]) => segment);
+    expect(segments.map(segment => segment.text)).toEqual(['Agenda', 'Roadmap']);
+    expect(segments[1].capturedAt).toEqual(new Date(startTime.getTime() + 30000));
+  });
+
+  it('should not end a frame at IEND bytes inside its image data', async () => {
+    mockRecognized.push('Agenda', 'Roadmap');
+    const command = await startRecording();
+
+    show(command, 1, frame('slide-1', Buffer.from('xxIEND\0\0\0\0xx')));
+    show(command, 2, frame('slide-2'));
+    await flush();
+
+    const segments = meetingPersistence.recordVisualSegment.mock.calls.map(([, , segment]) => segment);
+    expect(segments.map(segment => segment.text)).toEqual(['Agenda', 'Roadmap']);
+  });
+
+  it('should place frames without a reported time by the sampling rate', async () => {
+    mockRecognized.push('Agenda', 'Roadmap', 'Budget');
+    const command = await startRecording();
+
+    show(command, 10, frame('slide-1'));
+    command.output?.write(frame('slide-2'));
+    command.output?.write(frame('slide-3'));
+    await flush();
+
+    const segments = meetingPersistence.recordVisualSegment.mock.calls.map(([, , segment]) => segment);
+    expect(segments.map(segment => segment.capturedAt)).toEqual([
+      new Date(startTime.getTime() + 10000),
+      new Date(startTime.getTime() + 11000),
+      new Date(startTime.getTime() + 12000)
+    ]);
+  });
+
+  it('should skip a scene change that shows the same text', async () => {
+    mockRecognized.push('Agenda', 'Agenda');
+    const command = await startRecording();
+
+    show(command, 1, frame('slide-1'));
+    show(command, 2, frame('slide-1-with-pointer'));
+    await flush();
+
+    expect(meetingPersistence.recordVisualSegment).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not capture recordings that did not ask for it', async () => {
+    await startRecording(false);
+
+    expect(meetingRecorder.getScreenShareStream).not.toHaveBeenCalled();
+    expect(mockCommands).toHaveLength(0);
+  });
+
+  it('should stop ffmpeg when the recording stops', async () => {
+    const command = await startRecording();
+
+    eventEmitter.emit('recording.stopped', { recordingId: 'rec-1', sessionId: 'session-1' });
+
+    expect(command.kill).toHaveBeenCalledWith('SIGTERM');
+  });
+
+  it('should not fail the recording when the screen share cannot be opened', async () => {
+    meetingRecorder.getScreenShareStream.mockRejectedValue(new Error('No screen share'));
+
+    await expect(startRecording()).resolves.toBeUndefined();
+  });
+
+  it('should report a missing thumbnail as not found', async () => {
+    await expect(service.getThumbnail('meeting-1', 'segment-1')).rejects.toBeInstanceOf(NotFoundException);
+
+    meetingPersistence.getVisualSegmentThumbnail.mockResolvedValue(Buffer.from('jpeg'));
+    await expect(service.getThumbnail('meeting-1', 'segment-1')).resolves.toEqual(Buffer.from('jpeg'));
+  });
+});
@@ -0,0 +1,282 @@
+import { Injectable, Logger, OnModuleInit, NotFoundException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Readable, PassThrough } from 'stream';
+import { spawn } from 'child_process';
+import ffmpeg from 'fluent-ffmpeg';
+import {
+  MeetingRecorderService,
+  MeetingPersistenceService,
+  MeetingRecording,
+  VisualSegment
+} from '@meetgenie/shared';
+
+// Payload of the recorder's recording.* events
+interface RecordingEvent {
+  recordingId: string;
+  sessionId: string;
+}
+
+interface RecognizedText {
+  text: string;
+  confidence: number;
+}
+
+interface ScreenShareCapture {
+  command: ffmpeg.FfmpegCommand;
+  // Frames are OCR'd one at a time, in the order they were shown
+  queue: Promise<void>;
+  frameTimes: number[]; // seconds into the stream, from ffmpeg's showinfo
+  frameCount: number;
+  // The last frame whose time showinfo reported, to place frames it missed after
+  lastTimed?: { index: number; seconds: number };
+  lastText?: string;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Walks the chunks of the PNG at the start of the buffer (a 4-byte length, 4-byte
+// type, the data and a 4-byte CRC each) and returns its size once its IEND chunk
+// has arrived, or undefined while it is still incomplete. The bytes 'IEND' can
+// show up inside compressed image data, so only a chunk's type field ends a frame
+function pngLength(buffer: Buffer): number | undefined {
+  if (buffer.length < PNG_SIGNATURE.length) {
+    return undefined;
+  }
+  if (!buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    throw new Error('Screen share frame is not a PNG');
+  }
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= buffer.length) {
+    const end = offset + 12 + buffer.readUInt32BE(offset);
+    if (buffer.toString('latin1', offset + 4, offset + 8) === 'IEND') {
+      return end <= buffer.length ? end : undefined;
+    }
+    offset = end;
+  }
+  return undefined;
+}
+
+// Samples the shared screen of recordings that ask for it whenever the scene
+// changes, OCRs each frame locally with tesseract and stores the text and a
+// thumbnail as visual segments on the meeting timeline
+@Injectable()
+export class ScreenShareCaptureService implements OnModuleInit {
+  private readonly logger = new Logger(ScreenShareCaptureService.name);
+  private captures = new Map<string, ScreenShareCapture>();
+
+  // How different a frame must be from the previous one (0-1) to count as a new scene
+  private readonly sceneThreshold = Number(process.env.SCREEN_SHARE_SCENE_THRESHOLD) || 0.3;
+  // Frames per second looked at for scene changes
+  private readonly sampleRate = Number(process.env.SCREEN_SHARE_SAMPLE_RATE) || 1;
+  private readonly thumbnailWidth = Number(process.env.SCREEN_SHARE_THUMBNAIL_WIDTH) || 320;
+  private readonly tesseractPath = process.env.OCR_TESSERACT_PATH || 'tesseract';
+  private readonly ocrLanguage = process.env.OCR_LANGUAGE || 'eng';
+
+  constructor(
+    private readonly meetingRecorder: MeetingRecorderService,
+    private readonly meetingPersistence: MeetingPersistenceService,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
+
+  onModuleInit() {
+    this.eventEmitter.on('recording.started', (event: RecordingEvent) => {
+      this.startCapture(event.recordingId, event.sessionId);
+    });
+
+    this.eventEmitter.on('recording.stopped', (event: RecordingEvent) => {
+      this.stopCapture(event.recordingId);
+    });
+  }
+
+  async getVisualSegments(meetingId: string): Promise<VisualSegment[]> {
+    return this.meetingPersistence.getVisualSegments(meetingId);
+  }
+
+  async getThumbnail(meetingId: string, segmentId: string): Promise<Buffer> {
+    const thumbnail = await this.meetingPersistence.getVisualSegmentThumbnail(meetingId, segmentId);
+    if (!thumbnail) {
+      throw new NotFoundException(`No thumbnail for visual segment ${segmentId} of meeting ${meetingId}`);
+    }
+    return thumbnail;
+  }
+
+  private async startCapture(recordingId: string, sessionId: string): Promise<void> {
+    const recording = this.meetingRecorder.getActiveRecording(recordingId);
+    if (!recording?.captureScreenShare || this.captures.has(recordingId)) {
+      return;
+    }
+
+    try {
+      const stream = await this.meetingRecorder.getScreenShareStream(sessionId);
+      const input = stream instanceof Readable ? stream : new Readable().wrap(stream);
+      const frames = new PassThrough();
+
+      // The screen is sampled at a fixed rate; the first sample is always kept,
+      // after that only scene changes are
+      const command = ffmpeg(input)
+        .videoFilters([`fps=${this.sampleRate}`, `select='eq(n,0)+gt(scene,${this.sceneThreshold})'`, 'showinfo'])
+        .outputOptions(['-vsync', 'vfr'])
+        .videoCodec('png')
+        .format('image2pipe')
+        .on('stderr', (line: string) => {
+          const match = line.match(/Parsed_showinfo.*pts_time:\s*([\d.]+)/);
+          if (match) {
+            capture.frameTimes.push(Number(match[1]));
+          }
+        })
+        .on('error', (error: Error) => {
+          // Killing the command on stop surfaces here as well
+          if (this.captures.has(recordingId)) {
+            this.logger.error(`Screen share capture for recording ${recordingId} failed:`, error);
+            this.captures.delete(recordingId);
+          }
+        })
+        .on('end', () => this.captures.delete(recordingId));
+
+      const capture: ScreenShareCapture = { command, queue: Promise.resolve(), frameTimes: [], frameCount: 0 };
+      this.captures.set(recordingId, capture);
+
+      let pending = Buffer.alloc(0);
+      frames.on('data', (chunk: Buffer) => {
+        pending = Buffer.concat([pending, chunk]);
+
+        try {
+          let length = pngLength(pending);
+          while (length !== undefined) {
+            const frame = pending.subarray(0, length);
+            pending = pending.subarray(length);
+
+            const capturedAt = new Date(recording.startTime.getTime() + this.frameTime(capture) * 1000);
+            capture.queue = capture.queue.then(() => this.processFrame(recording, capture, frame, capturedAt));
+
+            length = pngLength(pending);
+          }
+        } catch (error) {
+          this.logger.error(`Screen share capture for recording ${recordingId} failed:`, error);
+          this.stopCapture(recordingId);
+        }
+      });
+
+      command.pipe(frames, { end: true });
+      this.logger.log(`Capturing screen share for recording ${recordingId}`);
+    } catch (error) {
+      this.logger.error(`Failed to start screen share capture for recording ${recordingId}:`, error);
+    }
+  }
+
+  private stopCapture(recordingId: string): void {
+    const capture = this.captures.get(recordingId);
+    if (!capture) {
+      return;
+    }
+
+    this.captures.delete(recordingId);
+    capture.command.kill('SIGTERM');
+    this.logger.log(`Stopped screen share capture for recording ${recordingId}`);
+  }
+
+  // Seconds into the stream of the next frame. Should showinfo's line for it be
+  // missing, it is placed after the last timed frame by the samples between them,
+  // as each kept frame is at least one sample later than the one before
+  private frameTime(capture: ScreenShareCapture): number {
+    const index = capture.frameCount++;
+    const seconds = capture.frameTimes[index];
+    if (seconds !== undefined) {
+      capture.lastTimed = { index, seconds };
+      return seconds;
+    }
+
+    const { index: lastIndex, seconds: lastSeconds } = capture.lastTimed ?? { index: 0, seconds: 0 };
+    return lastSeconds + (index - lastIndex) / this.sampleRate;
+  }
+
+  private async processFrame(
+    recording: MeetingRecording,
+    capture: ScreenShareCapture,
+    frame: Buffer,
+    capturedAt: Date
+  ): Promise<void> {
+    try {
+      const [recognized, thumbnail] = await Promise.all([this.recognizeText(frame), this.createThumbnail(frame)]);
+
+      // A scene change with the same text, e.g. a pointer moving over a slide, is the same slide
+      if (recognized.text === capture.lastText) {
+        return;
+      }
+      capture.lastText = recognized.text;
+
+      await this.meetingPersistence.recordVisualSegment(recording.sessionId, recording.id, {
+        capturedAt,
+        text: recognized.text,
+        confidence: recognized.confidence,
+        thumbnail
+      });
+    } catch (error) {
+      this.logger.error(`Failed to process screen share frame of recording ${recording.id}:`, error);
+    }
+  }
+
+  // tesseract's TSV output has one row per word with its confidence (0-100);
+  // words are joined back into their lines
+  private recognizeText(image: Buffer): Promise<RecognizedText> {
+    return new Promise((resolve, reject) => {
+      const tesseract = spawn(this.tesseractPath, ['stdin', 'stdout', '-l', this.ocrLanguage, 'tsv']);
+      let output = '';
+      let errors = '';
+
+      tesseract.stdout.on('data', (chunk: Buffer) => (output += chunk.toString('utf8')));
+      tesseract.stderr.on('data', (chunk: Buffer) => (errors += chunk.toString('utf8')));
+      tesseract.on('error', reject);
+      tesseract.on('close', (code) => {
+        if (code !== 0) {
+          reject(new Error(`tesseract exited with code ${code}: ${errors.trim()}`));
+          return;
+        }
+
+        const lines = new Map<string, string[]>();
+        const confidences: number[] = [];
+
+        for (const row of output.split('\n').slice(1)) {
+          const columns = row.split('\t');
+          const confidence = Number(columns[10]);
+          const word = columns[11]?.trim();
+          if (!word || confidence < 0) {
+            continue;
+          }
+
+          // page, block, paragraph and line number identify the line
+          const key = columns.slice(1, 5).join('.');
+          lines.set(key, [...(lines.get(key) || []), word]);
+          confidences.push(confidence);
+        }
+
+        resolve({
+          text: Array.from(lines.values()).map(words => words.join(' ')).join('\n'),
+          confidence: confidences.length
+            ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length / 100
+            : 0
+        });
+      });
+
+      tesseract.stdin.end(image);
+    });
+  }
+
+  private createThumbnail(image: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+
+      ffmpeg(Readable.from([image]))
+        .inputFormat('png_pipe')
+        .videoFilters(`scale=${this.thumbnailWidth}:-2`)
+        .frames(1)
+        .videoCodec('mjpeg')
+        .format('image2pipe')
+        .on('error', reject)
+        .pipe()
+        .on('data', (chunk: Buffer) => chunks.push(chunk))
+        .on('end', () => resolve(Buffer.concat(chunks)));
+    });
+  }
+}
@@ -4,7 +4,8 @@ import { MicroserviceOptions, Transport } from '@nestjs/microservices';
 import { AppModule } from './app/app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Raw bodies are kept for verifying platform webhook signatures
+  const app = await NestFactory.create(AppModule, { rawBody: true });
   
   app.setGlobalPrefix('api');
   app.useGlobalPipes(new ValidationPipe({
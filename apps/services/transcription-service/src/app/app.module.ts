@@ -6,13 +6,20 @@ import { MulterModule } from '@nestjs/platform-express';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { TranscriptionController } from './transcription.controller';
+import { RecordingTranscriptionService } from './recording-transcription.service';
+import { MeetingUploadController } from './meeting-upload.controller';
+import { MeetingUploadService } from './meeting-upload.service';
+import { GlossaryController } from './glossary.controller';
 
 import {
   SharedModule,
   TranscriptionServiceImpl,
   HuggingFaceService,
+  LocalAsrService,
+  AsrProviderFactory,
   AudioPreprocessingServiceImpl,
   SpeakerDiarizationServiceImpl,
+  VoiceActivityDetectionService,
   WebSocketTranscriptionServiceImpl,
   RealTimeAudioStreamService,
   RealTimeTranscriptionIntegrationService,
@@ -37,18 +44,28 @@ import { AICostMonitorService } from 'libs/shared/src/lib/services/ai-cost-monit
     }),
     SharedModule,
   ],
-  controllers: [AppController, TranscriptionController],
+  controllers: [
+    AppController,
+    TranscriptionController,
+    MeetingUploadController,
+    GlossaryController,
+  ],
   providers: [
     AppService,
     TranscriptionServiceImpl,
     HuggingFaceService,
+    LocalAsrService,
+    AsrProviderFactory,
     AudioPreprocessingServiceImpl,
     SpeakerDiarizationServiceImpl,
+    VoiceActivityDetectionService,
     WebSocketTranscriptionServiceImpl,
     RealTimeAudioStreamService,
     RealTimeTranscriptionIntegrationService,
     InngestFunctionsService,
     AICostMonitorService,
+    RecordingTranscriptionService,
+    MeetingUploadService,
   ],
 })
 export class AppModule {}
@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { 
   TranscriptionServiceImpl,
   HuggingFaceService,
@@ -9,9 +9,13 @@ import {
 } from '@meetgenie/shared';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 
+// How often to look for live sessions of replicas that stopped
+const SESSION_TAKEOVER_INTERVAL = 60 * 1000;
+
 @Injectable()
-export class AppService {
+export class AppService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(AppService.name);
+  private sessionTakeover?: NodeJS.Timeout;
 
   constructor(
     private transcriptionService: TranscriptionServiceImpl,
@@ -19,6 +23,22 @@ export class AppService {
     private websocketService: WebSocketTranscriptionServiceImpl
   ) {}
 
+  async onModuleInit() {
+    await this.transcriptionService.restorePersistedSessions();
+
+    this.sessionTakeover = setInterval(() => {
+      this.transcriptionService.restorePersistedSessions().catch(error => {
+        this.logger.error('Failed to take over live transcription sessions:', error);
+      });
+    }, SESSION_TAKEOVER_INTERVAL);
+  }
+
+  onModuleDestroy() {
+    if (this.sessionTakeover) {
+      clearInterval(this.sessionTakeover);
+    }
+  }
+
   getData(): { message: string } {
     return { message: 'Transcription Service API' };
   }
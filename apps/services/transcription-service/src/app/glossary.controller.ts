@@ -0,0 +1,135 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  Logger,
+  HttpException,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  AuthGuard,
+  CurrentUser,
+  GlossaryScope,
+  GlossaryService,
+  MeetingMemberGuard,
+  UserSession,
+} from '@meetgenie/shared';
+
+interface AddGlossaryTermRequest {
+  term: string;
+  aliases?: string[]; // how the model tends to mishear the term
+}
+
+// Spellings of names, products and acronyms that transcripts are corrected to:
+// for the user's organization, or for a single meeting of theirs
+@Controller('glossary')
+@UseGuards(AuthGuard)
+export class GlossaryController {
+  private readonly logger = new Logger(GlossaryController.name);
+
+  constructor(private readonly glossaryService: GlossaryService) {}
+
+  @Get()
+  async listTerms(@CurrentUser() user: UserSession) {
+    return this.glossaryService.listTerms({
+      organizationId: await this.getOrganizationId(user),
+    });
+  }
+
+  @Post()
+  async addTerm(
+    @CurrentUser() user: UserSession,
+    @Body() body: AddGlossaryTermRequest,
+  ) {
+    const term = this.validateTerm(body);
+    return this.glossaryService.addTerm(term, body.aliases ?? [], {
+      organizationId: await this.getOrganizationId(user),
+    });
+  }
+
+  @Delete(':termId')
+  async removeTerm(
+    @CurrentUser() user: UserSession,
+    @Param('termId') termId: string,
+  ) {
+    const organizationId = await this.getOrganizationId(user);
+    this.logger.log(
+      `Removing glossary term ${termId} of organization ${organizationId}`,
+    );
+    await this.removeScopedTerm(termId, { organizationId });
+    return { success: true };
+  }
+
+  // The meeting's own terms with everything else its transcript is corrected with
+  @Get('meetings/:meetingId')
+  @UseGuards(MeetingMemberGuard)
+  async getMeetingGlossary(@Param('meetingId') meetingId: string) {
+    const [terms, glossary] = await Promise.all([
+      this.glossaryService.listTerms({ meetingId }),
+      this.glossaryService.getMeetingGlossary(meetingId),
+    ]);
+    return { terms, glossary };
+  }
+
+  @Post('meetings/:meetingId')
+  @UseGuards(MeetingMemberGuard)
+  async addMeetingTerm(
+    @Param('meetingId') meetingId: string,
+    @Body() body: AddGlossaryTermRequest,
+  ) {
+    return this.glossaryService.addTerm(
+      this.validateTerm(body),
+      body.aliases ?? [],
+      { meetingId },
+    );
+  }
+
+  @Delete('meetings/:meetingId/:termId')
+  @UseGuards(MeetingMemberGuard)
+  async removeMeetingTerm(
+    @Param('meetingId') meetingId: string,
+    @Param('termId') termId: string,
+  ) {
+    this.logger.log(`Removing glossary term ${termId} of meeting ${meetingId}`);
+    await this.removeScopedTerm(termId, { meetingId });
+    return { success: true };
+  }
+
+  // Organization-wide terms are the organization's members' to manage
+  private async getOrganizationId(user: UserSession): Promise<string> {
+    const organizationId = await this.glossaryService.getOrganizationId(
+      user.userId,
+    );
+    if (!organizationId) {
+      throw new HttpException(
+        'Organization glossaries need an organization',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+    return organizationId;
+  }
+
+  // Terms of other scopes are reported as missing, like their meetings
+  private async removeScopedTerm(
+    termId: string,
+    scope: GlossaryScope,
+  ): Promise<void> {
+    if (!(await this.glossaryService.removeTerm(termId, scope))) {
+      throw new HttpException(
+        `Glossary term not found: ${termId}`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+  }
+
+  private validateTerm(body: AddGlossaryTermRequest): string {
+    if (!body?.term?.trim()) {
+      throw new HttpException('A term is required', HttpStatus.BAD_REQUEST);
+    }
+    return body.term;
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+  Logger,
+  HttpException,
+  HttpStatus,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { AuthGuard, CurrentUser, UserSession } from '@meetgenie/shared';
+import {
+  MeetingUploadService,
+  MeetingUploadState,
+  CreateMeetingUploadRequest,
+} from './meeting-upload.service';
+
+// Resumable upload of recorded meetings: create the upload, send its parts in
+// any order (re-sending failed ones), then complete it to start processing
+@Controller('uploads')
+@UseGuards(AuthGuard)
+export class MeetingUploadController {
+  private readonly logger = new Logger(MeetingUploadController.name);
+
+  constructor(private readonly uploadService: MeetingUploadService) {}
+
+  @Post()
+  async createUpload(
+    @CurrentUser() user: UserSession,
+    @Body() body: CreateMeetingUploadRequest,
+  ): Promise<MeetingUploadState> {
+    this.logger.log(`Creating upload of ${body.fileName} for ${user.userId}`);
+    return this.uploadService.createUpload(user.userId, body);
+  }
+
+  @Get(':uploadId')
+  async getUpload(
+    @CurrentUser() user: UserSession,
+    @Param('uploadId') uploadId: string,
+  ): Promise<MeetingUploadState> {
+    return this.uploadService.getUpload(user.userId, uploadId);
+  }
+
+  @Put(':uploadId/parts/:partNumber')
+  @UseInterceptors(FileInterceptor('part'))
+  async uploadPart(
+    @CurrentUser() user: UserSession,
+    @Param('uploadId') uploadId: string,
+    @Param('partNumber', ParseIntPipe) partNumber: number,
+    @UploadedFile() part: { buffer: Buffer } | undefined,
+  ): Promise<MeetingUploadState> {
+    if (!part) {
+      throw new HttpException('No part provided', HttpStatus.BAD_REQUEST);
+    }
+
+    return this.uploadService.uploadPart(
+      user.userId,
+      uploadId,
+      partNumber,
+      part.buffer,
+    );
+  }
+
+  @Post(':uploadId/complete')
+  async completeUpload(
+    @CurrentUser() user: UserSession,
+    @Param('uploadId') uploadId: string,
+  ): Promise<MeetingUploadState> {
+    this.logger.log(`Completing upload ${uploadId}`);
+    return this.uploadService.completeUpload(user.userId, uploadId);
+  }
+
+  @Delete(':uploadId')
+  async abortUpload(
+    @CurrentUser() user: UserSession,
+    @Param('uploadId') uploadId: string,
+  ): Promise<void> {
+    this.logger.log(`Aborting upload ${uploadId}`);
+    await this.uploadService.abortUpload(user.userId, uploadId);
+  }
+}
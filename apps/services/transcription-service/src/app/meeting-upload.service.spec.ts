@@ -0,0 +1,313 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type {
+  RedisService,
+  MeetingPersistenceService,
+  AudioPreprocessingServiceImpl,
+} from '@meetgenie/shared';
+import type { RecordingTranscriptionService } from './recording-transcription.service';
+import { MeetingUploadService } from './meeting-upload.service';
+
+jest.mock('@meetgenie/shared', () => ({
+  RedisService: class {},
+  MeetingPersistenceService: class {},
+  AudioPreprocessingServiceImpl: class {},
+}));
+jest.mock('./recording-transcription.service', () => ({
+  RecordingTranscriptionService: class {},
+}));
+
+describe('MeetingUploadService', () => {
+  let directory: string;
+  let values: Map<string, string>;
+  let hashes: Map<string, Map<string, string>>;
+  let redis: Record<string, jest.Mock | (() => unknown)>;
+  let meetingPersistence: { recordUploadedRecording: jest.Mock };
+  let audioPreprocessing: { probeAudio: jest.Mock };
+  let recordingTranscription: {
+    transcribeAudio: jest.Mock;
+    failTranscription: jest.Mock;
+  };
+  let service: MeetingUploadService;
+
+  const hash = (key: string) => {
+    if (!hashes.has(key)) {
+      hashes.set(key, new Map());
+    }
+    return hashes.get(key) as Map<string, string>;
+  };
+
+  const createService = () =>
+    new MeetingUploadService(
+      redis as unknown as RedisService,
+      meetingPersistence as unknown as MeetingPersistenceService,
+      audioPreprocessing as unknown as AudioPreprocessingServiceImpl,
+      recordingTranscription as unknown as RecordingTranscriptionService,
+    );
+
+  // Processing continues after completeUpload returns and lets go of its
+  // claim on the upload last
+  const processed = async (uploadId: string) => {
+    for (let i = 0; i < 200; i++) {
+      if (!hash('meeting-upload:processing').has(uploadId)) {
+        return service.getUpload('user-1', uploadId);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    throw new Error(`Upload ${uploadId} was never processed`);
+  };
+
+  const uploadFile = (content: string) =>
+    service.createUpload('user-1', {
+      fileName: 'standup.m4a',
+      size: content.length,
+    });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'meeting-upload-'));
+    process.env['MEETING_UPLOAD_DIR'] = directory;
+    process.env['MEETING_UPLOAD_PART_SIZE_BYTES'] = '4';
+
+    values = new Map();
+    hashes = new Map();
+    redis = {
+      get: jest.fn(async (key: string) => values.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        values.set(key, value);
+      }),
+      del: jest.fn(async (key: string) => {
+        values.delete(key);
+      }),
+      hget: jest.fn(
+        async (key: string, field: string) => hash(key).get(field) ?? null,
+      ),
+      hset: jest.fn(async (key: string, field: string, value: string) => {
+        hash(key).set(field, value);
+      }),
+      hgetall: jest.fn(async (key: string) => Object.fromEntries(hash(key))),
+      hdel: jest.fn(async (key: string, field: string) => {
+        hash(key).delete(field);
+      }),
+      acquireLock: jest.fn().mockResolvedValue('lock-token'),
+      releaseLock: jest.fn(),
+      getClient: () => ({
+        set: async (key: string, value: string) => {
+          if (!values.has(key)) {
+            values.set(key, value);
+          }
+        },
+        get: async (key: string) => values.get(key) ?? null,
+        pexpire: async () => 1,
+      }),
+    };
+    meetingPersistence = {
+      recordUploadedRecording: jest.fn().mockResolvedValue({
+        meeting: { id: 'meeting-1' },
+        transcriptId: 'transcript-1',
+      }),
+    };
+    audioPreprocessing = {
+      probeAudio: jest.fn().mockResolvedValue({ duration: 60 }),
+    };
+    recordingTranscription = {
+      transcribeAudio: jest.fn().mockResolvedValue({ segments: [] }),
+      failTranscription: jest.fn(),
+    };
+    service = createService();
+  });
+
+  afterEach(async () => {
+    service.onModuleDestroy();
+    delete process.env['MEETING_UPLOAD_DIR'];
+    delete process.env['MEETING_UPLOAD_PART_SIZE_BYTES'];
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('uploadPart', () => {
+    it('should only take parts of the upload, each of its expected size', async () => {
+      const { uploadId } = await uploadFile('0123456789');
+
+      await expect(
+        service.uploadPart('user-1', uploadId, 4, Buffer.from('89')),
+      ).rejects.toMatchObject({ status: 400 });
+      await expect(
+        service.uploadPart('user-1', uploadId, 1, Buffer.from('012')),
+      ).rejects.toMatchObject({ status: 400 });
+
+      // The last part holds the rest of the file
+      const state = await service.uploadPart(
+        'user-1',
+        uploadId,
+        3,
+        Buffer.from('89'),
+      );
+      expect(state.receivedParts).toEqual([3]);
+      expect(state.missingParts).toEqual([1, 2]);
+    });
+
+    it("should report other users' uploads as missing", async () => {
+      const { uploadId } = await uploadFile('0123');
+
+      await expect(
+        service.uploadPart('user-2', uploadId, 1, Buffer.from('0123')),
+      ).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('completeUpload', () => {
+    it('should assemble the parts in order, whatever order they arrived in', async () => {
+      let assembled = '';
+      audioPreprocessing.probeAudio.mockImplementation(async (source) => {
+        assembled = await fs.readFile(source, 'utf8');
+        return { duration: 60 };
+      });
+      const { uploadId } = await uploadFile('0123456789');
+      await service.uploadPart('user-1', uploadId, 3, Buffer.from('89'));
+      await service.uploadPart('user-1', uploadId, 1, Buffer.from('0123'));
+      await service.uploadPart('user-1', uploadId, 2, Buffer.from('4567'));
+
+      await service.completeUpload('user-1', uploadId);
+      const upload = await processed(uploadId);
+
+      expect(assembled).toBe('0123456789');
+      expect(upload).toMatchObject({
+        status: 'completed',
+        meetingId: 'meeting-1',
+        transcriptId: 'transcript-1',
+        duration: 60,
+      });
+      expect(recordingTranscription.transcribeAudio).toHaveBeenCalledWith(
+        expect.any(Function),
+        expect.objectContaining({
+          meetingId: 'meeting-1',
+          transcriptId: 'transcript-1',
+        }),
+      );
+      await expect(fs.readdir(directory)).resolves.not.toContain(uploadId);
+    });
+
+    it('should not complete an upload with missing parts', async () => {
+      const { uploadId } = await uploadFile('01234567');
+      await service.uploadPart('user-1', uploadId, 2, Buffer.from('4567'));
+
+      await expect(
+        service.completeUpload('user-1', uploadId),
+      ).rejects.toMatchObject({ status: 400 });
+      expect(meetingPersistence.recordUploadedRecording).not.toHaveBeenCalled();
+    });
+
+    it('should not complete an upload twice at the same time', async () => {
+      const { uploadId } = await uploadFile('0123');
+      await service.uploadPart('user-1', uploadId, 1, Buffer.from('0123'));
+      (redis['acquireLock'] as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(
+        service.completeUpload('user-1', uploadId),
+      ).rejects.toMatchObject({ status: 409 });
+      expect(meetingPersistence.recordUploadedRecording).not.toHaveBeenCalled();
+    });
+
+    it('should fail an upload whose transcription fails', async () => {
+      recordingTranscription.transcribeAudio.mockRejectedValueOnce(
+        new Error('Model unavailable'),
+      );
+      const { uploadId } = await uploadFile('0123');
+      await service.uploadPart('user-1', uploadId, 1, Buffer.from('0123'));
+
+      await service.completeUpload('user-1', uploadId);
+      const upload = await processed(uploadId);
+
+      const statuses = (redis['set'] as jest.Mock).mock.calls.map(
+        ([, value]) => JSON.parse(value).status,
+      );
+      expect(statuses).toEqual(
+        expect.arrayContaining(['queued', 'transcribing', 'failed']),
+      );
+      expect(upload).toMatchObject({
+        status: 'failed',
+        error: 'Model unavailable',
+      });
+    });
+
+    it('should fail an upload that is not audio', async () => {
+      audioPreprocessing.probeAudio.mockRejectedValueOnce(
+        new Error('Invalid data found'),
+      );
+      const { uploadId } = await uploadFile('0123');
+      await service.uploadPart('user-1', uploadId, 1, Buffer.from('0123'));
+
+      await expect(
+        service.completeUpload('user-1', uploadId),
+      ).rejects.toMatchObject({ status: 415 });
+      await expect(
+        service.getUpload('user-1', uploadId),
+      ).resolves.toMatchObject({ status: 'failed' });
+      expect(hash('meeting-upload:processing').size).toBe(0);
+    });
+  });
+
+  describe('onModuleInit', () => {
+    const storeUpload = (uploadId: string, status: string) =>
+      values.set(
+        `meeting-upload:${uploadId}`,
+        JSON.stringify({
+          uploadId,
+          userId: 'user-1',
+          status,
+          meetingId: `meeting-${uploadId}`,
+          transcriptId: `transcript-${uploadId}`,
+        }),
+      );
+
+    it('should fail uploads whose processing replica stopped', async () => {
+      storeUpload('stale', 'transcribing');
+      storeUpload('running', 'transcribing');
+      hash('meeting-upload:processing').set(
+        'stale',
+        JSON.stringify({ owner: 'gone', heartbeat: Date.now() - 120_000 }),
+      );
+      hash('meeting-upload:processing').set(
+        'running',
+        JSON.stringify({ owner: 'alive', heartbeat: Date.now() }),
+      );
+
+      await service.onModuleInit();
+
+      expect(await service.getUpload('user-1', 'stale')).toMatchObject({
+        status: 'failed',
+        error: 'Processing was interrupted on gone',
+      });
+      expect(recordingTranscription.failTranscription).toHaveBeenCalledTimes(1);
+      expect(recordingTranscription.failTranscription).toHaveBeenCalledWith(
+        { meetingId: 'meeting-stale', transcriptId: 'transcript-stale' },
+        expect.any(Error),
+      );
+      expect([...hash('meeting-upload:processing').keys()]).toEqual([
+        'running',
+      ]);
+      expect(await service.getUpload('user-1', 'running')).toMatchObject({
+        status: 'transcribing',
+      });
+    });
+
+    it('should refuse to start on a volume the running replicas do not share', async () => {
+      await service.onModuleInit();
+      service.onModuleDestroy();
+
+      // Another replica with a disk of its own
+      process.env['MEETING_UPLOAD_DIR'] = path.join(directory, 'other');
+      const other = createService();
+
+      await expect(other.onModuleInit()).rejects.toThrow(
+        'is not the volume the other replicas write upload parts to',
+      );
+
+      // Replicas on the same volume start
+      process.env['MEETING_UPLOAD_DIR'] = directory;
+      const same = createService();
+      await expect(same.onModuleInit()).resolves.toBeUndefined();
+      same.onModuleDestroy();
+    });
+  });
+});
@@ -0,0 +1,623 @@
+import {
+  Injectable,
+  Logger,
+  HttpException,
+  HttpStatus,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { promises as fs, createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  RedisService,
+  MeetingPersistenceService,
+  AudioPreprocessingServiceImpl,
+} from '@meetgenie/shared';
+import { RecordingTranscriptionService } from './recording-transcription.service';
+
+export type MeetingUploadStatus =
+  | 'uploading'
+  | 'queued'
+  | 'transcribing'
+  | 'completed'
+  | 'failed';
+
+export interface MeetingUpload {
+  uploadId: string;
+  userId: string;
+  fileName: string;
+  title: string;
+  size: number;
+  partSize: number;
+  totalParts: number;
+  status: MeetingUploadStatus;
+  progress: number; // 0-1 within the current status
+  duration?: number; // seconds of audio, known once the upload is complete
+  meetingId?: string;
+  transcriptId?: string;
+  error?: string;
+  recordedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MeetingUploadState extends MeetingUpload {
+  receivedParts: number[];
+  missingParts: number[];
+}
+
+export interface CreateMeetingUploadRequest {
+  fileName: string;
+  size: number;
+  title?: string;
+  recordedAt?: string;
+}
+
+const UPLOAD_KEY_PREFIX = 'meeting-upload:';
+const PROGRESS_UPDATE_INTERVAL_MS = 2000;
+
+// Uploads being assembled or transcribed, each with the replica doing it
+const PROCESSING_KEY = `${UPLOAD_KEY_PREFIX}processing`;
+// Processing not renewed for this long was interrupted, e.g. by a crash
+const PROCESSING_CLAIM_TTL_MS = 90 * 1000;
+const PROCESSING_RENEW_INTERVAL_MS = PROCESSING_CLAIM_TTL_MS / 3;
+
+// Label of the volume the running replicas write parts to, kept in Redis and
+// in a file at the root of MEETING_UPLOAD_DIR
+const VOLUME_KEY = `${UPLOAD_KEY_PREFIX}volume`;
+const VOLUME_MARKER_FILE = '.volume-id';
+
+interface ProcessingClaim {
+  owner: string;
+  heartbeat: number;
+}
+
+@Injectable()
+export class MeetingUploadService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MeetingUploadService.name);
+  private readonly replicaId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private readonly processing = new Set<string>(); // uploads this replica processes
+  private processingRenewal?: NodeJS.Timeout;
+  private volumeId?: string;
+
+  private readonly uploadDirectory =
+    process.env['MEETING_UPLOAD_DIR'] ||
+    path.join(os.tmpdir(), 'meetgenie-uploads');
+  private readonly partSize = Number(
+    process.env['MEETING_UPLOAD_PART_SIZE_BYTES'] || 8 * 1024 * 1024,
+  );
+  private readonly maxSize = Number(
+    process.env['MEETING_UPLOAD_MAX_SIZE_BYTES'] || 2 * 1024 * 1024 * 1024,
+  );
+  private readonly ttlSeconds = Number(
+    process.env['MEETING_UPLOAD_TTL_SECONDS'] || 24 * 60 * 60,
+  );
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly meetingPersistence: MeetingPersistenceService,
+    private readonly audioPreprocessing: AudioPreprocessingServiceImpl,
+    private readonly recordingTranscription: RecordingTranscriptionService,
+  ) {}
+
+  async onModuleInit() {
+    if (!(await this.claimUploadVolume())) {
+      throw new Error(
+        `MEETING_UPLOAD_DIR ${this.uploadDirectory} is not the volume the other replicas write upload parts to; mount one shared volume there on every replica`,
+      );
+    }
+    await this.sweepInterruptedUploads();
+
+    this.processingRenewal = setInterval(() => {
+      this.renewProcessing().catch((error) =>
+        this.logger.error('Failed to renew processing uploads:', error),
+      );
+    }, PROCESSING_RENEW_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.processingRenewal) {
+      clearInterval(this.processingRenewal);
+    }
+  }
+
+  async createUpload(
+    userId: string,
+    request: CreateMeetingUploadRequest,
+  ): Promise<MeetingUploadState> {
+    if (!request.fileName || !(request.size > 0)) {
+      throw new HttpException(
+        'fileName and a positive size are required',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (request.size > this.maxSize) {
+      throw new HttpException(
+        `Uploads are limited to ${this.maxSize} bytes`,
+        HttpStatus.PAYLOAD_TOO_LARGE,
+      );
+    }
+
+    const now = new Date().toISOString();
+    const upload: MeetingUpload = {
+      uploadId: crypto.randomUUID(),
+      userId,
+      fileName: path.basename(request.fileName),
+      title:
+        request.title ||
+        path.basename(request.fileName, path.extname(request.fileName)),
+      size: request.size,
+      partSize: this.partSize,
+      totalParts: Math.ceil(request.size / this.partSize),
+      status: 'uploading',
+      progress: 0,
+      recordedAt: request.recordedAt || now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await fs.mkdir(this.partsDirectory(upload.uploadId), { recursive: true });
+    await this.saveUpload(upload);
+
+    this.logger.log(
+      `Created upload ${upload.uploadId} for ${upload.fileName} (${upload.totalParts} parts)`,
+    );
+    return this.toState(upload);
+  }
+
+  async getUpload(
+    userId: string,
+    uploadId: string,
+  ): Promise<MeetingUploadState> {
+    return this.toState(await this.loadUpload(userId, uploadId));
+  }
+
+  // Parts may arrive in any order and be re-sent; each is written atomically
+  async uploadPart(
+    userId: string,
+    uploadId: string,
+    partNumber: number,
+    data: Buffer,
+  ): Promise<MeetingUploadState> {
+    const upload = await this.loadUpload(userId, uploadId);
+
+    if (upload.status !== 'uploading') {
+      throw new HttpException(
+        `Upload ${uploadId} is already ${upload.status}`,
+        HttpStatus.CONFLICT,
+      );
+    }
+    if (
+      !Number.isInteger(partNumber) ||
+      partNumber < 1 ||
+      partNumber > upload.totalParts
+    ) {
+      throw new HttpException(
+        `Part number must be between 1 and ${upload.totalParts}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const expectedSize =
+      partNumber < upload.totalParts
+        ? upload.partSize
+        : upload.size - upload.partSize * (upload.totalParts - 1);
+    if (data.length !== expectedSize) {
+      throw new HttpException(
+        `Part ${partNumber} must be ${expectedSize} bytes, got ${data.length}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const partPath = this.partPath(uploadId, partNumber);
+    await fs.writeFile(`${partPath}.tmp`, data);
+    await fs.rename(`${partPath}.tmp`, partPath);
+
+    return this.toState(upload);
+  }
+
+  // Assembles the parts and starts transcription in the background
+  async completeUpload(
+    userId: string,
+    uploadId: string,
+  ): Promise<MeetingUploadState> {
+    // A retried completion must not create a second meeting
+    const lockKey = `${UPLOAD_KEY_PREFIX}complete:${uploadId}`;
+    const lockToken = await this.redisService.acquireLock(lockKey, 300);
+    if (!lockToken) {
+      throw new HttpException(
+        `Upload ${uploadId} is already being completed`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    try {
+      return await this.startProcessing(
+        await this.loadUpload(userId, uploadId),
+      );
+    } finally {
+      await this.redisService.releaseLock(lockKey, lockToken);
+    }
+  }
+
+  private async startProcessing(
+    upload: MeetingUpload,
+  ): Promise<MeetingUploadState> {
+    const { uploadId, userId } = upload;
+
+    if (upload.status !== 'uploading') {
+      throw new HttpException(
+        `Upload ${uploadId} is already ${upload.status}`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const state = await this.toState(upload);
+    if (state.missingParts.length > 0) {
+      throw new HttpException(
+        `Upload ${uploadId} is missing parts ${state.missingParts.join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // From here on the upload is failed by the sweep if this replica stops
+    await this.claimProcessing(uploadId);
+
+    try {
+      const sourcePath = await this.assembleParts(upload);
+
+      let duration: number;
+      try {
+        duration = (await this.audioPreprocessing.probeAudio(sourcePath))
+          .duration;
+      } catch (error) {
+        throw new HttpException(
+          `Unsupported recording: ${error instanceof Error ? error.message : String(error)}`,
+          HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+        );
+      }
+
+      const { meeting, transcriptId } =
+        await this.meetingPersistence.recordUploadedRecording(userId, {
+          uploadId,
+          title: upload.title,
+          fileName: upload.fileName,
+          recordedAt: new Date(upload.recordedAt),
+          duration,
+        });
+
+      await this.updateUpload(upload, {
+        status: 'queued',
+        progress: 0,
+        duration,
+        meetingId: meeting.id,
+        transcriptId,
+      });
+
+      this.processUpload(upload, sourcePath).catch((error) =>
+        this.logger.error(`Failed to process upload ${uploadId}:`, error),
+      );
+    } catch (error) {
+      // The parts are gone once assembled, so the upload cannot be completed again
+      await this.failUpload(upload, error);
+      await fs.rm(this.partsDirectory(uploadId), {
+        recursive: true,
+        force: true,
+      });
+      await this.releaseProcessing(uploadId);
+      throw error;
+    }
+
+    return this.toState(upload);
+  }
+
+  async abortUpload(userId: string, uploadId: string): Promise<void> {
+    const upload = await this.loadUpload(userId, uploadId);
+
+    if (upload.status !== 'uploading') {
+      throw new HttpException(
+        `Upload ${uploadId} is already ${upload.status}`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    await this.redisService.del(this.uploadKey(uploadId));
+    await fs.rm(this.partsDirectory(uploadId), {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  private async processUpload(
+    upload: MeetingUpload,
+    sourcePath: string,
+  ): Promise<void> {
+    try {
+      await this.updateUpload(upload, { status: 'transcribing', progress: 0 });
+
+      let lastUpdate = 0;
+      await this.recordingTranscription.transcribeAudio(
+        async () => sourcePath,
+        {
+          meetingId: upload.meetingId,
+          transcriptId: upload.transcriptId,
+          onProgress: (seconds) => {
+            if (
+              !upload.duration ||
+              Date.now() - lastUpdate < PROGRESS_UPDATE_INTERVAL_MS
+            ) {
+              return;
+            }
+            lastUpdate = Date.now();
+            this.updateUpload(upload, {
+              progress: Math.min(seconds / upload.duration, 0.99),
+            }).catch(() => undefined);
+          },
+        },
+      );
+
+      await this.updateUpload(upload, { status: 'completed', progress: 1 });
+      this.logger.log(
+        `Upload ${upload.uploadId} transcribed into meeting ${upload.meetingId}`,
+      );
+    } catch (error) {
+      await this.failUpload(upload, error);
+      throw error;
+    } finally {
+      await fs.rm(this.partsDirectory(upload.uploadId), {
+        recursive: true,
+        force: true,
+      });
+      await this.releaseProcessing(upload.uploadId);
+    }
+  }
+
+  // Parts are written by whichever replica serves each request and assembled
+  // by the one completing the upload, so all replicas must share
+  // MEETING_UPLOAD_DIR. The first replica to run labels the volume; one that
+  // finds a different label while others run writes to a volume of its own.
+  // The label lives as long as the replicas renew it.
+  private async claimUploadVolume(): Promise<boolean> {
+    if (!this.volumeId) {
+      await fs.mkdir(this.uploadDirectory, { recursive: true });
+      const markerPath = path.join(this.uploadDirectory, VOLUME_MARKER_FILE);
+      await fs
+        .writeFile(markerPath, crypto.randomUUID(), { flag: 'wx' })
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code !== 'EEXIST') {
+            throw error;
+          }
+        });
+      this.volumeId = (await fs.readFile(markerPath, 'utf8')).trim();
+    }
+
+    const client = this.redisService.getClient();
+    await client.set(
+      VOLUME_KEY,
+      this.volumeId,
+      'PX',
+      PROCESSING_CLAIM_TTL_MS,
+      'NX',
+    );
+    if ((await client.get(VOLUME_KEY)) !== this.volumeId) {
+      return false;
+    }
+    await client.pexpire(VOLUME_KEY, PROCESSING_CLAIM_TTL_MS);
+    return true;
+  }
+
+  private async claimProcessing(uploadId: string): Promise<void> {
+    this.processing.add(uploadId);
+    await this.saveProcessingClaim(uploadId);
+  }
+
+  private async releaseProcessing(uploadId: string): Promise<void> {
+    this.processing.delete(uploadId);
+    await this.redisService.hdel(PROCESSING_KEY, uploadId);
+  }
+
+  private async saveProcessingClaim(uploadId: string): Promise<void> {
+    const claim: ProcessingClaim = {
+      owner: this.replicaId,
+      heartbeat: Date.now(),
+    };
+    await this.redisService.hset(
+      PROCESSING_KEY,
+      uploadId,
+      JSON.stringify(claim),
+    );
+  }
+
+  private async renewProcessing(): Promise<void> {
+    if (!(await this.claimUploadVolume())) {
+      this.logger.error(
+        `MEETING_UPLOAD_DIR ${this.uploadDirectory} is no longer the volume the other replicas write upload parts to`,
+      );
+    }
+
+    for (const uploadId of this.processing) {
+      // Claims another replica swept are not taken back
+      const stored = await this.redisService.hget(PROCESSING_KEY, uploadId);
+      if (
+        stored &&
+        (JSON.parse(stored) as ProcessingClaim).owner === this.replicaId
+      ) {
+        await this.saveProcessingClaim(uploadId);
+      }
+    }
+
+    await this.sweepInterruptedUploads();
+  }
+
+  // Uploads whose processing stopped being renewed were interrupted. Their
+  // transcript already holds some of the segments, so they are failed rather
+  // than transcribed again
+  private async sweepInterruptedUploads(): Promise<void> {
+    const claims = await this.redisService.hgetall(PROCESSING_KEY);
+    const staleBefore = Date.now() - PROCESSING_CLAIM_TTL_MS;
+
+    for (const [uploadId, stored] of Object.entries(claims)) {
+      const claim = JSON.parse(stored) as ProcessingClaim;
+      if (claim.owner === this.replicaId || claim.heartbeat >= staleBefore) {
+        continue;
+      }
+
+      const lockKey = `${UPLOAD_KEY_PREFIX}sweep:${uploadId}`;
+      const lockToken = await this.redisService.acquireLock(lockKey, 60);
+      if (!lockToken) {
+        continue;
+      }
+
+      try {
+        // Another replica may have swept or renewed it since it was listed
+        if (
+          (await this.redisService.hget(PROCESSING_KEY, uploadId)) !== stored
+        ) {
+          continue;
+        }
+        await this.failInterruptedUpload(uploadId, claim.owner);
+        await this.redisService.hdel(PROCESSING_KEY, uploadId);
+      } catch (error) {
+        this.logger.error(
+          `Failed to fail interrupted upload ${uploadId}:`,
+          error,
+        );
+      } finally {
+        await this.redisService.releaseLock(lockKey, lockToken);
+      }
+    }
+  }
+
+  private async failInterruptedUpload(
+    uploadId: string,
+    owner: string,
+  ): Promise<void> {
+    const stored = await this.redisService.get(this.uploadKey(uploadId));
+    const upload = stored ? (JSON.parse(stored) as MeetingUpload) : null;
+    const error = new Error(`Processing was interrupted on ${owner}`);
+
+    if (upload && upload.status !== 'completed' && upload.status !== 'failed') {
+      await this.failUpload(upload, error);
+      await this.recordingTranscription.failTranscription(
+        { meetingId: upload.meetingId, transcriptId: upload.transcriptId },
+        error,
+      );
+    }
+    await fs.rm(this.partsDirectory(uploadId), {
+      recursive: true,
+      force: true,
+    });
+
+    this.logger.warn(`Failed upload ${uploadId}, interrupted on ${owner}`);
+  }
+
+  private async assembleParts(upload: MeetingUpload): Promise<string> {
+    const sourcePath = path.join(
+      this.partsDirectory(upload.uploadId),
+      `source${path.extname(upload.fileName)}`,
+    );
+    const output = createWriteStream(sourcePath);
+
+    for (let part = 1; part <= upload.totalParts; part++) {
+      await pipeline(
+        createReadStream(this.partPath(upload.uploadId, part)),
+        output,
+        {
+          end: part === upload.totalParts,
+        },
+      );
+    }
+
+    for (let part = 1; part <= upload.totalParts; part++) {
+      await fs.rm(this.partPath(upload.uploadId, part), { force: true });
+    }
+    return sourcePath;
+  }
+
+  private async failUpload(
+    upload: MeetingUpload,
+    error: unknown,
+  ): Promise<void> {
+    await this.updateUpload(upload, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    }).catch(() => undefined);
+  }
+
+  private async loadUpload(
+    userId: string,
+    uploadId: string,
+  ): Promise<MeetingUpload> {
+    const stored = await this.redisService.get(this.uploadKey(uploadId));
+    const upload = stored ? (JSON.parse(stored) as MeetingUpload) : null;
+
+    // Other users' uploads are reported as missing rather than forbidden
+    if (!upload || upload.userId !== userId) {
+      throw new HttpException(
+        `Upload not found: ${uploadId}`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return upload;
+  }
+
+  private async updateUpload(
+    upload: MeetingUpload,
+    changes: Partial<MeetingUpload>,
+  ): Promise<void> {
+    Object.assign(upload, changes, { updatedAt: new Date().toISOString() });
+    await this.saveUpload(upload);
+  }
+
+  private async saveUpload(upload: MeetingUpload): Promise<void> {
+    await this.redisService.set(
+      this.uploadKey(upload.uploadId),
+      JSON.stringify(upload),
+      this.ttlSeconds,
+    );
+  }
+
+  // Received parts are read from disk rather than tracked in Redis, so
+  // concurrent part uploads never overwrite each other's bookkeeping
+  private async toState(upload: MeetingUpload): Promise<MeetingUploadState> {
+    const files = await fs
+      .readdir(this.partsDirectory(upload.uploadId))
+      .catch(() => [] as string[]);
+    const receivedParts = files
+      .map((file) => /^part-(\d+)$/.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => Number(match[1]))
+      .sort((a, b) => a - b);
+
+    if (upload.status !== 'uploading') {
+      return { ...upload, receivedParts, missingParts: [] };
+    }
+
+    const missingParts = Array.from(
+      { length: upload.totalParts },
+      (_, i) => i + 1,
+    ).filter((part) => !receivedParts.includes(part));
+
+    return {
+      ...upload,
+      progress: receivedParts.length / upload.totalParts,
+      receivedParts,
+      missingParts,
+    };
+  }
+
+  private uploadKey(uploadId: string): string {
+    return `${UPLOAD_KEY_PREFIX}${uploadId}`;
+  }
+
+  private partsDirectory(uploadId: string): string {
+    return path.join(this.uploadDirectory, uploadId);
+  }
+
+  private partPath(uploadId: string, partNumber: number): string {
+    return path.join(this.partsDirectory(uploadId), `part-${partNumber}`);
+  }
+}
@@ -0,0 +1,287 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Readable, PassThrough } from 'stream';
+import * as crypto from 'crypto';
+import ffmpeg from 'fluent-ffmpeg';
+import {
+  KafkaService,
+  PlatformAdapterFactory,
+  PlatformConnectionService,
+  TranscriptPersistenceService,
+  TranscriptionServiceImpl,
+  TranscriptionConfig,
+  AUTO_LANGUAGE,
+  RecordingTranscriptionRequest,
+  TranscriptionEvent,
+  TranscriptionFullTranscript as FullTranscript,
+  MeetingPlatform,
+} from '@meetgenie/shared';
+
+// Where a transcription's result should be stored and who wants progress
+export interface TranscriptionTarget {
+  meetingId?: string;
+  transcriptId?: string;
+  onProgress?: (seconds: number) => void;
+}
+
+// A session taken over from a replica that stopped, ended without its caller
+interface AbandonedSessionEvent {
+  transcriptId: string;
+  meetingId: string;
+  transcript?: FullTranscript;
+  reason?: string;
+}
+
+@Injectable()
+export class RecordingTranscriptionService implements OnModuleInit {
+  private readonly logger = new Logger(RecordingTranscriptionService.name);
+
+  // Recordings are decoded to the raw PCM the transcription pipeline expects
+  private readonly config: TranscriptionConfig = {
+    modelName: 'facebook/wav2vec2-large-960h-lv60-self',
+    language: AUTO_LANGUAGE,
+    enableSpeakerDiarization: true,
+    chunkSize: 1024 * 16,
+    overlapSize: 1024 * 2,
+    confidenceThreshold: 0.7,
+    sampleRate: 16000,
+    channels: 1,
+    bitDepth: 16,
+  };
+
+  constructor(
+    private readonly kafkaService: KafkaService,
+    private readonly transcriptionService: TranscriptionServiceImpl,
+    private readonly adapterFactory: PlatformAdapterFactory,
+    private readonly platformConnections: PlatformConnectionService,
+    private readonly transcriptPersistence: TranscriptPersistenceService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async onModuleInit() {
+    const topics = this.configService.get('kafka.topics');
+
+    // Nobody waits on these any more, so their result is announced here
+    this.eventEmitter.on(
+      'transcription.session.abandoned',
+      (event: AbandonedSessionEvent) =>
+        this.publishAbandonedResult(event).catch((error) =>
+          this.logger.error(
+            `Failed to announce the end of transcript ${event.transcriptId}:`,
+            error,
+          ),
+        ),
+    );
+
+    await this.kafkaService.subscribe(
+      topics.transcriptionEvents,
+      'transcription-service-recordings',
+      async (message) => {
+        const request = JSON.parse(
+          message.value?.toString() || '{}',
+        ) as RecordingTranscriptionRequest;
+
+        if (request.type === 'transcription.recording_requested') {
+          await this.transcribeRecording(request);
+        }
+      },
+    );
+  }
+
+  async transcribeRecording(
+    request: RecordingTranscriptionRequest,
+  ): Promise<FullTranscript> {
+    this.logger.log(
+      `Transcribing ${request.platform} recording ${request.recordingId}`,
+    );
+
+    try {
+      const transcript = await this.transcribeAudio(
+        () => this.openRecording(request),
+        { meetingId: request.meetingId, transcriptId: request.transcriptId },
+      );
+
+      this.logger.log(
+        `Transcribed recording ${request.recordingId} into ${transcript.segments.length} segments`,
+      );
+      return transcript;
+    } catch (error) {
+      this.logger.error(
+        `Failed to transcribe recording ${request.recordingId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  // Decodes any container ffmpeg understands, transcribes it and, when a
+  // transcript row is given, writes the segments to it as they are produced
+  // and announces its completion
+  async transcribeAudio(
+    openInput: () => Promise<Readable | string>,
+    target: TranscriptionTarget = {},
+  ): Promise<FullTranscript> {
+    try {
+      const session = await this.transcriptionService.startTranscription(
+        this.decodeToPcm(await openInput(), target.onProgress),
+        { ...this.config, transcriptId: target.transcriptId },
+      );
+      session.meetingId = target.meetingId || '';
+
+      // startTranscription resolves once the whole input has been read
+      const transcript = await this.transcriptionService.finalizeTranscript(
+        session.sessionId,
+      );
+
+      if (target.transcriptId) {
+        await this.publishResult(target.meetingId || transcript.meetingId, {
+          transcriptId: target.transcriptId,
+          type: 'transcription.completed',
+          data: {
+            segmentCount: transcript.segments.length,
+            language: transcript.language,
+          },
+        });
+      }
+
+      return transcript;
+    } catch (error) {
+      await this.failTranscription(target, error);
+      throw error;
+    }
+  }
+
+  // Marks the target's transcript failed and announces it, for transcriptions
+  // that stopped here or were interrupted elsewhere
+  async failTranscription(
+    target: TranscriptionTarget,
+    error: unknown,
+  ): Promise<void> {
+    if (!target.transcriptId) {
+      return;
+    }
+
+    await this.transcriptPersistence
+      .markTranscriptFailed(target.transcriptId)
+      .catch(() => undefined);
+    await this.publishResult(target.meetingId, {
+      transcriptId: target.transcriptId,
+      type: 'transcription.failed',
+      data: {
+        error: error instanceof Error ? error.message : String(error),
+      },
+    }).catch(() => undefined);
+  }
+
+  private async publishAbandonedResult(
+    event: AbandonedSessionEvent,
+  ): Promise<void> {
+    await this.publishResult(
+      event.meetingId,
+      event.transcript
+        ? {
+            transcriptId: event.transcriptId,
+            type: 'transcription.completed',
+            data: {
+              segmentCount: event.transcript.segments.length,
+              language: event.transcript.language,
+            },
+          }
+        : {
+            transcriptId: event.transcriptId,
+            type: 'transcription.failed',
+            data: { error: event.reason },
+          },
+    );
+  }
+
+  // Downstream consumers such as summarization and the meeting lifecycle
+  // start from these events
+  private async publishResult(
+    meetingId: string | undefined,
+    result: Pick<TranscriptionEvent, 'transcriptId' | 'type' | 'data'>,
+  ): Promise<void> {
+    if (!meetingId) {
+      return;
+    }
+
+    const event: TranscriptionEvent = {
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      version: '1.0',
+      source: 'transcription-service',
+      meetingId,
+      ...result,
+    };
+
+    const topics = this.configService.get('kafka.topics');
+    await this.kafkaService.publish(
+      topics.transcriptionEvents,
+      event,
+      event.meetingId,
+    );
+  }
+
+  // Recordings are fetched through the platform's adapter, whose transport
+  // never sends the account's token to hosts other than the platform's own
+  private async openRecording(
+    request: RecordingTranscriptionRequest,
+  ): Promise<Readable> {
+    const accessToken = await this.resolveDownloadToken(request);
+    const platform = request.platform as MeetingPlatform;
+    const adapter = this.adapterFactory.getAdapter(platform);
+    const credentials = accessToken ? { platform, accessToken } : undefined;
+
+    const stream = request.downloadUrl
+      ? await adapter.downloadRecordingUrl(request.downloadUrl, credentials)
+      : await adapter.downloadRecording(request.recordingId, credentials);
+    return stream instanceof Readable ? stream : new Readable().wrap(stream);
+  }
+
+  // The request names whose connected account to download with; its token is
+  // loaded here so that it never travels on the bus
+  private async resolveDownloadToken(
+    request: RecordingTranscriptionRequest,
+  ): Promise<string | undefined> {
+    if (request.downloadToken || !request.connectionUserId) {
+      return request.downloadToken;
+    }
+
+    const credentials = await this.platformConnections.getCredentials(
+      request.connectionUserId,
+      request.platform as MeetingPlatform,
+    );
+    return credentials?.accessToken;
+  }
+
+  private decodeToPcm(
+    input: Readable | string,
+    onProgress?: (seconds: number) => void,
+  ): PassThrough {
+    const output = new PassThrough();
+
+    ffmpeg(input)
+      .audioFrequency(this.config.sampleRate)
+      .audioChannels(this.config.channels)
+      .audioCodec('pcm_s16le')
+      .format('s16le')
+      .on('progress', (progress: { timemark?: string }) => {
+        if (onProgress && progress.timemark) {
+          onProgress(this.parseTimemark(progress.timemark));
+        }
+      })
+      .on('error', (error: Error) => output.destroy(error))
+      .pipe(output, { end: true });
+
+    return output;
+  }
+
+  // ffmpeg reports its position as HH:MM:SS.xx
+  private parseTimemark(timemark: string): number {
+    return timemark
+      .split(':')
+      .reduce((seconds, part) => seconds * 60 + Number(part), 0);
+  }
+}
@@ -12,12 +12,14 @@ import {
   HttpStatus,
   UploadedFile,
   UseInterceptors,
+  UseGuards,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { Express } from 'express';
 import {
   TranscriptionServiceImpl,
   TranscriptionConfig,
+  AUTO_LANGUAGE,
   HuggingFaceModelStatus,
   TranscriptionQualityMetrics,
   SpeakerDiarizationResult,
@@ -26,8 +28,11 @@ import {
   RealTimeTranscriptionSession as TranscriptionSession,
   TranscriptionSegment as TranscriptSegment,
   TranscriptionFullTranscript as FullTranscript,
+  TranscriptFeedbackService,
+  TranscriptPersistenceService,
+  AuthGuard,
+  MeetingMemberGuard,
 } from '@meetgenie/shared';
-import { Readable } from 'stream';
 
 @Controller('transcription')
 export class TranscriptionController {
@@ -36,26 +41,42 @@ export class TranscriptionController {
   constructor(
     private transcriptionService: TranscriptionServiceImpl,
     private realTimeTranscriptionService: RealTimeTranscriptionIntegrationService,
+    private transcriptFeedback: TranscriptFeedbackService,
+    private transcriptPersistence: TranscriptPersistenceService,
   ) {}
 
+  // Audio is sent to the session in chunks, see sessions/:sessionId/audio.
+  // Its segments are written to the given transcript, or to a new one of the
+  // meeting.
   @Post('sessions')
   async startTranscription(
-    @Body() body: { config?: Partial<TranscriptionConfig>; meetingId?: string },
+    @Body()
+    body: {
+      config?: Partial<TranscriptionConfig>;
+      meetingId?: string;
+      transcriptId?: string;
+    },
   ): Promise<TranscriptionSession> {
+    if (!body.meetingId && !body.transcriptId) {
+      throw new HttpException(
+        'meetingId or transcriptId is required',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    let createdTranscriptId: string | undefined;
     try {
       this.logger.log('Starting new transcription session');
 
-      // Create a dummy audio stream for now - in real implementation, this would come from meeting recorder
-      const audioStream = new Readable({
-        read() {
-          // This would be replaced with actual audio data from meeting platforms
-          this.push(null); // End stream for now
-        },
-      });
+      if (!body.transcriptId) {
+        createdTranscriptId = await this.transcriptPersistence.createTranscript(
+          body.meetingId as string,
+        );
+      }
 
       const config: TranscriptionConfig = {
         modelName: 'facebook/wav2vec2-large-960h-lv60-self',
-        language: 'en',
+        language: AUTO_LANGUAGE,
         enableSpeakerDiarization: true,
         chunkSize: 1024 * 16,
         overlapSize: 1024 * 2,
@@ -64,12 +85,11 @@ export class TranscriptionController {
         channels: 1,
         bitDepth: 16,
         ...body.config,
+        transcriptId: body.transcriptId ?? createdTranscriptId,
       };
 
-      const session = await this.transcriptionService.startTranscription(
-        audioStream,
-        config,
-      );
+      const session =
+        await this.transcriptionService.openLiveTranscription(config);
 
       if (body.meetingId) {
         session.meetingId = body.meetingId;
@@ -78,6 +98,11 @@ export class TranscriptionController {
       return session;
     } catch (error) {
       this.logger.error('Failed to start transcription session:', error);
+      if (createdTranscriptId) {
+        await this.transcriptPersistence
+          .markTranscriptFailed(createdTranscriptId)
+          .catch(() => undefined);
+      }
       throw new HttpException(
         'Failed to start transcription session',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -90,7 +115,7 @@ export class TranscriptionController {
   async processAudioChunk(
     @Param('sessionId') sessionId: string,
     @UploadedFile() audioFile: Express.Multer.File,
-  ): Promise<TranscriptSegment> {
+  ): Promise<TranscriptSegment | null> {
     try {
       if (!audioFile) {
         throw new HttpException(
@@ -123,7 +148,7 @@ export class TranscriptionController {
   async processRawAudioChunk(
     @Param('sessionId') sessionId: string,
     @Body() body: { audioData: string }, // Base64 encoded audio data
-  ): Promise<TranscriptSegment> {
+  ): Promise<TranscriptSegment | null> {
     try {
       if (!body.audioData) {
         throw new HttpException(
@@ -289,6 +314,42 @@ export class TranscriptionController {
     }
   }
 
+  // Word error rate of each model, measured on users' corrections
+  @Get('models/word-error-rates')
+  @UseGuards(AuthGuard)
+  async getWordErrorRates(): Promise<Record<string, number>> {
+    try {
+      return await this.transcriptFeedback.getWordErrorRates();
+    } catch (error) {
+      this.logger.error('Failed to get word error rates:', error);
+      throw new HttpException(
+        'Failed to get word error rates',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Feedback and corrections of a segment of the meeting, oldest first
+  @Get('meetings/:meetingId/segments/:segmentId/revisions')
+  @UseGuards(AuthGuard, MeetingMemberGuard)
+  async getSegmentRevisions(
+    @Param('meetingId') meetingId: string,
+    @Param('segmentId') segmentId: string,
+  ) {
+    try {
+      return await this.transcriptFeedback.getRevisions(meetingId, segmentId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to get revisions of segment ${segmentId}:`,
+        error,
+      );
+      throw new HttpException(
+        'Failed to get segment revisions',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Get('sessions/:sessionId/metrics')
   async getQualityMetrics(
     @Param('sessionId') sessionId: string,
@@ -384,6 +445,16 @@ export class TranscriptionController {
       sourceData?: unknown;
     },
   ) {
+    if (
+      !body.config?.meetingId &&
+      !body.config?.transcriptionConfig?.transcriptId
+    ) {
+      throw new HttpException(
+        'config.meetingId or config.transcriptionConfig.transcriptId is required',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
     try {
       this.logger.log('Starting real-time transcription session');
 
@@ -5,11 +5,25 @@ export * from './lib/interfaces/meeting-platform.interface';
 
 // Meeting Platform Services
 export * from './lib/services/meeting/meeting-recorder.service';
+export * from './lib/services/meeting/meeting-persistence.service';
+export * from './lib/services/meeting/speaker-linking.service';
+export * from './lib/services/meeting/platform-connection.service';
+export * from './lib/services/meeting/recording-disclosure.service';
+export * from './lib/services/meeting/session-capacity.service';
 export * from './lib/services/platform-adapters/base-platform.adapter';
+export * from './lib/services/platform-adapters/transport-platform.adapter';
+export * from './lib/services/platform-adapters/transports/platform-transport.interface';
+export * from './lib/services/platform-adapters/transports/http-rest.transport';
+export * from './lib/services/platform-adapters/transports/recorded-fixture.transport';
+export * from './lib/services/platform-adapters/transports/zoom-rest.transport';
+export * from './lib/services/platform-adapters/transports/teams-rest.transport';
+export * from './lib/services/platform-adapters/transports/google-meet-rest.transport';
+export * from './lib/services/platform-adapters/transports/webex-rest.transport';
 export * from './lib/services/platform-adapters/zoom.adapter';
 export * from './lib/services/platform-adapters/teams.adapter';
 export * from './lib/services/platform-adapters/google-meet.adapter';
 export * from './lib/services/platform-adapters/webex.adapter';
+export * from './lib/services/platform-adapters/local.adapter';
 export * from './lib/services/platform-adapters/platform-adapter.factory';
 
 // Configuration
@@ -17,6 +31,9 @@ export * from './lib/config/environment.config';
 export * from './lib/config/inngest.config';
 export * from './lib/config/kafka.config';
 export * from './lib/config/redis.config';
+export * from './lib/config/platform-oauth.config';
+export * from './lib/config/recording-disclosure.config';
+export * from './lib/config/session-capacity.config';
 export * from './lib/config/supabase.config';
 
 // Database Services
@@ -34,6 +51,7 @@ export * from './lib/services/infrastructure/inngest-functions.service';
 
 // Guards
 export * from './lib/guards/auth.guard';
+export * from './lib/guards/meeting-member.guard';
 
 // Interfaces
 export * from './lib/interfaces/events.interface';
@@ -58,12 +76,18 @@ export {
   TranscriptionErrorCode,
   AudioFormat,
   TranscriptionService,
+  AsrProvider,
+  AsrTranscriptionResult,
+  LanguageDetection,
+  AUTO_LANGUAGE,
   AudioPreprocessingService,
   SpeakerDiarizationService,
   WebSocketTranscriptionService,
   AudioPreprocessingConfig,
   DiarizationConfig,
   AudioChunk,
+  AudioWindow,
+  AudioTrack,
   VoiceProfile,
 } from './lib/interfaces/transcription.interface';
 
@@ -71,6 +95,7 @@ export {
 export {
   FullTranscript as TranscriptionFullTranscript,
   TranscriptSegment as TranscriptionSegment,
+  TranscriptWord as TranscriptionWord,
   Speaker as TranscriptionSpeaker,
   TranscriptionSession as RealTimeTranscriptionSession,
 } from './lib/interfaces/transcription.interface';
@@ -79,13 +104,19 @@ export {
 export * from './lib/services/transcription/transcription.service';
 export * from './lib/services/transcription/audio-preprocessing.service';
 export * from './lib/services/transcription/speaker-diarization.service';
+export * from './lib/services/transcription/voice-activity-detection.service';
 export * from './lib/services/transcription/websocket-transcription.service';
 export * from './lib/services/transcription/real-time-audio-stream.service';
 export * from './lib/services/transcription/real-time-transcription-integration.service';
+export * from './lib/services/transcription/transcript-persistence.service';
+export * from './lib/services/transcription/glossary.service';
+export * from './lib/services/transcription/transcript-feedback.service';
 
 // AI Services and Interfaces
 export * from './lib/interfaces/langchain.interface';
 export * from './lib/services/ai/huggingface.service';
+export * from './lib/services/ai/local-asr.service';
+export * from './lib/services/ai/asr-provider.factory';
 export { LangChainOrchestratorService as LangChainOrchestratorServiceImpl } from './lib/services/ai/langchain-orchestrator.service';
 export { LangChainPromptsService as LangChainPromptsServiceImpl } from './lib/services/ai/langchain-prompts.service';
 export { AICostMonitorService as AICostMonitorServiceImpl } from './lib/services/ai/ai-cost-monitor.service';
@@ -0,0 +1,120 @@
+import { registerAs } from '@nestjs/config';
+import { MeetingPlatform } from '../interfaces/meeting-platform.interface';
+
+export interface PlatformOAuthProvider {
+  clientId: string;
+  clientSecret: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  revokeUrl?: string;
+  userInfoUrl?: string;
+  scopes: string[];
+  // How the client authenticates against the token endpoint
+  clientAuthentication: 'basic' | 'body';
+  authorizeParams?: Record<string, string>;
+}
+
+export interface PlatformOAuthConfig {
+  encryptionKey?: string;
+  refreshSkewSeconds: number;
+  stateTtlSeconds: number;
+  // The only redirect URIs authorizations may send users back to
+  redirectUris: string[];
+  providers: Partial<Record<MeetingPlatform, PlatformOAuthProvider>>;
+}
+
+// Endpoints can be overridden per platform, e.g. to point at a local OAuth stub
+const provider = (
+  prefix: string,
+  defaults: Omit<PlatformOAuthProvider, 'clientId' | 'clientSecret'>,
+): PlatformOAuthProvider | undefined => {
+  const clientId = process.env[`${prefix}_CLIENT_ID`];
+  const clientSecret = process.env[`${prefix}_CLIENT_SECRET`];
+  if (!clientId || !clientSecret) {
+    return undefined;
+  }
+
+  return {
+    ...defaults,
+    clientId,
+    clientSecret,
+    authorizeUrl:
+      process.env[`${prefix}_OAUTH_AUTHORIZE_URL`] || defaults.authorizeUrl,
+    tokenUrl: process.env[`${prefix}_OAUTH_TOKEN_URL`] || defaults.tokenUrl,
+    revokeUrl: process.env[`${prefix}_OAUTH_REVOKE_URL`] || defaults.revokeUrl,
+    userInfoUrl:
+      process.env[`${prefix}_OAUTH_USERINFO_URL`] || defaults.userInfoUrl,
+    scopes:
+      process.env[`${prefix}_OAUTH_SCOPES`]?.split(' ').filter(Boolean) ||
+      defaults.scopes,
+  };
+};
+
+export default registerAs(
+  'platformOAuth',
+  (): PlatformOAuthConfig => ({
+    encryptionKey: process.env['PLATFORM_CREDENTIALS_ENCRYPTION_KEY'],
+    refreshSkewSeconds: parseInt(
+      process.env['PLATFORM_TOKEN_REFRESH_SKEW_SECONDS'] || '300',
+      10,
+    ),
+    stateTtlSeconds: 600,
+    redirectUris: (process.env['PLATFORM_OAUTH_REDIRECT_URIS'] || '')
+      .split(',')
+      .map((uri) => uri.trim())
+      .filter(Boolean),
+    providers: {
+      [MeetingPlatform.ZOOM]: provider('ZOOM', {
+        authorizeUrl: 'https://zoom.us/oauth/authorize',
+        tokenUrl: 'https://zoom.us/oauth/token',
+        revokeUrl: 'https://zoom.us/oauth/revoke',
+        userInfoUrl: 'https://api.zoom.us/v2/users/me',
+        scopes: ['meeting:read', 'recording:read', 'user:read'],
+        clientAuthentication: 'basic',
+      }),
+      [MeetingPlatform.TEAMS]: provider('TEAMS', {
+        authorizeUrl:
+          'https://login.microsoftonline.com/common/oauth2/v2.0/authorize',
+        tokenUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+        userInfoUrl: 'https://graph.microsoft.com/v1.0/me',
+        scopes: [
+          'offline_access',
+          'User.Read',
+          'OnlineMeetings.Read',
+          // Meeting recordings are fetched from /me/onlineMeetings/{id}/recordings
+          'OnlineMeetingRecording.Read.All',
+          'Calendars.Read',
+        ],
+        clientAuthentication: 'body',
+      }),
+      [MeetingPlatform.GOOGLE_MEET]: provider('GOOGLE', {
+        authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+        tokenUrl: 'https://oauth2.googleapis.com/token',
+        revokeUrl: 'https://oauth2.googleapis.com/revoke',
+        userInfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo',
+        scopes: [
+          'openid',
+          'email',
+          'https://www.googleapis.com/auth/calendar.readonly',
+          'https://www.googleapis.com/auth/meetings.space.readonly',
+          // Recordings are files Meet stores in the organizer's Drive
+          'https://www.googleapis.com/auth/drive.meet.readonly',
+        ],
+        clientAuthentication: 'body',
+        // Google only issues refresh tokens for offline access with explicit consent
+        authorizeParams: { access_type: 'offline', prompt: 'consent' },
+      }),
+      [MeetingPlatform.WEBEX]: provider('WEBEX', {
+        authorizeUrl: 'https://webexapis.com/v1/authorize',
+        tokenUrl: 'https://webexapis.com/v1/access_token',
+        userInfoUrl: 'https://webexapis.com/v1/people/me',
+        scopes: [
+          'spark:people_read',
+          'meeting:schedules_read',
+          'meeting:recordings_read',
+        ],
+        clientAuthentication: 'body',
+      }),
+    },
+  }),
+);
@@ -0,0 +1,33 @@
+import { registerAs } from '@nestjs/config';
+import {
+  DEFAULT_RECORDING_DISCLOSURE,
+  RecordingDisclosureConfig,
+} from '../interfaces/meeting-platform.interface';
+
+export interface RecordingDisclosureSettings {
+  botName: string;
+  // Disclosure of organizations that have not configured their own
+  defaults: RecordingDisclosureConfig;
+}
+
+// An empty chat message or name suffix turns that part of the disclosure off
+export default registerAs(
+  'recordingDisclosure',
+  (): RecordingDisclosureSettings => ({
+    botName: process.env['RECORDER_BOT_NAME'] || 'MeetGenie Notetaker',
+    defaults: {
+      enabled: process.env['RECORDING_DISCLOSURE_ENABLED'] !== 'false',
+      chatMessage:
+        process.env['RECORDING_DISCLOSURE_CHAT_MESSAGE'] ??
+        DEFAULT_RECORDING_DISCLOSURE.chatMessage,
+      nameSuffix:
+        process.env['RECORDING_DISCLOSURE_NAME_SUFFIX'] ??
+        DEFAULT_RECORDING_DISCLOSURE.nameSuffix,
+      audioAnnouncementFile:
+        process.env['RECORDING_DISCLOSURE_AUDIO_FILE'] || undefined,
+      stopCommand:
+        process.env['RECORDING_DISCLOSURE_STOP_COMMAND'] ||
+        DEFAULT_RECORDING_DISCLOSURE.stopCommand,
+    },
+  }),
+);
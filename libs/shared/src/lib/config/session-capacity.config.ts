@@ -0,0 +1,54 @@
+import { registerAs } from '@nestjs/config';
+import { SubscriptionTier } from '../generated/prisma';
+
+export interface SessionCapacityConfig {
+  // Concurrent sessions one user may have, by subscription tier
+  tierLimits: Record<SubscriptionTier, number>;
+  // Concurrent sessions on one platform credential (a connected account or
+  // the service's own bot account)
+  credentialLimit: number;
+  // Leases are renewed by the replica holding the session; a lease it stops
+  // renewing, e.g. because it crashed, frees its slot after this long
+  leaseTtlSeconds: number;
+  // A join over a limit gets a queue ticket; retrying with the ticket within
+  // this long keeps its place in line
+  queueTicketTtlSeconds: number;
+  // How long a queued join is told to wait before retrying
+  queueRetryAfterSeconds: number;
+}
+
+export default registerAs(
+  'sessionCapacity',
+  (): SessionCapacityConfig => ({
+    tierLimits: {
+      [SubscriptionTier.free]: parseInt(
+        process.env['SESSION_LIMIT_FREE'] || '1',
+        10,
+      ),
+      [SubscriptionTier.pro]: parseInt(
+        process.env['SESSION_LIMIT_PRO'] || '5',
+        10,
+      ),
+      [SubscriptionTier.enterprise]: parseInt(
+        process.env['SESSION_LIMIT_ENTERPRISE'] || '25',
+        10,
+      ),
+    },
+    credentialLimit: parseInt(
+      process.env['SESSION_LIMIT_PER_CREDENTIAL'] || '10',
+      10,
+    ),
+    leaseTtlSeconds: parseInt(
+      process.env['SESSION_LEASE_TTL_SECONDS'] || '90',
+      10,
+    ),
+    queueTicketTtlSeconds: parseInt(
+      process.env['SESSION_QUEUE_TICKET_TTL_SECONDS'] || '120',
+      10,
+    ),
+    queueRetryAfterSeconds: parseInt(
+      process.env['SESSION_QUEUE_RETRY_AFTER_SECONDS'] || '15',
+      10,
+    ),
+  }),
+);
@@ -0,0 +1,34 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  NotFoundException,
+} from '@nestjs/common';
+import { MeetingPersistenceService } from '../services/meeting/meeting-persistence.service';
+import { UserSession } from '../interfaces/clerk.interface';
+
+// Lets through the organizer and participants of the route's :meetingId only;
+// runs after AuthGuard, which attaches the user. Meetings of others are
+// reported as missing rather than forbidden, so their ids cannot be probed.
+@Injectable()
+export class MeetingMemberGuard implements CanActivate {
+  constructor(
+    private readonly meetingPersistence: MeetingPersistenceService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const user = request.user as UserSession | undefined;
+    const meetingId = request.params?.meetingId as string | undefined;
+
+    if (
+      !user ||
+      !meetingId ||
+      !(await this.meetingPersistence.isMeetingMember(meetingId, user.userId))
+    ) {
+      throw new NotFoundException(`Meeting not found: ${meetingId}`);
+    }
+
+    return true;
+  }
+}
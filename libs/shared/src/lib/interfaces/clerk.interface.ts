@@ -82,6 +82,21 @@ export interface UserSession {
   expiresAt?: Date;
 }
 
+// Stored in User.preferences
+export interface UserPreferences {
+  language: string; // ISO 639-1 code summaries are written in
+  summaryFormat: string;
+  tone: string;
+  focusAreas: string[];
+  notifications: {
+    email: boolean;
+    push: boolean;
+    meetingReminders: boolean;
+    summaryReady: boolean;
+    actionItemUpdates: boolean;
+  };
+}
+
 export interface ClerkUserSync {
   clerkUserId: string;
   localUserId: string;
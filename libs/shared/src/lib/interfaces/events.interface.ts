@@ -8,7 +8,7 @@ export interface BaseEvent {
 export interface MeetingEvent extends BaseEvent {
   meetingId: string;
   userId: string;
-  type: 'meeting.created' | 'meeting.started' | 'meeting.ended' | 'meeting.updated';
+  type: 'meeting.created' | 'meeting.started' | 'meeting.ended' | 'meeting.updated' | 'meeting.status_changed';
   data: Record<string, unknown>;
 }
 
@@ -19,6 +19,23 @@ export interface TranscriptionEvent extends BaseEvent {
   data: Record<string, unknown>;
 }
 
+// Asks the transcription service to transcribe a finished cloud recording;
+// without a download URL the file is fetched through the platform adapter.
+// Account tokens never travel on the bus: the recording is downloaded with the
+// platform connection of connectionUserId, which the consumer loads itself.
+export interface RecordingTranscriptionRequest extends BaseEvent {
+  type: 'transcription.recording_requested';
+  platform: string;
+  platformMeetingId: string;
+  recordingId: string;
+  downloadUrl?: string;
+  downloadToken?: string; // only a token the platform scoped to this recording
+  connectionUserId?: string;
+  meetingId?: string;
+  transcriptId?: string;
+  fileType?: string;
+}
+
 export interface PaymentEvent extends BaseEvent {
   userId: string;
   subscriptionId?: string;
@@ -2,16 +2,38 @@ export enum MeetingPlatform {
   ZOOM = 'zoom',
   TEAMS = 'teams',
   GOOGLE_MEET = 'google_meet',
-  WEBEX = 'webex'
+  WEBEX = 'webex',
+  LOCAL = 'local'
 }
 
+// Meeting lifecycle, shared with the database enum of the same name
 export enum MeetingStatus {
   SCHEDULED = 'scheduled',
-  STARTING = 'starting',
+  JOINING = 'joining',
   IN_PROGRESS = 'in_progress',
-  ENDED = 'ended',
-  CANCELLED = 'cancelled',
-  ERROR = 'error'
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+// Statuses a meeting may move to from each status; the last three are final
+export const MEETING_STATUS_TRANSITIONS: Record<MeetingStatus, MeetingStatus[]> = {
+  [MeetingStatus.SCHEDULED]: [MeetingStatus.JOINING, MeetingStatus.CANCELLED],
+  [MeetingStatus.JOINING]: [MeetingStatus.IN_PROGRESS, MeetingStatus.FAILED, MeetingStatus.CANCELLED],
+  [MeetingStatus.IN_PROGRESS]: [MeetingStatus.PROCESSING, MeetingStatus.FAILED],
+  [MeetingStatus.PROCESSING]: [MeetingStatus.COMPLETED, MeetingStatus.FAILED],
+  [MeetingStatus.COMPLETED]: [],
+  [MeetingStatus.FAILED]: [],
+  [MeetingStatus.CANCELLED]: []
+};
+
+export interface MeetingStatusChange {
+  meetingId: string;
+  from: MeetingStatus | null; // null when the meeting was created
+  to: MeetingStatus;
+  reason: string;
+  changedAt: Date;
 }
 
 export enum ParticipantRole {
@@ -33,6 +55,24 @@ export interface MeetingCredentials {
   botPassword?: string;
 }
 
+// A user's connected platform account; tokens never leave the service
+export interface PlatformConnection {
+  id: string;
+  userId: string;
+  platform: MeetingPlatform;
+  accountEmail?: string;
+  scopes: string[];
+  expiresAt?: Date;
+  lastRefreshedAt?: Date;
+  connectedAt: Date;
+}
+
+export interface PlatformAuthorization {
+  platform: MeetingPlatform;
+  authorizationUrl: string;
+  state: string;
+}
+
 export interface MeetingJoinInfo {
   meetingId: string;
   meetingUrl: string;
@@ -40,8 +80,31 @@ export interface MeetingJoinInfo {
   platform: MeetingPlatform;
   scheduledTime: Date;
   hostEmail?: string;
+  title?: string;
+  organizerId?: string;
+  scheduledMeetingId?: string; // id of the persisted Meeting this join fulfils
+  botName?: string; // display name the recorder joins under
+  disclosure?: Partial<RecordingDisclosureConfig>; // overrides for this meeting only
 }
 
+// How participants are told that the meeting is recorded. The organization's
+// settings are overridden by the organizer's preferences and then per meeting,
+// but only added to: what the organization turns on cannot be turned off
+export interface RecordingDisclosureConfig {
+  enabled: boolean;
+  chatMessage?: string; // posted in the meeting chat when recording starts
+  nameSuffix?: string; // appended to the recorder's display name
+  audioAnnouncementFile?: string; // audio clip played into the meeting when recording starts
+  stopCommand: string; // chat command a participant can send to object
+}
+
+export const DEFAULT_RECORDING_DISCLOSURE: RecordingDisclosureConfig = {
+  enabled: true,
+  chatMessage: 'This meeting is being recorded and transcribed by MeetGenie. Send /stop-recording to stop the recording.',
+  nameSuffix: '(Recording)',
+  stopCommand: '/stop-recording'
+};
+
 export interface MeetingSession {
   sessionId: string;
   meetingId: string;
@@ -52,6 +115,20 @@ export interface MeetingSession {
   recordingUrl?: string;
   audioStreamUrl?: string;
   participants: MeetingParticipant[];
+  connectionGaps?: ConnectionGap[];
+}
+
+// Interval during which the bot was disconnected from an ongoing meeting
+export interface ConnectionGap {
+  start: Date;
+  end?: Date;
+  reason?: string;
+}
+
+export interface ReconnectPolicy {
+  enabled: boolean;
+  maxRetries: number;
+  baseDelay: number; // ms, doubled on every attempt
 }
 
 export interface MeetingParticipant {
@@ -73,8 +150,35 @@ export interface RecordingConfig {
   autoStop: boolean;
   cloudStorage: boolean;
   localStorage: boolean;
+  // Capture one audio stream per participant instead of a single mixed one
+  multiTrack?: boolean;
+  // Also sample shared-screen frames on scene change and OCR them
+  captureScreenShare?: boolean;
+}
+
+export const DEFAULT_RECORDING_CONFIG: RecordingConfig = {
+  audioOnly: true,
+  autoStart: true,
+  autoStop: true,
+  cloudStorage: true,
+  localStorage: false,
+  multiTrack: false,
+  captureScreenShare: false
+};
+
+// One participant's isolated audio, in the same format as the mixed stream
+export interface ParticipantAudioStream {
+  participantId: string;
+  name?: string;
+  stream: NodeJS.ReadableStream;
 }
 
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  enabled: true,
+  maxRetries: 5,
+  baseDelay: 1000
+};
+
 export interface MeetingRecording {
   id: string;
   meetingId: string;
@@ -86,9 +190,66 @@ export interface MeetingRecording {
   audioUrl?: string;
   videoUrl?: string;
   size?: number;
+  gaps?: ConnectionGap[];
+  multiTrack?: boolean;
+  captureScreenShare?: boolean;
+  liveAudio?: boolean; // whether the recording's audio can be transcribed while it runs
   status: 'recording' | 'processing' | 'completed' | 'failed';
 }
 
+// A recording the platform already stored in its own cloud
+export interface CloudRecording {
+  id: string;
+  platform: MeetingPlatform;
+  platformMeetingId: string;
+  title?: string;
+  startTime: Date;
+  endTime?: Date;
+  duration?: number; // seconds
+  fileType?: string;
+  size?: number;
+  downloadUrl?: string;
+  hostEmail?: string;
+}
+
+export interface ParticipantInterval {
+  joinTime: Date;
+  leaveTime?: Date;
+}
+
+export interface ParticipantTimelineEntry {
+  participantId: string;
+  userId?: string;
+  name: string;
+  email?: string;
+  role: string;
+  joinTime?: Date;
+  leaveTime?: Date;
+  intervals: ParticipantInterval[];
+  speakingTime: number; // seconds
+  speakingShare: number; // 0-1 of total attributed speaking time
+  speakerIds: string[];
+}
+
+export interface ParticipantTimeline {
+  meetingId: string;
+  startTime?: Date;
+  endTime?: Date;
+  participants: ParticipantTimelineEntry[];
+  unattributedSpeakingTime: number; // seconds of speech not mapped to a participant
+}
+
+export type SpeakerLinkSource = 'voice_profile' | 'active_speaker' | 'name_mention' | 'manual';
+
+export interface SpeakerLink {
+  speakerId: string;
+  participantId: string | null;
+  userId?: string;
+  name?: string;
+  source: SpeakerLinkSource;
+  confidence: number;
+}
+
 export interface PlatformError {
   code: string;
   message: string;
@@ -106,24 +267,48 @@ export interface MeetingPlatformAdapter {
   validateCredentials(credentials: MeetingCredentials): Promise<boolean>;
   
   // Meeting management
-  joinMeeting(joinInfo: MeetingJoinInfo): Promise<MeetingSession>;
+  // Per-user credentials override the adapter's own for this session
+  joinMeeting(joinInfo: MeetingJoinInfo, credentials?: MeetingCredentials): Promise<MeetingSession>;
   leaveMeeting(sessionId: string): Promise<void>;
-  getMeetingInfo(meetingId: string): Promise<MeetingJoinInfo>;
+  rejoinMeeting(sessionId: string): Promise<MeetingSession>;
+  // Reconnects under a session id this process no longer holds, e.g. after a
+  // restart; throws when the meeting can no longer be joined
+  resumeSession(sessionId: string, joinInfo: MeetingJoinInfo, credentials?: MeetingCredentials): Promise<MeetingSession>;
+  getMeetingInfo(meetingId: string, credentials?: MeetingCredentials): Promise<MeetingJoinInfo>;
   
   // Recording management
   startRecording(sessionId: string, config: RecordingConfig): Promise<MeetingRecording>;
   stopRecording(recordingId: string): Promise<MeetingRecording>;
   getRecording(recordingId: string): Promise<MeetingRecording>;
+  listCloudRecordings(since: Date, credentials?: MeetingCredentials): Promise<CloudRecording[]>;
+  downloadRecording(recordingId: string, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream>;
+  // Links come from webhooks, so credentials are only sent to the platform's own hosts
+  downloadRecordingUrl(url: string, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream>;
   
   // Real-time data
+  // Whether the adapter can deliver the meeting's audio while it runs;
+  // platforms without it are transcribed from their cloud recordings
+  supportsLiveAudio(): boolean;
   getAudioStream(sessionId: string): Promise<NodeJS.ReadableStream>;
+  supportsMultiTrackAudio(): boolean;
+  getParticipantAudioStreams(sessionId: string): Promise<ParticipantAudioStream[]>;
+  supportsScreenShareCapture(): boolean;
+  getScreenShareStream(sessionId: string): Promise<NodeJS.ReadableStream>; // encoded video of the shared screen
   getParticipants(sessionId: string): Promise<MeetingParticipant[]>;
+
+  // In-meeting output
+  sendChatMessage(sessionId: string, message: string): Promise<void>;
+  playAudio(sessionId: string, audio: Buffer): Promise<void>;
   
   // Event handling
   onMeetingEvent(callback: (event: MeetingPlatformEvent) => void): void;
   
+  // Retry helper shared by callers that drive the adapter
+  retryWithBackoff<T>(operation: () => Promise<T>, maxRetries?: number, baseDelay?: number): Promise<T>;
+
   // Health and status
   isConnected(): boolean;
+  hasActiveSession(sessionId: string): boolean;
   getConnectionStatus(): Promise<ConnectionStatus>;
   
   // Cleanup
@@ -144,15 +329,56 @@ export enum MeetingEventType {
   MEETING_ENDED = 'meeting_ended',
   PARTICIPANT_JOINED = 'participant_joined',
   PARTICIPANT_LEFT = 'participant_left',
+  ACTIVE_SPEAKER_CHANGED = 'active_speaker_changed',
   RECORDING_STARTED = 'recording_started',
   RECORDING_STOPPED = 'recording_stopped',
+  RECORDING_COMPLETED = 'recording_completed', // cloud recording is ready to download
   AUDIO_STREAM_STARTED = 'audio_stream_started',
   AUDIO_STREAM_ENDED = 'audio_stream_ended',
   CONNECTION_LOST = 'connection_lost',
   CONNECTION_RESTORED = 'connection_restored',
+  CHAT_MESSAGE = 'chat_message', // data: ChatMessageEventData
   ERROR = 'error'
 }
 
+export interface ChatMessageEventData {
+  participantId?: string;
+  name?: string;
+  message: string;
+  sentAt?: string; // when the platform reports it, otherwise the event timestamp is used
+}
+
+// OCR of one shared-screen scene, stored alongside the meeting's transcript
+export interface VisualSegment {
+  id: string;
+  meetingId: string;
+  transcriptId?: string;
+  startTime: number; // ms from meeting start, like transcript segment times
+  endTime?: number; // set once the next scene appears
+  text: string;
+  confidence: number;
+  hasThumbnail: boolean;
+}
+
+// One OCR'd frame of the shared screen, as captured
+export interface ScreenCapture {
+  capturedAt: Date;
+  text: string;
+  confidence: number;
+  thumbnail?: Buffer; // small JPEG of the frame
+}
+
+// A chat message stored alongside the meeting's transcript
+export interface MeetingChatMessage {
+  id: string;
+  meetingId: string;
+  participantId?: string;
+  senderName?: string;
+  message: string;
+  sentAt: Date;
+  offset: number; // ms from meeting start, like transcript segment times
+}
+
 export interface ConnectionStatus {
   isConnected: boolean;
   lastConnected?: Date;
@@ -1,6 +1,10 @@
+// TranscriptionConfig.language that has the spoken language identified,
+// for the session from its first speech and then per segment
+export const AUTO_LANGUAGE = 'auto';
+
 export interface TranscriptionConfig {
   modelName: string; // Default: "facebook/wav2vec2-large-960h-lv60-self"
-  language: string;
+  language: string; // ISO 639-1 code, or AUTO_LANGUAGE
   enableSpeakerDiarization: boolean;
   chunkSize: number;
   overlapSize: number;
@@ -8,6 +12,7 @@ export interface TranscriptionConfig {
   sampleRate: number;
   channels: number;
   bitDepth: number;
+  transcriptId?: string; // Transcript row the segments are written to as they are produced
 }
 
 export interface HuggingFaceModelStatus {
@@ -31,6 +36,15 @@ export interface TranscriptSegment {
   processingTime: number;
   audioChunkId?: string;
   language?: string;
+  words: TranscriptWord[];
+}
+
+// A recognised word, timed on the same scale as its segment
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
 }
 
 export interface FullTranscript {
@@ -63,6 +77,7 @@ export interface ProcessingStats {
   modelSwitches: number;
   errorCount: number;
   retryCount: number;
+  skippedAudioDuration: number; // ms of silence not sent to the model
   peakMemoryUsage?: number;
 }
 
@@ -100,6 +115,7 @@ export interface TranscriptionSession {
   speakers: Speaker[];
   errorCount: number;
   lastError?: TranscriptionError;
+  language?: string; // identified language of the session, when config.language is AUTO_LANGUAGE
 }
 
 export interface AudioChunk {
@@ -112,6 +128,22 @@ export interface AudioChunk {
   channels: number;
   processed: boolean;
   transcriptSegmentId?: string;
+  speakerId?: string; // set when the chunk comes from a single speaker's track
+}
+
+// Where a chunk sits on its stream's timeline, in ms from the start of the session
+export interface AudioWindow {
+  start: number;
+  end: number;
+  overlapBefore: number; // audio shared with the previous chunk of the stream
+  overlapAfter: number; // audio shared with the next chunk; 0 for the last one
+}
+
+// A single participant's isolated audio; its speech is attributed by track
+export interface AudioTrack {
+  speakerId: string;
+  speakerName?: string;
+  stream: NodeJS.ReadableStream;
 }
 
 export interface AudioPreprocessingResult {
@@ -231,13 +263,19 @@ export enum AudioFormat {
   MP3 = 'mp3',
   FLAC = 'flac',
   OGG = 'ogg',
-  M4A = 'm4a'
+  M4A = 'm4a',
+  MP4 = 'mp4',
+  WEBM = 'webm'
 }
 
 // Service interfaces
 export interface TranscriptionService {
   startTranscription(audioStream: NodeJS.ReadableStream, config: TranscriptionConfig): Promise<TranscriptionSession>;
-  processAudioChunk(sessionId: string, audioChunk: Buffer): Promise<TranscriptSegment>;
+  startMultiTrackTranscription(tracks: AudioTrack[], config: TranscriptionConfig): Promise<TranscriptionSession>;
+  openLiveTranscription(config: TranscriptionConfig): Promise<TranscriptionSession>;
+  attachAudioStream(sessionId: string, audioStream: NodeJS.ReadableStream, speakerId?: string): Promise<void>;
+  attachAudioTrack(sessionId: string, track: AudioTrack): Promise<void>;
+  processAudioChunk(sessionId: string, audioChunk: Buffer, speakerId?: string, window?: AudioWindow): Promise<TranscriptSegment | null>;
   identifySpeakers(audioData: Buffer): Promise<SpeakerDiarizationResult>;
   finalizeTranscript(sessionId: string): Promise<FullTranscript>;
   getModelStatus(modelName?: string): Promise<HuggingFaceModelStatus[]>;
@@ -249,12 +287,46 @@ export interface TranscriptionService {
   getQualityMetrics(sessionId: string): Promise<TranscriptionQualityMetrics>;
 }
 
+// A speech-to-text backend; the model name decides which one transcribes
+export interface AsrProvider {
+  readonly isLocal: boolean;
+  supportsModel(modelName: string): boolean;
+  listModels(): string[];
+  loadModel(modelName: string): Promise<HuggingFaceModelStatus>;
+  getModelStatus(modelName?: string): Promise<HuggingFaceModelStatus>;
+  getAllModelStatuses(): Promise<HuggingFaceModelStatus[]>;
+  transcribeAudio(audioBuffer: Buffer, config: TranscriptionConfig): Promise<AsrTranscriptionResult>;
+  supportsLanguage(modelName: string, language: string): boolean;
+  // Resolves to null when the backend has no language identification
+  identifyLanguage(audioBuffer: Buffer, config: TranscriptionConfig): Promise<LanguageDetection | null>;
+}
+
+export interface LanguageDetection {
+  language: string; // ISO 639-1 code
+  confidence: number;
+}
+
+export interface AsrTranscriptionResult {
+  text: string;
+  confidence: number;
+  processingTime: number;
+  words: TranscriptWord[]; // timed in ms from the start of the given audio
+}
+
 export interface AudioPreprocessingService {
   preprocessAudio(audioData: Buffer, config: AudioPreprocessingConfig): Promise<AudioPreprocessingResult>;
   enhanceAudioQuality(audioData: Buffer): Promise<Buffer>;
   normalizeVolume(audioData: Buffer): Promise<Buffer>;
   reduceNoise(audioData: Buffer): Promise<Buffer>;
   detectAudioQuality(audioData: Buffer): Promise<AudioQualityMetrics>;
+  probeAudio(filePath: string): Promise<AudioInfo>;
+}
+
+export interface AudioInfo {
+  sampleRate: number;
+  channels: number;
+  duration: number; // seconds
+  format: AudioFormat;
 }
 
 export interface AudioPreprocessingConfig {
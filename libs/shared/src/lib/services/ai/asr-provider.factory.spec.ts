@@ -0,0 +1,58 @@
+import { AsrProviderFactory } from './asr-provider.factory';
+import { HuggingFaceService } from './huggingface.service';
+import { LocalAsrService } from './local-asr.service';
+
+jest.mock('@huggingface/inference', () => ({
+  HfInference: class {
+    automaticSpeechRecognition = jest.fn().mockResolvedValue({ text: '' });
+  },
+}));
+jest.mock('@huggingface/transformers', () => ({
+  env: {},
+  pipeline: jest.fn(),
+}));
+
+describe('AsrProviderFactory', () => {
+  let localAsr: LocalAsrService;
+  let huggingFace: HuggingFaceService;
+  let factory: AsrProviderFactory;
+
+  beforeEach(() => {
+    // The hosted service looks its default models up on the Hub as it starts
+    jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response('{}', { status: 200 }));
+    localAsr = new LocalAsrService();
+    huggingFace = new HuggingFaceService();
+    factory = new AsrProviderFactory(localAsr, huggingFace);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should pick the backend by model name', () => {
+    expect(factory.getProvider('local:Xenova/whisper-base')).toBe(localAsr);
+    expect(factory.getProvider('openai/whisper-small')).toBe(huggingFace);
+  });
+
+  it('should reject models no backend serves', () => {
+    expect(() => factory.getProvider('vosk:small-en')).toThrow(
+      'No speech-to-text backend for model: vosk:small-en',
+    );
+  });
+
+  it('should report which backends run locally', () => {
+    expect(
+      factory.getAllProviders().map((provider) => provider.isLocal),
+    ).toEqual([true, false]);
+  });
+
+  it('should list each backend its own models, so fallbacks stay on it', () => {
+    for (const provider of factory.getAllProviders()) {
+      for (const model of provider.listModels()) {
+        expect(factory.getProvider(model)).toBe(provider);
+      }
+    }
+  });
+});
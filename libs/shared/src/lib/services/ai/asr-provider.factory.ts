@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { AsrProvider } from '../../interfaces/transcription.interface';
+import { HuggingFaceService } from './huggingface.service';
+import { LocalAsrService } from './local-asr.service';
+
+// Picks the speech-to-text backend for a TranscriptionConfig.modelName
+@Injectable()
+export class AsrProviderFactory {
+  private readonly providers: AsrProvider[];
+
+  constructor(
+    private localAsrService: LocalAsrService,
+    private huggingFaceService: HuggingFaceService
+  ) {
+    this.providers = [this.localAsrService, this.huggingFaceService];
+  }
+
+  getProvider(modelName: string): AsrProvider {
+    const provider = this.providers.find(candidate => candidate.supportsModel(modelName));
+    if (!provider) {
+      throw new Error(`No speech-to-text backend for model: ${modelName}`);
+    }
+    return provider;
+  }
+
+  getAllProviders(): AsrProvider[] {
+    return [...this.providers];
+  }
+}
@@ -0,0 +1,83 @@
+import { HuggingFaceService } from './huggingface.service';
+import { TranscriptionConfig } from '../../interfaces/transcription.interface';
+
+jest.mock('@huggingface/inference', () => ({
+  HfInference: class {
+    automaticSpeechRecognition = jest.fn().mockResolvedValue({ text: '' });
+    audioClassification = jest.fn().mockResolvedValue([]);
+  },
+}));
+
+describe('HuggingFaceService', () => {
+  const config: TranscriptionConfig = {
+    modelName: 'openai/whisper-small',
+    language: 'en',
+    enableSpeakerDiarization: false,
+    chunkSize: 32000,
+    overlapSize: 0,
+    confidenceThreshold: 0.7,
+    sampleRate: 16000,
+    channels: 1,
+    bitDepth: 16,
+  };
+
+  let recognition: Record<string, unknown>;
+  let fetchMock: jest.Mock;
+  let service: HuggingFaceService;
+
+  // The default models are looked up on the Hub while the service starts
+  const modelsLoaded = async () => {
+    for (let i = 0; i < 50; i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+
+  beforeEach(async () => {
+    recognition = { text: '' };
+    fetchMock = jest.fn(async (url: string) =>
+      url.startsWith('https://huggingface.co/api/models/')
+        ? new Response('{}', { status: 200 })
+        : new Response(JSON.stringify(recognition), { status: 200 }),
+    );
+    jest.spyOn(global, 'fetch').mockImplementation(fetchMock);
+    service = new HuggingFaceService();
+    await modelsLoaded();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should ask the Inference API for word timestamps', async () => {
+    const audio = Buffer.from('RIFF-audio');
+
+    await service.transcribeAudio(audio, config);
+
+    const [url, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+    expect(url).toBe(
+      'https://router.huggingface.co/hf-inference/models/openai/whisper-small',
+    );
+    expect(JSON.parse(init.body)).toEqual({
+      inputs: audio.toString('base64'),
+      parameters: { return_timestamps: 'word' },
+    });
+  });
+
+  it('should time words in ms from the start of the audio', async () => {
+    recognition = {
+      text: ' Hello world',
+      chunks: [
+        { text: ' Hello', timestamp: [0.2, 0.6] },
+        { text: ' ', timestamp: [0.6, 0.65] },
+        { text: ' world', timestamp: [0.65, null] },
+      ],
+    };
+
+    const result = await service.transcribeAudio(Buffer.from('audio'), config);
+
+    expect(result.words).toEqual([
+      { text: 'Hello', start: 200, end: 600, confidence: 0.9 },
+      { text: 'world', start: 650, end: 650, confidence: 0.9 },
+    ]);
+  });
+});
@@ -1,17 +1,44 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { HfInference } from '@huggingface/inference';
 import { 
+  AsrProvider, 
+  AsrTranscriptionResult, 
   HuggingFaceModelStatus, 
+  LanguageDetection, 
   TranscriptionConfig, 
   TranscriptionError, 
   TranscriptionErrorCode,
   ModelPerformanceMetrics 
-} from '../interfaces/transcription.interface';
+} from '../../interfaces/transcription.interface';
+import { toLanguageDetection } from '../transcription/language-codes';
+
+// Identifies 126 spoken languages, labelled with ISO 639-3 codes
+const LANGUAGE_ID_MODEL = 'facebook/mms-lid-126';
+
+// Models served by the Inference API
+const INFERENCE_API_URL = 'https://router.huggingface.co/hf-inference/models';
+
+// The client library sends speech recognition audio as a raw body, which
+// carries no parameters; as JSON the audio goes base64-encoded next to them
+interface SpeechRecognitionRequest {
+  inputs: string;
+  parameters: {
+    return_timestamps: 'word'; // one chunk per word; true gives one per phrase
+  };
+}
+
+interface SpeechRecognitionResponse {
+  text: string;
+  // Seconds from the start of the audio; the last chunk may have no end
+  chunks?: { text: string; timestamp: [number, number | null] }[];
+}
 
 @Injectable()
-export class HuggingFaceService {
+export class HuggingFaceService implements AsrProvider {
+  readonly isLocal = false;
   private readonly logger = new Logger(HuggingFaceService.name);
   private hfClient: HfInference;
+  private readonly apiKey?: string;
   private modelStatuses = new Map<string, HuggingFaceModelStatus>();
   private modelPerformance = new Map<string, ModelPerformanceMetrics>();
   private readonly defaultModels = [
@@ -22,12 +49,12 @@ export class HuggingFaceService {
   ];
 
   constructor() {
-    const apiKey = process.env['HUGGINGFACE_API_KEY'];
-    if (!apiKey) {
+    this.apiKey = process.env['HUGGINGFACE_API_KEY'];
+    if (!this.apiKey) {
       this.logger.warn('HUGGINGFACE_API_KEY not found. Some features may be limited.');
     }
     
-    this.hfClient = new HfInference(apiKey);
+    this.hfClient = new HfInference(this.apiKey);
     this.initializeModels();
   }
 
@@ -198,11 +225,35 @@ export class HuggingFaceService {
     }
   }
 
-  async transcribeAudio(audioBuffer: Buffer, config: TranscriptionConfig): Promise<{
-    text: string;
-    confidence: number;
-    processingTime: number;
-  }> {
+  // Hub model ids have no scheme prefix like the local backend's "local:"
+  supportsModel(modelName: string): boolean {
+    return !modelName.includes(':');
+  }
+
+  listModels(): string[] {
+    return [...this.defaultModels];
+  }
+
+  // The wav2vec2 960h models only know English; Whisper is multilingual
+  // unless it is an .en variant
+  supportsLanguage(modelName: string, language: string): boolean {
+    return language === 'en' || !/960h|\.en$/.test(modelName);
+  }
+
+  async identifyLanguage(audioBuffer: Buffer): Promise<LanguageDetection | null> {
+    try {
+      const result = await this.hfClient.audioClassification({
+        data: new Blob([audioBuffer], { type: 'audio/wav' }),
+        model: LANGUAGE_ID_MODEL
+      });
+      return toLanguageDetection(result);
+    } catch (error) {
+      this.logger.warn(`Language identification failed:`, error);
+      return null;
+    }
+  }
+
+  async transcribeAudio(audioBuffer: Buffer, config: TranscriptionConfig): Promise<AsrTranscriptionResult> {
     const startTime = Date.now();
     const modelName = config.modelName || this.defaultModels[0];
     
@@ -215,14 +266,7 @@ export class HuggingFaceService {
 
       this.logger.debug(`Transcribing audio with model: ${modelName}`);
       
-      // Convert buffer to blob for Hugging Face API
-      const audioBlob = new Blob([audioBuffer], { type: 'audio/wav' });
-      
-      // Call Hugging Face Inference API
-      const result = await this.hfClient.automaticSpeechRecognition({
-        data: audioBlob,
-        model: modelName
-      });
+      const result = await this.recognizeWords(audioBuffer, modelName);
 
       const processingTime = Date.now() - startTime;
       
@@ -238,10 +282,19 @@ export class HuggingFaceService {
 
       this.logger.debug(`Transcription completed in ${processingTime}ms`);
       
+      const confidence = 0.9; // Hugging Face doesn't provide confidence scores directly
       return {
         text: result.text || '',
-        confidence: 0.9, // Hugging Face doesn't provide confidence scores directly
-        processingTime
+        confidence,
+        processingTime,
+        words: (result.chunks || [])
+          .filter(chunk => chunk.text.trim().length > 0)
+          .map(chunk => ({
+            text: chunk.text.trim(),
+            start: chunk.timestamp[0] * 1000,
+            end: (chunk.timestamp[1] ?? chunk.timestamp[0]) * 1000,
+            confidence
+          }))
       };
       
     } catch (error) {
@@ -261,6 +314,26 @@ export class HuggingFaceService {
     }
   }
 
+  private async recognizeWords(audioBuffer: Buffer, modelName: string): Promise<SpeechRecognitionResponse> {
+    const request: SpeechRecognitionRequest = {
+      inputs: audioBuffer.toString('base64'),
+      parameters: { return_timestamps: 'word' }
+    };
+
+    const response = await fetch(`${INFERENCE_API_URL}/${modelName}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+      },
+      body: JSON.stringify(request)
+    });
+    if (!response.ok) {
+      throw new Error(`Inference API request for model ${modelName} failed with ${response.status}: ${await response.text()}`);
+    }
+    return (await response.json()) as SpeechRecognitionResponse;
+  }
+
   private updateModelPerformance(
     modelName: string, 
     processingTime: number, 
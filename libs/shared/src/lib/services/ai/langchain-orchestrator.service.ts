@@ -4,11 +4,16 @@ import { EnvironmentConfig } from '../../config/environment.config';
 import { LangChainPromptsService } from './langchain-prompts.service';
 import { AICostMonitorService } from './ai-cost-monitor.service';
 import { AIRetryHandlerService } from './ai-retry-handler.service';
+import { TranscriptPersistenceService } from '../transcription/transcript-persistence.service';
+import { PrismaService } from '../database/prisma.service';
+import { UserPreferences } from '../../interfaces/clerk.interface';
 
 export interface OrchestrationRequest {
   type: 'summarization' | 'qa' | 'analysis' | 'extraction';
   input: string | Record<string, any>;
   context?: Record<string, any>;
+  meetingId?: string; // summarize or answer from the stored transcript and chat
+  userId?: string; // summaries are written in this user's preferred language
   options?: {
     model?: string;
     temperature?: number;
@@ -61,6 +66,8 @@ export class LangChainOrchestratorService {
     private readonly promptsService: LangChainPromptsService,
     private readonly costMonitor: AICostMonitorService,
     private readonly retryHandler: AIRetryHandlerService,
+    private readonly transcriptPersistence: TranscriptPersistenceService,
+    private readonly prismaService: PrismaService,
   ) {}
 
   /**
@@ -301,9 +308,13 @@ export class LangChainOrchestratorService {
    * Perform summarization operation
    */
   private async performSummarization(request: OrchestrationRequest): Promise<string> {
+    const transcript = request.meetingId
+      ? await this.transcriptPersistence.buildMeetingContext(request.meetingId)
+      : (request.input as string);
+
     const prompt = await this.promptsService.getSummarizationPrompt(
-      request.input as string,
-      request.context
+      transcript,
+      { ...request.context, language: await this.getSummaryLanguage(request) }
     );
 
     // This would integrate with actual LangChain implementation
@@ -311,12 +322,40 @@ export class LangChainOrchestratorService {
     return `Summary of: ${request.input}`;
   }
 
+  /**
+   * The preferred language of the user a summary is for, or else of the
+   * meeting's organizer, whatever languages the meeting was held in
+   */
+  private async getSummaryLanguage(request: OrchestrationRequest): Promise<string> {
+    let userId = request.userId;
+    if (!userId && request.meetingId) {
+      const meeting = await this.prismaService.meeting.findUnique({
+        where: { id: request.meetingId },
+        select: { organizerId: true },
+      });
+      userId = meeting?.organizerId;
+    }
+    if (!userId) {
+      return 'en';
+    }
+
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: { preferences: true },
+    });
+    const preferences = (user?.preferences ?? {}) as Partial<UserPreferences>;
+    return preferences.language || 'en';
+  }
+
   /**
    * Perform Q&A operation
    */
   private async performQA(request: OrchestrationRequest): Promise<string> {
-    const { question, context } = request.input as { question: string; context: string };
-    
+    const { question, context: providedContext } = request.input as { question: string; context?: string };
+    const context = request.meetingId
+      ? await this.transcriptPersistence.buildMeetingContext(request.meetingId)
+      : providedContext || '';
+
     const prompt = await this.promptsService.getQAPrompt(question, context);
 
     // This would integrate with actual LangChain implementation
@@ -236,6 +236,8 @@ Analyze the following meeting transcript and provide a comprehensive summary:
 - Participants: {participants}
 - Meeting Type: {meetingType}
 
+The transcript can switch between languages. Write the summary in the language with ISO 639-1 code "{language}".
+
 Please provide a structured summary including:
 
 1. **Executive Summary** (2-3 sentences)
@@ -255,7 +257,7 @@ Format your response as valid JSON with the following structure:
   "participantInsights": [{"participant": "...", "contribution": "...", "engagement": "..."}]
 }
       `.trim(),
-      inputVariables: ['transcript', 'duration', 'participants', 'meetingType'],
+      inputVariables: ['transcript', 'duration', 'participants', 'meetingType', 'language'],
       outputFormat: 'json',
       examples: [],
       optimizedFor: 'gemini-pro',
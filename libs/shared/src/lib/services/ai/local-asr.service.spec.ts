@@ -0,0 +1,155 @@
+import { LocalAsrService } from './local-asr.service';
+import { TranscriptionConfig } from '../../interfaces/transcription.interface';
+
+// Stands in for transformers.js; pipelines answer with mockOutputs by task
+const mockEnv: Record<string, unknown> = {};
+const mockOutputs: Record<string, unknown> = {};
+const mockPipeline = jest.fn();
+
+jest.mock('@huggingface/transformers', () => ({
+  env: mockEnv,
+  pipeline: (...args: unknown[]) => mockPipeline(...args),
+}));
+
+describe('LocalAsrService', () => {
+  const config: TranscriptionConfig = {
+    modelName: 'local:Xenova/whisper-base',
+    language: 'de',
+    enableSpeakerDiarization: false,
+    chunkSize: 32000,
+    overlapSize: 0,
+    confidenceThreshold: 0.7,
+    sampleRate: 16000,
+    channels: 1,
+    bitDepth: 16,
+  };
+
+  // One second of 16kHz 16-bit PCM
+  const audio = Buffer.alloc(32000);
+
+  let transcriber: jest.Mock;
+  let service: LocalAsrService;
+
+  beforeEach(() => {
+    for (const key of Object.keys(mockEnv)) {
+      delete mockEnv[key];
+    }
+    mockOutputs['automatic-speech-recognition'] = { text: '' };
+    transcriber = jest.fn(
+      async () => mockOutputs['automatic-speech-recognition'],
+    );
+    mockPipeline.mockReset();
+    mockPipeline.mockImplementation(async (task: string) =>
+      task === 'automatic-speech-recognition'
+        ? transcriber
+        : jest.fn(async () => mockOutputs[task]),
+    );
+    service = new LocalAsrService();
+  });
+
+  afterEach(() => {
+    delete process.env['LOCAL_ASR_MODEL_DIR'];
+    delete process.env['LOCAL_LID_MODEL'];
+  });
+
+  it('should only serve local models, at no cost', () => {
+    expect(service.isLocal).toBe(true);
+    expect(service.supportsModel('local:Xenova/whisper-base')).toBe(true);
+    expect(service.supportsModel('openai/whisper-base')).toBe(false);
+    expect(
+      service.listModels().every((model) => service.supportsModel(model)),
+    ).toBe(true);
+  });
+
+  it('should run the model without its prefix on the CPU', async () => {
+    const status = await service.loadModel('local:Xenova/whisper-base');
+
+    expect(mockPipeline).toHaveBeenCalledWith(
+      'automatic-speech-recognition',
+      'Xenova/whisper-base',
+      { device: 'cpu' },
+    );
+    expect(status).toMatchObject({ status: 'ready', isLocal: true });
+  });
+
+  it('should only read models from LOCAL_ASR_MODEL_DIR when it is set', async () => {
+    process.env['LOCAL_ASR_MODEL_DIR'] = '/opt/models';
+
+    await service.loadModel('local:Xenova/whisper-base');
+
+    expect(mockEnv).toEqual({
+      localModelPath: '/opt/models',
+      allowRemoteModels: false,
+    });
+  });
+
+  it('should report a model that fails to load', async () => {
+    mockPipeline.mockRejectedValueOnce(new Error('Could not locate file'));
+
+    await expect(
+      service.loadModel('local:Xenova/whisper-base'),
+    ).resolves.toMatchObject({
+      status: 'error',
+      errorMessage: 'Could not locate file',
+    });
+  });
+
+  it('should time words in ms and end an open last word with the audio', async () => {
+    mockOutputs['automatic-speech-recognition'] = {
+      text: ' Guten Morgen',
+      chunks: [
+        { text: ' Guten', timestamp: [0.1, 0.4] },
+        { text: ' Morgen', timestamp: [0.5, null] },
+      ],
+    };
+
+    const result = await service.transcribeAudio(audio, config);
+
+    expect(result.text).toBe('Guten Morgen');
+    expect(result.words).toEqual([
+      { text: 'Guten', start: 100, end: 400, confidence: 0.9 },
+      { text: 'Morgen', start: 500, end: 1000, confidence: 0.9 },
+    ]);
+    expect(transcriber).toHaveBeenCalledWith(
+      expect.any(Float32Array),
+      expect.objectContaining({
+        return_timestamps: 'word',
+        language: 'de',
+        task: 'transcribe',
+      }),
+    );
+  });
+
+  it('should not tell English-only models the language', async () => {
+    await service.transcribeAudio(audio, {
+      ...config,
+      modelName: 'local:Xenova/whisper-tiny.en',
+      language: 'en',
+    });
+
+    expect(transcriber.mock.calls[0][1]).not.toHaveProperty('language');
+    expect(service.supportsLanguage('local:Xenova/whisper-tiny.en', 'de')).toBe(
+      false,
+    );
+  });
+
+  it('should identify the language with the model in LOCAL_LID_MODEL', async () => {
+    expect(await service.identifyLanguage(audio, config)).toBeNull();
+
+    process.env['LOCAL_LID_MODEL'] = 'mms-lid-126';
+    mockOutputs['audio-classification'] = [
+      { label: 'deu', score: 0.8 },
+      { label: 'eng', score: 0.1 },
+    ];
+
+    await expect(service.identifyLanguage(audio, config)).resolves.toEqual({
+      language: 'de',
+      confidence: 0.8,
+    });
+    expect(mockPipeline).toHaveBeenCalledWith(
+      'audio-classification',
+      'mms-lid-126',
+      { device: 'cpu' },
+    );
+  });
+});
@@ -0,0 +1,180 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type {
+  AudioClassificationOutput,
+  AudioClassificationPipeline,
+  AutomaticSpeechRecognitionPipeline
+} from '@huggingface/transformers';
+import {
+  AUTO_LANGUAGE,
+  AsrProvider,
+  AsrTranscriptionResult,
+  HuggingFaceModelStatus,
+  LanguageDetection,
+  TranscriptionConfig
+} from '../../interfaces/transcription.interface';
+import { decodeAudioSamples, resampleAudio } from '../transcription/audio-samples';
+import { toLanguageDetection } from '../transcription/language-codes';
+
+// Models run on this machine are named "local:<ONNX model id>"
+const LOCAL_MODEL_PREFIX = 'local:';
+
+// Whisper models expect 16kHz audio
+const MODEL_SAMPLE_RATE = 16000;
+
+// Runs Whisper-family ONNX models on the CPU, so transcription works offline.
+// With LOCAL_ASR_MODEL_DIR set, models are only read from that directory.
+// Languages are identified by the audio classification model in
+// LOCAL_LID_MODEL, e.g. an ONNX export of facebook/mms-lid-126.
+@Injectable()
+export class LocalAsrService implements AsrProvider {
+  readonly isLocal = true;
+  private readonly logger = new Logger(LocalAsrService.name);
+  private modelStatuses = new Map<string, HuggingFaceModelStatus>();
+  private pipelines = new Map<string, Promise<AutomaticSpeechRecognitionPipeline>>();
+  private languageClassifier: Promise<AudioClassificationPipeline> | null = null;
+  private readonly defaultModels = [
+    'local:Xenova/whisper-tiny.en',
+    'local:Xenova/whisper-base.en',
+    'local:Xenova/whisper-base'
+  ];
+
+  supportsModel(modelName: string): boolean {
+    return modelName.startsWith(LOCAL_MODEL_PREFIX);
+  }
+
+  listModels(): string[] {
+    return [...this.defaultModels];
+  }
+
+  supportsLanguage(modelName: string, language: string): boolean {
+    return language === 'en' || !modelName.endsWith('.en');
+  }
+
+  async identifyLanguage(audioBuffer: Buffer, config: TranscriptionConfig): Promise<LanguageDetection | null> {
+    const modelId = process.env['LOCAL_LID_MODEL'];
+    if (!modelId) {
+      return null;
+    }
+
+    try {
+      if (!this.languageClassifier) {
+        this.languageClassifier = this.createPipeline<AudioClassificationPipeline>('audio-classification', modelId);
+      }
+      const classifier = await this.languageClassifier;
+
+      const decoded = decodeAudioSamples(audioBuffer, config);
+      const samples = resampleAudio(decoded.samples, decoded.sampleRate, MODEL_SAMPLE_RATE);
+      // A single input gives a single list of labels
+      const output = (await classifier(samples, { top_k: 5 })) as AudioClassificationOutput;
+      return toLanguageDetection(output);
+    } catch (error) {
+      this.languageClassifier = null;
+      this.logger.warn(`Language identification failed:`, error);
+      return null;
+    }
+  }
+
+  async loadModel(modelName: string): Promise<HuggingFaceModelStatus> {
+    const startTime = Date.now();
+    this.logger.log(`Loading local model: ${modelName}`);
+    this.modelStatuses.set(modelName, { modelName, status: 'loading', isLocal: true });
+
+    try {
+      await this.getPipeline(modelName);
+
+      const status: HuggingFaceModelStatus = {
+        modelName,
+        status: 'ready',
+        isLocal: true,
+        loadTime: Date.now() - startTime
+      };
+      this.modelStatuses.set(modelName, status);
+      this.logger.log(`Local model ${modelName} loaded in ${status.loadTime}ms`);
+      return status;
+    } catch (error) {
+      this.pipelines.delete(modelName);
+      const status: HuggingFaceModelStatus = {
+        modelName,
+        status: 'error',
+        isLocal: true,
+        errorMessage: error instanceof Error ? error.message : String(error)
+      };
+      this.modelStatuses.set(modelName, status);
+      this.logger.error(`Failed to load local model ${modelName}:`, error);
+      return status;
+    }
+  }
+
+  async getModelStatus(modelName: string = this.defaultModels[0]): Promise<HuggingFaceModelStatus> {
+    return this.modelStatuses.get(modelName) || this.loadModel(modelName);
+  }
+
+  async getAllModelStatuses(): Promise<HuggingFaceModelStatus[]> {
+    return Array.from(this.modelStatuses.values());
+  }
+
+  async transcribeAudio(audioBuffer: Buffer, config: TranscriptionConfig): Promise<AsrTranscriptionResult> {
+    const startTime = Date.now();
+    const transcriber = await this.getPipeline(config.modelName);
+
+    const decoded = decodeAudioSamples(audioBuffer, config);
+    const samples = resampleAudio(decoded.samples, decoded.sampleRate, MODEL_SAMPLE_RATE);
+
+    // Multilingual models are told the language, which .en models reject
+    const language = config.language !== AUTO_LANGUAGE && !config.modelName.endsWith('.en') ? config.language : undefined;
+    const output = await transcriber(samples, {
+      return_timestamps: 'word',
+      chunk_length_s: 30,
+      ...(language ? { language, task: 'transcribe' } : {})
+    });
+    const result = Array.isArray(output) ? output[0] : output;
+
+    const status = this.modelStatuses.get(config.modelName);
+    if (status) {
+      status.lastUsed = new Date();
+    }
+
+    const confidence = 0.9; // The pipeline doesn't expose token probabilities
+    return {
+      text: result.text.trim(),
+      confidence,
+      processingTime: Date.now() - startTime,
+      words: (result.chunks || [])
+        .filter(chunk => chunk.text.trim().length > 0)
+        .map(chunk => ({
+          text: chunk.text.trim(),
+          start: chunk.timestamp[0] * 1000,
+          // The last word of the audio can come without an end
+          end: (chunk.timestamp[1] ?? samples.length / MODEL_SAMPLE_RATE) * 1000,
+          confidence
+        }))
+    };
+  }
+
+  private getPipeline(modelName: string): Promise<AutomaticSpeechRecognitionPipeline> {
+    let transcriber = this.pipelines.get(modelName);
+    if (!transcriber) {
+      transcriber = this.createPipeline<AutomaticSpeechRecognitionPipeline>(
+        'automatic-speech-recognition',
+        modelName.slice(LOCAL_MODEL_PREFIX.length)
+      );
+      this.pipelines.set(modelName, transcriber);
+    }
+    return transcriber;
+  }
+
+  private async createPipeline<T>(task: 'automatic-speech-recognition' | 'audio-classification', modelId: string): Promise<T> {
+    // Loaded on first use, as the ONNX runtime is heavy
+    const { pipeline, env } = await import('@huggingface/transformers');
+
+    const modelDir = process.env['LOCAL_ASR_MODEL_DIR'];
+    if (modelDir) {
+      env.localModelPath = modelDir;
+      env.allowRemoteModels = false;
+    }
+
+    // pipeline()'s task-to-type mapping is too large for the compiler to resolve
+    const createPipeline = pipeline as (task: string, model: string, options: { device: 'cpu' }) => Promise<T>;
+    return createPipeline(task, modelId, { device: 'cpu' });
+  }
+}
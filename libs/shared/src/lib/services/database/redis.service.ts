@@ -99,6 +99,15 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  async hdel(key: string, field: string): Promise<void> {
+    try {
+      await this.client.hdel(key, field);
+    } catch (error) {
+      this.logger.error(`Failed to delete hash field ${field} from key ${key}`, error);
+      throw error;
+    }
+  }
+
   async expire(key: string, seconds: number): Promise<void> {
     try {
       await this.client.expire(key, seconds);
@@ -108,6 +117,32 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  async acquireLock(key: string, ttl: number): Promise<string | null> {
+    try {
+      const token = `${process.pid}_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+      const result = await this.client.set(key, token, 'EX', ttl, 'NX');
+      return result === 'OK' ? token : null;
+    } catch (error) {
+      this.logger.error(`Failed to acquire lock ${key}`, error);
+      throw error;
+    }
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    try {
+      // Only delete the lock if it is still held with our token
+      await this.client.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        1,
+        key,
+        token,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to release lock ${key}`, error);
+      throw error;
+    }
+  }
+
   getClient(): Redis {
     return this.client;
   }
@@ -3,6 +3,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Inngest } from 'inngest';
 import { ConfigService } from '@nestjs/config';
 import { ClerkSyncService } from '../auth/clerk-sync.service';
+import { GlossaryService } from '../transcription/glossary.service';
 
 @Injectable()
 export class InngestFunctionsService {
@@ -12,6 +13,7 @@ export class InngestFunctionsService {
   constructor(
     private readonly clerkSyncService: ClerkSyncService,
     private readonly configService: ConfigService<EnvironmentConfig>,
+    private readonly glossaryService: GlossaryService,
   ) {
     const inngestConfig = this.configService.get('inngest', { infer: true });
     this.inngest = new Inngest({
@@ -220,7 +222,14 @@ export class InngestFunctionsService {
             return { success: true, message: 'Text cleanup completed' };
           });
 
-          // Step 2: Confidence score optimization
+          // Step 2: Respell names, products and acronyms with the glossary
+          await step.run('apply-glossary', async () => {
+            const replacements =
+              await this.glossaryService.applyToTranscript(transcriptId);
+            return { success: true, replacements };
+          });
+
+          // Step 3: Confidence score optimization
           await step.run('confidence-optimization', async () => {
             this.logger.log(
               `Optimizing confidence scores for transcript ${transcriptId}`,
@@ -232,7 +241,7 @@ export class InngestFunctionsService {
             };
           });
 
-          // Step 3: Speaker identification refinement
+          // Step 4: Speaker identification refinement
           await step.run('speaker-refinement', async () => {
             this.logger.log(
               `Refining speaker identification for transcript ${transcriptId}`,
@@ -241,7 +250,7 @@ export class InngestFunctionsService {
             return { success: true, message: 'Speaker refinement completed' };
           });
 
-          // Step 4: Generate quality metrics
+          // Step 5: Generate quality metrics
           await step.run('quality-metrics', async () => {
             this.logger.log(
               `Generating quality metrics for transcript ${transcriptId}`,
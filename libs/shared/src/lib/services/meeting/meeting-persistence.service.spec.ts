@@ -0,0 +1,204 @@
+import { MeetingPersistenceService } from './meeting-persistence.service';
+import type { PrismaService } from '../database/prisma.service';
+
+jest.mock('../database/prisma.service', () => ({ PrismaService: class {} }));
+
+describe('MeetingPersistenceService', () => {
+  const meetingStart = new Date('2024-01-01T10:00:00Z');
+  const at = (seconds: number) =>
+    new Date(meetingStart.getTime() + seconds * 1000);
+
+  let prisma: {
+    meeting: { findUnique: jest.Mock; findFirst: jest.Mock; create: jest.Mock };
+    meetingParticipant: { findFirst: jest.Mock };
+    meetingChatMessage: { create: jest.Mock };
+    meetingRecording: { create: jest.Mock };
+    transcript: { create: jest.Mock };
+    user: { findUnique: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let service: MeetingPersistenceService;
+
+  beforeEach(() => {
+    prisma = {
+      meeting: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'meeting-1',
+          scheduledTime: at(-300),
+          actualStartTime: meetingStart,
+        }),
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(async ({ data }) => ({ id: 'meeting-2', ...data })),
+      },
+      meetingParticipant: { findFirst: jest.fn().mockResolvedValue(null) },
+      meetingChatMessage: {
+        create: jest.fn(async ({ data }) => ({
+          id: 'chat-1',
+          participantId: null,
+          senderName: null,
+          ...data,
+        })),
+      },
+      meetingRecording: { create: jest.fn() },
+      transcript: {
+        create: jest.fn().mockResolvedValue({ id: 'transcript-1' }),
+      },
+      user: { findUnique: jest.fn().mockResolvedValue({ id: 'user-1' }) },
+      $transaction: jest.fn((work) => work(prisma)),
+    };
+    service = new MeetingPersistenceService(prisma as unknown as PrismaService);
+  });
+
+  describe('recordChatMessage', () => {
+    it('should time a message from the start of the meeting', async () => {
+      const message = await service.recordChatMessage(
+        'session-1',
+        { message: 'Hello', name: 'Alice', sentAt: at(90).toISOString() },
+        at(91),
+      );
+
+      expect(message).toEqual(
+        expect.objectContaining({
+          meetingId: 'meeting-1',
+          senderName: 'Alice',
+          sentAt: at(90),
+          offset: 90_000,
+        }),
+      );
+    });
+
+    it('should attribute a message to the participant who sent it', async () => {
+      prisma.meetingParticipant.findFirst.mockResolvedValue({
+        id: 'p-alice',
+        name: 'Alice Smith',
+      });
+
+      await service.recordChatMessage(
+        'session-1',
+        { participantId: 'zoom-alice', message: 'Hello' },
+        at(10),
+      );
+
+      expect(prisma.meetingParticipant.findFirst).toHaveBeenCalledWith({
+        where: { meetingId: 'meeting-1', platformParticipantId: 'zoom-alice' },
+      });
+      expect(prisma.meetingChatMessage.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          participantId: 'p-alice',
+          senderName: 'Alice Smith',
+        }),
+      });
+    });
+
+    it('should use the event time when the platform sends no valid time', async () => {
+      await service.recordChatMessage(
+        'session-1',
+        { message: 'Hello', sentAt: 'not a date' },
+        at(30),
+      );
+      await service.recordChatMessage(
+        'session-1',
+        { message: 'Again' },
+        at(40),
+      );
+
+      const [first, second] = prisma.meetingChatMessage.create.mock.calls.map(
+        ([{ data }]) => data,
+      );
+      expect(first).toEqual(
+        expect.objectContaining({ sentAt: at(30), offset: 30_000 }),
+      );
+      expect(second).toEqual(
+        expect.objectContaining({ sentAt: at(40), offset: 40_000 }),
+      );
+    });
+
+    it('should not time messages sent before the meeting started negatively', async () => {
+      await service.recordChatMessage(
+        'session-1',
+        { message: 'Early', sentAt: at(-60).toISOString() },
+        at(-60),
+      );
+
+      expect(prisma.meetingChatMessage.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ offset: 0 }),
+      });
+    });
+
+    it('should skip messages of sessions without a meeting', async () => {
+      prisma.meeting.findUnique.mockResolvedValue(null);
+
+      const message = await service.recordChatMessage(
+        'session-x',
+        { message: 'Hello' },
+        at(0),
+      );
+
+      expect(message).toBeNull();
+      expect(prisma.meetingChatMessage.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordWebhookRecording', () => {
+    const recording = {
+      id: 'rec-1',
+      platform: 'zoom' as never,
+      platformMeetingId: 'zoom-meeting-1',
+      startTime: meetingStart,
+      duration: 1800,
+      hostEmail: 'host@example.com',
+    };
+
+    it('should add a pending transcript to a meeting the bot joined', async () => {
+      const meeting = {
+        id: 'meeting-1',
+        sessionId: 'session-1',
+        actualStartTime: meetingStart,
+        actualEndTime: at(1800),
+        duration: 1800,
+      };
+      prisma.meeting.findFirst.mockResolvedValue(meeting);
+
+      await expect(service.recordWebhookRecording(recording)).resolves.toEqual({
+        meeting,
+        transcriptId: 'transcript-1',
+      });
+      expect(prisma.meetingRecording.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          meetingId: 'meeting-1',
+          platformRecordingId: 'rec-1',
+          sessionId: 'session-1',
+        }),
+      });
+      expect(prisma.transcript.create).toHaveBeenCalledWith({
+        data: { meetingId: 'meeting-1', duration: 1800 },
+      });
+      expect(prisma.meeting.create).not.toHaveBeenCalled();
+    });
+
+    it('should create a meeting the bot never joined for its host', async () => {
+      const stored = await service.recordWebhookRecording(recording);
+
+      expect(prisma.user.findUnique).toHaveBeenCalledWith({
+        where: { email: 'host@example.com' },
+        select: { id: true },
+      });
+      expect(prisma.meeting.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          organizerId: 'user-1',
+          platformMeetingId: 'zoom-meeting-1',
+        }),
+      });
+      expect(stored?.transcriptId).toBe('transcript-1');
+    });
+
+    it('should store nothing when no user hosts the meeting', async () => {
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.recordWebhookRecording(recording),
+      ).resolves.toBeNull();
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,1026 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../database/prisma.service';
+import {
+  Meeting,
+  MeetingChatMessage as MeetingChatMessageRecord,
+  MeetingRecording as MeetingRecordingRecord,
+  MeetingSource as MeetingSourceRecord,
+  MeetingStatus as MeetingStatusRecord,
+  ParticipantRole as ParticipantRoleRecord,
+  ProcessingStatus,
+  Prisma,
+  VisualSegment as VisualSegmentRecord,
+} from '../../generated/prisma';
+import {
+  ChatMessageEventData,
+  CloudRecording,
+  ConnectionGap,
+  MeetingChatMessage,
+  MeetingJoinInfo,
+  MeetingParticipant,
+  MeetingPlatform,
+  MeetingRecording,
+  MeetingSession,
+  MeetingStatus,
+  MeetingStatusChange,
+  MEETING_STATUS_TRANSITIONS,
+  ParticipantRole,
+  ScreenCapture,
+  VisualSegment,
+} from '../../interfaces/meeting-platform.interface';
+
+@Injectable()
+export class MeetingPersistenceService {
+  private readonly logger = new Logger(MeetingPersistenceService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Attach a joined session to its Meeting row, creating the row if needed
+   */
+  async recordSessionJoined(
+    joinInfo: MeetingJoinInfo,
+    session: MeetingSession,
+  ): Promise<Meeting | null> {
+    const startTime = session.startTime ?? new Date();
+
+    try {
+      const existing = joinInfo.scheduledMeetingId
+        ? await this.prismaService.meeting.findUnique({
+            where: { id: joinInfo.scheduledMeetingId },
+          })
+        : await this.prismaService.meeting.findFirst({
+            where: {
+              platform: joinInfo.platform,
+              platformMeetingId: joinInfo.meetingId,
+              status: {
+                in: [
+                  MeetingStatusRecord.scheduled,
+                  MeetingStatusRecord.joining,
+                  MeetingStatusRecord.in_progress,
+                ],
+              },
+            },
+            orderBy: { scheduledTime: 'desc' },
+          });
+
+      let meeting: Meeting;
+      if (existing) {
+        const metadata = (existing.metadata ?? {}) as Prisma.JsonObject;
+        meeting = await this.prismaService.meeting.update({
+          where: { id: existing.id },
+          data: {
+            actualStartTime: existing.actualStartTime ?? startTime,
+            sessionId: session.sessionId,
+            // Kept so the session can be resumed after a restart
+            metadata: joinInfo.meetingUrl
+              ? { ...metadata, meetingUrl: joinInfo.meetingUrl }
+              : metadata,
+          },
+        });
+      } else {
+        const organizerId = await this.resolveOrganizerId(joinInfo);
+        if (!organizerId) {
+          this.logger.warn(
+            `No organizer found for meeting ${joinInfo.meetingId}, session ${session.sessionId} will not be persisted`,
+          );
+          return null;
+        }
+
+        meeting = await this.prismaService.meeting.create({
+          data: {
+            title: joinInfo.title || `${joinInfo.platform} meeting ${joinInfo.meetingId}`,
+            scheduledTime: new Date(joinInfo.scheduledTime),
+            actualStartTime: startTime,
+            platform: joinInfo.platform,
+            platformMeetingId: joinInfo.meetingId,
+            organizerId,
+            status: MeetingStatusRecord.joining,
+            sessionId: session.sessionId,
+            metadata: joinInfo.meetingUrl
+              ? { meetingUrl: joinInfo.meetingUrl }
+              : {},
+            statusTransitions: {
+              create: {
+                toStatus: MeetingStatusRecord.joining,
+                reason: 'Joined a meeting that was not scheduled',
+              },
+            },
+          },
+        });
+      }
+
+      await this.recordParticipants(meeting.id, session.participants);
+
+      this.logger.log(
+        `Persisted session ${session.sessionId} for meeting ${meeting.id}`,
+      );
+      return meeting;
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist session ${session.sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Store when the meeting behind a session ended; its status is moved on
+   * separately by the meeting lifecycle
+   */
+  async recordSessionEnded(sessionId: string, endTime: Date): Promise<void> {
+    try {
+      const meeting = await this.prismaService.meeting.findUnique({
+        where: { sessionId },
+      });
+
+      if (
+        !meeting ||
+        meeting.actualEndTime ||
+        (meeting.status !== MeetingStatusRecord.in_progress &&
+          meeting.status !== MeetingStatusRecord.processing)
+      ) {
+        return;
+      }
+
+      const startTime = meeting.actualStartTime ?? meeting.scheduledTime;
+      await this.prismaService.meeting.update({
+        where: { id: meeting.id },
+        data: {
+          actualEndTime: endTime,
+          duration: Math.max(
+            0,
+            Math.round((endTime.getTime() - startTime.getTime()) / 1000),
+          ),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to persist end of session ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Append a closed connection gap to the meeting metadata and to the
+   * recording that was running across it
+   */
+  async recordConnectionGap(
+    sessionId: string,
+    gap: ConnectionGap,
+    recordingId?: string,
+  ): Promise<void> {
+    try {
+      if (recordingId) {
+        const recording = await this.prismaService.meetingRecording.findUnique({
+          where: { platformRecordingId: recordingId },
+        });
+        if (recording) {
+          const gaps = Array.isArray(recording.gaps) ? recording.gaps : [];
+          await this.prismaService.meetingRecording.update({
+            where: { id: recording.id },
+            data: { gaps: [...gaps, this.toGapRecord(gap)] },
+          });
+        }
+      }
+
+      const meeting = await this.prismaService.meeting.findUnique({
+        where: { sessionId },
+      });
+      if (!meeting) {
+        return;
+      }
+
+      const metadata = (meeting.metadata ?? {}) as Prisma.JsonObject;
+      const connectionGaps = Array.isArray(metadata['connectionGaps'])
+        ? metadata['connectionGaps']
+        : [];
+
+      await this.prismaService.meeting.update({
+        where: { id: meeting.id },
+        data: {
+          metadata: {
+            ...metadata,
+            connectionGaps: [...connectionGaps, this.toGapRecord(gap)],
+          },
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist connection gap for session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Store an in-meeting chat message, linked to its sender when known
+   */
+  async recordChatMessage(
+    sessionId: string,
+    chat: ChatMessageEventData,
+    timestamp: Date,
+  ): Promise<MeetingChatMessage | null> {
+    try {
+      const meeting = await this.prismaService.meeting.findUnique({
+        where: { sessionId },
+      });
+      if (!meeting) {
+        return null;
+      }
+
+      const participant = chat.participantId
+        ? await this.prismaService.meetingParticipant.findFirst({
+            where: {
+              meetingId: meeting.id,
+              platformParticipantId: chat.participantId,
+            },
+          })
+        : null;
+
+      // Platforms' send times are used when they parse, else the event's
+      const reported = chat.sentAt ? new Date(chat.sentAt) : null;
+      const sentAt =
+        reported && !isNaN(reported.getTime()) ? reported : timestamp;
+      const startTime = meeting.actualStartTime ?? meeting.scheduledTime;
+      const record = await this.prismaService.meetingChatMessage.create({
+        data: {
+          meetingId: meeting.id,
+          participantId: participant?.id,
+          platformParticipantId: chat.participantId,
+          senderName: chat.name ?? participant?.name,
+          message: chat.message,
+          sentAt,
+          offset: Math.max(0, sentAt.getTime() - startTime.getTime()),
+        },
+      });
+
+      return this.toChatMessage(record);
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist chat message in session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * A meeting's chat in the order it was sent
+   */
+  async getChatMessages(meetingId: string): Promise<MeetingChatMessage[]> {
+    const records = await this.prismaService.meetingChatMessage.findMany({
+      where: { meetingId },
+      orderBy: { sentAt: 'asc' },
+    });
+    return records.map((record) => this.toChatMessage(record));
+  }
+
+  /**
+   * Store an OCR'd screen-share scene; it ends the meeting's previous scene
+   */
+  async recordVisualSegment(
+    sessionId: string,
+    platformRecordingId: string,
+    capture: ScreenCapture,
+  ): Promise<VisualSegment | null> {
+    try {
+      const meeting = await this.prismaService.meeting.findUnique({
+        where: { sessionId },
+      });
+      if (!meeting) {
+        return null;
+      }
+
+      const recording = await this.prismaService.meetingRecording.findUnique({
+        where: { platformRecordingId },
+        select: { id: true },
+      });
+
+      const meetingStart = meeting.actualStartTime ?? meeting.scheduledTime;
+      const startTime = Math.max(
+        0,
+        capture.capturedAt.getTime() - meetingStart.getTime(),
+      );
+
+      const record = await this.prismaService.$transaction(async (tx) => {
+        await tx.visualSegment.updateMany({
+          where: { meetingId: meeting.id, endTime: null },
+          data: { endTime: startTime },
+        });
+
+        return tx.visualSegment.create({
+          data: {
+            meetingId: meeting.id,
+            recordingId: recording?.id,
+            startTime,
+            text: capture.text,
+            confidence:
+              Math.round(Math.max(0, Math.min(1, capture.confidence)) * 100) /
+              100,
+            thumbnail: capture.thumbnail,
+          },
+        });
+      });
+
+      return this.toVisualSegment(record);
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist visual segment in session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * A meeting's screen-share scenes in the order they were shown
+   */
+  async getVisualSegments(meetingId: string): Promise<VisualSegment[]> {
+    const records = await this.prismaService.visualSegment.findMany({
+      where: { meetingId },
+      orderBy: { startTime: 'asc' },
+    });
+    return records.map((record) => this.toVisualSegment(record));
+  }
+
+  /**
+   * The JPEG thumbnail of one screen-share scene
+   */
+  async getVisualSegmentThumbnail(
+    meetingId: string,
+    segmentId: string,
+  ): Promise<Buffer | null> {
+    const record = await this.prismaService.visualSegment.findFirst({
+      where: { id: segmentId, meetingId },
+      select: { thumbnail: true },
+    });
+    return record?.thumbnail ? Buffer.from(record.thumbnail) : null;
+  }
+
+  /**
+   * Store a newly started recording against the session's meeting
+   */
+  async recordRecordingStarted(recording: MeetingRecording): Promise<void> {
+    try {
+      const meeting = await this.prismaService.meeting.findUnique({
+        where: { sessionId: recording.sessionId },
+      });
+
+      if (!meeting) {
+        this.logger.warn(
+          `No persisted meeting for session ${recording.sessionId}, recording ${recording.id} will not be persisted`,
+        );
+        return;
+      }
+
+      await this.prismaService.meetingRecording.create({
+        data: {
+          meetingId: meeting.id,
+          platformRecordingId: recording.id,
+          sessionId: recording.sessionId,
+          platform: recording.platform,
+          status: recording.status,
+          startTime: recording.startTime,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist recording ${recording.id}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Update a persisted recording with its final state
+   */
+  async recordRecordingStopped(recording: MeetingRecording): Promise<void> {
+    try {
+      const existing = await this.prismaService.meetingRecording.findUnique({
+        where: { platformRecordingId: recording.id },
+      });
+
+      if (!existing) {
+        this.logger.warn(`No persisted recording found: ${recording.id}`);
+        return;
+      }
+
+      await this.prismaService.meetingRecording.update({
+        where: { id: existing.id },
+        data: {
+          status: recording.status,
+          endTime: recording.endTime ?? new Date(),
+          duration: recording.duration,
+          audioUrl: recording.audioUrl,
+          videoUrl: recording.videoUrl,
+          size: recording.size !== undefined ? BigInt(recording.size) : null,
+          ...(recording.gaps && {
+            gaps: recording.gaps.map((gap) => this.toGapRecord(gap)),
+          }),
+        },
+      });
+
+      const recordingUrl = recording.videoUrl || recording.audioUrl;
+      if (recordingUrl) {
+        await this.prismaService.meeting.update({
+          where: { id: existing.meetingId },
+          data: { recordingUrl },
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist stopped recording ${recording.id}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Look up a recording by the id the platform adapter assigned to it
+   */
+  async findRecording(recordingId: string): Promise<MeetingRecording | null> {
+    const record = await this.prismaService.meetingRecording.findUnique({
+      where: { platformRecordingId: recordingId },
+      include: { meeting: true },
+    });
+
+    return record ? this.toMeetingRecording(record, record.meeting) : null;
+  }
+
+  /**
+   * Whether anything was recorded for a meeting
+   */
+  async hasRecordings(meetingId: string): Promise<boolean> {
+    const count = await this.prismaService.meetingRecording.count({
+      where: { meetingId },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Whether any of a meeting's transcripts is still being produced
+   */
+  async hasPendingTranscripts(meetingId: string): Promise<boolean> {
+    const count = await this.prismaService.transcript.count({
+      where: {
+        meetingId,
+        processingStatus: {
+          in: [ProcessingStatus.pending, ProcessingStatus.processing],
+        },
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Latest persisted meeting for a platform meeting id
+   */
+  async findMeetingByPlatformId(
+    platform: MeetingPlatform,
+    platformMeetingId: string,
+  ): Promise<Meeting | null> {
+    return this.prismaService.meeting.findFirst({
+      where: {
+        platform,
+        platformMeetingId,
+      },
+      orderBy: { scheduledTime: 'desc' },
+    });
+  }
+
+  /**
+   * Create the Meeting, MeetingRecording and pending Transcript rows for a
+   * recording imported from the platform's cloud storage
+   */
+  async recordImportedRecording(
+    organizerId: string,
+    recording: CloudRecording,
+  ): Promise<{ meeting: Meeting; transcriptId: string }> {
+    try {
+      const endTime =
+        recording.endTime ??
+        (recording.duration !== undefined
+          ? new Date(recording.startTime.getTime() + recording.duration * 1000)
+          : undefined);
+
+      return await this.prismaService.$transaction(async (tx) => {
+        const meeting = await tx.meeting.create({
+          data: {
+            title: recording.title || `${recording.platform} recording`,
+            scheduledTime: recording.startTime,
+            actualStartTime: recording.startTime,
+            actualEndTime: endTime,
+            duration: recording.duration ?? 0,
+            platform: recording.platform,
+            platformMeetingId: recording.platformMeetingId,
+            organizerId,
+            status: MeetingStatusRecord.processing,
+            source: MeetingSourceRecord.cloud_import,
+            recordingUrl: recording.downloadUrl,
+            metadata: {
+              recordingId: recording.id,
+              fileType: recording.fileType ?? null,
+            },
+            statusTransitions: {
+              create: {
+                toStatus: MeetingStatusRecord.processing,
+                reason: `Imported from ${recording.platform} cloud recording ${recording.id}`,
+              },
+            },
+          },
+        });
+
+        await tx.meetingRecording.create({
+          data: {
+            meetingId: meeting.id,
+            platformRecordingId: recording.id,
+            sessionId: `import_${recording.platform}_${recording.id}`,
+            platform: recording.platform,
+            status: 'completed',
+            startTime: recording.startTime,
+            endTime,
+            duration: recording.duration,
+            audioUrl: recording.downloadUrl,
+            size: recording.size !== undefined ? BigInt(recording.size) : null,
+          },
+        });
+
+        const transcript = await tx.transcript.create({
+          data: {
+            meetingId: meeting.id,
+            duration: recording.duration ?? 0,
+          },
+        });
+
+        return { meeting, transcriptId: transcript.id };
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist imported recording ${recording.id}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Create the MeetingRecording and pending Transcript rows for a recording a
+   * platform reported by webhook. Meetings the bot never joined are created
+   * for the user hosting them; returns null when no user hosts the meeting.
+   */
+  async recordWebhookRecording(
+    recording: CloudRecording,
+  ): Promise<{ meeting: Meeting; transcriptId: string } | null> {
+    const meeting = await this.findMeetingByPlatformId(
+      recording.platform,
+      recording.platformMeetingId,
+    );
+
+    if (!meeting) {
+      const organizerId = await this.resolveOrganizerId({
+        hostEmail: recording.hostEmail,
+      });
+      return organizerId
+        ? this.recordImportedRecording(organizerId, recording)
+        : null;
+    }
+
+    try {
+      return await this.prismaService.$transaction(async (tx) => {
+        await tx.meetingRecording.create({
+          data: {
+            meetingId: meeting.id,
+            platformRecordingId: recording.id,
+            sessionId:
+              meeting.sessionId ??
+              `webhook_${recording.platform}_${recording.platformMeetingId}`,
+            platform: recording.platform,
+            status: 'completed',
+            startTime: meeting.actualStartTime ?? recording.startTime,
+            endTime: meeting.actualEndTime,
+            duration: recording.duration,
+            audioUrl: recording.downloadUrl,
+          },
+        });
+
+        const transcript = await tx.transcript.create({
+          data: {
+            meetingId: meeting.id,
+            duration: recording.duration ?? meeting.duration,
+          },
+        });
+
+        return { meeting, transcriptId: transcript.id };
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist recording ${recording.id} of meeting ${meeting.id}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Create the Meeting and pending Transcript rows for a file a user uploaded
+   */
+  async recordUploadedRecording(
+    organizerId: string,
+    upload: {
+      uploadId: string;
+      title: string;
+      fileName: string;
+      recordedAt: Date;
+      duration: number; // seconds
+    },
+  ): Promise<{ meeting: Meeting; transcriptId: string }> {
+    try {
+      return await this.prismaService.$transaction(async (tx) => {
+        const meeting = await tx.meeting.create({
+          data: {
+            title: upload.title,
+            scheduledTime: upload.recordedAt,
+            actualStartTime: upload.recordedAt,
+            actualEndTime: new Date(
+              upload.recordedAt.getTime() + upload.duration * 1000,
+            ),
+            duration: Math.round(upload.duration),
+            platform: MeetingPlatform.LOCAL,
+            platformMeetingId: upload.uploadId,
+            organizerId,
+            status: MeetingStatusRecord.processing,
+            source: MeetingSourceRecord.upload,
+            metadata: { fileName: upload.fileName },
+            statusTransitions: {
+              create: {
+                toStatus: MeetingStatusRecord.processing,
+                reason: `Uploaded as ${upload.fileName}`,
+              },
+            },
+          },
+        });
+
+        const transcript = await tx.transcript.create({
+          data: {
+            meetingId: meeting.id,
+            duration: Math.round(upload.duration),
+          },
+        });
+
+        return { meeting, transcriptId: transcript.id };
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist uploaded recording ${upload.uploadId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Meetings left in progress, e.g. by a previous process that crashed
+   */
+  async findInProgressMeetings(): Promise<Meeting[]> {
+    return this.prismaService.meeting.findMany({
+      where: {
+        status: {
+          in: [MeetingStatusRecord.joining, MeetingStatusRecord.in_progress],
+        },
+        sessionId: { not: null },
+      },
+    });
+  }
+
+  /**
+   * Scheduled meetings whose start time falls inside the auto-join window
+   */
+  async findMeetingsDueForAutoJoin(
+    from: Date,
+    until: Date,
+  ): Promise<Array<Meeting & { organizer: { email: string; preferences: Prisma.JsonValue } }>> {
+    return this.prismaService.meeting.findMany({
+      where: {
+        status: MeetingStatusRecord.scheduled,
+        sessionId: null,
+        scheduledTime: { gte: from, lte: until },
+      },
+      include: {
+        organizer: { select: { email: true, preferences: true } },
+      },
+      orderBy: { scheduledTime: 'asc' },
+    });
+  }
+
+  /**
+   * Move a meeting to another status, recording the transition; null when the
+   * meeting is gone or its current status does not allow the move
+   */
+  async transitionMeetingStatus(
+    meetingId: string,
+    to: MeetingStatus,
+    reason: string,
+  ): Promise<MeetingStatusChange | null> {
+    try {
+      return await this.prismaService.$transaction(async (tx) => {
+        const meeting = await tx.meeting.findUnique({
+          where: { id: meetingId },
+        });
+        if (!meeting) {
+          return null;
+        }
+
+        return this.applyTransition(tx, meeting, to, reason);
+      });
+    } catch (error) {
+      this.logger.error(`Failed to move meeting ${meetingId} to ${to}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fail a meeting that could not be joined or whose session can no longer be
+   * resumed, closing its open recordings; null as for transitionMeetingStatus
+   */
+  async markMeetingFailed(
+    meetingId: string,
+    reason: string,
+  ): Promise<MeetingStatusChange | null> {
+    try {
+      const change = await this.prismaService.$transaction(async (tx) => {
+        const meeting = await tx.meeting.findUnique({
+          where: { id: meetingId },
+        });
+        if (!meeting) {
+          return null;
+        }
+
+        const metadata = (meeting.metadata ?? {}) as Prisma.JsonObject;
+        const endTime = new Date();
+
+        const change = await this.applyTransition(
+          tx,
+          meeting,
+          MeetingStatus.FAILED,
+          reason,
+          {
+            actualEndTime:
+              meeting.actualStartTime && !meeting.actualEndTime
+                ? endTime
+                : undefined,
+            metadata: { ...metadata, failureReason: reason },
+          },
+        );
+        if (change) {
+          await tx.meetingRecording.updateMany({
+            where: { meetingId, status: 'recording' },
+            data: { status: 'failed', endTime },
+          });
+        }
+        return change;
+      });
+
+      if (change) {
+        this.logger.warn(`Marked meeting ${meetingId} as failed: ${reason}`);
+      }
+      return change;
+    } catch (error) {
+      this.logger.error(`Failed to mark meeting ${meetingId} as failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Status changes of a meeting, oldest first
+   */
+  async getMeetingStatusHistory(
+    meetingId: string,
+  ): Promise<MeetingStatusChange[]> {
+    const transitions =
+      await this.prismaService.meetingStatusTransition.findMany({
+        where: { meetingId },
+        orderBy: { createdAt: 'asc' },
+      });
+
+    return transitions.map((transition) => ({
+      meetingId,
+      from: (transition.fromStatus as MeetingStatus | null) ?? null,
+      to: transition.toStatus as MeetingStatus,
+      reason: transition.reason,
+      changedAt: transition.createdAt,
+    }));
+  }
+
+  /**
+   * The meeting a recorder session belongs to
+   */
+  async findMeetingBySessionId(sessionId: string): Promise<Meeting | null> {
+    return this.prismaService.meeting.findUnique({ where: { sessionId } });
+  }
+
+  /**
+   * A meeting by its own id
+   */
+  async findMeeting(meetingId: string): Promise<Meeting | null> {
+    return this.prismaService.meeting.findUnique({ where: { id: meetingId } });
+  }
+
+  /**
+   * Whether a user organized a meeting or took part in it
+   */
+  async isMeetingMember(meetingId: string, userId: string): Promise<boolean> {
+    const count = await this.prismaService.meeting.count({
+      where: {
+        id: meetingId,
+        OR: [{ organizerId: userId }, { participants: { some: { userId } } }],
+      },
+    });
+    return count > 0;
+  }
+
+  // The status check and update are one conditional write, so two concurrent
+  // transitions from the same status cannot both succeed; the loser gets null
+  private async applyTransition(
+    tx: Prisma.TransactionClient,
+    meeting: Meeting,
+    to: MeetingStatus,
+    reason: string,
+    changes: Prisma.MeetingUpdateManyMutationInput = {},
+  ): Promise<MeetingStatusChange | null> {
+    const from = meeting.status as MeetingStatus;
+    if (!MEETING_STATUS_TRANSITIONS[from].includes(to)) {
+      return null;
+    }
+
+    const updated = await tx.meeting.updateMany({
+      where: { id: meeting.id, status: meeting.status },
+      data: { ...changes, status: to },
+    });
+    if (updated.count === 0) {
+      return null;
+    }
+
+    const transition = await tx.meetingStatusTransition.create({
+      data: {
+        meetingId: meeting.id,
+        fromStatus: meeting.status,
+        toStatus: to,
+        reason,
+      },
+    });
+
+    return {
+      meetingId: meeting.id,
+      from,
+      to,
+      reason,
+      changedAt: transition.createdAt,
+    };
+  }
+
+  private async resolveOrganizerId(
+    joinInfo: Pick<MeetingJoinInfo, 'organizerId' | 'hostEmail'>,
+  ): Promise<string | null> {
+    if (joinInfo.organizerId) {
+      return joinInfo.organizerId;
+    }
+
+    if (!joinInfo.hostEmail) {
+      return null;
+    }
+
+    const user = await this.prismaService.user.findUnique({
+      where: { email: joinInfo.hostEmail },
+      select: { id: true },
+    });
+
+    return user?.id ?? null;
+  }
+
+  private async recordParticipants(
+    meetingId: string,
+    participants: MeetingParticipant[],
+  ): Promise<void> {
+    if (participants.length === 0) {
+      return;
+    }
+
+    const existing = await this.prismaService.meetingParticipant.findMany({
+      where: { meetingId },
+      select: { name: true, email: true },
+    });
+
+    const missing = participants.filter(
+      (participant) =>
+        !existing.some((record) =>
+          participant.email
+            ? record.email === participant.email
+            : record.name === participant.name,
+        ),
+    );
+
+    for (const participant of missing) {
+      const user = participant.email
+        ? await this.prismaService.user.findUnique({
+            where: { email: participant.email },
+            select: { id: true },
+          })
+        : null;
+
+      await this.prismaService.meetingParticipant.create({
+        data: {
+          meetingId,
+          userId: user?.id,
+          name: participant.name,
+          email: participant.email,
+          role: this.toParticipantRole(participant.role),
+          joinTime: participant.joinTime,
+          leaveTime: participant.leaveTime,
+          platformParticipantId: participant.id,
+          intervals: participant.joinTime
+            ? [
+                {
+                  joinTime: participant.joinTime.toISOString(),
+                  leaveTime: participant.leaveTime?.toISOString() ?? null,
+                },
+              ]
+            : [],
+        },
+      });
+    }
+  }
+
+  private toVisualSegment(record: VisualSegmentRecord): VisualSegment {
+    return {
+      id: record.id,
+      meetingId: record.meetingId,
+      transcriptId: record.transcriptId ?? undefined,
+      startTime: record.startTime,
+      endTime: record.endTime ?? undefined,
+      text: record.text,
+      confidence: Number(record.confidence),
+      hasThumbnail: !!record.thumbnail,
+    };
+  }
+
+  private toChatMessage(record: MeetingChatMessageRecord): MeetingChatMessage {
+    return {
+      id: record.id,
+      meetingId: record.meetingId,
+      participantId: record.participantId ?? undefined,
+      senderName: record.senderName ?? undefined,
+      message: record.message,
+      sentAt: record.sentAt,
+      offset: record.offset,
+    };
+  }
+
+  private toParticipantRole(role: ParticipantRole): ParticipantRoleRecord {
+    switch (role) {
+      case ParticipantRole.HOST:
+        return ParticipantRoleRecord.organizer;
+      case ParticipantRole.CO_HOST:
+        return ParticipantRoleRecord.presenter;
+      default:
+        return ParticipantRoleRecord.participant;
+    }
+  }
+
+  private toMeetingRecording(
+    record: MeetingRecordingRecord,
+    meeting: Meeting,
+  ): MeetingRecording {
+    return {
+      id: record.platformRecordingId,
+      meetingId: meeting.platformMeetingId,
+      sessionId: record.sessionId,
+      platform: record.platform as MeetingPlatform,
+      startTime: record.startTime,
+      endTime: record.endTime ?? undefined,
+      duration: record.duration ?? undefined,
+      audioUrl: record.audioUrl ?? undefined,
+      videoUrl: record.videoUrl ?? undefined,
+      size: record.size !== null ? Number(record.size) : undefined,
+      gaps: Array.isArray(record.gaps)
+        ? (record.gaps as Prisma.JsonObject[]).map((gap) => ({
+            start: new Date(gap['start'] as string),
+            end: gap['end'] ? new Date(gap['end'] as string) : undefined,
+            reason: (gap['reason'] as string | null) ?? undefined,
+          }))
+        : undefined,
+      status: record.status,
+    };
+  }
+
+  private toGapRecord(gap: ConnectionGap): Prisma.JsonObject {
+    return {
+      start: gap.start.toISOString(),
+      end: gap.end?.toISOString() ?? null,
+      reason: gap.reason ?? null,
+    };
+  }
+}
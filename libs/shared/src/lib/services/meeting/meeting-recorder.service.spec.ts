@@ -0,0 +1,271 @@
+import { Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { MeetingRecorderService } from './meeting-recorder.service';
+import { BasePlatformAdapter } from '../platform-adapters/base-platform.adapter';
+import type { MeetingPersistenceService } from './meeting-persistence.service';
+import type { PlatformConnectionService } from './platform-connection.service';
+import type { RecordingDisclosureService } from './recording-disclosure.service';
+import type { SessionCapacityService } from './session-capacity.service';
+import type { RedisService } from '../database/redis.service';
+import {
+  ConnectionGap,
+  MeetingEventType,
+  MeetingPlatform,
+  MeetingPlatformAdapter,
+  MeetingStatus,
+} from '../../interfaces/meeting-platform.interface';
+
+jest.mock('../database/redis.service', () => ({ RedisService: class {} }));
+jest.mock('./meeting-persistence.service', () => ({
+  MeetingPersistenceService: class {},
+}));
+jest.mock('./platform-connection.service', () => ({
+  PlatformConnectionService: class {},
+}));
+jest.mock('./recording-disclosure.service', () => ({
+  RecordingDisclosureService: class {},
+}));
+jest.mock('./session-capacity.service', () => ({
+  SessionCapacityService: class {},
+}));
+
+describe('MeetingRecorderService', () => {
+  const lostAt = new Date('2024-01-01T10:05:00Z');
+
+  let delays: number[];
+  let adapter: Record<
+    | 'onMeetingEvent'
+    | 'joinMeeting'
+    | 'leaveMeeting'
+    | 'rejoinMeeting'
+    | 'retryWithBackoff'
+    | 'supportsLiveAudio'
+    | 'supportsMultiTrackAudio'
+    | 'supportsScreenShareCapture'
+    | 'startRecording'
+    | 'stopRecording',
+    jest.Mock
+  > & { platform: MeetingPlatform };
+  let meetingPersistence: {
+    recordSessionJoined: jest.Mock;
+    recordRecordingStarted: jest.Mock;
+    recordRecordingStopped: jest.Mock;
+    recordConnectionGap: jest.Mock;
+  };
+  let sessionCapacity: { acquire: jest.Mock; release: jest.Mock };
+  let eventEmitter: EventEmitter2;
+  let service: MeetingRecorderService;
+
+  const flush = async () => {
+    for (let i = 0; i < 20; i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+
+  const loseConnection = () =>
+    service.handlePlatformEvent({
+      type: MeetingEventType.CONNECTION_LOST,
+      sessionId: 'session-1',
+      meetingId: 'zoom-123',
+      platform: MeetingPlatform.ZOOM,
+      timestamp: lostAt,
+      data: { reason: 'Socket closed' },
+    });
+
+  const joinAndRecord = async () => {
+    await service.joinMeeting({
+      meetingId: 'zoom-123',
+      meetingUrl: 'https://zoom.us/j/123',
+      platform: MeetingPlatform.ZOOM,
+      scheduledTime: new Date(),
+      organizerId: 'user-1',
+    });
+    await service.startRecording('session-1', {
+      audioOnly: true,
+      autoStart: true,
+      autoStop: true,
+      cloudStorage: false,
+      localStorage: true,
+    });
+  };
+
+  beforeEach(() => {
+    delays = [];
+    // The adapter's own backoff, without waiting out its delays
+    const backoff = {
+      logger: { warn: jest.fn() },
+      updateConnectionStatus: jest.fn(),
+      sleep: jest.fn(async (ms: number) => {
+        delays.push(ms);
+      }),
+    };
+    adapter = {
+      platform: MeetingPlatform.ZOOM,
+      onMeetingEvent: jest.fn(),
+      joinMeeting: jest.fn(async () => ({
+        sessionId: 'session-1',
+        meetingId: 'zoom-123',
+        platform: MeetingPlatform.ZOOM,
+        status: MeetingStatus.IN_PROGRESS,
+        participants: [],
+      })),
+      leaveMeeting: jest.fn(async () => undefined),
+      rejoinMeeting: jest.fn(async () => ({})),
+      retryWithBackoff: jest.fn(
+        (...args: [() => Promise<unknown>, number, number]) =>
+          BasePlatformAdapter.prototype.retryWithBackoff.apply(backoff, args),
+      ),
+      supportsLiveAudio: jest.fn(() => true),
+      supportsMultiTrackAudio: jest.fn(() => false),
+      supportsScreenShareCapture: jest.fn(() => false),
+      startRecording: jest.fn(async () => ({
+        id: 'rec-1',
+        meetingId: 'zoom-123',
+        sessionId: 'session-1',
+        platform: MeetingPlatform.ZOOM,
+        startTime: new Date(),
+        status: 'recording',
+      })),
+      stopRecording: jest.fn(async () => ({
+        id: 'rec-1',
+        meetingId: 'zoom-123',
+        sessionId: 'session-1',
+        platform: MeetingPlatform.ZOOM,
+        startTime: new Date(),
+        status: 'completed',
+      })),
+    };
+    meetingPersistence = {
+      recordSessionJoined: jest.fn(async () => undefined),
+      recordRecordingStarted: jest.fn(async () => undefined),
+      recordRecordingStopped: jest.fn(async () => undefined),
+      recordConnectionGap: jest.fn(async () => undefined),
+    };
+    sessionCapacity = {
+      acquire: jest.fn(async () => 'lease-1'),
+      release: jest.fn(async () => undefined),
+    };
+    eventEmitter = new EventEmitter2();
+
+    service = new MeetingRecorderService(
+      eventEmitter,
+      meetingPersistence as unknown as MeetingPersistenceService,
+      {
+        getCredentials: jest.fn(async () => null),
+      } as unknown as PlatformConnectionService,
+      {
+        resolveConfig: jest.fn(async () => null),
+        getBotName: jest.fn(() => 'MeetGenie Notetaker'),
+      } as unknown as RecordingDisclosureService,
+      sessionCapacity as unknown as SessionCapacityService,
+      {
+        acquireLock: jest.fn(async () => 'claim-1'),
+        releaseLock: jest.fn(async () => undefined),
+      } as unknown as RedisService,
+    );
+    service.registerPlatformAdapter(
+      adapter as unknown as MeetingPlatformAdapter,
+    );
+    service.configureReconnectPolicy({ maxRetries: 2, baseDelay: 100 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should rejoin with backoff and close the gap once reconnected', async () => {
+    const gaps: Array<{ gap: ConnectionGap; restored: boolean }> = [];
+    eventEmitter.on('meeting.connection_gap', (event) => gaps.push(event));
+    adapter.rejoinMeeting
+      .mockRejectedValueOnce(new Error('Meeting unreachable'))
+      .mockRejectedValueOnce(new Error('Meeting unreachable'));
+    await joinAndRecord();
+
+    await loseConnection();
+    await flush();
+
+    expect(adapter.rejoinMeeting).toHaveBeenCalledTimes(3);
+    expect(delays).toEqual([100, 200]);
+    expect(gaps).toEqual([
+      expect.objectContaining({
+        gap: expect.objectContaining({ start: lostAt, end: expect.any(Date) }),
+        restored: true,
+      }),
+    ]);
+    expect(meetingPersistence.recordConnectionGap).toHaveBeenCalledWith(
+      'session-1',
+      expect.objectContaining({ start: lostAt, reason: 'Socket closed' }),
+      'rec-1',
+    );
+    expect(adapter.leaveMeeting).not.toHaveBeenCalled();
+  });
+
+  it('should mark one gap on the session and its recording while disconnected', async () => {
+    service.configureReconnectPolicy({ enabled: false });
+    await joinAndRecord();
+
+    await loseConnection();
+    await loseConnection();
+    await service.stopRecording('rec-1');
+
+    expect(adapter.rejoinMeeting).not.toHaveBeenCalled();
+    const [stopped] = meetingPersistence.recordRecordingStopped.mock.calls[0];
+    expect(stopped.gaps).toEqual([{ start: lostAt, reason: 'Socket closed' }]);
+  });
+
+  it('should give up after the retry limit and fail the session', async () => {
+    const failures: Array<{ reason: string }> = [];
+    eventEmitter.on('meeting.connection_failed', (event) =>
+      failures.push(event),
+    );
+    adapter.rejoinMeeting.mockRejectedValue(new Error('Meeting unreachable'));
+    await joinAndRecord();
+
+    await loseConnection();
+    await flush();
+
+    expect(adapter.rejoinMeeting).toHaveBeenCalledTimes(3);
+    expect(delays).toEqual([100, 200]);
+    expect(adapter.stopRecording).toHaveBeenCalledWith('rec-1');
+    expect(adapter.leaveMeeting).toHaveBeenCalledWith('session-1');
+    expect(sessionCapacity.release).toHaveBeenCalledWith('lease-1');
+    expect(failures).toEqual([
+      expect.objectContaining({
+        meetingId: 'zoom-123',
+        reason: 'Connection lost and not restored: Meeting unreachable',
+      }),
+    ]);
+
+    expect(meetingPersistence.recordConnectionGap).toHaveBeenCalledTimes(1);
+
+    // The session is gone, so a late restore has no gap to close
+    await service.handlePlatformEvent({
+      type: MeetingEventType.CONNECTION_RESTORED,
+      sessionId: 'session-1',
+      meetingId: 'zoom-123',
+      platform: MeetingPlatform.ZOOM,
+      timestamp: new Date(),
+      data: {},
+    });
+    expect(meetingPersistence.recordConnectionGap).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log a recovery that fails instead of leaving it unhandled', async () => {
+    const logError = jest
+      .spyOn(Logger.prototype, 'error')
+      .mockImplementation(() => undefined);
+    eventEmitter.on('meeting.connection_failed', () => {
+      throw new Error('Listener failed');
+    });
+    adapter.rejoinMeeting.mockRejectedValue(new Error('Meeting unreachable'));
+    await joinAndRecord();
+
+    await loseConnection();
+    await flush();
+
+    expect(logError).toHaveBeenCalledWith(
+      'Failed to recover session session-1 after connection loss:',
+      expect.objectContaining({ message: 'Listener failed' }),
+    );
+  });
+});
@@ -1,5 +1,11 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Meeting } from '../../generated/prisma';
 import {
   MeetingPlatform,
   MeetingPlatformAdapter,
@@ -7,18 +13,67 @@ import {
   MeetingSession,
   MeetingRecording,
   RecordingConfig,
+  ParticipantAudioStream,
   MeetingPlatformEvent,
   ConnectionStatus,
+  ConnectionGap,
+  MeetingStatus,
+  ReconnectPolicy,
+  RecordingDisclosureConfig,
+  ChatMessageEventData,
+  DEFAULT_RECONNECT_POLICY,
 } from '../../interfaces/meeting-platform.interface';
+import { RedisService } from '../database/redis.service';
+import { MeetingPersistenceService } from './meeting-persistence.service';
+import { PlatformConnectionService } from './platform-connection.service';
+import { RecordingDisclosureService } from './recording-disclosure.service';
+import {
+  CapacityRequest,
+  SessionCapacityService,
+} from './session-capacity.service';
+
+// A replica refreshes the claims on the sessions it holds; a claim that lapses
+// means its replica stopped and the session can be resumed elsewhere
+const SESSION_CLAIM_TTL_SECONDS = 60;
+const SESSION_CLAIM_REFRESH_MS = 20000;
 
 @Injectable()
-export class MeetingRecorderService {
+export class MeetingRecorderService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(MeetingRecorderService.name);
   private platformAdapters = new Map<MeetingPlatform, MeetingPlatformAdapter>();
   private activeSessions = new Map<string, MeetingSession>();
   private activeRecordings = new Map<string, MeetingRecording>();
+  private reconnectingSessions = new Set<string>();
+  private sessionDisclosures = new Map<string, RecordingDisclosureConfig>();
+  // Capacity lease held by each session until it ends
+  private sessionLeases = new Map<string, string>();
+  // Redis lock token of each session this replica holds
+  private sessionClaims = new Map<string, string>();
+  private claimRefreshInterval: NodeJS.Timeout | null = null;
+  private reconnectPolicy: ReconnectPolicy = { ...DEFAULT_RECONNECT_POLICY };
+
+  constructor(
+    private eventEmitter: EventEmitter2,
+    private meetingPersistence: MeetingPersistenceService,
+    private platformConnections: PlatformConnectionService,
+    private recordingDisclosure: RecordingDisclosureService,
+    private sessionCapacity: SessionCapacityService,
+    private redisService: RedisService,
+  ) {}
+
+  onModuleInit() {
+    this.claimRefreshInterval = setInterval(
+      () => this.refreshSessionClaims(),
+      SESSION_CLAIM_REFRESH_MS,
+    );
+  }
 
-  constructor(private eventEmitter: EventEmitter2) {}
+  onModuleDestroy() {
+    if (this.claimRefreshInterval) {
+      clearInterval(this.claimRefreshInterval);
+      this.claimRefreshInterval = null;
+    }
+  }
 
   // Platform adapter management
   registerPlatformAdapter(adapter: MeetingPlatformAdapter): void {
@@ -26,7 +81,12 @@ export class MeetingRecorderService {
 
     // Set up event forwarding from platform adapter
     adapter.onMeetingEvent((event: MeetingPlatformEvent) => {
-      this.handlePlatformEvent(event);
+      this.handlePlatformEvent(event).catch((error) =>
+        this.logger.error(
+          `Failed to handle ${event.type} event for session ${event.sessionId}:`,
+          error,
+        ),
+      );
     });
 
     this.logger.log(`Registered platform adapter for ${adapter.platform}`);
@@ -42,8 +102,27 @@ export class MeetingRecorderService {
     return Array.from(this.platformAdapters.keys());
   }
 
+  findSessionByPlatformMeeting(
+    platform: MeetingPlatform,
+    platformMeetingId: string,
+  ): MeetingSession | undefined {
+    return Array.from(this.activeSessions.values()).find(
+      (session) =>
+        session.platform === platform && session.meetingId === platformMeetingId,
+    );
+  }
+
+  configureReconnectPolicy(policy: Partial<ReconnectPolicy>): void {
+    this.reconnectPolicy = { ...this.reconnectPolicy, ...policy };
+  }
+
   // Meeting session management
-  async joinMeeting(joinInfo: MeetingJoinInfo): Promise<MeetingSession> {
+  // Throws a SessionQueuedError when the join is over a session limit;
+  // retrying with its ticket keeps the join's place in line
+  async joinMeeting(
+    joinInfo: MeetingJoinInfo,
+    queueTicket?: string,
+  ): Promise<MeetingSession> {
     const adapter = this.getPlatformAdapter(joinInfo.platform);
     if (!adapter) {
       throw new Error(
@@ -56,8 +135,47 @@ export class MeetingRecorderService {
         `Joining meeting ${joinInfo.meetingId} on ${joinInfo.platform}`,
       );
 
-      const session = await adapter.joinMeeting(joinInfo);
+      // Join as the organizer's connected account when they have one
+      const credentials = joinInfo.organizerId
+        ? await this.platformConnections.getCredentials(
+            joinInfo.organizerId,
+            joinInfo.platform,
+          )
+        : null;
+
+      // The bot's display name is part of the recording disclosure
+      const disclosure = await this.recordingDisclosure.resolveConfig(joinInfo);
+
+      const leaseId = await this.sessionCapacity.acquire(
+        this.toCapacityRequest(
+          joinInfo.platform,
+          joinInfo.organizerId,
+          !!credentials,
+        ),
+        queueTicket,
+      );
+
+      let session: MeetingSession;
+      try {
+        session = await adapter.joinMeeting(
+          {
+            ...joinInfo,
+            botName: this.recordingDisclosure.getBotName(disclosure),
+          },
+          credentials ?? undefined,
+        );
+      } catch (error) {
+        await this.sessionCapacity.release(leaseId);
+        throw error;
+      }
       this.activeSessions.set(session.sessionId, session);
+      this.sessionDisclosures.set(session.sessionId, disclosure);
+      this.sessionLeases.set(session.sessionId, leaseId);
+      await this.claimSession(session.sessionId);
+
+      await this.persist(`join of session ${session.sessionId}`, () =>
+        this.meetingPersistence.recordSessionJoined(joinInfo, session),
+      );
 
       // Emit meeting joined event
       this.eventEmitter.emit('meeting.joined', {
@@ -93,6 +211,9 @@ export class MeetingRecorderService {
 
       await adapter.leaveMeeting(sessionId);
       this.activeSessions.delete(sessionId);
+      this.sessionDisclosures.delete(sessionId);
+      this.releaseCapacity(sessionId);
+      await this.releaseSessionClaim(sessionId);
 
       // Stop any active recordings for this session
       const recording = Array.from(this.activeRecordings.values()).find(
@@ -102,6 +223,10 @@ export class MeetingRecorderService {
         await this.stopRecording(recording.id);
       }
 
+      await this.persist(`end of session ${sessionId}`, () =>
+        this.meetingPersistence.recordSessionEnded(sessionId, new Date()),
+      );
+
       // Emit meeting left event
       this.eventEmitter.emit('meeting.left', {
         sessionId,
@@ -135,15 +260,60 @@ export class MeetingRecorderService {
     try {
       this.logger.log(`Starting recording for session ${sessionId}`);
 
-      const recording = await adapter.startRecording(sessionId, config);
+      // Without live audio the platform's cloud recording is transcribed once
+      // it is available
+      const liveAudio = adapter.supportsLiveAudio();
+      if (!liveAudio) {
+        this.logger.warn(
+          `${session.platform} cannot deliver live audio; session ${sessionId} is transcribed from its cloud recording`,
+        );
+      }
+
+      // Multi-track capture falls back to the mixed stream where unsupported
+      const multiTrack =
+        !!config.multiTrack && adapter.supportsMultiTrackAudio();
+      if (config.multiTrack && !multiTrack) {
+        this.logger.warn(
+          `${session.platform} cannot capture per-participant audio; recording session ${sessionId} mixed`,
+        );
+      }
+
+      const captureScreenShare =
+        !!config.captureScreenShare && adapter.supportsScreenShareCapture();
+      if (config.captureScreenShare && !captureScreenShare) {
+        this.logger.warn(
+          `${session.platform} cannot capture the shared screen; recording session ${sessionId} without it`,
+        );
+      }
+
+      const recording = await adapter.startRecording(sessionId, {
+        ...config,
+        multiTrack,
+        captureScreenShare,
+      });
+      recording.multiTrack = multiTrack;
+      recording.captureScreenShare = captureScreenShare;
+      recording.liveAudio = liveAudio;
       this.activeRecordings.set(recording.id, recording);
 
+      await this.persist(`recording ${recording.id}`, () =>
+        this.meetingPersistence.recordRecordingStarted(recording),
+      );
+
+      // Tell participants they are being recorded and how to object
+      const disclosure = this.sessionDisclosures.get(sessionId);
+      if (disclosure) {
+        await this.recordingDisclosure.announce(adapter, sessionId, disclosure);
+      }
+
       // Emit recording started event
       this.eventEmitter.emit('recording.started', {
         recordingId: recording.id,
         sessionId,
         meetingId: session.meetingId,
         platform: session.platform,
+        multiTrack,
+        liveAudio,
         timestamp: new Date(),
       });
 
@@ -175,8 +345,15 @@ export class MeetingRecorderService {
       this.logger.log(`Stopping recording ${recordingId}`);
 
       const finalRecording = await adapter.stopRecording(recordingId);
+      if (recording.gaps) {
+        finalRecording.gaps = recording.gaps;
+      }
       this.activeRecordings.delete(recordingId);
 
+      await this.persist(`stopped recording ${recordingId}`, () =>
+        this.meetingPersistence.recordRecordingStopped(finalRecording),
+      );
+
       // Emit recording stopped event
       this.eventEmitter.emit('recording.stopped', {
         recordingId,
@@ -210,6 +387,52 @@ export class MeetingRecorderService {
     return adapter.getAudioStream(sessionId);
   }
 
+  // One isolated audio stream per participant, for multi-track recordings
+  async getParticipantAudioStreams(
+    sessionId: string,
+  ): Promise<ParticipantAudioStream[]> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`No active session found: ${sessionId}`);
+    }
+
+    const adapter = this.getPlatformAdapter(session.platform);
+    if (!adapter) {
+      throw new Error(`No adapter found for platform: ${session.platform}`);
+    }
+
+    if (!adapter.supportsMultiTrackAudio()) {
+      throw new Error(
+        `Per-participant audio is not supported on ${session.platform}`,
+      );
+    }
+
+    return adapter.getParticipantAudioStreams(sessionId);
+  }
+
+  // Encoded video of the shared screen, for screen share capture
+  async getScreenShareStream(
+    sessionId: string,
+  ): Promise<NodeJS.ReadableStream> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`No active session found: ${sessionId}`);
+    }
+
+    const adapter = this.getPlatformAdapter(session.platform);
+    if (!adapter) {
+      throw new Error(`No adapter found for platform: ${session.platform}`);
+    }
+
+    if (!adapter.supportsScreenShareCapture()) {
+      throw new Error(
+        `Screen share capture is not supported on ${session.platform}`,
+      );
+    }
+
+    return adapter.getScreenShareStream(sessionId);
+  }
+
   // Session information
   getActiveSession(sessionId: string): MeetingSession | undefined {
     return this.activeSessions.get(sessionId);
@@ -227,6 +450,121 @@ export class MeetingRecorderService {
     return Array.from(this.activeRecordings.values());
   }
 
+  // Recordings that are no longer active are served from the database
+  async getRecording(recordingId: string): Promise<MeetingRecording | null> {
+    const recording = this.activeRecordings.get(recordingId);
+    if (recording) {
+      return recording;
+    }
+
+    return this.meetingPersistence.findRecording(recordingId);
+  }
+
+  // Restore or fail sessions that were in progress when the service last
+  // stopped. Sessions another replica still holds are left alone; the rest are
+  // resumed on the platform when the meeting is still running.
+  async reconcilePersistedSessions(): Promise<void> {
+    const meetings = await this.meetingPersistence.findInProgressMeetings();
+    let restored = 0;
+
+    for (const meeting of meetings) {
+      const sessionId = meeting.sessionId;
+      if (!sessionId || this.activeSessions.has(sessionId)) {
+        continue;
+      }
+
+      if (!(await this.claimSession(sessionId))) {
+        this.logger.debug(
+          `Session ${sessionId} is still held by another replica`,
+        );
+        continue;
+      }
+
+      try {
+        await this.restoreSession(sessionId, meeting);
+        restored++;
+        continue;
+      } catch (error) {
+        this.logger.warn(`Could not resume session ${sessionId}:`, error);
+        await this.releaseSessionClaim(sessionId);
+      }
+
+      // The meeting lifecycle fails the meeting
+      this.eventEmitter.emit('meeting.connection_failed', {
+        sessionId,
+        meetingId: meeting.platformMeetingId,
+        platform: meeting.platform,
+        reason: 'Session could not be resumed after service restart',
+        timestamp: new Date(),
+      });
+    }
+
+    this.logger.log(
+      `Reconciled ${meetings.length} in-progress meetings, restored ${restored}`,
+    );
+  }
+
+  private async restoreSession(
+    sessionId: string,
+    meeting: Meeting,
+  ): Promise<void> {
+    const platform = meeting.platform as MeetingPlatform;
+    const adapter = this.getPlatformAdapter(platform);
+    if (!adapter) {
+      throw new Error(`No adapter registered for platform: ${platform}`);
+    }
+
+    const metadata = (meeting.metadata ?? {}) as Record<string, unknown>;
+    const joinInfo: MeetingJoinInfo = {
+      meetingId: meeting.platformMeetingId,
+      meetingUrl:
+        typeof metadata['meetingUrl'] === 'string' ? metadata['meetingUrl'] : '',
+      password:
+        typeof metadata['password'] === 'string'
+          ? metadata['password']
+          : undefined,
+      platform,
+      scheduledTime: meeting.scheduledTime,
+      title: meeting.title,
+      organizerId: meeting.organizerId,
+      scheduledMeetingId: meeting.id,
+    };
+
+    const credentials = await this.platformConnections
+      .getCredentials(meeting.organizerId, platform)
+      .catch(() => null);
+
+    const session = adapter.hasActiveSession(sessionId)
+      ? undefined
+      : await adapter.resumeSession(
+          sessionId,
+          joinInfo,
+          credentials ?? undefined,
+        );
+
+    this.sessionLeases.set(
+      sessionId,
+      await this.sessionCapacity.reserve(
+        this.toCapacityRequest(platform, meeting.organizerId, !!credentials),
+      ),
+    );
+    this.sessionDisclosures.set(
+      sessionId,
+      await this.recordingDisclosure.resolveConfig(joinInfo),
+    );
+    this.activeSessions.set(sessionId, {
+      sessionId,
+      meetingId: meeting.platformMeetingId,
+      platform,
+      status: MeetingStatus.IN_PROGRESS,
+      startTime: meeting.actualStartTime ?? undefined,
+      participants: session?.participants ?? [],
+      audioStreamUrl: session?.audioStreamUrl,
+    });
+
+    this.logger.log(`Restored session ${sessionId} from database`);
+  }
+
   // Health monitoring
   async getConnectionStatus(
     platform: MeetingPlatform,
@@ -270,7 +608,8 @@ export class MeetingRecorderService {
   }
 
   // Event handling
-  private handlePlatformEvent(event: MeetingPlatformEvent): void {
+  // Entry point for both adapter callbacks and platform webhooks
+  async handlePlatformEvent(event: MeetingPlatformEvent): Promise<void> {
     this.logger.debug(
       `Received platform event: ${event.type} for session ${event.sessionId}`,
     );
@@ -279,8 +618,26 @@ export class MeetingRecorderService {
     switch (event.type) {
       case 'meeting_ended':
         this.activeSessions.delete(event.sessionId);
+        this.sessionDisclosures.delete(event.sessionId);
+        this.releaseCapacity(event.sessionId);
+        await this.releaseSessionClaim(event.sessionId);
+        await this.persist(`end of session ${event.sessionId}`, () =>
+          this.meetingPersistence.recordSessionEnded(
+            event.sessionId,
+            event.timestamp,
+          ),
+        );
+        break;
+      case 'connection_lost':
+        this.handleConnectionLost(event);
+        break;
+      case 'connection_restored':
+        await this.closeConnectionGap(event.sessionId, event.timestamp);
+        break;
+      case 'chat_message':
+        await this.handleChatMessage(event);
         break;
-      case 'recording_stopped':
+      case 'recording_stopped': {
         const recording = Array.from(this.activeRecordings.values()).find(
           (r) => r.sessionId === event.sessionId,
         );
@@ -288,12 +645,335 @@ export class MeetingRecorderService {
           this.activeRecordings.delete(recording.id);
         }
         break;
+      }
     }
 
     // Forward event to application event bus
     this.eventEmitter.emit(`platform.${event.type}`, event);
   }
 
+  // Chat is kept next to the transcript. A participant objecting in chat stops
+  // the recording; the bot stays in the meeting so it can acknowledge that.
+  private async handleChatMessage(event: MeetingPlatformEvent): Promise<void> {
+    const data = (event.data ?? {}) as ChatMessageEventData;
+    if (!data.message) {
+      return;
+    }
+
+    await this.persist(`chat message in session ${event.sessionId}`, () =>
+      this.meetingPersistence.recordChatMessage(
+        event.sessionId,
+        data,
+        event.timestamp,
+      ),
+    );
+
+    const disclosure = this.sessionDisclosures.get(event.sessionId);
+    if (
+      !disclosure ||
+      !this.recordingDisclosure.isObjection(data.message, disclosure)
+    ) {
+      return;
+    }
+
+    const recording = this.getSessionRecording(event.sessionId);
+    if (!recording) {
+      return;
+    }
+
+    this.logger.warn(
+      `${data.name || data.participantId || 'A participant'} objected to recording ${recording.id}, stopping it`,
+    );
+
+    try {
+      await this.stopRecording(recording.id);
+    } catch (error) {
+      this.logger.error(
+        `Failed to stop recording ${recording.id} after objection:`,
+        error,
+      );
+      return;
+    }
+
+    await this.persist(`objection to recording ${recording.id}`, () =>
+      this.recordingDisclosure.recordObjection({
+        sessionId: event.sessionId,
+        platform: event.platform,
+        recordingId: recording.id,
+        participantId: data.participantId,
+        participantName: data.name,
+        message: data.message,
+        timestamp: event.timestamp,
+      }),
+    );
+
+    await this.getPlatformAdapter(event.platform)
+      ?.sendChatMessage(
+        event.sessionId,
+        `Recording stopped at the request of ${data.name || 'a participant'}.`,
+      )
+      .catch((error) =>
+        this.logger.warn(
+          `Failed to acknowledge objection in session ${event.sessionId}:`,
+          error,
+        ),
+      );
+
+    this.eventEmitter.emit('recording.objected', {
+      recordingId: recording.id,
+      sessionId: event.sessionId,
+      meetingId: recording.meetingId,
+      platform: event.platform,
+      participantId: data.participantId,
+      participantName: data.name,
+      timestamp: event.timestamp,
+    });
+  }
+
+  // Connection recovery
+  private handleConnectionLost(event: MeetingPlatformEvent): void {
+    const session = this.activeSessions.get(event.sessionId);
+    if (!session) {
+      return;
+    }
+
+    if (!session.connectionGaps) {
+      session.connectionGaps = [];
+    }
+
+    if (!session.connectionGaps.some((gap) => !gap.end)) {
+      const data = (event.data ?? {}) as { reason?: string };
+      const gap: ConnectionGap = { start: event.timestamp, reason: data.reason };
+      session.connectionGaps.push(gap);
+
+      // The recording keeps running across the gap, so mark it there too
+      const recording = this.getSessionRecording(event.sessionId);
+      if (recording) {
+        recording.gaps = [...(recording.gaps || []), gap];
+      }
+    }
+
+    if (!this.reconnectPolicy.enabled) {
+      return;
+    }
+
+    if (!this.reconnectingSessions.has(event.sessionId)) {
+      this.reconnectSession(event.sessionId).catch((error) =>
+        this.logger.error(
+          `Failed to recover session ${event.sessionId} after connection loss:`,
+          error,
+        ),
+      );
+    }
+  }
+
+  private async reconnectSession(sessionId: string): Promise<void> {
+    const session = this.activeSessions.get(sessionId);
+    const adapter = session && this.getPlatformAdapter(session.platform);
+    if (!session || !adapter) {
+      return;
+    }
+
+    this.reconnectingSessions.add(sessionId);
+    this.logger.warn(`Connection lost for session ${sessionId}, reconnecting...`);
+
+    try {
+      await adapter.retryWithBackoff(
+        async () => {
+          // The session may have been left while we were waiting
+          if (this.activeSessions.has(sessionId)) {
+            await adapter.rejoinMeeting(sessionId);
+          }
+        },
+        this.reconnectPolicy.maxRetries,
+        this.reconnectPolicy.baseDelay,
+      );
+
+      await this.closeConnectionGap(sessionId, new Date());
+      this.logger.log(`Reconnected session ${sessionId}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to reconnect session ${sessionId}, giving up:`,
+        error,
+      );
+      await this.abandonSession(sessionId, error);
+    } finally {
+      this.reconnectingSessions.delete(sessionId);
+    }
+  }
+
+  private async closeConnectionGap(
+    sessionId: string,
+    end: Date,
+    restored = true,
+  ): Promise<void> {
+    const session = this.activeSessions.get(sessionId);
+    const gap = session?.connectionGaps?.find((g) => !g.end);
+    if (!session || !gap) {
+      return;
+    }
+
+    gap.end = end;
+    const recordingId = this.getSessionRecording(sessionId)?.id;
+
+    // Listeners move what consumes the session's audio onto its new stream
+    this.eventEmitter.emit('meeting.connection_gap', {
+      sessionId,
+      meetingId: session.meetingId,
+      platform: session.platform,
+      recordingId,
+      gap,
+      restored,
+      timestamp: new Date(),
+    });
+
+    await this.persist(`connection gap of session ${sessionId}`, () =>
+      this.meetingPersistence.recordConnectionGap(sessionId, gap, recordingId),
+    );
+  }
+
+  private async abandonSession(sessionId: string, error: unknown): Promise<void> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    await this.closeConnectionGap(sessionId, new Date(), false);
+
+    const recording = this.getSessionRecording(sessionId);
+    if (recording) {
+      await this.stopRecording(recording.id).catch((stopError) =>
+        this.logger.error(
+          `Failed to stop recording ${recording.id} after connection loss:`,
+          stopError,
+        ),
+      );
+    }
+
+    await this.getPlatformAdapter(session.platform)
+      ?.leaveMeeting(sessionId)
+      .catch(() => undefined);
+    this.activeSessions.delete(sessionId);
+    this.sessionDisclosures.delete(sessionId);
+    this.releaseCapacity(sessionId);
+    await this.releaseSessionClaim(sessionId);
+
+    const reason = `Connection lost and not restored: ${
+      error instanceof Error ? error.message : String(error)
+    }`;
+
+    // The meeting lifecycle fails the meeting
+    this.eventEmitter.emit('meeting.connection_failed', {
+      sessionId,
+      meetingId: session.meetingId,
+      platform: session.platform,
+      reason,
+      timestamp: new Date(),
+    });
+  }
+
+  private getSessionRecording(sessionId: string): MeetingRecording | undefined {
+    return Array.from(this.activeRecordings.values()).find(
+      (r) => r.sessionId === sessionId,
+    );
+  }
+
+  // Sessions joined as the organizer's connected account count against that
+  // account; the rest share the service's own bot account
+  private toCapacityRequest(
+    platform: MeetingPlatform,
+    organizerId: string | undefined,
+    usesConnectedAccount: boolean,
+  ): CapacityRequest {
+    return {
+      platform,
+      organizerId,
+      credentialKey: usesConnectedAccount
+        ? `${platform}:user:${organizerId}`
+        : `${platform}:service`,
+    };
+  }
+
+  private releaseCapacity(sessionId: string): void {
+    const leaseId = this.sessionLeases.get(sessionId);
+    if (leaseId) {
+      this.sessionLeases.delete(sessionId);
+      // A lease that cannot be released expires once it is no longer renewed
+      this.sessionCapacity
+        .release(leaseId)
+        .catch((error) =>
+          this.logger.error(
+            `Failed to release capacity of session ${sessionId}:`,
+            error,
+          ),
+        );
+    }
+  }
+
+  // Claims are best effort: a Redis outage must not fail a live meeting, it
+  // only means another replica may try to resume the session after a restart
+  private async claimSession(sessionId: string): Promise<boolean> {
+    try {
+      const token = await this.redisService.acquireLock(
+        this.sessionClaimKey(sessionId),
+        SESSION_CLAIM_TTL_SECONDS,
+      );
+      if (token) {
+        this.sessionClaims.set(sessionId, token);
+      }
+      return !!token;
+    } catch (error) {
+      this.logger.error(`Failed to claim session ${sessionId}:`, error);
+      return false;
+    }
+  }
+
+  private async releaseSessionClaim(sessionId: string): Promise<void> {
+    const token = this.sessionClaims.get(sessionId);
+    if (!token) {
+      return;
+    }
+
+    this.sessionClaims.delete(sessionId);
+    await this.redisService
+      .releaseLock(this.sessionClaimKey(sessionId), token)
+      .catch((error) =>
+        this.logger.error(
+          `Failed to release claim on session ${sessionId}:`,
+          error,
+        ),
+      );
+  }
+
+  private async refreshSessionClaims(): Promise<void> {
+    for (const sessionId of this.sessionClaims.keys()) {
+      await this.redisService
+        .expire(this.sessionClaimKey(sessionId), SESSION_CLAIM_TTL_SECONDS)
+        .catch((error) =>
+          this.logger.error(
+            `Failed to refresh claim on session ${sessionId}:`,
+            error,
+          ),
+        );
+    }
+  }
+
+  private sessionClaimKey(sessionId: string): string {
+    return `meeting:session:${sessionId}`;
+  }
+
+  // Persistence failures are logged but never fail the live meeting operation
+  private async persist(
+    description: string,
+    operation: () => Promise<unknown>,
+  ): Promise<void> {
+    try {
+      await operation();
+    } catch (error) {
+      this.logger.error(`Failed to persist ${description}:`, error);
+    }
+  }
+
   // Cleanup and shutdown
   async shutdown(): Promise<void> {
     this.logger.log('Shutting down meeting recorder service...');
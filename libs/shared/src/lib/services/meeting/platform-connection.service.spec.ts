@@ -0,0 +1,314 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { PlatformConnectionService } from './platform-connection.service';
+import type { PrismaService } from '../database/prisma.service';
+import type { RedisService } from '../database/redis.service';
+import { MeetingPlatform } from '../../interfaces/meeting-platform.interface';
+import { PlatformOAuthConfig } from '../../config/platform-oauth.config';
+
+jest.mock('../database/prisma.service', () => ({ PrismaService: class {} }));
+jest.mock('../database/redis.service', () => ({ RedisService: class {} }));
+
+type StoredConnection = {
+  id: string;
+  userId: string;
+  platform: string;
+  accountEmail: string | null;
+  encryptedCredentials: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastRefreshedAt: Date | null;
+  createdAt: Date;
+};
+
+describe('PlatformConnectionService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ path: string; body: URLSearchParams; auth?: string }>;
+  let tokenCounter: number;
+
+  let connections: Map<string, StoredConnection>;
+  let redisValues: Map<string, string>;
+  let service: PlatformConnectionService;
+
+  // Minimal OAuth provider standing in for the platform
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const body = new URLSearchParams(raw);
+        requests.push({
+          path: req.url || '',
+          body,
+          auth: req.headers.authorization,
+        });
+        res.setHeader('Content-Type', 'application/json');
+
+        if (req.url === '/token') {
+          tokenCounter++;
+          res.end(
+            JSON.stringify({
+              access_token: `access-${tokenCounter}`,
+              refresh_token:
+                body.get('grant_type') === 'authorization_code'
+                  ? 'refresh-1'
+                  : undefined,
+              expires_in: 3600,
+              scope: 'meeting:read user:read',
+            }),
+          );
+        } else if (req.url === '/me') {
+          res.end(JSON.stringify({ email: 'alice@example.com' }));
+        } else {
+          res.end('{}');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    tokenCounter = 0;
+    connections = new Map();
+    redisValues = new Map();
+
+    const findByKey = (where: {
+      id?: string;
+      userId_platform?: { userId: string; platform: string };
+    }) =>
+      Array.from(connections.values()).find((c) =>
+        where.id
+          ? c.id === where.id
+          : c.userId === where.userId_platform?.userId &&
+            c.platform === where.userId_platform?.platform,
+      ) || null;
+
+    const prisma = {
+      platformConnection: {
+        findUnique: jest.fn(async ({ where }) => findByKey(where)),
+        findUniqueOrThrow: jest.fn(async ({ where }) => findByKey(where)),
+        findMany: jest.fn(async () => Array.from(connections.values())),
+        upsert: jest.fn(async ({ where, create, update }) => {
+          const existing = findByKey(where);
+          const record = existing
+            ? { ...existing, ...update }
+            : {
+                id: `conn-${connections.size + 1}`,
+                createdAt: new Date(),
+                ...create,
+              };
+          connections.set(record.id, record);
+          return record;
+        }),
+        update: jest.fn(async ({ where, data }) => {
+          const record = { ...connections.get(where.id), ...data };
+          connections.set(where.id, record);
+          return record;
+        }),
+        delete: jest.fn(async ({ where }) => connections.delete(where.id)),
+      },
+    };
+
+    const redis = {
+      get: jest.fn(async (key: string) => redisValues.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        redisValues.set(key, value);
+      }),
+      del: jest.fn(async (key: string) => {
+        redisValues.delete(key);
+      }),
+      acquireLock: jest.fn(async () => 'token'),
+      releaseLock: jest.fn(async () => undefined),
+    };
+
+    const config: PlatformOAuthConfig = {
+      encryptionKey: 'test-secret',
+      refreshSkewSeconds: 300,
+      stateTtlSeconds: 600,
+      redirectUris: ['https://app.example.com/callback'],
+      providers: {
+        [MeetingPlatform.ZOOM]: {
+          clientId: 'client-id',
+          clientSecret: 'client-secret',
+          authorizeUrl: `${baseUrl}/authorize`,
+          tokenUrl: `${baseUrl}/token`,
+          revokeUrl: `${baseUrl}/revoke`,
+          userInfoUrl: `${baseUrl}/me`,
+          scopes: ['meeting:read'],
+          clientAuthentication: 'basic',
+        },
+      },
+    };
+
+    service = new PlatformConnectionService(
+      prisma as unknown as PrismaService,
+      redis as unknown as RedisService,
+      { get: () => config } as unknown as ConfigService,
+    );
+  });
+
+  const connect = async () => {
+    const authorization = await service.createAuthorization(
+      'user-1',
+      MeetingPlatform.ZOOM,
+      'https://app.example.com/callback',
+    );
+    return service.completeAuthorization(
+      'user-1',
+      MeetingPlatform.ZOOM,
+      authorization.state,
+      'auth-code',
+    );
+  };
+
+  it('should build an authorization URL with a single-use state', async () => {
+    const authorization = await service.createAuthorization(
+      'user-1',
+      MeetingPlatform.ZOOM,
+      'https://app.example.com/callback',
+    );
+
+    const url = new URL(authorization.authorizationUrl);
+    expect(url.origin + url.pathname).toBe(`${baseUrl}/authorize`);
+    expect(url.searchParams.get('client_id')).toBe('client-id');
+    expect(url.searchParams.get('state')).toBe(authorization.state);
+
+    const complete = () =>
+      service.completeAuthorization(
+        'user-1',
+        MeetingPlatform.ZOOM,
+        authorization.state,
+        'auth-code',
+      );
+    await complete();
+    expect(await complete()).toBeNull();
+  });
+
+  it('should only send users back to a configured redirect URI', async () => {
+    expect(service.resolveRedirectUri()).toBe(
+      'https://app.example.com/callback',
+    );
+    expect(service.resolveRedirectUri('https://evil.example.com/')).toBeNull();
+    await expect(
+      service.createAuthorization(
+        'user-1',
+        MeetingPlatform.ZOOM,
+        'https://evil.example.com/',
+      ),
+    ).rejects.toThrow('Redirect URI is not allowed');
+  });
+
+  it('should not complete an authorization started by another user', async () => {
+    const authorization = await service.createAuthorization(
+      'attacker',
+      MeetingPlatform.ZOOM,
+      'https://app.example.com/callback',
+    );
+
+    expect(
+      await service.completeAuthorization(
+        'user-1',
+        MeetingPlatform.ZOOM,
+        authorization.state,
+        'auth-code',
+      ),
+    ).toBeNull();
+    expect(requests).toEqual([]);
+    expect(connections.size).toBe(0);
+  });
+
+  it('should not complete an authorization for another platform', async () => {
+    const authorization = await service.createAuthorization(
+      'user-1',
+      MeetingPlatform.ZOOM,
+      'https://app.example.com/callback',
+    );
+
+    expect(
+      await service.completeAuthorization(
+        'user-1',
+        MeetingPlatform.TEAMS,
+        authorization.state,
+        'auth-code',
+      ),
+    ).toBeNull();
+    expect(requests).toEqual([]);
+  });
+
+  it('should exchange the code and store the tokens encrypted', async () => {
+    const connection = await connect();
+
+    expect(connection).toEqual(
+      expect.objectContaining({
+        userId: 'user-1',
+        platform: MeetingPlatform.ZOOM,
+        accountEmail: 'alice@example.com',
+        scopes: ['meeting:read', 'user:read'],
+      }),
+    );
+    expect(requests[0].body.get('code')).toBe('auth-code');
+    expect(requests[0].auth).toBe(
+      `Basic ${Buffer.from('client-id:client-secret').toString('base64')}`,
+    );
+
+    const stored = Array.from(connections.values())[0];
+    expect(stored.encryptedCredentials).not.toContain('access-1');
+
+    expect(
+      await service.getCredentials('user-1', MeetingPlatform.ZOOM),
+    ).toEqual(
+      expect.objectContaining({
+        accessToken: 'access-1',
+        refreshToken: 'refresh-1',
+      }),
+    );
+  });
+
+  it('should refresh tokens that are about to expire', async () => {
+    await connect();
+    const stored = Array.from(connections.values())[0];
+    connections.set(stored.id, {
+      ...stored,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+    });
+
+    const credentials = await service.getCredentials(
+      'user-1',
+      MeetingPlatform.ZOOM,
+    );
+
+    expect(credentials?.accessToken).toBe('access-2');
+    // The provider did not rotate the refresh token, so the old one is kept
+    expect(credentials?.refreshToken).toBe('refresh-1');
+    expect(requests.pop()?.body.get('grant_type')).toBe('refresh_token');
+  });
+
+  it('should return null for users without a connection', async () => {
+    expect(
+      await service.getCredentials('user-2', MeetingPlatform.ZOOM),
+    ).toBeNull();
+  });
+
+  it('should revoke the token with the platform and forget it', async () => {
+    await connect();
+
+    expect(await service.revokeConnection('user-1', MeetingPlatform.ZOOM)).toBe(
+      true,
+    );
+    expect(requests.pop()).toEqual(
+      expect.objectContaining({ path: '/revoke' }),
+    );
+    expect(connections.size).toBe(0);
+    expect(await service.revokeConnection('user-1', MeetingPlatform.ZOOM)).toBe(
+      false,
+    );
+  });
+});
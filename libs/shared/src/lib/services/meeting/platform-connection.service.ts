@@ -0,0 +1,488 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PrismaService } from '../database/prisma.service';
+import { RedisService } from '../database/redis.service';
+import { PlatformConnection as PlatformConnectionRecord } from '../../generated/prisma';
+import {
+  MeetingCredentials,
+  MeetingPlatform,
+  PlatformAuthorization,
+  PlatformConnection,
+} from '../../interfaces/meeting-platform.interface';
+import {
+  PlatformOAuthConfig,
+  PlatformOAuthProvider,
+} from '../../config/platform-oauth.config';
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+interface PendingAuthorization {
+  userId: string;
+  platform: MeetingPlatform;
+  redirectUri: string;
+}
+
+const ENCRYPTION_VERSION = 'v1';
+
+@Injectable()
+export class PlatformConnectionService {
+  private readonly logger = new Logger(PlatformConnectionService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * The configured redirect URI an authorization should use: the requested
+   * one, or the first configured. Null when the requested one is not allowed.
+   */
+  resolveRedirectUri(requested?: string): string | null {
+    const allowed = this.getConfig().redirectUris;
+    if (!requested) {
+      return allowed[0] ?? null;
+    }
+    return allowed.includes(requested) ? requested : null;
+  }
+
+  /**
+   * Start the OAuth flow for connecting a platform account
+   */
+  async createAuthorization(
+    userId: string,
+    platform: MeetingPlatform,
+    redirectUri: string,
+  ): Promise<PlatformAuthorization> {
+    const provider = this.getProvider(platform);
+    if (!this.getConfig().redirectUris.includes(redirectUri)) {
+      throw new Error(`Redirect URI is not allowed: ${redirectUri}`);
+    }
+    const state = crypto.randomBytes(24).toString('hex');
+
+    const pending: PendingAuthorization = { userId, platform, redirectUri };
+    await this.redisService.set(
+      this.stateKey(state),
+      JSON.stringify(pending),
+      this.getConfig().stateTtlSeconds,
+    );
+
+    const url = new URL(provider.authorizeUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('scope', provider.scopes.join(' '));
+    url.searchParams.set('state', state);
+    for (const [key, value] of Object.entries(provider.authorizeParams || {})) {
+      url.searchParams.set(key, value);
+    }
+
+    return { platform, authorizationUrl: url.toString(), state };
+  }
+
+  /**
+   * Exchange the authorization code and store the encrypted credentials.
+   * Returns null when the state is unknown, has expired, or was issued to
+   * another user or for another platform, so a code obtained by someone else
+   * cannot be linked to the caller's account.
+   */
+  async completeAuthorization(
+    userId: string,
+    platform: MeetingPlatform,
+    state: string,
+    code: string,
+  ): Promise<PlatformConnection | null> {
+    const stored = await this.redisService.get(this.stateKey(state));
+    if (!stored) {
+      return null;
+    }
+    // States are single use
+    await this.redisService.del(this.stateKey(state));
+
+    const pending = JSON.parse(stored) as PendingAuthorization;
+    if (pending.userId !== userId || pending.platform !== platform) {
+      this.logger.warn(
+        `Rejected ${platform} authorization for user ${userId}: state was issued to user ${pending.userId} for ${pending.platform}`,
+      );
+      return null;
+    }
+
+    const provider = this.getProvider(pending.platform);
+
+    try {
+      const tokens = await this.requestToken(provider, {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: pending.redirectUri,
+      });
+      const accountEmail = await this.fetchAccountEmail(
+        provider,
+        tokens.access_token,
+      );
+
+      const credentials: MeetingCredentials = {
+        platform: pending.platform,
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+        clientId: provider.clientId,
+      };
+      const data = {
+        accountEmail,
+        encryptedCredentials: this.encrypt(credentials),
+        scopes: tokens.scope ? tokens.scope.split(/[\s,]+/) : provider.scopes,
+        expiresAt: this.toExpiry(tokens.expires_in),
+        lastRefreshedAt: new Date(),
+      };
+
+      const record = await this.prismaService.platformConnection.upsert({
+        where: {
+          userId_platform: {
+            userId: pending.userId,
+            platform: pending.platform,
+          },
+        },
+        create: { userId: pending.userId, platform: pending.platform, ...data },
+        update: data,
+      });
+
+      this.logger.log(
+        `Connected ${pending.platform} account for user ${pending.userId}`,
+      );
+      return this.toPlatformConnection(record);
+    } catch (error) {
+      this.logger.error(
+        `Failed to connect ${pending.platform} account for user ${pending.userId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async listConnections(userId: string): Promise<PlatformConnection[]> {
+    const records = await this.prismaService.platformConnection.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return records.map((record) => this.toPlatformConnection(record));
+  }
+
+  /**
+   * Revoke the tokens with the platform and forget the connection.
+   * Returns false when the user has no connection for the platform.
+   */
+  async revokeConnection(
+    userId: string,
+    platform: MeetingPlatform,
+  ): Promise<boolean> {
+    const record = await this.prismaService.platformConnection.findUnique({
+      where: { userId_platform: { userId, platform } },
+    });
+    if (!record) {
+      return false;
+    }
+
+    const provider = this.getConfig().providers[platform];
+    if (provider?.revokeUrl) {
+      // Best effort: the local copy is removed even if the platform call fails
+      try {
+        const credentials = this.decrypt(record.encryptedCredentials);
+        await this.postForm(provider, provider.revokeUrl, {
+          token: credentials.refreshToken || credentials.accessToken || '',
+        });
+      } catch (error) {
+        this.logger.warn(
+          `Failed to revoke ${platform} token for user ${userId}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+
+    await this.prismaService.platformConnection.delete({
+      where: { id: record.id },
+    });
+    this.logger.log(`Revoked ${platform} connection for user ${userId}`);
+    return true;
+  }
+
+  /**
+   * Credentials of the user's connected account, refreshed if close to expiry.
+   * Returns null when the user has not connected the platform.
+   */
+  async getCredentials(
+    userId: string,
+    platform: MeetingPlatform,
+  ): Promise<MeetingCredentials | null> {
+    let record = await this.prismaService.platformConnection.findUnique({
+      where: { userId_platform: { userId, platform } },
+    });
+    if (!record) {
+      return null;
+    }
+
+    const skewSeconds = this.getConfig().refreshSkewSeconds;
+    if (this.isExpiring(record, skewSeconds)) {
+      record = await this.refreshConnection(record, skewSeconds);
+    }
+
+    return this.decrypt(record.encryptedCredentials);
+  }
+
+  /**
+   * Refresh every connection that expires within the given window
+   */
+  async refreshExpiringConnections(withinSeconds: number): Promise<number> {
+    const records = await this.prismaService.platformConnection.findMany({
+      where: {
+        expiresAt: { lte: new Date(Date.now() + withinSeconds * 1000) },
+      },
+    });
+
+    let refreshed = 0;
+    for (const record of records) {
+      try {
+        await this.refreshConnection(record, withinSeconds);
+        refreshed++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to refresh ${record.platform} connection ${record.id}:`,
+          error,
+        );
+      }
+    }
+    return refreshed;
+  }
+
+  private async refreshConnection(
+    record: PlatformConnectionRecord,
+    skewSeconds: number,
+  ): Promise<PlatformConnectionRecord> {
+    const platform = record.platform as MeetingPlatform;
+    const lockKey = `platform-connection:refresh:${record.id}`;
+    const lockToken = await this.redisService.acquireLock(lockKey, 30);
+
+    if (!lockToken) {
+      // Another replica is refreshing; use its result once it lands
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      return this.prismaService.platformConnection.findUniqueOrThrow({
+        where: { id: record.id },
+      });
+    }
+
+    try {
+      const current =
+        await this.prismaService.platformConnection.findUniqueOrThrow({
+          where: { id: record.id },
+        });
+      if (!this.isExpiring(current, skewSeconds)) {
+        return current;
+      }
+
+      const credentials = this.decrypt(current.encryptedCredentials);
+      if (!credentials.refreshToken) {
+        throw new Error(
+          `${platform} connection ${record.id} has expired and cannot be refreshed`,
+        );
+      }
+
+      const tokens = await this.requestToken(this.getProvider(platform), {
+        grant_type: 'refresh_token',
+        refresh_token: credentials.refreshToken,
+      });
+
+      const updated = await this.prismaService.platformConnection.update({
+        where: { id: record.id },
+        data: {
+          encryptedCredentials: this.encrypt({
+            ...credentials,
+            accessToken: tokens.access_token,
+            // Providers that do not rotate refresh tokens omit them
+            refreshToken: tokens.refresh_token || credentials.refreshToken,
+          }),
+          expiresAt: this.toExpiry(tokens.expires_in),
+          lastRefreshedAt: new Date(),
+        },
+      });
+
+      this.logger.log(`Refreshed ${platform} connection ${record.id}`);
+      return updated;
+    } finally {
+      await this.redisService.releaseLock(lockKey, lockToken);
+    }
+  }
+
+  private async requestToken(
+    provider: PlatformOAuthProvider,
+    params: Record<string, string>,
+  ): Promise<TokenResponse> {
+    const response = await this.postForm(provider, provider.tokenUrl, params);
+    const tokens = (await response.json()) as TokenResponse;
+
+    if (!tokens.access_token) {
+      throw new Error('Token response did not include an access token');
+    }
+    return tokens;
+  }
+
+  private async postForm(
+    provider: PlatformOAuthProvider,
+    url: string,
+    params: Record<string, string>,
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    const body = new URLSearchParams(params);
+
+    if (provider.clientAuthentication === 'basic') {
+      const basic = Buffer.from(
+        `${provider.clientId}:${provider.clientSecret}`,
+      ).toString('base64');
+      headers['Authorization'] = `Basic ${basic}`;
+    } else {
+      body.set('client_id', provider.clientId);
+      body.set('client_secret', provider.clientSecret);
+    }
+
+    const response = await fetch(url, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw new Error(
+        `OAuth request to ${url} failed: ${response.status} ${await response.text()}`,
+      );
+    }
+    return response;
+  }
+
+  private async fetchAccountEmail(
+    provider: PlatformOAuthProvider,
+    accessToken: string,
+  ): Promise<string | undefined> {
+    if (!provider.userInfoUrl) {
+      return undefined;
+    }
+
+    try {
+      const response = await fetch(provider.userInfoUrl, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!response.ok) {
+        return undefined;
+      }
+
+      const profile = (await response.json()) as {
+        email?: string;
+        mail?: string;
+        userPrincipalName?: string;
+        emails?: string[];
+      };
+      return (
+        profile.email ||
+        profile.mail ||
+        profile.userPrincipalName ||
+        profile.emails?.[0]
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to fetch account profile: ${error}`);
+      return undefined;
+    }
+  }
+
+  // AES-256-GCM; stored as version:iv:tag:ciphertext
+  private encrypt(credentials: MeetingCredentials): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getKey(), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(credentials), 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [
+      ENCRYPTION_VERSION,
+      iv.toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      ciphertext.toString('base64'),
+    ].join(':');
+  }
+
+  private decrypt(value: string): MeetingCredentials {
+    const [version, iv, tag, ciphertext] = value.split(':');
+    if (version !== ENCRYPTION_VERSION || !iv || !tag || !ciphertext) {
+      throw new Error('Unsupported credential encryption format');
+    }
+
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.getKey(),
+      Buffer.from(iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final(),
+    ]);
+
+    return JSON.parse(plaintext.toString('utf8')) as MeetingCredentials;
+  }
+
+  private getKey(): Buffer {
+    const secret = this.getConfig().encryptionKey;
+    if (!secret) {
+      throw new Error('PLATFORM_CREDENTIALS_ENCRYPTION_KEY is not configured');
+    }
+    return crypto.createHash('sha256').update(secret).digest();
+  }
+
+  private getProvider(platform: MeetingPlatform): PlatformOAuthProvider {
+    const provider = this.getConfig().providers[platform];
+    if (!provider) {
+      throw new Error(`OAuth is not configured for platform: ${platform}`);
+    }
+    return provider;
+  }
+
+  private getConfig(): PlatformOAuthConfig {
+    const config = this.configService.get<PlatformOAuthConfig>('platformOAuth');
+    if (!config) {
+      throw new Error('Platform OAuth configuration is not loaded');
+    }
+    return config;
+  }
+
+  private isExpiring(
+    record: PlatformConnectionRecord,
+    skewSeconds: number,
+  ): boolean {
+    return (
+      !!record.expiresAt &&
+      record.expiresAt.getTime() - skewSeconds * 1000 <= Date.now()
+    );
+  }
+
+  private toExpiry(expiresIn?: number): Date | null {
+    return expiresIn ? new Date(Date.now() + expiresIn * 1000) : null;
+  }
+
+  private stateKey(state: string): string {
+    return `platform-oauth:state:${state}`;
+  }
+
+  private toPlatformConnection(
+    record: PlatformConnectionRecord,
+  ): PlatformConnection {
+    return {
+      id: record.id,
+      userId: record.userId,
+      platform: record.platform as MeetingPlatform,
+      accountEmail: record.accountEmail ?? undefined,
+      scopes: record.scopes,
+      expiresAt: record.expiresAt ?? undefined,
+      lastRefreshedAt: record.lastRefreshedAt ?? undefined,
+      connectedAt: record.createdAt,
+    };
+  }
+}
@@ -0,0 +1,183 @@
+import { ConfigService } from '@nestjs/config';
+import { RecordingDisclosureService } from './recording-disclosure.service';
+import type { PrismaService } from '../database/prisma.service';
+import {
+  DEFAULT_RECORDING_DISCLOSURE,
+  MeetingJoinInfo,
+  MeetingPlatform,
+  MeetingPlatformAdapter,
+} from '../../interfaces/meeting-platform.interface';
+import { RecordingDisclosureSettings } from '../../config/recording-disclosure.config';
+
+jest.mock('../database/prisma.service', () => ({ PrismaService: class {} }));
+
+describe('RecordingDisclosureService', () => {
+  let preferences: Record<string, unknown> | null;
+  let organizationSettings: Record<string, unknown> | null;
+  let metadata: Record<string, unknown> | null;
+  let auditLogs: Array<Record<string, unknown>>;
+  let service: RecordingDisclosureService;
+
+  const joinInfo: MeetingJoinInfo = {
+    meetingId: 'zoom-123',
+    meetingUrl: 'https://zoom.us/j/123',
+    platform: MeetingPlatform.ZOOM,
+    scheduledTime: new Date(),
+    organizerId: 'user-1',
+    scheduledMeetingId: 'meeting-1',
+  };
+
+  beforeEach(() => {
+    preferences = null;
+    organizationSettings = null;
+    metadata = null;
+    auditLogs = [];
+
+    const prisma = {
+      user: {
+        findUnique: jest.fn(async () => ({
+          preferences,
+          organization: organizationSettings && {
+            settings: organizationSettings,
+          },
+        })),
+      },
+      meeting: {
+        findUnique: jest.fn(async () => ({ id: 'meeting-1', metadata })),
+      },
+      auditLog: {
+        create: jest.fn(async ({ data }) => auditLogs.push(data)),
+      },
+    };
+
+    const settings: RecordingDisclosureSettings = {
+      botName: 'MeetGenie Notetaker',
+      defaults: { ...DEFAULT_RECORDING_DISCLOSURE },
+    };
+
+    service = new RecordingDisclosureService(
+      prisma as unknown as PrismaService,
+      { get: () => settings } as unknown as ConfigService,
+    );
+  });
+
+  it('should let the organizer and then the meeting override the organization', async () => {
+    preferences = {
+      disclosure: { chatMessage: 'Organizer message', nameSuffix: '[rec]' },
+    };
+    metadata = { disclosure: { chatMessage: 'Meeting message' } };
+
+    const config = await service.resolveConfig({
+      ...joinInfo,
+      disclosure: { stopCommand: '/stop' },
+    });
+
+    expect(config).toEqual({
+      ...DEFAULT_RECORDING_DISCLOSURE,
+      chatMessage: 'Meeting message',
+      nameSuffix: '[rec]',
+      stopCommand: '/stop',
+    });
+    expect(service.getBotName(config)).toBe('MeetGenie Notetaker [rec]');
+  });
+
+  it("should start from the organizer's organization's disclosure", async () => {
+    organizationSettings = {
+      disclosure: {
+        chatMessage: 'Acme records this call',
+        nameSuffix: '[Acme]',
+      },
+    };
+
+    const config = await service.resolveConfig(joinInfo);
+
+    expect(config.chatMessage).toBe('Acme records this call');
+    expect(service.getBotName(config)).toBe('MeetGenie Notetaker [Acme]');
+  });
+
+  it("should not let the organizer or the meeting turn off the organization's disclosure", async () => {
+    preferences = { disclosure: { enabled: false, nameSuffix: '' } };
+    metadata = { disclosure: { chatMessage: '', stopCommand: '' } };
+
+    const config = await service.resolveConfig({
+      ...joinInfo,
+      disclosure: { enabled: false, audioAnnouncementFile: '/notice.wav' },
+    });
+
+    expect(config).toEqual({
+      ...DEFAULT_RECORDING_DISCLOSURE,
+      audioAnnouncementFile: '/notice.wav',
+    });
+  });
+
+  it('should let the organizer disclose where the organization does not', async () => {
+    organizationSettings = { disclosure: { enabled: false } };
+
+    const disabled = await service.resolveConfig(joinInfo);
+    expect(service.getBotName(disabled)).toBe('MeetGenie Notetaker');
+    expect(service.isObjection('/stop-recording', disabled)).toBe(false);
+
+    preferences = { disclosure: { enabled: true } };
+    const enabled = await service.resolveConfig(joinInfo);
+    expect(enabled.enabled).toBe(true);
+  });
+
+  it('should announce in chat and keep going when audio is unavailable', async () => {
+    const adapter = {
+      sendChatMessage: jest.fn(async () => undefined),
+      playAudio: jest.fn(async () => undefined),
+    };
+
+    await service.announce(
+      adapter as unknown as MeetingPlatformAdapter,
+      'session-1',
+      {
+        ...DEFAULT_RECORDING_DISCLOSURE,
+        audioAnnouncementFile: '/missing.wav',
+      },
+    );
+
+    expect(adapter.sendChatMessage).toHaveBeenCalledWith(
+      'session-1',
+      DEFAULT_RECORDING_DISCLOSURE.chatMessage,
+    );
+    expect(adapter.playAudio).not.toHaveBeenCalled();
+  });
+
+  it('should recognise the stop command and audit the objection', async () => {
+    expect(
+      service.isObjection(
+        '  /STOP-RECORDING please',
+        DEFAULT_RECORDING_DISCLOSURE,
+      ),
+    ).toBe(true);
+    expect(
+      service.isObjection(
+        'can we /stop-recording?',
+        DEFAULT_RECORDING_DISCLOSURE,
+      ),
+    ).toBe(false);
+
+    await service.recordObjection({
+      sessionId: 'session-1',
+      platform: MeetingPlatform.ZOOM,
+      recordingId: 'recording-1',
+      participantId: 'participant-2',
+      participantName: 'Bob',
+      message: '/stop-recording',
+      timestamp: new Date('2024-01-01T10:00:00Z'),
+    });
+
+    expect(auditLogs).toEqual([
+      expect.objectContaining({
+        action: 'recording.objection',
+        resourceType: 'meeting',
+        resourceId: 'meeting-1',
+        newValues: expect.objectContaining({
+          recordingId: 'recording-1',
+          participantName: 'Bob',
+        }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { PrismaService } from '../database/prisma.service';
+import {
+  MeetingJoinInfo,
+  MeetingPlatform,
+  MeetingPlatformAdapter,
+  RecordingDisclosureConfig,
+} from '../../interfaces/meeting-platform.interface';
+import { RecordingDisclosureSettings } from '../../config/recording-disclosure.config';
+
+// A participant asking for the recording to stop
+export interface RecordingObjection {
+  sessionId: string;
+  platform: MeetingPlatform;
+  recordingId: string;
+  participantId?: string;
+  participantName?: string;
+  message: string;
+  timestamp: Date;
+}
+
+@Injectable()
+export class RecordingDisclosureService {
+  private readonly logger = new Logger(RecordingDisclosureService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * The organizer's organization's disclosure, overridden by the organizer's
+   * preferences and then by the meeting's own settings. The organization's
+   * disclosure is a floor: overrides may add to it but not turn it off.
+   */
+  async resolveConfig(
+    joinInfo: MeetingJoinInfo,
+  ): Promise<RecordingDisclosureConfig> {
+    let floor = { ...this.getSettings().defaults };
+    let config = floor;
+
+    try {
+      if (joinInfo.organizerId) {
+        const organizer = await this.prismaService.user.findUnique({
+          where: { id: joinInfo.organizerId },
+          select: {
+            preferences: true,
+            organization: { select: { settings: true } },
+          },
+        });
+        floor = this.merge(
+          floor,
+          this.readDisclosure(organizer?.organization?.settings),
+        );
+        config = this.merge(floor, this.readDisclosure(organizer?.preferences));
+      }
+
+      if (joinInfo.scheduledMeetingId) {
+        const meeting = await this.prismaService.meeting.findUnique({
+          where: { id: joinInfo.scheduledMeetingId },
+          select: { metadata: true },
+        });
+        config = this.merge(config, this.readDisclosure(meeting?.metadata));
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to load disclosure settings for meeting ${joinInfo.meetingId}, using the settings loaded so far:`,
+        error,
+      );
+    }
+
+    return this.applyFloor(floor, this.merge(config, joinInfo.disclosure));
+  }
+
+  /**
+   * Display name the recorder joins under
+   */
+  getBotName(config: RecordingDisclosureConfig): string {
+    const { botName } = this.getSettings();
+    return config.enabled && config.nameSuffix
+      ? `${botName} ${config.nameSuffix}`
+      : botName;
+  }
+
+  /**
+   * Tell the meeting it is being recorded. Failures are logged so an
+   * unsupported chat or audio channel never blocks the recording.
+   */
+  async announce(
+    adapter: MeetingPlatformAdapter,
+    sessionId: string,
+    config: RecordingDisclosureConfig,
+  ): Promise<void> {
+    if (!config.enabled) {
+      return;
+    }
+
+    if (config.chatMessage) {
+      try {
+        await adapter.sendChatMessage(sessionId, config.chatMessage);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to post recording disclosure in session ${sessionId}:`,
+          error,
+        );
+      }
+    }
+
+    if (config.audioAnnouncementFile) {
+      try {
+        const audio = await fs.readFile(config.audioAnnouncementFile);
+        await adapter.playAudio(sessionId, audio);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to play recording announcement in session ${sessionId}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Whether a chat message is the stop command, e.g. "/stop-recording please"
+   */
+  isObjection(message: string, config: RecordingDisclosureConfig): boolean {
+    if (!config.enabled || !config.stopCommand) {
+      return false;
+    }
+
+    const command = message.trim().split(/\s+/)[0] ?? '';
+    return command.toLowerCase() === config.stopCommand.toLowerCase();
+  }
+
+  /**
+   * Keep an audit trail of every objection, against the meeting when known
+   */
+  async recordObjection(objection: RecordingObjection): Promise<void> {
+    try {
+      const meeting = await this.prismaService.meeting.findUnique({
+        where: { sessionId: objection.sessionId },
+        select: { id: true },
+      });
+
+      await this.prismaService.auditLog.create({
+        data: {
+          action: 'recording.objection',
+          resourceType: 'meeting',
+          resourceId: meeting?.id,
+          newValues: {
+            sessionId: objection.sessionId,
+            platform: objection.platform,
+            recordingId: objection.recordingId,
+            participantId: objection.participantId ?? null,
+            participantName: objection.participantName ?? null,
+            message: objection.message,
+            timestamp: objection.timestamp.toISOString(),
+          },
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to audit recording objection in session ${objection.sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  private readDisclosure(
+    source: unknown,
+  ): Partial<RecordingDisclosureConfig> | undefined {
+    if (!source || typeof source !== 'object') {
+      return undefined;
+    }
+
+    const disclosure = (source as { disclosure?: unknown }).disclosure;
+    return disclosure && typeof disclosure === 'object'
+      ? (disclosure as Partial<RecordingDisclosureConfig>)
+      : undefined;
+  }
+
+  // Only settings that are actually given override the ones below them
+  private merge(
+    base: RecordingDisclosureConfig,
+    override?: Partial<RecordingDisclosureConfig>,
+  ): RecordingDisclosureConfig {
+    if (!override) {
+      return base;
+    }
+
+    const defined = Object.fromEntries(
+      Object.entries(override).filter(([, value]) => value !== undefined),
+    ) as Partial<RecordingDisclosureConfig>;
+    return { ...base, ...defined };
+  }
+
+  // Parts of the disclosure the organization turned on stay on; unset or
+  // empty overrides fall back to the organization's value
+  private applyFloor(
+    floor: RecordingDisclosureConfig,
+    config: RecordingDisclosureConfig,
+  ): RecordingDisclosureConfig {
+    if (!floor.enabled) {
+      return config;
+    }
+
+    return {
+      enabled: true,
+      chatMessage: config.chatMessage || floor.chatMessage,
+      nameSuffix: config.nameSuffix || floor.nameSuffix,
+      audioAnnouncementFile:
+        config.audioAnnouncementFile || floor.audioAnnouncementFile,
+      stopCommand: config.stopCommand || floor.stopCommand,
+    };
+  }
+
+  private getSettings(): RecordingDisclosureSettings {
+    const settings = this.configService.get<RecordingDisclosureSettings>(
+      'recordingDisclosure',
+    );
+    if (!settings) {
+      throw new Error('Recording disclosure configuration is not loaded');
+    }
+    return settings;
+  }
+}
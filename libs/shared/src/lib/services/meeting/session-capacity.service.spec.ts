@@ -0,0 +1,201 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  SessionCapacityService,
+  SessionQueuedError,
+} from './session-capacity.service';
+import type { PrismaService } from '../database/prisma.service';
+import type { RedisService } from '../database/redis.service';
+import { MeetingPlatform } from '../../interfaces/meeting-platform.interface';
+import { SessionCapacityConfig } from '../../config/session-capacity.config';
+
+jest.mock('../database/prisma.service', () => ({ PrismaService: class {} }));
+jest.mock('../database/redis.service', () => ({ RedisService: class {} }));
+
+describe('SessionCapacityService', () => {
+  let tiers: Record<string, string>;
+  let hashes: Map<string, Map<string, string>>;
+  let now: number;
+  let replicas: SessionCapacityService[];
+
+  const join = (userId: string, credentialKey = `zoom:user:${userId}`) => ({
+    platform: MeetingPlatform.ZOOM,
+    organizerId: userId,
+    credentialKey,
+  });
+
+  const config: SessionCapacityConfig = {
+    tierLimits: { free: 1, pro: 3, enterprise: 10 },
+    credentialLimit: 2,
+    leaseTtlSeconds: 90,
+    queueTicketTtlSeconds: 120,
+    queueRetryAfterSeconds: 15,
+  };
+
+  // Every replica shares one in-memory Redis
+  const createReplica = () => {
+    const hash = (key: string) => {
+      if (!hashes.has(key)) {
+        hashes.set(key, new Map());
+      }
+      return hashes.get(key) as Map<string, string>;
+    };
+    const redis = {
+      hgetall: jest.fn(async (key: string) =>
+        Object.fromEntries(hash(key).entries()),
+      ),
+      hset: jest.fn(async (key: string, field: string, value: string) => {
+        hash(key).set(field, value);
+      }),
+      hdel: jest.fn(async (key: string, field: string) => {
+        hash(key).delete(field);
+      }),
+      expire: jest.fn(async () => undefined),
+      acquireLock: jest.fn(async () => 'token'),
+      releaseLock: jest.fn(async () => undefined),
+    };
+    const prisma = {
+      user: {
+        findUnique: jest.fn(async ({ where }) => ({
+          subscriptionTier: tiers[where.id] ?? null,
+        })),
+      },
+    };
+
+    const replica = new SessionCapacityService(
+      prisma as unknown as PrismaService,
+      redis as unknown as RedisService,
+      { get: () => config } as unknown as ConfigService,
+    );
+    replicas.push(replica);
+    return replica;
+  };
+
+  const queued = (promise: Promise<unknown>) =>
+    promise.then(
+      () => {
+        throw new Error('Expected the join to be queued');
+      },
+      (error) => {
+        expect(error).toBeInstanceOf(SessionQueuedError);
+        return error as SessionQueuedError;
+      },
+    );
+
+  beforeEach(() => {
+    tiers = { 'user-free': 'free', 'user-pro': 'pro' };
+    hashes = new Map();
+    now = Date.now();
+    replicas = [];
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    replicas.forEach((replica) => replica.onModuleDestroy());
+    jest.restoreAllMocks();
+  });
+
+  it('should queue a join over the tier limit instead of waiting', async () => {
+    const service = createReplica();
+    const first = await service.acquire(join('user-free'));
+
+    const error = await queued(service.acquire(join('user-free')));
+
+    expect(error).toMatchObject({ position: 1, retryAfterSeconds: 15 });
+    expect(await service.getUtilization()).toMatchObject({
+      activeSessions: 1,
+      queuedJoins: 1,
+      tiers: { free: { activeSessions: 1, usersAtLimit: 1 } },
+    });
+
+    await service.release(first);
+    await expect(
+      service.acquire(join('user-free'), error.ticket),
+    ).resolves.toEqual(expect.any(String));
+    expect((await service.getUtilization()).queuedJoins).toBe(0);
+  });
+
+  it('should keep the place in line of a join retrying with its ticket', async () => {
+    const service = createReplica();
+    const lease = await service.acquire(join('user-free'));
+    const waiting = await queued(service.acquire(join('user-free')));
+
+    await service.release(lease);
+
+    // A join without a ticket does not overtake the one already in line
+    const later = await queued(service.acquire(join('user-free')));
+    expect(later.position).toBe(2);
+    await expect(
+      service.acquire(join('user-free'), waiting.ticket),
+    ).resolves.toEqual(expect.any(String));
+  });
+
+  it('should give up the place of a ticket that was not retried in time', async () => {
+    const service = createReplica();
+    const lease = await service.acquire(join('user-free'));
+    const abandoned = await queued(service.acquire(join('user-free')));
+
+    await service.release(lease);
+    now += (config.queueTicketTtlSeconds + 1) * 1000;
+
+    await expect(service.acquire(join('user-free'))).resolves.toEqual(
+      expect.any(String),
+    );
+    await expect(
+      queued(service.acquire(join('user-free'), abandoned.ticket)),
+    ).resolves.toMatchObject({ position: 1 });
+  });
+
+  it('should cap sessions per credential across replicas', async () => {
+    await createReplica().acquire(join('user-pro', 'zoom:service'));
+    await createReplica().acquire(join('user-pro', 'zoom:service'));
+
+    await queued(createReplica().acquire(join('user-pro', 'zoom:service')));
+    expect(
+      (await replicas[0].getUtilization()).platforms[MeetingPlatform.ZOOM],
+    ).toEqual({
+      activeSessions: 2,
+      queuedJoins: 1,
+      credentialsInUse: 1,
+      credentialsAtLimit: 1,
+    });
+  });
+
+  it('should free the slots of a replica that stopped renewing its leases', async () => {
+    const crashed = createReplica();
+    const running = createReplica();
+    await crashed.acquire(join('user-free'));
+    const waiting = await queued(running.acquire(join('user-free')));
+
+    now += (config.leaseTtlSeconds + 1) * 1000;
+
+    await expect(
+      running.acquire(join('user-free'), waiting.ticket),
+    ).resolves.toEqual(expect.any(String));
+  });
+
+  it('should keep the slots of sessions whose leases are renewed', async () => {
+    jest.useFakeTimers({ doNotFake: ['Date', 'setImmediate', 'nextTick'] });
+    try {
+      const service = createReplica();
+      service.onModuleInit();
+      await service.acquire(join('user-free'));
+
+      now += (config.leaseTtlSeconds - 10) * 1000;
+      jest.advanceTimersByTime((config.leaseTtlSeconds * 1000) / 3);
+      await new Promise((resolve) => setImmediate(resolve));
+      now += 20 * 1000;
+
+      await queued(service.acquire(join('user-free')));
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should count restored sessions without queueing them', async () => {
+    const service = createReplica();
+    await service.acquire(join('user-free'));
+    await service.reserve(join('user-free'));
+
+    expect((await service.getUtilization()).tiers.free.activeSessions).toBe(2);
+  });
+});
@@ -0,0 +1,404 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PrismaService } from '../database/prisma.service';
+import { RedisService } from '../database/redis.service';
+import { SubscriptionTier } from '../../generated/prisma';
+import { MeetingPlatform } from '../../interfaces/meeting-platform.interface';
+import { SessionCapacityConfig } from '../../config/session-capacity.config';
+
+export interface CapacityRequest {
+  platform: MeetingPlatform;
+  organizerId?: string; // joins without an organizer only count against the credential
+  credentialKey: string; // identifies the platform account the bot joins as
+}
+
+export interface PoolUtilization {
+  activeSessions: number;
+  queuedJoins: number;
+  credentialLimit: number;
+  tiers: Record<
+    SubscriptionTier,
+    { limit: number; activeSessions: number; usersAtLimit: number }
+  >;
+  platforms: Partial<
+    Record<
+      MeetingPlatform,
+      {
+        activeSessions: number;
+        queuedJoins: number;
+        credentialsInUse: number;
+        credentialsAtLimit: number;
+      }
+    >
+  >;
+}
+
+interface Lease {
+  id: string;
+  platform: MeetingPlatform;
+  credentialKey: string;
+  userId?: string;
+  tier: SubscriptionTier;
+  expiresAt: number;
+}
+
+interface QueuedJoin {
+  ticket: string;
+  lease: Lease;
+  enqueuedAt: number;
+  expiresAt: number;
+}
+
+// Leases and queued joins are shared by every replica through Redis; each
+// entry carries its own expiry since hash fields cannot expire on their own
+const LEASES_KEY = 'session-capacity:leases';
+const QUEUE_KEY = 'session-capacity:queue';
+const LOCK_KEY = 'session-capacity:lock';
+const LOCK_TTL_SECONDS = 10;
+const LOCK_ATTEMPTS = 50;
+const LOCK_RETRY_MS = 100;
+
+/**
+ * Thrown when a join is over a limit. Retrying the join with the ticket keeps
+ * its place in line until the ticket expires.
+ */
+export class SessionQueuedError extends Error {
+  constructor(
+    message: string,
+    readonly ticket: string,
+    readonly position: number,
+    readonly retryAfterSeconds: number,
+  ) {
+    super(message);
+    this.name = 'SessionQueuedError';
+  }
+}
+
+@Injectable()
+export class SessionCapacityService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SessionCapacityService.name);
+  // Leases of the sessions this replica holds, renewed until released
+  private ownLeases = new Map<string, Lease>();
+  private renewInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const { leaseTtlSeconds } = this.getConfig();
+    this.renewInterval = setInterval(
+      () => this.renewLeases(),
+      (leaseTtlSeconds * 1000) / 3,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.renewInterval) {
+      clearInterval(this.renewInterval);
+      this.renewInterval = null;
+    }
+  }
+
+  /**
+   * Take a session slot and resolve with a lease id to release later. While
+   * the user's tier or the credential is at its limit this throws a
+   * SessionQueuedError instead of waiting.
+   */
+  async acquire(request: CapacityRequest, ticket?: string): Promise<string> {
+    const lease = await this.createLease(request);
+    const { queueTicketTtlSeconds, queueRetryAfterSeconds } = this.getConfig();
+
+    const outcome = await this.withLock<
+      { leaseId: string } | { ticket: string; position: number }
+    >(async () => {
+      const now = Date.now();
+      const leases = await this.readEntries<Lease>(LEASES_KEY, now, true);
+      const queue = (
+        await this.readEntries<QueuedJoin>(QUEUE_KEY, now, true)
+      ).sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+
+      // A ticket only holds a place for the join it was issued to
+      const queued = queue.find(
+        (entry) =>
+          entry.ticket === ticket &&
+          entry.lease.credentialKey === lease.credentialKey &&
+          entry.lease.userId === lease.userId,
+      );
+
+      // Joins are served in order, so a join never overtakes an earlier one
+      const ahead = (
+        queued ? queue.slice(0, queue.indexOf(queued)) : queue
+      ).filter((entry) => this.sharesPool(entry.lease, lease));
+      if (!ahead.length && this.hasCapacity(lease, leases)) {
+        if (queued) {
+          await this.redisService.hdel(QUEUE_KEY, queued.ticket);
+        }
+        await this.writeLease(lease);
+        return { leaseId: lease.id };
+      }
+
+      const entry: QueuedJoin = queued ?? {
+        ticket: crypto.randomUUID(),
+        lease,
+        // Strictly after the last join in line, so the order has no ties
+        enqueuedAt: Math.max(
+          now,
+          (queue[queue.length - 1]?.enqueuedAt ?? 0) + 1,
+        ),
+        expiresAt: 0,
+      };
+      entry.expiresAt = now + queueTicketTtlSeconds * 1000;
+      await this.redisService.hset(
+        QUEUE_KEY,
+        entry.ticket,
+        JSON.stringify(entry),
+      );
+      await this.redisService.expire(QUEUE_KEY, queueTicketTtlSeconds);
+      return { ticket: entry.ticket, position: ahead.length + 1 };
+    });
+
+    if ('leaseId' in outcome) {
+      return outcome.leaseId;
+    }
+
+    this.logger.log(
+      `Session limit reached for ${this.describe(lease)}, queued at position ${outcome.position}`,
+    );
+    throw new SessionQueuedError(
+      `Session limit reached for ${this.describe(lease)}; position ${outcome.position} in line`,
+      outcome.ticket,
+      outcome.position,
+      queueRetryAfterSeconds,
+    );
+  }
+
+  /**
+   * Count a session that already exists, e.g. one restored after a restart,
+   * even if that puts its pool over the limit
+   */
+  async reserve(request: CapacityRequest): Promise<string> {
+    const lease = await this.createLease(request);
+    await this.writeLease(lease);
+    return lease.id;
+  }
+
+  /**
+   * Free a slot; the next join in line takes it when it retries
+   */
+  async release(leaseId: string): Promise<void> {
+    if (this.ownLeases.delete(leaseId)) {
+      await this.redisService.hdel(LEASES_KEY, leaseId);
+    }
+  }
+
+  async getUtilization(): Promise<PoolUtilization> {
+    const { tierLimits, credentialLimit } = this.getConfig();
+    const now = Date.now();
+    const leases = await this.readEntries<Lease>(LEASES_KEY, now, false);
+    const queue = await this.readEntries<QueuedJoin>(QUEUE_KEY, now, false);
+
+    const tiers = {} as PoolUtilization['tiers'];
+    for (const tier of Object.values(SubscriptionTier)) {
+      const tierLeases = leases.filter(
+        (lease) => lease.userId && lease.tier === tier,
+      );
+      const users = this.countBy(tierLeases, (lease) => lease.userId ?? '');
+      tiers[tier] = {
+        limit: tierLimits[tier],
+        activeSessions: tierLeases.length,
+        usersAtLimit: Array.from(users.values()).filter(
+          (count) => count >= tierLimits[tier],
+        ).length,
+      };
+    }
+
+    const platforms: PoolUtilization['platforms'] = {};
+    for (const platform of new Set([
+      ...leases.map((lease) => lease.platform),
+      ...queue.map((queued) => queued.lease.platform),
+    ])) {
+      const platformLeases = leases.filter(
+        (lease) => lease.platform === platform,
+      );
+      const credentials = this.countBy(
+        platformLeases,
+        (lease) => lease.credentialKey,
+      );
+      platforms[platform] = {
+        activeSessions: platformLeases.length,
+        queuedJoins: queue.filter(
+          (queued) => queued.lease.platform === platform,
+        ).length,
+        credentialsInUse: credentials.size,
+        credentialsAtLimit: Array.from(credentials.values()).filter(
+          (count) => count >= credentialLimit,
+        ).length,
+      };
+    }
+
+    return {
+      activeSessions: leases.length,
+      queuedJoins: queue.length,
+      credentialLimit,
+      tiers,
+      platforms,
+    };
+  }
+
+  private async createLease(request: CapacityRequest): Promise<Lease> {
+    return {
+      id: crypto.randomUUID(),
+      platform: request.platform,
+      credentialKey: request.credentialKey,
+      userId: request.organizerId,
+      tier: await this.resolveTier(request.organizerId),
+      expiresAt: 0,
+    };
+  }
+
+  // Users without a readable tier get the free tier's limit
+  private async resolveTier(userId?: string): Promise<SubscriptionTier> {
+    if (!userId) {
+      return SubscriptionTier.free;
+    }
+
+    try {
+      const user = await this.prismaService.user.findUnique({
+        where: { id: userId },
+        select: { subscriptionTier: true },
+      });
+      return user?.subscriptionTier ?? SubscriptionTier.free;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to read subscription tier of user ${userId}, applying the free tier:`,
+        error,
+      );
+      return SubscriptionTier.free;
+    }
+  }
+
+  private async writeLease(lease: Lease): Promise<void> {
+    const { leaseTtlSeconds } = this.getConfig();
+    lease.expiresAt = Date.now() + leaseTtlSeconds * 1000;
+    this.ownLeases.set(lease.id, lease);
+    await this.redisService.hset(LEASES_KEY, lease.id, JSON.stringify(lease));
+    await this.redisService.expire(LEASES_KEY, leaseTtlSeconds);
+  }
+
+  // Also rewrites leases that lapsed while Redis was unreachable, since their
+  // sessions are still running
+  private async renewLeases(): Promise<void> {
+    for (const lease of this.ownLeases.values()) {
+      await this.writeLease(lease).catch((error) =>
+        this.logger.error(`Failed to renew session lease ${lease.id}:`, error),
+      );
+    }
+  }
+
+  // Entries that expired or cannot be read are skipped, and removed when the
+  // caller holds the lock
+  private async readEntries<T extends { expiresAt: number }>(
+    key: string,
+    now: number,
+    prune: boolean,
+  ): Promise<T[]> {
+    const entries: T[] = [];
+    for (const [field, value] of Object.entries(
+      await this.redisService.hgetall(key),
+    )) {
+      let entry: T | null = null;
+      try {
+        entry = JSON.parse(value) as T;
+      } catch {
+        entry = null;
+      }
+
+      if (entry && entry.expiresAt > now) {
+        entries.push(entry);
+      } else if (prune) {
+        await this.redisService.hdel(key, field);
+      }
+    }
+    return entries;
+  }
+
+  // Capacity is checked and taken by one replica at a time
+  private async withLock<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; attempt < LOCK_ATTEMPTS; attempt++) {
+      const token = await this.redisService.acquireLock(
+        LOCK_KEY,
+        LOCK_TTL_SECONDS,
+      );
+      if (token) {
+        try {
+          return await operation();
+        } finally {
+          await this.redisService.releaseLock(LOCK_KEY, token);
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+    throw new Error('Timed out waiting for the session capacity lock');
+  }
+
+  private hasCapacity(lease: Lease, leases: Lease[]): boolean {
+    const { tierLimits, credentialLimit } = this.getConfig();
+
+    const onCredential = leases.filter(
+      (active) => active.credentialKey === lease.credentialKey,
+    ).length;
+    if (onCredential >= credentialLimit) {
+      return false;
+    }
+
+    if (!lease.userId) {
+      return true;
+    }
+    const forUser = leases.filter(
+      (active) => active.userId === lease.userId,
+    ).length;
+    return forUser < tierLimits[lease.tier];
+  }
+
+  private sharesPool(a: Lease, b: Lease): boolean {
+    return (
+      a.credentialKey === b.credentialKey ||
+      (!!a.userId && a.userId === b.userId)
+    );
+  }
+
+  private countBy(
+    leases: Lease[],
+    key: (lease: Lease) => string,
+  ): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const lease of leases) {
+      counts.set(key(lease), (counts.get(key(lease)) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  private describe(lease: Lease): string {
+    return lease.userId
+      ? `user ${lease.userId} (${lease.tier}) on ${lease.platform}`
+      : `${lease.platform} credential`;
+  }
+
+  private getConfig(): SessionCapacityConfig {
+    const config =
+      this.configService.get<SessionCapacityConfig>('sessionCapacity');
+    if (!config) {
+      throw new Error('Session capacity configuration is not loaded');
+    }
+    return config;
+  }
+}
@@ -0,0 +1,256 @@
+import { SpeakerLinkingService } from './speaker-linking.service';
+import type { PrismaService } from '../database/prisma.service';
+
+jest.mock('../database/prisma.service', () => ({ PrismaService: class {} }));
+
+describe('SpeakerLinkingService', () => {
+  const meetingStart = new Date('2024-01-01T10:00:00Z');
+  const at = (seconds: number) =>
+    new Date(meetingStart.getTime() + seconds * 1000);
+
+  let prisma: {
+    meeting: { findUnique: jest.Mock };
+    userVoiceProfile: { findMany: jest.Mock };
+    speaker: { findFirst: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+    actionItem: { findMany: jest.Mock; update: jest.Mock };
+    meetingParticipant: { findFirst: jest.Mock; findMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let service: SpeakerLinkingService;
+
+  const givenMeeting = (overrides: Record<string, unknown>) => {
+    prisma.meeting.findUnique.mockResolvedValue({
+      id: 'meeting-1',
+      scheduledTime: meetingStart,
+      actualStartTime: meetingStart,
+      actualEndTime: at(600),
+      participants: [
+        { id: 'p-alice', name: 'Alice Smith', userId: 'u-alice' },
+        { id: 'p-bob', name: 'Bob Jones', userId: null },
+      ],
+      speakers: [
+        {
+          id: 's-1',
+          voiceProfile: null,
+          linkSource: null,
+          participantId: null,
+        },
+        {
+          id: 's-2',
+          voiceProfile: null,
+          linkSource: null,
+          participantId: null,
+        },
+      ],
+      activeSpeakerHints: [],
+      transcripts: [],
+      ...overrides,
+    });
+  };
+
+  const segment = (
+    speakerId: string,
+    start: number,
+    end: number,
+    text = '',
+  ) => ({
+    speakerId,
+    text,
+    startTime: start * 1000,
+    endTime: end * 1000,
+  });
+
+  beforeEach(() => {
+    prisma = {
+      meeting: { findUnique: jest.fn() },
+      userVoiceProfile: { findMany: jest.fn().mockResolvedValue([]) },
+      speaker: {
+        findFirst: jest.fn(),
+        update: jest.fn((args) => args),
+        updateMany: jest.fn((args) => args),
+      },
+      actionItem: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+      },
+      meetingParticipant: {
+        findFirst: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      $transaction: jest.fn().mockResolvedValue([]),
+    };
+    service = new SpeakerLinkingService(prisma as unknown as PrismaService);
+  });
+
+  it('should link speakers from active-speaker hints', async () => {
+    givenMeeting({
+      activeSpeakerHints: [
+        { participantId: 'p-alice', startTime: at(0), endTime: at(30) },
+        { participantId: 'p-bob', startTime: at(30), endTime: at(60) },
+      ],
+      transcripts: [
+        { segments: [segment('s-1', 1, 20), segment('s-2', 32, 55)] },
+      ],
+    });
+
+    const links = await service.linkSpeakers('meeting-1');
+
+    expect(links).toEqual([
+      expect.objectContaining({
+        speakerId: 's-1',
+        participantId: 'p-alice',
+        userId: 'u-alice',
+        source: 'active_speaker',
+      }),
+      expect.objectContaining({
+        speakerId: 's-2',
+        participantId: 'p-bob',
+        source: 'active_speaker',
+      }),
+    ]);
+  });
+
+  it('should link a speaker from a matching voice profile', async () => {
+    givenMeeting({
+      speakers: [
+        {
+          id: 's-1',
+          voiceProfile: JSON.stringify({ features: [1, 0, 0.1] }),
+          linkSource: null,
+        },
+      ],
+    });
+    prisma.userVoiceProfile.findMany.mockResolvedValue([
+      { userId: 'u-alice', features: [0.9, 0, 0.1] },
+    ]);
+
+    const links = await service.linkSpeakers('meeting-1');
+
+    expect(links).toEqual([
+      expect.objectContaining({
+        speakerId: 's-1',
+        participantId: 'p-alice',
+        source: 'voice_profile',
+      }),
+    ]);
+  });
+
+  it('should combine self-introductions and addressed names', async () => {
+    givenMeeting({
+      transcripts: [
+        {
+          segments: [
+            segment(
+              's-1',
+              0,
+              5,
+              "Hi everyone, I'm Alice and I'll run the meeting.",
+            ),
+            segment('s-1', 5, 8, 'Over to you, Bob.'),
+            segment('s-2', 8, 12, 'Thanks. My name is Bob Jones.'),
+          ],
+        },
+      ],
+    });
+
+    const links = await service.linkSpeakers('meeting-1');
+
+    expect(links.map((link) => [link.speakerId, link.participantId])).toEqual([
+      ['s-2', 'p-bob'],
+      ['s-1', 'p-alice'],
+    ]);
+  });
+
+  it('should not override manual links', async () => {
+    givenMeeting({
+      speakers: [
+        {
+          id: 's-1',
+          voiceProfile: null,
+          linkSource: 'manual',
+          participantId: 'p-alice',
+        },
+        {
+          id: 's-2',
+          voiceProfile: null,
+          linkSource: null,
+          participantId: null,
+        },
+      ],
+      activeSpeakerHints: [
+        { participantId: 'p-alice', startTime: at(0), endTime: at(60) },
+      ],
+      transcripts: [{ segments: [segment('s-2', 1, 20)] }],
+    });
+
+    const links = await service.linkSpeakers('meeting-1');
+
+    expect(links).toEqual([]);
+    expect(prisma.speaker.update).not.toHaveBeenCalled();
+  });
+
+  it('should clear the name along with stale automatic links', async () => {
+    givenMeeting({});
+
+    await service.linkSpeakers('meeting-1');
+
+    expect(prisma.speaker.updateMany).toHaveBeenCalledWith({
+      where: {
+        meetingId: 'meeting-1',
+        linkSource: { not: 'manual' },
+        id: { notIn: [] },
+      },
+      data: {
+        participantId: null,
+        name: null,
+        linkSource: null,
+        linkConfidence: null,
+      },
+    });
+  });
+
+  describe('manual links', () => {
+    beforeEach(() => {
+      prisma.speaker.findFirst.mockResolvedValue({
+        id: 's-1',
+        name: 'Alice Smith',
+        voiceProfile: null,
+      });
+    });
+
+    it('should not link a speaker of another meeting', async () => {
+      prisma.speaker.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.linkSpeakerManually('meeting-1', 's-9', 'p-alice'),
+      ).resolves.toBeNull();
+      expect(prisma.speaker.update).not.toHaveBeenCalled();
+    });
+
+    it('should not link to a participant of another meeting', async () => {
+      prisma.meetingParticipant.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.linkSpeakerManually('meeting-1', 's-1', 'p-9'),
+      ).resolves.toBeNull();
+      expect(prisma.speaker.update).not.toHaveBeenCalled();
+    });
+
+    it('should clear the name when unlinking a speaker', async () => {
+      const link = await service.linkSpeakerManually('meeting-1', 's-1', null);
+
+      expect(link).toEqual(
+        expect.objectContaining({ speakerId: 's-1', participantId: null }),
+      );
+      expect(prisma.speaker.update).toHaveBeenCalledWith({
+        where: { id: 's-1' },
+        data: {
+          participantId: null,
+          name: null,
+          linkSource: 'manual',
+          linkConfidence: 1,
+        },
+      });
+    });
+  });
+});
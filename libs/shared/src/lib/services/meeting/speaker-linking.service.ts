@@ -0,0 +1,551 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../database/prisma.service';
+import { Prisma } from '../../generated/prisma';
+import {
+  SpeakerLink,
+  SpeakerLinkSource,
+} from '../../interfaces/meeting-platform.interface';
+
+interface LinkableParticipant {
+  id: string;
+  name: string;
+  userId: string | null;
+}
+
+interface LinkableSegment {
+  speakerId: string | null;
+  text: string;
+  startTime: number; // ms from meeting start
+  endTime: number;
+}
+
+interface LinkableHint {
+  participantId: string;
+  startTime: number; // ms from meeting start
+  endTime: number;
+}
+
+type SignalScores = Map<string, Map<SpeakerLinkSource, number>>;
+
+// Weights and thresholds for combining the matching signals
+const VOICE_MATCH_THRESHOLD = 0.85;
+const ACTIVE_SPEAKER_MIN_OVERLAP = 0.3;
+const ACTIVE_SPEAKER_WEIGHT = 0.8;
+const SELF_INTRODUCTION_WEIGHT = 0.6;
+const ADDRESSED_BY_NAME_WEIGHT = 0.3;
+const MIN_LINK_SCORE = 0.5;
+
+const SELF_INTRODUCTION_PATTERN =
+  /\b(?:[Ii]'m|[Ii] am|[Tt]his is|[Mm]y name is)\s+([A-Z][\w'-]+(?:\s+[A-Z][\w'-]+)?)/g;
+const ADDRESSED_PATTERN =
+  /(?:^|[,.!?]\s*)(?:thanks|thank you|ok|okay|so|over to you|go ahead)?,?\s*([A-Z][\w'-]+)[,?!.]?\s*$/i;
+
+@Injectable()
+export class SpeakerLinkingService {
+  private readonly logger = new Logger(SpeakerLinkingService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Link the diarized speakers of a meeting to its participants
+   */
+  async linkSpeakers(meetingId: string): Promise<SpeakerLink[]> {
+    try {
+      const meeting = await this.prismaService.meeting.findUnique({
+        where: { id: meetingId },
+        include: {
+          participants: { select: { id: true, name: true, userId: true } },
+          speakers: true,
+          activeSpeakerHints: true,
+          transcripts: {
+            include: {
+              segments: {
+                select: {
+                  speakerId: true,
+                  text: true,
+                  startTime: true,
+                  endTime: true,
+                },
+                orderBy: { startTime: 'asc' },
+              },
+            },
+          },
+        },
+      });
+
+      if (!meeting) {
+        throw new Error(`Meeting not found: ${meetingId}`);
+      }
+
+      const meetingStart = (
+        meeting.actualStartTime ?? meeting.scheduledTime
+      ).getTime();
+      const segments: LinkableSegment[] = meeting.transcripts
+        .flatMap((transcript) => transcript.segments)
+        .sort((a, b) => a.startTime - b.startTime);
+      const hints: LinkableHint[] = meeting.activeSpeakerHints.map((hint) => ({
+        participantId: hint.participantId,
+        startTime: hint.startTime.getTime() - meetingStart,
+        endTime:
+          (hint.endTime ?? meeting.actualEndTime ?? new Date()).getTime() -
+          meetingStart,
+      }));
+
+      const userIds = meeting.participants
+        .map((participant) => participant.userId)
+        .filter((userId): userId is string => !!userId);
+      const voiceProfiles = await this.prismaService.userVoiceProfile.findMany({
+        where: { userId: { in: userIds } },
+      });
+
+      // Manual links are never overridden and their participants are taken
+      const manual = meeting.speakers.filter(
+        (speaker) => speaker.linkSource === 'manual',
+      );
+      const taken = new Set(manual.map((speaker) => speaker.participantId));
+      const candidates = meeting.participants.filter(
+        (participant) => !taken.has(participant.id),
+      );
+
+      const scores = new Map<string, SignalScores>();
+      for (const speaker of meeting.speakers) {
+        if (speaker.linkSource === 'manual') {
+          continue;
+        }
+
+        const speakerScores: SignalScores = new Map();
+        const features = this.parseFeatures(speaker.voiceProfile);
+        if (features) {
+          this.scoreVoiceProfile(
+            speakerScores,
+            features,
+            candidates,
+            voiceProfiles,
+          );
+        }
+        this.scoreActiveSpeaker(
+          speakerScores,
+          segments.filter((segment) => segment.speakerId === speaker.id),
+          hints,
+        );
+        scores.set(speaker.id, speakerScores);
+      }
+      this.scoreNameMentions(scores, segments, candidates);
+
+      const links = this.assignLinks(scores, candidates);
+      const linkedSpeakerIds = new Set(links.map((link) => link.speakerId));
+
+      await this.prismaService.$transaction([
+        ...links.map((link) =>
+          this.prismaService.speaker.update({
+            where: { id: link.speakerId },
+            data: {
+              participantId: link.participantId,
+              name: link.name,
+              linkSource: link.source,
+              linkConfidence: link.confidence,
+            },
+          }),
+        ),
+        // Clear stale automatic links that no longer have enough evidence
+        this.prismaService.speaker.updateMany({
+          where: {
+            meetingId,
+            linkSource: { not: 'manual' },
+            id: { notIn: Array.from(linkedSpeakerIds) },
+          },
+          data: {
+            participantId: null,
+            name: null,
+            linkSource: null,
+            linkConfidence: null,
+          },
+        }),
+      ]);
+
+      await this.resolveActionItemAssignees(meetingId);
+
+      this.logger.log(
+        `Linked ${links.length} of ${meeting.speakers.length} speakers for meeting ${meetingId}`,
+      );
+      return links;
+    } catch (error) {
+      this.logger.error(
+        `Failed to link speakers for meeting ${meetingId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Manually link (or unlink) a speaker; also enrolls the speaker's voice for
+   * the user. Null when the speaker or participant is not in the meeting.
+   */
+  async linkSpeakerManually(
+    meetingId: string,
+    speakerId: string,
+    participantId: string | null,
+  ): Promise<SpeakerLink | null> {
+    try {
+      const speaker = await this.prismaService.speaker.findFirst({
+        where: { id: speakerId, meetingId },
+      });
+      const participant = participantId
+        ? await this.prismaService.meetingParticipant.findFirst({
+            where: { id: participantId, meetingId },
+          })
+        : null;
+      if (!speaker || (participantId && !participant)) {
+        return null;
+      }
+
+      // An unlinked speaker no longer goes by the participant's name
+      await this.prismaService.speaker.update({
+        where: { id: speakerId },
+        data: {
+          participantId: participant?.id ?? null,
+          name: participant?.name ?? null,
+          linkSource: 'manual',
+          linkConfidence: 1,
+        },
+      });
+
+      const features = this.parseFeatures(speaker.voiceProfile);
+      if (participant?.userId && features) {
+        await this.enrollVoiceProfile(participant.userId, features);
+      }
+
+      await this.resolveActionItemAssignees(meetingId);
+
+      return {
+        speakerId,
+        participantId: participant?.id ?? null,
+        userId: participant?.userId ?? undefined,
+        name: participant?.name,
+        source: 'manual',
+        confidence: 1,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to link speaker ${speakerId} manually:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fold a speaker embedding into the user's stored voice profile
+   */
+  async enrollVoiceProfile(userId: string, features: number[]): Promise<void> {
+    const existing = await this.prismaService.userVoiceProfile.findUnique({
+      where: { userId },
+    });
+
+    const current = existing ? this.parseFeatures(existing.features) : null;
+    if (!existing || !current || current.length !== features.length) {
+      await this.prismaService.userVoiceProfile.upsert({
+        where: { userId },
+        create: { userId, features, sampleCount: 1 },
+        update: { features, sampleCount: 1 },
+      });
+      return;
+    }
+
+    // Running average keeps older samples from being forgotten
+    const sampleCount = existing.sampleCount + 1;
+    const averaged = current.map(
+      (value, index) => value + (features[index] - value) / sampleCount,
+    );
+
+    await this.prismaService.userVoiceProfile.update({
+      where: { userId },
+      data: { features: averaged, sampleCount },
+    });
+  }
+
+  /**
+   * Resolve free-text action item assignees to users through the meeting participants
+   */
+  async resolveActionItemAssignees(meetingId: string): Promise<void> {
+    const [actionItems, participants] = await Promise.all([
+      this.prismaService.actionItem.findMany({
+        where: { meetingId, assigneeUserId: null, assignee: { not: null } },
+      }),
+      this.prismaService.meetingParticipant.findMany({
+        where: { meetingId, userId: { not: null } },
+      }),
+    ]);
+
+    for (const actionItem of actionItems) {
+      const participant = this.findParticipantByName(
+        actionItem.assignee || '',
+        participants,
+      );
+      if (participant?.userId) {
+        await this.prismaService.actionItem.update({
+          where: { id: actionItem.id },
+          data: { assigneeUserId: participant.userId },
+        });
+      }
+    }
+  }
+
+  private scoreVoiceProfile(
+    scores: SignalScores,
+    features: number[],
+    participants: LinkableParticipant[],
+    voiceProfiles: Array<{ userId: string; features: Prisma.JsonValue }>,
+  ): void {
+    for (const participant of participants) {
+      const profile = voiceProfiles.find(
+        (p) => p.userId === participant.userId,
+      );
+      const profileFeatures = profile
+        ? this.parseFeatures(profile.features)
+        : null;
+      if (!profileFeatures) {
+        continue;
+      }
+
+      const similarity = this.cosineSimilarity(features, profileFeatures);
+      if (similarity >= VOICE_MATCH_THRESHOLD) {
+        this.addScore(scores, participant.id, 'voice_profile', similarity);
+      }
+    }
+  }
+
+  private scoreActiveSpeaker(
+    scores: SignalScores,
+    segments: LinkableSegment[],
+    hints: LinkableHint[],
+  ): void {
+    const totalSpeech = segments.reduce(
+      (sum, segment) => sum + Math.max(0, segment.endTime - segment.startTime),
+      0,
+    );
+    if (totalSpeech === 0) {
+      return;
+    }
+
+    const overlaps = new Map<string, number>();
+    for (const segment of segments) {
+      for (const hint of hints) {
+        const overlap =
+          Math.min(segment.endTime, hint.endTime) -
+          Math.max(segment.startTime, hint.startTime);
+        if (overlap > 0) {
+          overlaps.set(
+            hint.participantId,
+            (overlaps.get(hint.participantId) || 0) + overlap,
+          );
+        }
+      }
+    }
+
+    for (const [participantId, overlap] of overlaps) {
+      const fraction = overlap / totalSpeech;
+      if (fraction >= ACTIVE_SPEAKER_MIN_OVERLAP) {
+        this.addScore(
+          scores,
+          participantId,
+          'active_speaker',
+          fraction * ACTIVE_SPEAKER_WEIGHT,
+        );
+      }
+    }
+  }
+
+  // "I'm Alice" links the current speaker; "thanks, Bob" links the next one
+  private scoreNameMentions(
+    scores: Map<string, SignalScores>,
+    segments: LinkableSegment[],
+    participants: LinkableParticipant[],
+  ): void {
+    segments.forEach((segment, index) => {
+      const speakerScores = segment.speakerId
+        ? scores.get(segment.speakerId)
+        : undefined;
+
+      if (speakerScores) {
+        for (const match of segment.text.matchAll(SELF_INTRODUCTION_PATTERN)) {
+          const participant = this.findParticipantByName(
+            match[1],
+            participants,
+          );
+          if (participant) {
+            this.addScore(
+              speakerScores,
+              participant.id,
+              'name_mention',
+              SELF_INTRODUCTION_WEIGHT,
+            );
+          }
+        }
+      }
+
+      const addressed = segment.text.trim().match(ADDRESSED_PATTERN);
+      const next = segments
+        .slice(index + 1)
+        .find(
+          (candidate) =>
+            candidate.speakerId && candidate.speakerId !== segment.speakerId,
+        );
+      const nextScores = next?.speakerId
+        ? scores.get(next.speakerId)
+        : undefined;
+
+      if (addressed && nextScores) {
+        const participant = this.findParticipantByName(
+          addressed[1],
+          participants,
+        );
+        if (participant) {
+          this.addScore(
+            nextScores,
+            participant.id,
+            'name_mention',
+            ADDRESSED_BY_NAME_WEIGHT,
+          );
+        }
+      }
+    });
+  }
+
+  // Greedy one-to-one assignment, strongest evidence first
+  private assignLinks(
+    scores: Map<string, SignalScores>,
+    participants: LinkableParticipant[],
+  ): SpeakerLink[] {
+    const pairs: Array<{
+      speakerId: string;
+      participantId: string;
+      score: number;
+      source: SpeakerLinkSource;
+    }> = [];
+
+    for (const [speakerId, speakerScores] of scores) {
+      for (const [participantId, signals] of speakerScores) {
+        let score = 0;
+        let source: SpeakerLinkSource = 'name_mention';
+        let strongest = 0;
+        for (const [signal, value] of signals) {
+          score += value;
+          if (value > strongest) {
+            strongest = value;
+            source = signal;
+          }
+        }
+        pairs.push({ speakerId, participantId, score, source });
+      }
+    }
+
+    pairs.sort((a, b) => b.score - a.score);
+
+    const linkedSpeakers = new Set<string>();
+    const linkedParticipants = new Set<string>();
+    const links: SpeakerLink[] = [];
+
+    for (const pair of pairs) {
+      if (
+        pair.score < MIN_LINK_SCORE ||
+        linkedSpeakers.has(pair.speakerId) ||
+        linkedParticipants.has(pair.participantId)
+      ) {
+        continue;
+      }
+
+      const participant = participants.find((p) => p.id === pair.participantId);
+      if (!participant) {
+        continue;
+      }
+
+      linkedSpeakers.add(pair.speakerId);
+      linkedParticipants.add(pair.participantId);
+      links.push({
+        speakerId: pair.speakerId,
+        participantId: participant.id,
+        userId: participant.userId ?? undefined,
+        name: participant.name,
+        source: pair.source,
+        confidence: Math.min(1, Math.round(pair.score * 100) / 100),
+      });
+    }
+
+    return links;
+  }
+
+  private addScore(
+    scores: SignalScores,
+    participantId: string,
+    source: SpeakerLinkSource,
+    value: number,
+  ): void {
+    const signals =
+      scores.get(participantId) || new Map<SpeakerLinkSource, number>();
+    signals.set(source, (signals.get(source) || 0) + value);
+    scores.set(participantId, signals);
+  }
+
+  // Matches a full name, or a first name when it is unique among participants
+  private findParticipantByName<T extends { name: string }>(
+    name: string,
+    participants: T[],
+  ): T | undefined {
+    const normalized = name.trim().toLowerCase();
+    if (!normalized) {
+      return undefined;
+    }
+
+    const exact = participants.find(
+      (p) => p.name.trim().toLowerCase() === normalized,
+    );
+    if (exact) {
+      return exact;
+    }
+
+    const byFirstName = participants.filter(
+      (p) =>
+        p.name.trim().toLowerCase().split(/\s+/)[0] ===
+        normalized.split(/\s+/)[0],
+    );
+    return byFirstName.length === 1 ? byFirstName[0] : undefined;
+  }
+
+  private parseFeatures(value: unknown): number[] | null {
+    let parsed = value;
+    if (typeof value === 'string') {
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        return null;
+      }
+    }
+
+    const features = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { features?: unknown } | null)?.features;
+
+    return Array.isArray(features) &&
+      features.every((f) => typeof f === 'number')
+      ? (features as number[])
+      : null;
+  }
+
+  private cosineSimilarity(vec1: number[], vec2: number[]): number {
+    if (vec1.length !== vec2.length || vec1.length === 0) {
+      return 0;
+    }
+
+    let dotProduct = 0;
+    let norm1 = 0;
+    let norm2 = 0;
+    for (let i = 0; i < vec1.length; i++) {
+      dotProduct += vec1[i] * vec2[i];
+      norm1 += vec1[i] * vec1[i];
+      norm2 += vec2[i] * vec2[i];
+    }
+
+    return norm1 > 0 && norm2 > 0
+      ? dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2))
+      : 0;
+  }
+}
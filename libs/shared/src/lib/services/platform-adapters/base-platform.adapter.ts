@@ -6,8 +6,10 @@ import {
   MeetingJoinInfo,
   MeetingSession,
   MeetingRecording,
+  CloudRecording,
   RecordingConfig,
   MeetingParticipant,
+  ParticipantAudioStream,
   MeetingPlatformEvent,
   ConnectionStatus,
   MeetingStatus,
@@ -33,14 +35,58 @@ export abstract class BasePlatformAdapter implements MeetingPlatformAdapter {
   // Abstract methods that must be implemented by platform-specific adapters
   abstract authenticate(credentials: MeetingCredentials): Promise<boolean>;
   abstract validateCredentials(credentials: MeetingCredentials): Promise<boolean>;
-  abstract joinMeeting(joinInfo: MeetingJoinInfo): Promise<MeetingSession>;
+  abstract joinMeeting(joinInfo: MeetingJoinInfo, credentials?: MeetingCredentials): Promise<MeetingSession>;
   abstract leaveMeeting(sessionId: string): Promise<void>;
-  abstract getMeetingInfo(meetingId: string): Promise<MeetingJoinInfo>;
+  abstract rejoinMeeting(sessionId: string): Promise<MeetingSession>;
+  abstract getMeetingInfo(meetingId: string, credentials?: MeetingCredentials): Promise<MeetingJoinInfo>;
   abstract startRecording(sessionId: string, config: RecordingConfig): Promise<MeetingRecording>;
   abstract stopRecording(recordingId: string): Promise<MeetingRecording>;
   abstract getRecording(recordingId: string): Promise<MeetingRecording>;
+  abstract listCloudRecordings(since: Date, credentials?: MeetingCredentials): Promise<CloudRecording[]>;
+  abstract downloadRecording(recordingId: string, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream>;
   abstract getAudioStream(sessionId: string): Promise<NodeJS.ReadableStream>;
   abstract getParticipants(sessionId: string): Promise<MeetingParticipant[]>;
+  abstract hasActiveSession(sessionId: string): boolean;
+
+  // Adapters deliver the meeting's audio unless they say otherwise
+  supportsLiveAudio(): boolean {
+    return true;
+  }
+
+  // Platforms only expose a mixed stream unless an adapter says otherwise
+  supportsMultiTrackAudio(): boolean {
+    return false;
+  }
+
+  // Recordings are only fetched by id unless an adapter can follow links safely
+  async downloadRecordingUrl(url: string, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream> {
+    throw new Error(`Recordings cannot be downloaded by link on ${this.platform}`);
+  }
+
+  // Sessions only live in the process that joined them unless an adapter can reconnect
+  async resumeSession(sessionId: string, joinInfo: MeetingJoinInfo): Promise<MeetingSession> {
+    throw new Error(`Session ${sessionId} of meeting ${joinInfo.meetingId} cannot be resumed on ${this.platform}`);
+  }
+
+  async getParticipantAudioStreams(sessionId: string): Promise<ParticipantAudioStream[]> {
+    throw new Error(`Per-participant audio is not available on ${this.platform} (session ${sessionId})`);
+  }
+
+  supportsScreenShareCapture(): boolean {
+    return false;
+  }
+
+  async getScreenShareStream(sessionId: string): Promise<NodeJS.ReadableStream> {
+    throw new Error(`Screen share capture is not available on ${this.platform} (session ${sessionId})`);
+  }
+
+  async sendChatMessage(sessionId: string, message: string): Promise<void> {
+    throw new Error(`In-meeting chat is not available on ${this.platform}; not sent to session ${sessionId}: ${message}`);
+  }
+
+  async playAudio(sessionId: string, audio: Buffer): Promise<void> {
+    throw new Error(`Audio playback is not available on ${this.platform}; ${audio.length} bytes not played to session ${sessionId}`);
+  }
 
   // Common implementation for event handling
   onMeetingEvent(callback: (event: MeetingPlatformEvent) => void): void {
@@ -100,10 +146,10 @@ export abstract class BasePlatformAdapter implements MeetingPlatformAdapter {
   }
 
   // Retry logic with exponential backoff
-  protected async retryWithBackoff<T>(
+  async retryWithBackoff<T>(
     operation: () => Promise<T>,
-    maxRetries: number = 3,
-    baseDelay: number = 1000
+    maxRetries = 3,
+    baseDelay = 1000
   ): Promise<T> {
     let lastError: Error | undefined;
 
@@ -119,6 +165,7 @@ export abstract class BasePlatformAdapter implements MeetingPlatformAdapter {
 
         const delay = baseDelay * Math.pow(2, attempt);
         this.logger.warn(`Attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
+        this.updateConnectionStatus({ nextRetryAt: new Date(Date.now() + delay) });
         await this.sleep(delay);
       }
     }
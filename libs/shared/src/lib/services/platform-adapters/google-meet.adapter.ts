@@ -1,432 +1,253 @@
-import { Injectable } from '@nestjs/common';
-import { Readable } from 'stream';
+import { Injectable, Inject } from '@nestjs/common';
 import {
   MeetingPlatform,
   MeetingCredentials,
   MeetingJoinInfo,
-  MeetingSession,
   MeetingRecording,
-  RecordingConfig,
+  CloudRecording,
   MeetingParticipant,
-  MeetingStatus,
-  ParticipantRole,
-  MeetingEventType
+  ParticipantRole
 } from '../../interfaces/meeting-platform.interface';
-import { BasePlatformAdapter } from './base-platform.adapter';
-
+import { TransportPlatformAdapter, PlatformCall, RecordingOutput } from './transport-platform.adapter';
+import { PlatformTransport } from './transports/platform-transport.interface';
+import { GoogleMeetRestTransport } from './transports/google-meet-rest.transport';
+
+const CALENDAR_API = 'https://www.googleapis.com/calendar/v3';
+const DRIVE_API = 'https://www.googleapis.com/drive/v3';
+
+// Calendar event the meeting belongs to
+interface GoogleCalendarEvent {
+  id: string;
+  summary?: string;
+  hangoutLink: string;
+  start: { dateTime: string };
+  organizer?: { email?: string };
+}
+
+// Meeting space; spaces can also be looked up by their meeting code
+interface GoogleMeetSpace {
+  name: string;
+  meetingCode: string;
+}
+
+interface GoogleConferenceRecord {
+  name: string;
+  space: string;
+  startTime: string;
+  endTime?: string;
+}
+
+interface GoogleMeetParticipant {
+  name: string;
+  signedinUser?: { user: string; displayName: string };
+  anonymousUser?: { displayName: string };
+  phoneUser?: { displayName: string };
+  earliestStartTime?: string;
+}
+
+// Recording resource from the Meet REST API
+interface GoogleMeetRecording {
+  name: string;
+  startTime: string;
+  endTime: string;
+  driveDestination: { file: string; exportUri: string };
+}
+
+interface GoogleDriveFile {
+  id: string;
+  createdTime: string;
+  modifiedTime: string;
+  size?: string;
+  webContentLink?: string;
+  videoMediaMetadata?: { durationMillis?: string };
+}
+
+// The Meet REST API cannot put a participant into a meeting or deliver its
+// media, so a session follows the meeting's conference record instead and the
+// meeting is transcribed from its recording in Drive
 @Injectable()
-export class GoogleMeetAdapter extends BasePlatformAdapter {
-  private googleClient: any; // Google API client
-  private activeSessions = new Map<string, any>();
-  private activeRecordings = new Map<string, any>();
-
-  constructor() {
-    super(MeetingPlatform.GOOGLE_MEET);
-  }
-
-  async authenticate(credentials: MeetingCredentials): Promise<boolean> {
-    try {
-      this.logger.log('Authenticating with Google Meet...');
-      
-      if (!credentials.clientId || !credentials.clientSecret) {
-        throw new Error('Google client ID and secret are required');
-      }
-
-      // Initialize Google API client
-      this.googleClient = await this.initializeGoogleClient(credentials);
-      
-      this.credentials = credentials;
-      this.isAuthenticated = true;
-      this.updateConnectionStatus({ isConnected: true });
-      
-      this.logger.log('Successfully authenticated with Google Meet');
-      return true;
-    } catch (error) {
-      this.handleError(error, 'Google Meet authentication failed');
-      return false;
-    }
+export class GoogleMeetAdapter extends TransportPlatformAdapter {
+  constructor(@Inject(GoogleMeetRestTransport) transport: PlatformTransport) {
+    super(MeetingPlatform.GOOGLE_MEET, transport, 'Google Meet');
   }
 
-  async validateCredentials(credentials: MeetingCredentials): Promise<boolean> {
-    try {
-      // Validate required fields
-      if (!credentials.clientId || !credentials.clientSecret) {
-        return false;
-      }
-
-      // Test Google API connection
-      const testResult = await this.testGoogleConnection(credentials);
-      return testResult;
-    } catch (error) {
-      this.logger.error('Google Meet credentials validation failed:', error);
-      return false;
-    }
+  protected hasRequiredCredentials(credentials: MeetingCredentials): boolean {
+    return !!credentials.accessToken || (!!credentials.clientId && !!credentials.clientSecret);
   }
 
-  async joinMeeting(joinInfo: MeetingJoinInfo): Promise<MeetingSession> {
-    this.validateMeetingId(joinInfo.meetingId);
-    
-    if (!this.isAuthenticated) {
-      throw new Error('Not authenticated with Google Meet');
-    }
-
-    try {
-      this.logger.log(`Joining Google Meet meeting: ${joinInfo.meetingId}`);
-      
-      const sessionId = this.generateSessionId();
-      
-      // Join meeting using Google Meet API
-      const googleSession = await this.joinGoogleMeeting(joinInfo);
-      
-      const session: MeetingSession = {
-        sessionId,
-        meetingId: joinInfo.meetingId,
-        platform: MeetingPlatform.GOOGLE_MEET,
-        status: MeetingStatus.IN_PROGRESS,
-        startTime: new Date(),
-        participants: await this.getGoogleParticipants(googleSession),
-        audioStreamUrl: googleSession.audioStreamUrl
-      };
-
-      this.activeSessions.set(sessionId, googleSession);
-      
-      // Set up event listeners
-      this.setupGoogleEventListeners(sessionId, googleSession);
-      
-      this.emitEvent({
-        type: MeetingEventType.MEETING_STARTED,
-        sessionId,
-        meetingId: joinInfo.meetingId,
-        data: { participants: session.participants.length }
-      });
-
-      this.logger.log(`Successfully joined Google Meet meeting: ${joinInfo.meetingId}`);
-      return session;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to join Google Meet meeting');
-    }
-  }
-
-  async leaveMeeting(sessionId: string): Promise<void> {
-    this.validateSessionId(sessionId);
-    
-    const googleSession = this.activeSessions.get(sessionId);
-    if (!googleSession) {
-      throw new Error(`No active Google Meet session found: ${sessionId}`);
-    }
-
-    try {
-      this.logger.log(`Leaving Google Meet meeting session: ${sessionId}`);
-      
-      // Leave meeting using Google Meet API
-      await this.leaveGoogleMeeting(googleSession);
-      
-      this.activeSessions.delete(sessionId);
-      
-      this.emitEvent({
-        type: MeetingEventType.MEETING_ENDED,
-        sessionId,
-        meetingId: googleSession.meetingId,
-        data: { endTime: new Date() }
-      });
-
-      this.logger.log(`Successfully left Google Meet meeting session: ${sessionId}`);
-    } catch (error) {
-      throw this.handleError(error, 'Failed to leave Google Meet meeting');
-    }
+  protected async testConnection(credentials: MeetingCredentials): Promise<boolean> {
+    await this.transport.request({
+      method: 'GET',
+      path: `${CALENDAR_API}/users/me/calendarList`,
+      query: { maxResults: 1 },
+      credentials
+    });
+    return true;
   }
 
-  async getMeetingInfo(meetingId: string): Promise<MeetingJoinInfo> {
-    this.validateMeetingId(meetingId);
-    
-    if (!this.isAuthenticated) {
-      throw new Error('Not authenticated with Google Meet');
-    }
+  // Meeting ids are the ids of calendar events in the primary calendar
+  protected async fetchMeetingInfo(meetingId: string, credentials?: MeetingCredentials): Promise<MeetingJoinInfo> {
+    const event = await this.transport.request<GoogleCalendarEvent>({
+      method: 'GET',
+      path: `${CALENDAR_API}/calendars/primary/events/${meetingId}`,
+      credentials
+    });
 
-    try {
-      // Get meeting info from Google Calendar API
-      const meetingInfo = await this.getGoogleMeetingInfo(meetingId);
-      
-      return {
-        meetingId,
-        meetingUrl: meetingInfo.hangoutLink,
-        platform: MeetingPlatform.GOOGLE_MEET,
-        scheduledTime: new Date(meetingInfo.start.dateTime),
-        hostEmail: meetingInfo.organizer?.email
-      };
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Google Meet meeting info');
-    }
+    return {
+      meetingId,
+      meetingUrl: event.hangoutLink,
+      platform: MeetingPlatform.GOOGLE_MEET,
+      scheduledTime: new Date(event.start.dateTime),
+      hostEmail: event.organizer?.email,
+      title: event.summary
+    };
   }
 
-  async startRecording(sessionId: string, config: RecordingConfig): Promise<MeetingRecording> {
-    this.validateSessionId(sessionId);
-    
-    const googleSession = this.activeSessions.get(sessionId);
-    if (!googleSession) {
-      throw new Error(`No active Google Meet session found: ${sessionId}`);
-    }
-
-    try {
-      this.logger.log(`Starting recording for Google Meet session: ${sessionId}`);
-      
-      const recordingId = this.generateRecordingId();
-      
-      // Start recording using Google Meet API
-      const googleRecording = await this.startGoogleRecording(googleSession, config);
-      
-      const recording: MeetingRecording = {
-        id: recordingId,
-        meetingId: googleSession.meetingId,
-        sessionId,
-        platform: MeetingPlatform.GOOGLE_MEET,
-        startTime: new Date(),
-        status: 'recording'
-      };
-
-      this.activeRecordings.set(recordingId, {
-        ...googleRecording,
-        recordingId,
-        sessionId
-      });
-      
-      this.emitEvent({
-        type: MeetingEventType.RECORDING_STARTED,
-        sessionId,
-        meetingId: googleSession.meetingId,
-        data: { recordingId, config }
-      });
+  // Looking the space up checks the meeting code and the credentials' access to it
+  protected async connect(joinInfo: MeetingJoinInfo, credentials?: MeetingCredentials): Promise<PlatformCall> {
+    const space = await this.transport.request<GoogleMeetSpace>({
+      method: 'GET',
+      path: `/spaces/${this.meetingCode(joinInfo.meetingUrl)}`,
+      credentials
+    });
 
-      this.logger.log(`Successfully started recording: ${recordingId}`);
-      return recording;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to start Google Meet recording');
-    }
+    return { callId: space.name, meetingId: joinInfo.meetingId, meetingCode: space.meetingCode };
   }
 
-  async stopRecording(recordingId: string): Promise<MeetingRecording> {
-    this.validateRecordingId(recordingId);
-    
-    const googleRecording = this.activeRecordings.get(recordingId);
-    if (!googleRecording) {
-      throw new Error(`No active Google Meet recording found: ${recordingId}`);
-    }
-
-    try {
-      this.logger.log(`Stopping Google Meet recording: ${recordingId}`);
-      
-      // Stop recording using Google Meet API
-      const finalRecording = await this.stopGoogleRecording(googleRecording);
-      
-      const recording: MeetingRecording = {
-        id: recordingId,
-        meetingId: googleRecording.meetingId,
-        sessionId: googleRecording.sessionId,
-        platform: MeetingPlatform.GOOGLE_MEET,
-        startTime: googleRecording.startTime,
-        endTime: new Date(),
-        duration: finalRecording.duration,
-        audioUrl: finalRecording.audioUrl,
-        videoUrl: finalRecording.videoUrl,
-        size: finalRecording.size,
-        status: 'completed'
-      };
-
-      this.activeRecordings.delete(recordingId);
-      
-      this.emitEvent({
-        type: MeetingEventType.RECORDING_STOPPED,
-        sessionId: googleRecording.sessionId,
-        meetingId: googleRecording.meetingId,
-        data: { recordingId, duration: recording.duration }
-      });
-
-      this.logger.log(`Successfully stopped recording: ${recordingId}`);
-      return recording;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to stop Google Meet recording');
-    }
+  // Nothing joined the meeting, so there is nothing to leave
+  protected async disconnect(): Promise<void> {
+    return;
   }
 
-  async getRecording(recordingId: string): Promise<MeetingRecording> {
-    this.validateRecordingId(recordingId);
-    
-    try {
-      // Get recording info from Google Drive API
-      const googleRecording = await this.getGoogleRecordingInfo(recordingId);
-      
-      return {
-        id: recordingId,
-        meetingId: googleRecording.meetingId,
-        sessionId: googleRecording.sessionId,
-        platform: MeetingPlatform.GOOGLE_MEET,
-        startTime: new Date(googleRecording.createdTime),
-        endTime: new Date(googleRecording.modifiedTime),
-        duration: googleRecording.duration,
-        audioUrl: googleRecording.webContentLink,
-        size: parseInt(googleRecording.size),
-        status: googleRecording.status
-      };
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Google Meet recording');
+  protected async fetchParticipants(call: PlatformCall, credentials?: MeetingCredentials): Promise<MeetingParticipant[]> {
+    const { conferenceRecords = [] } = await this.transport.request<{ conferenceRecords?: GoogleConferenceRecord[] }>({
+      method: 'GET',
+      path: '/conferenceRecords',
+      query: { filter: `space.meeting_code="${call.meetingCode}" AND end_time IS NULL` },
+      credentials
+    });
+    if (!conferenceRecords.length) {
+      return [];
     }
-  }
 
-  async getAudioStream(sessionId: string): Promise<NodeJS.ReadableStream> {
-    this.validateSessionId(sessionId);
-    
-    const googleSession = this.activeSessions.get(sessionId);
-    if (!googleSession) {
-      throw new Error(`No active Google Meet session found: ${sessionId}`);
-    }
+    // Participants who have left have a latest end time
+    const { participants = [] } = await this.transport.request<{ participants?: GoogleMeetParticipant[] }>({
+      method: 'GET',
+      path: `/${conferenceRecords[0].name}/participants`,
+      query: { filter: 'latest_end_time IS NULL' },
+      credentials
+    });
 
-    try {
-      // Get audio stream from Google Meet API
-      const audioStream = await this.getGoogleAudioStream(googleSession);
-      return audioStream;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Google Meet audio stream');
-    }
+    return participants.map(participant => ({
+      id: participant.signedinUser?.user || participant.name,
+      name:
+        participant.signedinUser?.displayName ||
+        participant.anonymousUser?.displayName ||
+        participant.phoneUser?.displayName ||
+        'Unknown',
+      role: ParticipantRole.PARTICIPANT,
+      joinTime: participant.earliestStartTime ? new Date(participant.earliestStartTime) : undefined
+    }));
   }
 
-  async getParticipants(sessionId: string): Promise<MeetingParticipant[]> {
-    this.validateSessionId(sessionId);
-    
-    const googleSession = this.activeSessions.get(sessionId);
-    if (!googleSession) {
-      throw new Error(`No active Google Meet session found: ${sessionId}`);
-    }
-
-    try {
-      return await this.getGoogleParticipants(googleSession);
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Google Meet participants');
-    }
+  // Meet has no API to control its own recording; the host starts it in the meeting
+  protected async beginRecording(call: PlatformCall): Promise<void> {
+    this.logger.debug(`Google Meet meeting ${call.meetingId} is transcribed from the recording its host starts`);
   }
 
-  // Private helper methods (placeholder implementations)
-  private async initializeGoogleClient(credentials: MeetingCredentials): Promise<any> {
-    // Placeholder for Google API client initialization
-    this.logger.debug('Initializing Google API client...');
-    return {
-      clientId: credentials.clientId,
-      clientSecret: credentials.clientSecret,
-      initialized: true
-    };
+  protected async endRecording(): Promise<RecordingOutput> {
+    return {};
   }
 
-  private async testGoogleConnection(credentials: MeetingCredentials): Promise<boolean> {
-    // Placeholder for testing Google API connection
-    this.logger.debug('Testing Google Meet connection...');
-    return true;
-  }
+  // Recording ids are the ids of the Drive files Meet stores recordings in
+  protected async fetchRecording(recordingId: string, credentials?: MeetingCredentials): Promise<MeetingRecording> {
+    const file = await this.transport.request<GoogleDriveFile>({
+      method: 'GET',
+      path: `${DRIVE_API}/files/${await this.driveFileId(recordingId, credentials)}`,
+      query: { fields: 'id,createdTime,modifiedTime,size,webContentLink,videoMediaMetadata' },
+      credentials
+    });
+    const durationMillis = file.videoMediaMetadata?.durationMillis;
 
-  private async joinGoogleMeeting(joinInfo: MeetingJoinInfo): Promise<any> {
-    // Placeholder for joining Google Meet meeting
-    this.logger.debug(`Joining Google Meet meeting: ${joinInfo.meetingId}`);
     return {
-      meetingId: joinInfo.meetingId,
-      sessionId: this.generateSessionId(),
-      audioStreamUrl: `googlemeet://audio/${joinInfo.meetingId}`,
-      participants: []
+      id: recordingId,
+      meetingId: file.id,
+      sessionId: file.id,
+      platform: MeetingPlatform.GOOGLE_MEET,
+      startTime: new Date(file.createdTime),
+      endTime: new Date(file.modifiedTime),
+      duration: durationMillis ? Math.round(parseInt(durationMillis) / 1000) : undefined,
+      audioUrl: file.webContentLink,
+      size: file.size ? parseInt(file.size) : undefined,
+      status: 'completed'
     };
   }
 
-  private async leaveGoogleMeeting(googleSession: any): Promise<void> {
-    // Placeholder for leaving Google Meet meeting
-    this.logger.debug('Leaving Google Meet meeting...');
-  }
+  protected async fetchCloudRecordings(since: Date, credentials?: MeetingCredentials): Promise<CloudRecording[]> {
+    const { conferenceRecords = [] } = await this.transport.request<{ conferenceRecords?: GoogleConferenceRecord[] }>({
+      method: 'GET',
+      path: '/conferenceRecords',
+      query: { filter: `start_time>="${since.toISOString()}"` },
+      credentials
+    });
 
-  private async getGoogleMeetingInfo(meetingId: string): Promise<any> {
-    // Placeholder for getting Google Meet meeting info
-    this.logger.debug(`Getting Google Meet meeting info: ${meetingId}`);
-    return {
-      id: meetingId,
-      hangoutLink: `https://meet.google.com/${meetingId}`,
-      start: {
-        dateTime: new Date().toISOString()
-      },
-      organizer: {
-        email: 'organizer@example.com'
+    const recordings: CloudRecording[] = [];
+    for (const conference of conferenceRecords) {
+      const [{ recordings: conferenceRecordings = [] }, space] = await Promise.all([
+        this.transport.request<{ recordings?: GoogleMeetRecording[] }>({
+          method: 'GET',
+          path: `/${conference.name}/recordings`,
+          credentials
+        }),
+        this.transport.request<{ meetingCode: string }>({ method: 'GET', path: `/${conference.space}`, credentials })
+      ]);
+
+      for (const recording of conferenceRecordings) {
+        recordings.push({
+          id: recording.driveDestination.file,
+          platform: MeetingPlatform.GOOGLE_MEET,
+          platformMeetingId: space.meetingCode,
+          startTime: new Date(recording.startTime),
+          endTime: new Date(recording.endTime),
+          // Drive export links need a browser session, so files are fetched via downloadRecording
+          fileType: 'MP4'
+        });
       }
-    };
-  }
+    }
 
-  private async startGoogleRecording(googleSession: any, config: RecordingConfig): Promise<any> {
-    // Placeholder for starting Google Meet recording
-    this.logger.debug('Starting Google Meet recording...');
-    return {
-      recordingId: this.generateRecordingId(),
-      startTime: new Date()
-    };
+    return recordings;
   }
 
-  private async stopGoogleRecording(googleRecording: any): Promise<any> {
-    // Placeholder for stopping Google Meet recording
-    this.logger.debug('Stopping Google Meet recording...');
-    return {
-      duration: 3600, // 1 hour in seconds
-      audioUrl: 'https://drive.google.com/file/d/audio123',
-      videoUrl: 'https://drive.google.com/file/d/video123',
-      size: 1024 * 1024 * 100 // 100MB
-    };
+  protected async openRecordingDownload(recordingId: string, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream> {
+    return this.transport.stream({
+      method: 'GET',
+      path: `${DRIVE_API}/files/${await this.driveFileId(recordingId, credentials)}`,
+      query: { alt: 'media' },
+      credentials
+    });
   }
 
-  private async getGoogleRecordingInfo(recordingId: string): Promise<any> {
-    // Placeholder for getting Google Meet recording info
-    this.logger.debug(`Getting Google Meet recording info: ${recordingId}`);
-    return {
-      id: recordingId,
-      meetingId: 'meeting123',
-      sessionId: 'session123',
-      createdTime: new Date().toISOString(),
-      modifiedTime: new Date().toISOString(),
-      duration: 3600,
-      webContentLink: 'https://drive.google.com/file/d/123',
-      size: '104857600', // 100MB as string
-      status: 'completed'
-    };
-  }
+  // Webhooks name recordings by their Meet resource, e.g.
+  // conferenceRecords/abc/recordings/def; the file itself is kept in Drive
+  private async driveFileId(recordingId: string, credentials?: MeetingCredentials): Promise<string> {
+    if (!recordingId.startsWith('conferenceRecords/')) {
+      return recordingId;
+    }
 
-  private async getGoogleAudioStream(googleSession: any): Promise<NodeJS.ReadableStream> {
-    // Placeholder for getting Google Meet audio stream
-    this.logger.debug('Getting Google Meet audio stream...');
-    return new Readable({
-      read() {
-        // Placeholder audio data
-        this.push(Buffer.from('google meet audio data'));
-      }
+    const recording = await this.transport.request<GoogleMeetRecording>({
+      method: 'GET',
+      path: `/${recordingId}`,
+      credentials
     });
+    return recording.driveDestination.file;
   }
 
-  private async getGoogleParticipants(googleSession: any): Promise<MeetingParticipant[]> {
-    // Placeholder for getting Google Meet participants
-    this.logger.debug('Getting Google Meet participants...');
-    return [
-      {
-        id: 'participant1',
-        name: 'Bob Johnson',
-        email: 'bob@example.com',
-        role: ParticipantRole.HOST,
-        joinTime: new Date(),
-        isMuted: false,
-        isVideoOn: true
-      }
-    ];
-  }
-
-  private setupGoogleEventListeners(sessionId: string, googleSession: any): void {
-    // Placeholder for setting up Google Meet event listeners
-    this.logger.debug(`Setting up Google Meet event listeners for session: ${sessionId}`);
-    
-    // Simulate participant events
-    setTimeout(() => {
-      this.emitEvent({
-        type: MeetingEventType.PARTICIPANT_JOINED,
-        sessionId,
-        meetingId: googleSession.meetingId,
-        data: { participantId: 'participant1', name: 'Bob Johnson' }
-      });
-    }, 1000);
+  // meet.google.com/abc-mnop-xyz
+  private meetingCode(meetingUrl: string): string {
+    const code = meetingUrl.split('?')[0].split('/').pop();
+    if (!code) {
+      throw new Error(`No Google Meet meeting code in ${meetingUrl}`);
+    }
+    return code;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as wav from 'node-wav';
+import { LocalAdapter } from './local.adapter';
+import {
+  MeetingEventType,
+  MeetingPlatform,
+  MeetingPlatformEvent,
+} from '../../interfaces/meeting-platform.interface';
+
+describe('LocalAdapter', () => {
+  let adapter: LocalAdapter;
+  let workDir: string;
+
+  const writeWav = async (file: string, seconds: number, sampleRate = 8000) => {
+    const samples = new Float32Array(seconds * sampleRate).fill(0.25);
+    const encoded = wav.encode([samples], {
+      sampleRate,
+      float: false,
+      bitDepth: 16,
+    });
+    await fs.writeFile(file, Buffer.from(encoded));
+  };
+
+  const joinInfo = (meetingUrl: string) => ({
+    meetingId: 'local-meeting',
+    meetingUrl,
+    platform: MeetingPlatform.LOCAL,
+    scheduledTime: new Date(),
+  });
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-adapter-'));
+    process.env['LOCAL_MEETINGS_DIR'] = workDir;
+    adapter = new LocalAdapter();
+    await adapter.authenticate({ platform: MeetingPlatform.LOCAL });
+  });
+
+  afterEach(async () => {
+    delete process.env['LOCAL_MEETINGS_DIR'];
+    await adapter.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should join a meeting from a single WAV file', async () => {
+    const file = path.join(workDir, 'standup.wav');
+    await writeWav(file, 1);
+
+    const session = await adapter.joinMeeting(joinInfo(file));
+
+    expect(session.platform).toBe(MeetingPlatform.LOCAL);
+    expect(session.participants).toHaveLength(1);
+    expect(adapter.hasActiveSession(session.sessionId)).toBe(true);
+  });
+
+  it('should not read files outside the meetings directory', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'local-outside-'));
+    const file = path.join(outside, 'secret.wav');
+    await writeWav(file, 1);
+
+    try {
+      await expect(adapter.joinMeeting(joinInfo(file))).rejects.toBeDefined();
+      await expect(
+        adapter.joinMeeting(
+          joinInfo(path.join('..', path.basename(outside), 'secret.wav')),
+        ),
+      ).rejects.toBeDefined();
+      await expect(adapter.getMeetingInfo(`local://${file}`)).rejects.toBeDefined();
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should create one participant per speaker file in a directory', async () => {
+    await writeWav(path.join(workDir, 'alice.wav'), 1);
+    await writeWav(path.join(workDir, 'bob.wav'), 1);
+
+    const session = await adapter.joinMeeting(joinInfo(workDir));
+
+    expect(session.participants.map((p) => p.name)).toEqual(['alice', 'bob']);
+  });
+
+  it('should reject speaker files with different sample rates', async () => {
+    await writeWav(path.join(workDir, 'alice.wav'), 1, 8000);
+    await writeWav(path.join(workDir, 'bob.wav'), 1, 16000);
+
+    await expect(adapter.joinMeeting(joinInfo(workDir))).rejects.toBeDefined();
+  });
+
+  it('should stream the audio as 16-bit PCM', async () => {
+    const file = path.join(workDir, 'short.wav');
+    await writeWav(file, 0.2);
+    const session = await adapter.joinMeeting(joinInfo(file));
+
+    const stream = await adapter.getAudioStream(session.sessionId);
+    const chunks: Buffer[] = [];
+    await new Promise<void>((resolve, reject) => {
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => resolve());
+      stream.on('error', reject);
+    });
+
+    expect(Buffer.concat(chunks).length).toBe(0.2 * 8000 * 2);
+  });
+
+  it('should stream each speaker file as its own participant track', async () => {
+    await writeWav(path.join(workDir, 'alice.wav'), 0.2);
+    await writeWav(path.join(workDir, 'bob.wav'), 0.1);
+    const session = await adapter.joinMeeting(joinInfo(workDir));
+
+    expect(adapter.supportsMultiTrackAudio()).toBe(true);
+    const tracks = await adapter.getParticipantAudioStreams(session.sessionId);
+    const lengths = await Promise.all(
+      tracks.map(async (track) => {
+        let length = 0;
+        for await (const chunk of track.stream) {
+          length += (chunk as Buffer).length;
+        }
+        return length;
+      }),
+    );
+
+    expect(tracks.map((t) => t.name)).toEqual(['alice', 'bob']);
+    expect(tracks.map((t) => t.participantId)).toEqual(
+      session.participants.map((p) => p.id),
+    );
+    expect(lengths).toEqual([0.2 * 8000 * 2, 0.1 * 8000 * 2]);
+  });
+
+  it('should emit scripted timeline events', async () => {
+    const file = path.join(workDir, 'scripted.wav');
+    await writeWav(file, 1);
+    await fs.writeFile(
+      path.join(workDir, 'scripted.timeline.json'),
+      JSON.stringify({
+        participants: [{ id: 'p1', name: 'Alice', audioFile: 'scripted.wav' }],
+        events: [
+          { offset: 0, type: MeetingEventType.CONNECTION_LOST },
+          { offset: 0.05, type: MeetingEventType.PARTICIPANT_LEFT, participantId: 'p1' },
+        ],
+      }),
+    );
+
+    const events: MeetingPlatformEvent[] = [];
+    adapter.onMeetingEvent((event) => events.push(event));
+
+    const session = await adapter.joinMeeting(joinInfo(file));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(events.map((e) => e.type)).toEqual([
+      MeetingEventType.MEETING_STARTED,
+      MeetingEventType.CONNECTION_LOST,
+      MeetingEventType.PARTICIPANT_LEFT,
+    ]);
+    expect(adapter.isConnected()).toBe(false);
+    expect(await adapter.getParticipants(session.sessionId)).toHaveLength(0);
+  });
+
+  describe('stored recordings', () => {
+    let recordingsAdapter: LocalAdapter;
+
+    beforeEach(() => {
+      recordingsAdapter = new LocalAdapter();
+    });
+
+    it('should list audio files and speaker directories modified since a date', async () => {
+      await writeWav(path.join(workDir, 'standup.wav'), 1);
+      await fs.mkdir(path.join(workDir, 'retro'));
+      await writeWav(path.join(workDir, 'retro', 'alice.wav'), 1);
+      await fs.writeFile(path.join(workDir, 'notes.txt'), 'not audio');
+      const old = path.join(workDir, 'old.wav');
+      await writeWav(old, 1);
+      await fs.utimes(old, new Date('2020-01-01'), new Date('2020-01-01'));
+
+      const recordings = await recordingsAdapter.listCloudRecordings(
+        new Date('2021-01-01'),
+      );
+
+      expect(recordings.map((r) => r.id).sort()).toEqual([
+        'retro',
+        'standup.wav',
+      ]);
+      expect(recordings[0].platform).toBe(MeetingPlatform.LOCAL);
+    });
+
+    it('should download a speaker directory as a single mixed WAV file', async () => {
+      await fs.mkdir(path.join(workDir, 'retro'));
+      await writeWav(path.join(workDir, 'retro', 'alice.wav'), 1);
+      await writeWav(path.join(workDir, 'retro', 'bob.wav'), 0.5);
+
+      const stream = await recordingsAdapter.downloadRecording('retro');
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+      }
+
+      const decoded = wav.decode(Buffer.concat(chunks));
+      expect(decoded.sampleRate).toBe(8000);
+      expect(decoded.channelData[0].length).toBe(8000);
+    });
+  });
+});
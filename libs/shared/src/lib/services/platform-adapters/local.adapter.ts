@@ -0,0 +1,795 @@
+import { Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import { promises as fs, createReadStream } from 'fs';
+import * as path from 'path';
+import * as wav from 'node-wav';
+import {
+  MeetingPlatform,
+  MeetingCredentials,
+  MeetingJoinInfo,
+  MeetingSession,
+  MeetingRecording,
+  CloudRecording,
+  RecordingConfig,
+  MeetingParticipant,
+  ParticipantAudioStream,
+  MeetingStatus,
+  ParticipantRole,
+  MeetingEventType
+} from '../../interfaces/meeting-platform.interface';
+import { BasePlatformAdapter } from './base-platform.adapter';
+
+// Timeline file describing the scripted meeting, stored next to the audio
+// as `<name>.timeline.json` or as `timeline.json` inside a speaker directory
+export interface LocalMeetingTimeline {
+  participants?: Array<{
+    id: string;
+    name: string;
+    email?: string;
+    role?: ParticipantRole;
+    audioFile?: string;
+  }>;
+  events?: LocalTimelineEvent[];
+  // Video of the shared screen, relative to the timeline file
+  screenShare?: string;
+  // Format of headerless .pcm/.raw files (16-bit little endian)
+  pcm?: {
+    sampleRate?: number;
+    channels?: number;
+  };
+}
+
+export interface LocalTimelineEvent {
+  offset: number; // seconds from join
+  type: MeetingEventType;
+  participantId?: string;
+  data?: Record<string, unknown>;
+}
+
+interface LocalTrack {
+  participantId: string;
+  samples: Float32Array;
+}
+
+interface LocalSession {
+  sessionId: string;
+  meetingId: string;
+  sourcePath: string;
+  sampleRate: number;
+  tracks: LocalTrack[];
+  participants: MeetingParticipant[];
+  screenSharePath?: string;
+  timers: NodeJS.Timeout[];
+  streams: Readable[];
+  startTime: Date;
+}
+
+interface LocalRecording {
+  recordingId: string;
+  sessionId: string;
+  meetingId: string;
+  startTime: Date;
+}
+
+const STREAM_CHUNK_MS = 100;
+const DEFAULT_PCM_SAMPLE_RATE = 16000;
+const AUDIO_EXTENSIONS = ['.wav', '.pcm', '.raw'];
+
+@Injectable()
+export class LocalAdapter extends BasePlatformAdapter {
+  private activeSessions = new Map<string, LocalSession>();
+  private activeRecordings = new Map<string, LocalRecording>();
+  private baseDirectory = process.env['LOCAL_MEETINGS_DIR'] || process.cwd();
+
+  constructor() {
+    super(MeetingPlatform.LOCAL);
+  }
+
+  async authenticate(credentials: MeetingCredentials): Promise<boolean> {
+    // Local meetings need no vendor credentials
+    this.credentials = credentials;
+    this.isAuthenticated = true;
+    this.updateConnectionStatus({ isConnected: true });
+
+    this.logger.log('Local adapter ready');
+    return true;
+  }
+
+  async validateCredentials(credentials: MeetingCredentials): Promise<boolean> {
+    return credentials.platform === MeetingPlatform.LOCAL;
+  }
+
+  async joinMeeting(joinInfo: MeetingJoinInfo): Promise<MeetingSession> {
+    this.validateMeetingId(joinInfo.meetingId);
+
+    if (!this.isAuthenticated) {
+      throw new Error('Local adapter is not authenticated');
+    }
+
+    try {
+      const sourcePath = this.resolveSourcePath(joinInfo.meetingUrl || joinInfo.meetingId);
+      this.logger.log(`Joining local meeting from ${sourcePath}`);
+
+      const sessionId = this.generateSessionId();
+      const timeline = await this.loadTimeline(sourcePath);
+      const localSession = await this.loadSession(sessionId, joinInfo.meetingId, sourcePath, timeline);
+
+      this.activeSessions.set(sessionId, localSession);
+      this.scheduleTimeline(localSession, timeline.events || []);
+
+      const session: MeetingSession = {
+        sessionId,
+        meetingId: joinInfo.meetingId,
+        platform: MeetingPlatform.LOCAL,
+        status: MeetingStatus.IN_PROGRESS,
+        startTime: localSession.startTime,
+        participants: localSession.participants,
+        audioStreamUrl: `local://${sourcePath}`
+      };
+
+      this.emitEvent({
+        type: MeetingEventType.MEETING_STARTED,
+        sessionId,
+        meetingId: joinInfo.meetingId,
+        data: { participants: session.participants.length }
+      });
+
+      this.logger.log(`Successfully joined local meeting: ${joinInfo.meetingId}`);
+      return session;
+    } catch (error) {
+      throw this.handleError(error, 'Failed to join local meeting');
+    }
+  }
+
+  async rejoinMeeting(sessionId: string): Promise<MeetingSession> {
+    this.validateSessionId(sessionId);
+
+    const localSession = this.activeSessions.get(sessionId);
+    if (!localSession) {
+      throw new Error(`No active local session found: ${sessionId}`);
+    }
+
+    // Local audio keeps flowing while "disconnected", so only the status changes
+    this.updateConnectionStatus({ isConnected: true, retryCount: 0, nextRetryAt: undefined });
+
+    this.emitEvent({
+      type: MeetingEventType.CONNECTION_RESTORED,
+      sessionId,
+      meetingId: localSession.meetingId,
+      data: { restoredAt: new Date() }
+    });
+
+    return {
+      sessionId,
+      meetingId: localSession.meetingId,
+      platform: MeetingPlatform.LOCAL,
+      status: MeetingStatus.IN_PROGRESS,
+      startTime: localSession.startTime,
+      participants: localSession.participants,
+      audioStreamUrl: `local://${localSession.sourcePath}`
+    };
+  }
+
+  async leaveMeeting(sessionId: string): Promise<void> {
+    this.validateSessionId(sessionId);
+
+    const localSession = this.activeSessions.get(sessionId);
+    if (!localSession) {
+      throw new Error(`No active local session found: ${sessionId}`);
+    }
+
+    this.logger.log(`Leaving local meeting session: ${sessionId}`);
+    this.teardownSession(localSession);
+    this.activeSessions.delete(sessionId);
+
+    this.emitEvent({
+      type: MeetingEventType.MEETING_ENDED,
+      sessionId,
+      meetingId: localSession.meetingId,
+      data: { endTime: new Date() }
+    });
+  }
+
+  async getMeetingInfo(meetingId: string): Promise<MeetingJoinInfo> {
+    this.validateMeetingId(meetingId);
+
+    const sourcePath = this.resolveSourcePath(meetingId);
+    try {
+      const stats = await fs.stat(sourcePath);
+      return {
+        meetingId,
+        meetingUrl: sourcePath,
+        platform: MeetingPlatform.LOCAL,
+        scheduledTime: stats.mtime,
+        title: path.basename(sourcePath, path.extname(sourcePath))
+      };
+    } catch (error) {
+      throw this.handleError(error, 'Failed to get local meeting info');
+    }
+  }
+
+  async startRecording(sessionId: string, config: RecordingConfig): Promise<MeetingRecording> {
+    this.validateSessionId(sessionId);
+
+    const localSession = this.activeSessions.get(sessionId);
+    if (!localSession) {
+      throw new Error(`No active local session found: ${sessionId}`);
+    }
+
+    const recordingId = this.generateRecordingId();
+    const startTime = new Date();
+
+    this.activeRecordings.set(recordingId, {
+      recordingId,
+      sessionId,
+      meetingId: localSession.meetingId,
+      startTime
+    });
+
+    this.emitEvent({
+      type: MeetingEventType.RECORDING_STARTED,
+      sessionId,
+      meetingId: localSession.meetingId,
+      data: { recordingId, config }
+    });
+
+    return {
+      id: recordingId,
+      meetingId: localSession.meetingId,
+      sessionId,
+      platform: MeetingPlatform.LOCAL,
+      startTime,
+      status: 'recording'
+    };
+  }
+
+  async stopRecording(recordingId: string): Promise<MeetingRecording> {
+    this.validateRecordingId(recordingId);
+
+    const localRecording = this.activeRecordings.get(recordingId);
+    if (!localRecording) {
+      throw new Error(`No active local recording found: ${recordingId}`);
+    }
+
+    const localSession = this.activeSessions.get(localRecording.sessionId);
+    const endTime = new Date();
+    const duration = Math.round((endTime.getTime() - localRecording.startTime.getTime()) / 1000);
+
+    this.activeRecordings.delete(recordingId);
+
+    this.emitEvent({
+      type: MeetingEventType.RECORDING_STOPPED,
+      sessionId: localRecording.sessionId,
+      meetingId: localRecording.meetingId,
+      data: { recordingId, duration }
+    });
+
+    return {
+      id: recordingId,
+      meetingId: localRecording.meetingId,
+      sessionId: localRecording.sessionId,
+      platform: MeetingPlatform.LOCAL,
+      startTime: localRecording.startTime,
+      endTime,
+      duration,
+      audioUrl: localSession ? `file://${localSession.sourcePath}` : undefined,
+      status: 'completed'
+    };
+  }
+
+  async getRecording(recordingId: string): Promise<MeetingRecording> {
+    this.validateRecordingId(recordingId);
+
+    const localRecording = this.activeRecordings.get(recordingId);
+    if (!localRecording) {
+      throw new Error(`Local recording not found: ${recordingId}`);
+    }
+
+    return {
+      id: recordingId,
+      meetingId: localRecording.meetingId,
+      sessionId: localRecording.sessionId,
+      platform: MeetingPlatform.LOCAL,
+      startTime: localRecording.startTime,
+      status: 'recording'
+    };
+  }
+
+  // Every audio file or speaker directory under the base directory counts as
+  // a stored recording; its path relative to the base directory is the id
+  async listCloudRecordings(since: Date): Promise<CloudRecording[]> {
+    try {
+      const entries = await fs.readdir(this.baseDirectory, { withFileTypes: true });
+      const recordings: CloudRecording[] = [];
+
+      for (const entry of entries) {
+        const entryPath = path.join(this.baseDirectory, entry.name);
+        const isAudioFile = entry.isFile() && AUDIO_EXTENSIONS.includes(path.extname(entry.name).toLowerCase());
+        const isSpeakerDirectory = entry.isDirectory()
+          && (await fs.readdir(entryPath)).some(file => AUDIO_EXTENSIONS.includes(path.extname(file).toLowerCase()));
+
+        if (!isAudioFile && !isSpeakerDirectory) {
+          continue;
+        }
+
+        const stats = await fs.stat(entryPath);
+        if (stats.mtime < since) {
+          continue;
+        }
+
+        recordings.push({
+          id: entry.name,
+          platform: MeetingPlatform.LOCAL,
+          platformMeetingId: entry.name,
+          title: path.basename(entry.name, path.extname(entry.name)),
+          startTime: stats.mtime,
+          fileType: 'WAV',
+          size: isAudioFile ? stats.size : undefined
+        });
+      }
+
+      return recordings.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    } catch (error) {
+      throw this.handleError(error, 'Failed to list local recordings');
+    }
+  }
+
+  // Speaker directories and headerless PCM are mixed down to a single WAV file
+  async downloadRecording(recordingId: string): Promise<NodeJS.ReadableStream> {
+    this.validateRecordingId(recordingId);
+
+    try {
+      const sourcePath = this.resolveSourcePath(recordingId);
+      const timeline = await this.loadTimeline(sourcePath);
+      const localSession = await this.loadSession(recordingId, recordingId, sourcePath, timeline);
+
+      const encoded = wav.encode([this.mixTracks(localSession.tracks)], {
+        sampleRate: localSession.sampleRate,
+        float: false,
+        bitDepth: 16
+      });
+      return Readable.from([Buffer.from(encoded)]);
+    } catch (error) {
+      throw this.handleError(error, 'Failed to download local recording');
+    }
+  }
+
+  // Streams the mixed source as 16-bit mono PCM, paced at real time
+  async getAudioStream(sessionId: string): Promise<NodeJS.ReadableStream> {
+    this.validateSessionId(sessionId);
+
+    const localSession = this.activeSessions.get(sessionId);
+    if (!localSession) {
+      throw new Error(`No active local session found: ${sessionId}`);
+    }
+
+    const mixed = this.mixTracks(localSession.tracks);
+    const stream = this.createPacedStream(localSession, mixed, () => {
+      this.emitEvent({
+        type: MeetingEventType.AUDIO_STREAM_ENDED,
+        sessionId,
+        meetingId: localSession.meetingId,
+        data: { duration: mixed.length / localSession.sampleRate }
+      });
+    });
+
+    this.emitEvent({
+      type: MeetingEventType.AUDIO_STREAM_STARTED,
+      sessionId,
+      meetingId: localSession.meetingId,
+      data: { sampleRate: localSession.sampleRate, channels: 1, encoding: 'pcm_s16le' }
+    });
+
+    return stream;
+  }
+
+  // Every speaker file is its own track, so it can be streamed unmixed
+  override supportsMultiTrackAudio(): boolean {
+    return true;
+  }
+
+  override async getParticipantAudioStreams(sessionId: string): Promise<ParticipantAudioStream[]> {
+    this.validateSessionId(sessionId);
+
+    const localSession = this.activeSessions.get(sessionId);
+    if (!localSession) {
+      throw new Error(`No active local session found: ${sessionId}`);
+    }
+
+    let remaining = localSession.tracks.length;
+    const duration = Math.max(...localSession.tracks.map(track => track.samples.length)) / localSession.sampleRate;
+
+    const streams = localSession.tracks.map(track => ({
+      participantId: track.participantId,
+      name: localSession.participants.find(p => p.id === track.participantId)?.name,
+      stream: this.createPacedStream(localSession, track.samples, () => {
+        remaining--;
+        if (remaining === 0) {
+          this.emitEvent({
+            type: MeetingEventType.AUDIO_STREAM_ENDED,
+            sessionId,
+            meetingId: localSession.meetingId,
+            data: { duration }
+          });
+        }
+      })
+    }));
+
+    this.emitEvent({
+      type: MeetingEventType.AUDIO_STREAM_STARTED,
+      sessionId,
+      meetingId: localSession.meetingId,
+      data: {
+        sampleRate: localSession.sampleRate,
+        channels: 1,
+        encoding: 'pcm_s16le',
+        tracks: streams.map(track => track.participantId)
+      }
+    });
+
+    return streams;
+  }
+
+  // Scripted meetings can ship a video of the shared screen
+  override supportsScreenShareCapture(): boolean {
+    return true;
+  }
+
+  override async getScreenShareStream(sessionId: string): Promise<NodeJS.ReadableStream> {
+    this.validateSessionId(sessionId);
+
+    const localSession = this.activeSessions.get(sessionId);
+    if (!localSession) {
+      throw new Error(`No active local session found: ${sessionId}`);
+    }
+    if (!localSession.screenSharePath) {
+      throw new Error(`Local meeting ${localSession.meetingId} has no screen share`);
+    }
+
+    const stream = createReadStream(localSession.screenSharePath);
+    localSession.streams.push(stream);
+    return stream;
+  }
+
+  // There is no one to hear the bot in a local meeting, so output is logged
+  override async sendChatMessage(sessionId: string, message: string): Promise<void> {
+    this.validateSessionId(sessionId);
+
+    if (!this.activeSessions.has(sessionId)) {
+      throw new Error(`No active local session found: ${sessionId}`);
+    }
+
+    this.logger.log(`[chat ${sessionId}] ${message}`);
+  }
+
+  override async playAudio(sessionId: string, audio: Buffer): Promise<void> {
+    this.validateSessionId(sessionId);
+
+    if (!this.activeSessions.has(sessionId)) {
+      throw new Error(`No active local session found: ${sessionId}`);
+    }
+
+    this.logger.log(`[audio ${sessionId}] played ${audio.length} bytes`);
+  }
+
+  async getParticipants(sessionId: string): Promise<MeetingParticipant[]> {
+    this.validateSessionId(sessionId);
+
+    const localSession = this.activeSessions.get(sessionId);
+    if (!localSession) {
+      throw new Error(`No active local session found: ${sessionId}`);
+    }
+
+    return localSession.participants.filter(participant => !participant.leaveTime);
+  }
+
+  hasActiveSession(sessionId: string): boolean {
+    return this.activeSessions.has(sessionId);
+  }
+
+  override async cleanup(): Promise<void> {
+    for (const localSession of this.activeSessions.values()) {
+      this.teardownSession(localSession);
+    }
+    this.activeSessions.clear();
+    this.activeRecordings.clear();
+
+    await super.cleanup();
+  }
+
+  // Private helper methods
+  // Meeting ids and URLs come from API callers, so nothing outside the base
+  // directory may be read through them
+  private resolveSourcePath(location: string): string {
+    const stripped = location.replace(/^(local|file):\/\//, '');
+    return this.resolveInsideBaseDirectory(this.baseDirectory, stripped);
+  }
+
+  private resolveInsideBaseDirectory(from: string, location: string): string {
+    const base = path.resolve(this.baseDirectory);
+    const resolved = path.resolve(from, location);
+    const relative = path.relative(base, resolved);
+
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Local meeting path is outside ${base}: ${location}`);
+    }
+    return resolved;
+  }
+
+  private async loadSession(
+    sessionId: string,
+    meetingId: string,
+    sourcePath: string,
+    timeline: LocalMeetingTimeline
+  ): Promise<LocalSession> {
+    const stats = await fs.stat(sourcePath);
+
+    const files = stats.isDirectory()
+      ? (await fs.readdir(sourcePath))
+          .filter(file => AUDIO_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+          .sort()
+          .map(file => path.join(sourcePath, file))
+      : [sourcePath];
+
+    if (files.length === 0) {
+      throw new Error(`No audio files found in ${sourcePath}`);
+    }
+
+    const scripted = timeline.participants || [];
+    const participants: MeetingParticipant[] = [];
+    const tracks: LocalTrack[] = [];
+    let sampleRate: number | undefined;
+
+    for (const [index, file] of files.entries()) {
+      const decoded = await this.decodeAudioFile(file, timeline);
+
+      if (sampleRate !== undefined && decoded.sampleRate !== sampleRate) {
+        throw new Error(
+          `Speaker files must share a sample rate (${file} is ${decoded.sampleRate}Hz, expected ${sampleRate}Hz)`
+        );
+      }
+      sampleRate = decoded.sampleRate;
+
+      const baseName = path.basename(file);
+      const speakerName = path.basename(file, path.extname(file));
+      const scriptedParticipant = scripted.find(p => p.audioFile === baseName)
+        || (stats.isDirectory() ? undefined : scripted[0]);
+
+      const participant: MeetingParticipant = {
+        id: scriptedParticipant?.id || `local_participant_${index + 1}`,
+        name: scriptedParticipant?.name || (stats.isDirectory() ? speakerName : 'Local Speaker'),
+        email: scriptedParticipant?.email,
+        role: scriptedParticipant?.role || (index === 0 ? ParticipantRole.HOST : ParticipantRole.PARTICIPANT),
+        joinTime: new Date(),
+        isMuted: false,
+        isVideoOn: false
+      };
+
+      participants.push(participant);
+      tracks.push({ participantId: participant.id, samples: decoded.samples });
+    }
+
+    // Participants that appear in the timeline but have no audio of their own
+    for (const scriptedParticipant of scripted) {
+      if (!participants.some(p => p.id === scriptedParticipant.id)) {
+        participants.push({
+          id: scriptedParticipant.id,
+          name: scriptedParticipant.name,
+          email: scriptedParticipant.email,
+          role: scriptedParticipant.role || ParticipantRole.PARTICIPANT,
+          isMuted: true,
+          isVideoOn: false
+        });
+      }
+    }
+
+    return {
+      sessionId,
+      meetingId,
+      sourcePath,
+      sampleRate: sampleRate || DEFAULT_PCM_SAMPLE_RATE,
+      tracks,
+      participants,
+      screenSharePath: timeline.screenShare
+        ? this.resolveInsideBaseDirectory(
+            stats.isDirectory() ? sourcePath : path.dirname(sourcePath),
+            timeline.screenShare
+          )
+        : undefined,
+      timers: [],
+      streams: [],
+      startTime: new Date()
+    };
+  }
+
+  private async loadTimeline(sourcePath: string): Promise<LocalMeetingTimeline> {
+    const stats = await fs.stat(sourcePath);
+    const timelinePath = stats.isDirectory()
+      ? path.join(sourcePath, 'timeline.json')
+      : path.join(
+          path.dirname(sourcePath),
+          `${path.basename(sourcePath, path.extname(sourcePath))}.timeline.json`
+        );
+
+    try {
+      const content = await fs.readFile(timelinePath, 'utf8');
+      return JSON.parse(content) as LocalMeetingTimeline;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw new Error(`Invalid timeline file ${timelinePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async decodeAudioFile(
+    file: string,
+    timeline: LocalMeetingTimeline
+  ): Promise<{ samples: Float32Array; sampleRate: number }> {
+    const buffer = await fs.readFile(file);
+
+    if (path.extname(file).toLowerCase() === '.wav') {
+      const decoded = wav.decode(buffer);
+      return {
+        samples: this.downmix(decoded.channelData),
+        sampleRate: decoded.sampleRate
+      };
+    }
+
+    // Headerless PCM: signed 16-bit little endian, interleaved
+    const channels = timeline.pcm?.channels || 1;
+    const frameCount = Math.floor(buffer.length / (2 * channels));
+    const samples = new Float32Array(frameCount);
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      let sum = 0;
+      for (let channel = 0; channel < channels; channel++) {
+        sum += buffer.readInt16LE((frame * channels + channel) * 2) / 32768;
+      }
+      samples[frame] = sum / channels;
+    }
+
+    return {
+      samples,
+      sampleRate: timeline.pcm?.sampleRate || DEFAULT_PCM_SAMPLE_RATE
+    };
+  }
+
+  private downmix(channelData: readonly Float32Array[]): Float32Array {
+    if (channelData.length === 1) {
+      return channelData[0];
+    }
+
+    const samples = new Float32Array(channelData[0].length);
+    for (let i = 0; i < samples.length; i++) {
+      let sum = 0;
+      for (const channel of channelData) {
+        sum += channel[i];
+      }
+      samples[i] = sum / channelData.length;
+    }
+    return samples;
+  }
+
+  // Pushes the samples as 16-bit PCM on a timer so consumers see real-time pacing
+  private createPacedStream(localSession: LocalSession, samples: Float32Array, onEnd: () => void): Readable {
+    const samplesPerChunk = Math.floor((localSession.sampleRate * STREAM_CHUNK_MS) / 1000);
+    let position = 0;
+    let timer: NodeJS.Timeout | null = null;
+
+    const stopTimer = () => {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    };
+
+    const stream = new Readable({
+      read() {
+        // Data is pushed on a timer
+      },
+      destroy(error, callback) {
+        stopTimer();
+        callback(error);
+      }
+    });
+
+    timer = setInterval(() => {
+      if (position >= samples.length) {
+        stopTimer();
+        stream.push(null);
+        onEnd();
+        return;
+      }
+
+      const end = Math.min(position + samplesPerChunk, samples.length);
+      stream.push(this.encodePcm16(samples.subarray(position, end)));
+      position = end;
+    }, STREAM_CHUNK_MS);
+
+    localSession.streams.push(stream);
+    return stream;
+  }
+
+  private mixTracks(tracks: LocalTrack[]): Float32Array {
+    if (tracks.length === 1) {
+      return tracks[0].samples;
+    }
+
+    const length = Math.max(...tracks.map(track => track.samples.length));
+    const mixed = new Float32Array(length);
+
+    for (const track of tracks) {
+      for (let i = 0; i < track.samples.length; i++) {
+        mixed[i] += track.samples[i];
+      }
+    }
+
+    for (let i = 0; i < length; i++) {
+      mixed[i] = Math.max(-1, Math.min(1, mixed[i]));
+    }
+    return mixed;
+  }
+
+  private encodePcm16(samples: Float32Array): Buffer {
+    const buffer = Buffer.alloc(samples.length * 2);
+    for (let i = 0; i < samples.length; i++) {
+      const clamped = Math.max(-1, Math.min(1, samples[i]));
+      buffer.writeInt16LE(Math.round(clamped * 32767), i * 2);
+    }
+    return buffer;
+  }
+
+  private scheduleTimeline(localSession: LocalSession, events: LocalTimelineEvent[]): void {
+    for (const event of events) {
+      const timer = setTimeout(() => {
+        this.applyTimelineEvent(localSession, event);
+      }, Math.max(0, event.offset * 1000));
+
+      localSession.timers.push(timer);
+    }
+  }
+
+  private applyTimelineEvent(localSession: LocalSession, event: LocalTimelineEvent): void {
+    const participant = event.participantId
+      ? localSession.participants.find(p => p.id === event.participantId)
+      : undefined;
+
+    switch (event.type) {
+      case MeetingEventType.PARTICIPANT_JOINED:
+        if (participant) {
+          participant.joinTime = new Date();
+          participant.leaveTime = undefined;
+        }
+        break;
+      case MeetingEventType.PARTICIPANT_LEFT:
+        if (participant) {
+          participant.leaveTime = new Date();
+        }
+        break;
+      case MeetingEventType.CONNECTION_LOST:
+        this.updateConnectionStatus({ isConnected: false });
+        break;
+      case MeetingEventType.CONNECTION_RESTORED:
+        this.updateConnectionStatus({ isConnected: true });
+        break;
+    }
+
+    this.emitEvent({
+      type: event.type,
+      sessionId: localSession.sessionId,
+      meetingId: localSession.meetingId,
+      data: {
+        ...event.data,
+        ...(participant && { participantId: participant.id, name: participant.name })
+      }
+    });
+  }
+
+  private teardownSession(localSession: LocalSession): void {
+    localSession.timers.forEach(timer => clearTimeout(timer));
+    localSession.timers = [];
+    localSession.streams.forEach(stream => stream.destroy());
+    localSession.streams = [];
+  }
+}
@@ -8,6 +8,7 @@ import { ZoomAdapter } from './zoom.adapter';
 import { TeamsAdapter } from './teams.adapter';
 import { GoogleMeetAdapter } from './google-meet.adapter';
 import { WebExAdapter } from './webex.adapter';
+import { LocalAdapter } from './local.adapter';
 
 @Injectable()
 export class PlatformAdapterFactory {
@@ -18,7 +19,8 @@ export class PlatformAdapterFactory {
     private zoomAdapter: ZoomAdapter,
     private teamsAdapter: TeamsAdapter,
     private googleMeetAdapter: GoogleMeetAdapter,
-    private webexAdapter: WebExAdapter
+    private webexAdapter: WebExAdapter,
+    private localAdapter: LocalAdapter
   ) {
     this.initializeAdapters();
   }
@@ -28,6 +30,10 @@ export class PlatformAdapterFactory {
     this.adapters.set(MeetingPlatform.TEAMS, this.teamsAdapter);
     this.adapters.set(MeetingPlatform.GOOGLE_MEET, this.googleMeetAdapter);
     this.adapters.set(MeetingPlatform.WEBEX, this.webexAdapter);
+    // The local adapter reads files from this machine, so it is opt-in
+    if (process.env['LOCAL_PLATFORM_ENABLED'] === 'true') {
+      this.adapters.set(MeetingPlatform.LOCAL, this.localAdapter);
+    }
     
     this.logger.log(`Initialized ${this.adapters.size} platform adapters`);
   }
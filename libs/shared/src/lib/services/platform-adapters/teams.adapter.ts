@@ -1,432 +1,238 @@
-import { Injectable } from '@nestjs/common';
-import { Readable } from 'stream';
+import { Injectable, Inject } from '@nestjs/common';
 import {
   MeetingPlatform,
   MeetingCredentials,
   MeetingJoinInfo,
-  MeetingSession,
   MeetingRecording,
+  CloudRecording,
   RecordingConfig,
   MeetingParticipant,
-  MeetingStatus,
-  ParticipantRole,
-  MeetingEventType
+  ParticipantRole
 } from '../../interfaces/meeting-platform.interface';
-import { BasePlatformAdapter } from './base-platform.adapter';
-
+import { TransportPlatformAdapter, PlatformCall, RecordingOutput } from './transport-platform.adapter';
+import { PlatformTransport } from './transports/platform-transport.interface';
+import { TeamsRestTransport } from './transports/teams-rest.transport';
+
+interface GraphIdentity {
+  user?: { id?: string; displayName?: string; tenantId?: string };
+}
+
+// onlineMeeting resource
+interface TeamsOnlineMeeting {
+  id: string;
+  subject?: string;
+  joinWebUrl: string;
+  startDateTime: string;
+  chatInfo?: { threadId: string; messageId?: string };
+  participants?: { organizer?: { identity?: GraphIdentity; upn?: string } };
+}
+
+// call resource
+interface TeamsCall {
+  id: string;
+}
+
+interface TeamsParticipant {
+  id: string;
+  info?: { identity?: GraphIdentity };
+  isMuted?: boolean;
+  isInLobby?: boolean;
+}
+
+// callRecording resource as listed by Microsoft Graph
+interface TeamsCallRecording {
+  id: string;
+  meetingId: string;
+  createdDateTime: string;
+  endDateTime: string;
+  recordingContentUrl: string;
+  meetingOrganizer?: { user?: { id?: string; email?: string } };
+}
+
+// The bot joins through the Graph communications API with service-hosted media.
+// Receiving the meeting's audio needs application-hosted media, which only the
+// Real-time Media Platform SDK provides, so sessions have no live audio and are
+// transcribed from the meeting's cloud recording.
 @Injectable()
-export class TeamsAdapter extends BasePlatformAdapter {
-  private teamsClient: any; // Microsoft Graph client
-  private activeSessions = new Map<string, any>();
-  private activeRecordings = new Map<string, any>();
-
-  constructor() {
-    super(MeetingPlatform.TEAMS);
+export class TeamsAdapter extends TransportPlatformAdapter {
+  constructor(@Inject(TeamsRestTransport) transport: PlatformTransport) {
+    super(MeetingPlatform.TEAMS, transport, 'Microsoft Teams');
   }
 
-  async authenticate(credentials: MeetingCredentials): Promise<boolean> {
-    try {
-      this.logger.log('Authenticating with Microsoft Teams...');
-      
-      if (!credentials.clientId || !credentials.clientSecret) {
-        throw new Error('Teams client ID and secret are required');
-      }
-
-      // Initialize Microsoft Graph client
-      this.teamsClient = await this.initializeTeamsClient(credentials);
-      
-      this.credentials = credentials;
-      this.isAuthenticated = true;
-      this.updateConnectionStatus({ isConnected: true });
-      
-      this.logger.log('Successfully authenticated with Microsoft Teams');
-      return true;
-    } catch (error) {
-      this.handleError(error, 'Teams authentication failed');
-      return false;
-    }
+  protected hasRequiredCredentials(credentials: MeetingCredentials): boolean {
+    return !!credentials.accessToken || (!!credentials.clientId && !!credentials.clientSecret);
   }
 
-  async validateCredentials(credentials: MeetingCredentials): Promise<boolean> {
-    try {
-      // Validate required fields
-      if (!credentials.clientId || !credentials.clientSecret) {
-        return false;
-      }
-
-      // Test Graph API connection
-      const testResult = await this.testTeamsConnection(credentials);
-      return testResult;
-    } catch (error) {
-      this.logger.error('Teams credentials validation failed:', error);
-      return false;
-    }
-  }
-
-  async joinMeeting(joinInfo: MeetingJoinInfo): Promise<MeetingSession> {
-    this.validateMeetingId(joinInfo.meetingId);
-    
-    if (!this.isAuthenticated) {
-      throw new Error('Not authenticated with Microsoft Teams');
-    }
-
-    try {
-      this.logger.log(`Joining Teams meeting: ${joinInfo.meetingId}`);
-      
-      const sessionId = this.generateSessionId();
-      
-      // Join meeting using Microsoft Graph API
-      const teamsSession = await this.joinTeamsMeeting(joinInfo);
-      
-      const session: MeetingSession = {
-        sessionId,
-        meetingId: joinInfo.meetingId,
-        platform: MeetingPlatform.TEAMS,
-        status: MeetingStatus.IN_PROGRESS,
-        startTime: new Date(),
-        participants: await this.getTeamsParticipants(teamsSession),
-        audioStreamUrl: teamsSession.audioStreamUrl
-      };
-
-      this.activeSessions.set(sessionId, teamsSession);
-      
-      // Set up event listeners
-      this.setupTeamsEventListeners(sessionId, teamsSession);
-      
-      this.emitEvent({
-        type: MeetingEventType.MEETING_STARTED,
-        sessionId,
-        meetingId: joinInfo.meetingId,
-        data: { participants: session.participants.length }
-      });
-
-      this.logger.log(`Successfully joined Teams meeting: ${joinInfo.meetingId}`);
-      return session;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to join Teams meeting');
-    }
+  protected async testConnection(credentials: MeetingCredentials): Promise<boolean> {
+    await this.transport.request({ method: 'GET', path: '/organization', credentials });
+    return true;
   }
 
-  async leaveMeeting(sessionId: string): Promise<void> {
-    this.validateSessionId(sessionId);
-    
-    const teamsSession = this.activeSessions.get(sessionId);
-    if (!teamsSession) {
-      throw new Error(`No active Teams session found: ${sessionId}`);
-    }
-
-    try {
-      this.logger.log(`Leaving Teams meeting session: ${sessionId}`);
-      
-      // Leave meeting using Microsoft Graph API
-      await this.leaveTeamsMeeting(teamsSession);
-      
-      this.activeSessions.delete(sessionId);
-      
-      this.emitEvent({
-        type: MeetingEventType.MEETING_ENDED,
-        sessionId,
-        meetingId: teamsSession.meetingId,
-        data: { endTime: new Date() }
-      });
+  protected async fetchMeetingInfo(meetingId: string, credentials?: MeetingCredentials): Promise<MeetingJoinInfo> {
+    const meeting = await this.getOnlineMeeting(meetingId, credentials);
 
-      this.logger.log(`Successfully left Teams meeting session: ${sessionId}`);
-    } catch (error) {
-      throw this.handleError(error, 'Failed to leave Teams meeting');
-    }
+    return {
+      meetingId,
+      meetingUrl: meeting.joinWebUrl,
+      platform: MeetingPlatform.TEAMS,
+      scheduledTime: new Date(meeting.startDateTime),
+      hostEmail: meeting.participants?.organizer?.upn,
+      title: meeting.subject
+    };
   }
 
-  async getMeetingInfo(meetingId: string): Promise<MeetingJoinInfo> {
-    this.validateMeetingId(meetingId);
-    
-    if (!this.isAuthenticated) {
-      throw new Error('Not authenticated with Microsoft Teams');
-    }
+  // Joins through the Graph communications API, as the organizer's meeting
+  protected async connect(joinInfo: MeetingJoinInfo, credentials?: MeetingCredentials): Promise<PlatformCall> {
+    const meeting = await this.getOnlineMeeting(joinInfo.meetingId, credentials);
+    const organizer = meeting.participants?.organizer?.identity?.user;
+
+    const call = await this.transport.request<TeamsCall>({
+      method: 'POST',
+      path: '/communications/calls',
+      body: {
+        '@odata.type': '#microsoft.graph.call',
+        callbackUri: process.env['TEAMS_CALLBACK_URL'],
+        requestedModalities: ['audio'],
+        mediaConfig: { '@odata.type': '#microsoft.graph.serviceHostedMediaConfig' },
+        chatInfo: meeting.chatInfo,
+        meetingInfo: {
+          '@odata.type': '#microsoft.graph.organizerMeetingInfo',
+          organizer: { user: { id: organizer?.id, tenantId: organizer?.tenantId } }
+        },
+        source: { identity: { application: { displayName: joinInfo.botName || 'MeetGenie' } } },
+        tenantId: organizer?.tenantId
+      },
+      credentials
+    });
 
-    try {
-      // Get meeting info from Microsoft Graph API
-      const meetingInfo = await this.getTeamsMeetingInfo(meetingId);
-      
-      return {
-        meetingId,
-        meetingUrl: meetingInfo.joinWebUrl,
-        platform: MeetingPlatform.TEAMS,
-        scheduledTime: new Date(meetingInfo.startDateTime),
-        hostEmail: meetingInfo.organizer?.emailAddress?.address
-      };
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Teams meeting info');
-    }
+    return {
+      callId: call.id,
+      meetingId: joinInfo.meetingId,
+      chatId: meeting.chatInfo?.threadId
+    };
   }
 
-  async startRecording(sessionId: string, config: RecordingConfig): Promise<MeetingRecording> {
-    this.validateSessionId(sessionId);
-    
-    const teamsSession = this.activeSessions.get(sessionId);
-    if (!teamsSession) {
-      throw new Error(`No active Teams session found: ${sessionId}`);
-    }
-
-    try {
-      this.logger.log(`Starting recording for Teams session: ${sessionId}`);
-      
-      const recordingId = this.generateRecordingId();
-      
-      // Start recording using Microsoft Graph API
-      const teamsRecording = await this.startTeamsRecording(teamsSession, config);
-      
-      const recording: MeetingRecording = {
-        id: recordingId,
-        meetingId: teamsSession.meetingId,
-        sessionId,
-        platform: MeetingPlatform.TEAMS,
-        startTime: new Date(),
-        status: 'recording'
-      };
-
-      this.activeRecordings.set(recordingId, {
-        ...teamsRecording,
-        recordingId,
-        sessionId
-      });
-      
-      this.emitEvent({
-        type: MeetingEventType.RECORDING_STARTED,
-        sessionId,
-        meetingId: teamsSession.meetingId,
-        data: { recordingId, config }
-      });
-
-      this.logger.log(`Successfully started recording: ${recordingId}`);
-      return recording;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to start Teams recording');
-    }
+  protected async disconnect(call: PlatformCall, credentials?: MeetingCredentials): Promise<void> {
+    await this.transport.request({ method: 'DELETE', path: this.callPath(call), credentials });
   }
 
-  async stopRecording(recordingId: string): Promise<MeetingRecording> {
-    this.validateRecordingId(recordingId);
-    
-    const teamsRecording = this.activeRecordings.get(recordingId);
-    if (!teamsRecording) {
-      throw new Error(`No active Teams recording found: ${recordingId}`);
-    }
-
-    try {
-      this.logger.log(`Stopping Teams recording: ${recordingId}`);
-      
-      // Stop recording using Microsoft Graph API
-      const finalRecording = await this.stopTeamsRecording(teamsRecording);
-      
-      const recording: MeetingRecording = {
-        id: recordingId,
-        meetingId: teamsRecording.meetingId,
-        sessionId: teamsRecording.sessionId,
-        platform: MeetingPlatform.TEAMS,
-        startTime: teamsRecording.startTime,
-        endTime: new Date(),
-        duration: finalRecording.duration,
-        audioUrl: finalRecording.audioUrl,
-        videoUrl: finalRecording.videoUrl,
-        size: finalRecording.size,
-        status: 'completed'
-      };
-
-      this.activeRecordings.delete(recordingId);
-      
-      this.emitEvent({
-        type: MeetingEventType.RECORDING_STOPPED,
-        sessionId: teamsRecording.sessionId,
-        meetingId: teamsRecording.meetingId,
-        data: { recordingId, duration: recording.duration }
-      });
+  protected async fetchParticipants(call: PlatformCall, credentials?: MeetingCredentials): Promise<MeetingParticipant[]> {
+    const { value } = await this.transport.request<{ value: TeamsParticipant[] }>({
+      method: 'GET',
+      path: `${this.callPath(call)}/participants`,
+      credentials
+    });
 
-      this.logger.log(`Successfully stopped recording: ${recordingId}`);
-      return recording;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to stop Teams recording');
-    }
+    return value
+      .filter(participant => !participant.isInLobby && participant.info?.identity?.user)
+      .map(participant => ({
+        id: participant.info?.identity?.user?.id || participant.id,
+        name: participant.info?.identity?.user?.displayName || 'Unknown',
+        role: ParticipantRole.PARTICIPANT,
+        isMuted: participant.isMuted
+      }));
   }
 
-  async getRecording(recordingId: string): Promise<MeetingRecording> {
-    this.validateRecordingId(recordingId);
-    
-    try {
-      // Get recording info from Microsoft Graph API
-      const teamsRecording = await this.getTeamsRecordingInfo(recordingId);
-      
-      return {
-        id: recordingId,
-        meetingId: teamsRecording.meetingId,
-        sessionId: teamsRecording.sessionId,
-        platform: MeetingPlatform.TEAMS,
-        startTime: new Date(teamsRecording.createdDateTime),
-        endTime: new Date(teamsRecording.endDateTime),
-        duration: teamsRecording.duration,
-        audioUrl: teamsRecording.contentUrl,
-        size: teamsRecording.sizeInBytes,
-        status: teamsRecording.recordingStatus
-      };
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Teams recording');
-    }
+  protected async beginRecording(call: PlatformCall, config: RecordingConfig, credentials?: MeetingCredentials): Promise<void> {
+    await this.updateRecordingStatus(call, 'recording', credentials);
   }
 
-  async getAudioStream(sessionId: string): Promise<NodeJS.ReadableStream> {
-    this.validateSessionId(sessionId);
-    
-    const teamsSession = this.activeSessions.get(sessionId);
-    if (!teamsSession) {
-      throw new Error(`No active Teams session found: ${sessionId}`);
-    }
-
-    try {
-      // Get audio stream from Teams API
-      const audioStream = await this.getTeamsAudioStream(teamsSession);
-      return audioStream;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Teams audio stream');
-    }
+  // Graph only signals the recording state; the meeting's cloud recording holds the media
+  protected async endRecording(call: PlatformCall, credentials?: MeetingCredentials): Promise<RecordingOutput> {
+    await this.updateRecordingStatus(call, 'notRecording', credentials);
+    return {};
   }
 
-  async getParticipants(sessionId: string): Promise<MeetingParticipant[]> {
-    this.validateSessionId(sessionId);
-    
-    const teamsSession = this.activeSessions.get(sessionId);
-    if (!teamsSession) {
-      throw new Error(`No active Teams session found: ${sessionId}`);
-    }
-
-    try {
-      return await this.getTeamsParticipants(teamsSession);
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Teams participants');
-    }
-  }
+  // Recording ids are "<online meeting id>/<recording id>", as listed
+  protected async fetchRecording(recordingId: string, credentials?: MeetingCredentials): Promise<MeetingRecording> {
+    const recording = await this.transport.request<TeamsCallRecording>({
+      method: 'GET',
+      path: this.recordingPath(recordingId),
+      credentials
+    });
 
-  // Private helper methods (placeholder implementations)
-  private async initializeTeamsClient(credentials: MeetingCredentials): Promise<any> {
-    // Placeholder for Microsoft Graph client initialization
-    this.logger.debug('Initializing Microsoft Graph client...');
     return {
-      clientId: credentials.clientId,
-      clientSecret: credentials.clientSecret,
-      initialized: true
+      id: recordingId,
+      meetingId: recording.meetingId,
+      sessionId: recording.id,
+      platform: MeetingPlatform.TEAMS,
+      startTime: new Date(recording.createdDateTime),
+      endTime: new Date(recording.endDateTime),
+      duration: this.secondsBetween(recording.createdDateTime, recording.endDateTime),
+      videoUrl: recording.recordingContentUrl,
+      status: 'completed'
     };
   }
 
-  private async testTeamsConnection(credentials: MeetingCredentials): Promise<boolean> {
-    // Placeholder for testing Microsoft Graph API connection
-    this.logger.debug('Testing Teams connection...');
-    return true;
-  }
+  protected async fetchCloudRecordings(since: Date, credentials?: MeetingCredentials): Promise<CloudRecording[]> {
+    const { value } = await this.transport.request<{ value: TeamsCallRecording[] }>({
+      method: 'GET',
+      path: "/me/onlineMeetings/getAllRecordings(meetingOrganizerUserId='me')",
+      query: { $filter: `createdDateTime ge ${since.toISOString()}` },
+      credentials
+    });
 
-  private async joinTeamsMeeting(joinInfo: MeetingJoinInfo): Promise<any> {
-    // Placeholder for joining Teams meeting
-    this.logger.debug(`Joining Teams meeting: ${joinInfo.meetingId}`);
-    return {
-      meetingId: joinInfo.meetingId,
-      sessionId: this.generateSessionId(),
-      audioStreamUrl: `teams://audio/${joinInfo.meetingId}`,
-      participants: []
-    };
+    return value.map(recording => ({
+      id: `${recording.meetingId}/${recording.id}`,
+      platform: MeetingPlatform.TEAMS,
+      platformMeetingId: recording.meetingId,
+      startTime: new Date(recording.createdDateTime),
+      endTime: new Date(recording.endDateTime),
+      duration: this.secondsBetween(recording.createdDateTime, recording.endDateTime),
+      fileType: 'MP4',
+      downloadUrl: recording.recordingContentUrl,
+      hostEmail: recording.meetingOrganizer?.user?.email
+    }));
   }
 
-  private async leaveTeamsMeeting(teamsSession: any): Promise<void> {
-    // Placeholder for leaving Teams meeting
-    this.logger.debug('Leaving Teams meeting...');
+  // Streams the recording file from OneDrive through Microsoft Graph
+  protected async openRecordingDownload(recordingId: string, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream> {
+    return this.transport.stream({ method: 'GET', path: `${this.recordingPath(recordingId)}/content`, credentials });
   }
 
-  private async getTeamsMeetingInfo(meetingId: string): Promise<any> {
-    // Placeholder for getting Teams meeting info
-    this.logger.debug(`Getting Teams meeting info: ${meetingId}`);
-    return {
-      id: meetingId,
-      joinWebUrl: `https://teams.microsoft.com/l/meetup-join/${meetingId}`,
-      startDateTime: new Date().toISOString(),
-      organizer: {
-        emailAddress: {
-          address: 'organizer@example.com'
-        }
-      }
-    };
-  }
+  protected override async postChatMessage(call: PlatformCall, message: string, credentials?: MeetingCredentials): Promise<void> {
+    if (!call.chatId) {
+      throw new Error(`Teams meeting ${call.meetingId} has no chat`);
+    }
 
-  private async startTeamsRecording(teamsSession: any, config: RecordingConfig): Promise<any> {
-    // Placeholder for starting Teams recording
-    this.logger.debug('Starting Teams recording...');
-    return {
-      recordingId: this.generateRecordingId(),
-      startTime: new Date()
-    };
+    await this.transport.request({
+      method: 'POST',
+      path: `/chats/${call.chatId}/messages`,
+      body: { body: { content: message } },
+      credentials
+    });
   }
 
-  private async stopTeamsRecording(teamsRecording: any): Promise<any> {
-    // Placeholder for stopping Teams recording
-    this.logger.debug('Stopping Teams recording...');
-    return {
-      duration: 3600, // 1 hour in seconds
-      audioUrl: 'https://graph.microsoft.com/recording/audio/123',
-      videoUrl: 'https://graph.microsoft.com/recording/video/123',
-      size: 1024 * 1024 * 100 // 100MB
-    };
+  private callPath(call: PlatformCall): string {
+    return `/communications/calls/${call.callId}`;
   }
 
-  private async getTeamsRecordingInfo(recordingId: string): Promise<any> {
-    // Placeholder for getting Teams recording info
-    this.logger.debug(`Getting Teams recording info: ${recordingId}`);
-    return {
-      id: recordingId,
-      meetingId: 'meeting123',
-      sessionId: 'session123',
-      createdDateTime: new Date().toISOString(),
-      endDateTime: new Date().toISOString(),
-      duration: 3600,
-      contentUrl: 'https://graph.microsoft.com/recording/123',
-      sizeInBytes: 1024 * 1024 * 100,
-      recordingStatus: 'completed'
-    };
+  private recordingPath(recordingId: string): string {
+    const [meetingId, id] = recordingId.split('/');
+    if (!id) {
+      throw new Error(`Invalid Teams recording ID: ${recordingId}`);
+    }
+    return `/me/onlineMeetings/${meetingId}/recordings/${id}`;
   }
 
-  private async getTeamsAudioStream(teamsSession: any): Promise<NodeJS.ReadableStream> {
-    // Placeholder for getting Teams audio stream
-    this.logger.debug('Getting Teams audio stream...');
-    return new Readable({
-      read() {
-        // Placeholder audio data
-        this.push(Buffer.from('teams audio data'));
-      }
-    });
+  private async getOnlineMeeting(meetingId: string, credentials?: MeetingCredentials): Promise<TeamsOnlineMeeting> {
+    return this.transport.request<TeamsOnlineMeeting>({ method: 'GET', path: `/me/onlineMeetings/${meetingId}`, credentials });
   }
 
-  private async getTeamsParticipants(teamsSession: any): Promise<MeetingParticipant[]> {
-    // Placeholder for getting Teams participants
-    this.logger.debug('Getting Teams participants...');
-    return [
-      {
-        id: 'participant1',
-        name: 'Jane Smith',
-        email: 'jane@example.com',
-        role: ParticipantRole.HOST,
-        joinTime: new Date(),
-        isMuted: false,
-        isVideoOn: true
-      }
-    ];
+  private async updateRecordingStatus(
+    call: PlatformCall,
+    status: 'recording' | 'notRecording',
+    credentials?: MeetingCredentials
+  ): Promise<void> {
+    await this.transport.request({
+      method: 'POST',
+      path: `${this.callPath(call)}/updateRecordingStatus`,
+      body: { clientContext: call.meetingId, status },
+      credentials
+    });
   }
 
-  private setupTeamsEventListeners(sessionId: string, teamsSession: any): void {
-    // Placeholder for setting up Teams event listeners
-    this.logger.debug(`Setting up Teams event listeners for session: ${sessionId}`);
-    
-    // Simulate participant events
-    setTimeout(() => {
-      this.emitEvent({
-        type: MeetingEventType.PARTICIPANT_JOINED,
-        sessionId,
-        meetingId: teamsSession.meetingId,
-        data: { participantId: 'participant1', name: 'Jane Smith' }
-      });
-    }, 1000);
+  private secondsBetween(start: string, end: string): number {
+    return Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000);
   }
-}
\ No newline at end of file
+}
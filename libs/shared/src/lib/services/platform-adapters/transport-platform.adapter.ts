@@ -0,0 +1,505 @@
+import {
+  MeetingPlatform,
+  MeetingCredentials,
+  MeetingJoinInfo,
+  MeetingSession,
+  MeetingRecording,
+  CloudRecording,
+  RecordingConfig,
+  MeetingParticipant,
+  ParticipantAudioStream,
+  MeetingStatus,
+  MeetingEventType
+} from '../../interfaces/meeting-platform.interface';
+import { BasePlatformAdapter } from './base-platform.adapter';
+import { PlatformTransport } from './transports/platform-transport.interface';
+
+// The bot's connection to a meeting as the vendor identifies it
+export interface PlatformCall {
+  callId: string;
+  meetingId: string;
+  meetingCode?: string; // for vendors whose APIs look meetings up by their short code
+  chatId?: string; // where in-meeting chat is posted, when it differs from the meeting
+}
+
+// What the vendor reports about a recording once it has stopped
+export interface RecordingOutput {
+  duration?: number; // seconds
+  audioUrl?: string;
+  videoUrl?: string;
+  size?: number;
+}
+
+interface ActiveSession {
+  call: PlatformCall;
+  joinInfo: MeetingJoinInfo;
+  credentials?: MeetingCredentials;
+  startTime: Date;
+}
+
+interface ActiveRecording {
+  sessionId: string;
+  meetingId: string;
+  startTime: Date;
+}
+
+// Session and recording bookkeeping shared by the vendor adapters. Subclasses
+// only map the vendor's API, which they reach through the transport; optional
+// hooks they leave out are reported as unsupported capabilities.
+export abstract class TransportPlatformAdapter extends BasePlatformAdapter {
+  private activeSessions = new Map<string, ActiveSession>();
+  private activeRecordings = new Map<string, ActiveRecording>();
+
+  constructor(
+    platform: MeetingPlatform,
+    protected readonly transport: PlatformTransport,
+    // Platform name used in log and error messages
+    protected readonly displayName: string
+  ) {
+    super(platform);
+  }
+
+  protected abstract hasRequiredCredentials(credentials: MeetingCredentials): boolean;
+  protected abstract testConnection(credentials: MeetingCredentials): Promise<boolean>;
+  protected abstract fetchMeetingInfo(meetingId: string, credentials?: MeetingCredentials): Promise<MeetingJoinInfo>;
+  protected abstract connect(joinInfo: MeetingJoinInfo, credentials?: MeetingCredentials): Promise<PlatformCall>;
+  protected abstract disconnect(call: PlatformCall, credentials?: MeetingCredentials): Promise<void>;
+  protected abstract fetchParticipants(call: PlatformCall, credentials?: MeetingCredentials): Promise<MeetingParticipant[]>;
+  protected abstract beginRecording(call: PlatformCall, config: RecordingConfig, credentials?: MeetingCredentials): Promise<void>;
+  protected abstract endRecording(call: PlatformCall, credentials?: MeetingCredentials): Promise<RecordingOutput>;
+  protected abstract fetchRecording(recordingId: string, credentials?: MeetingCredentials): Promise<MeetingRecording>;
+  protected abstract fetchCloudRecordings(since: Date, credentials?: MeetingCredentials): Promise<CloudRecording[]>;
+  protected abstract openRecordingDownload(recordingId: string, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream>;
+
+  // None of the vendors' REST APIs deliver live meeting media; these hooks are
+  // for adapters backed by a media SDK, and unsupported where left out
+  protected openAudioStream?(call: PlatformCall, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream>;
+  protected openParticipantAudioStreams?(
+    call: PlatformCall,
+    participants: MeetingParticipant[],
+    credentials?: MeetingCredentials
+  ): Promise<ParticipantAudioStream[]>;
+  protected openScreenShareStream?(call: PlatformCall, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream>;
+  protected postChatMessage?(call: PlatformCall, message: string, credentials?: MeetingCredentials): Promise<void>;
+  protected sendAudio?(call: PlatformCall, audio: Buffer, credentials?: MeetingCredentials): Promise<void>;
+
+  async authenticate(credentials: MeetingCredentials): Promise<boolean> {
+    try {
+      this.logger.log(`Authenticating with ${this.displayName}...`);
+
+      if (!this.hasRequiredCredentials(credentials)) {
+        throw new Error(`${this.displayName} credentials are incomplete`);
+      }
+
+      this.credentials = credentials;
+      this.isAuthenticated = true;
+      this.updateConnectionStatus({ isConnected: true });
+
+      this.logger.log(`Successfully authenticated with ${this.displayName}`);
+      return true;
+    } catch (error) {
+      this.handleError(error, `${this.displayName} authentication failed`);
+      return false;
+    }
+  }
+
+  async validateCredentials(credentials: MeetingCredentials): Promise<boolean> {
+    try {
+      if (!this.hasRequiredCredentials(credentials)) {
+        return false;
+      }
+
+      return await this.testConnection(credentials);
+    } catch (error) {
+      this.logger.error(`${this.displayName} credentials validation failed:`, error);
+      return false;
+    }
+  }
+
+  async joinMeeting(joinInfo: MeetingJoinInfo, credentials?: MeetingCredentials): Promise<MeetingSession> {
+    this.validateMeetingId(joinInfo.meetingId);
+
+    if (!credentials && !this.isAuthenticated) {
+      throw new Error(`Not authenticated with ${this.displayName}`);
+    }
+
+    try {
+      this.logger.log(`Joining ${this.displayName} meeting: ${joinInfo.meetingId}`);
+
+      const sessionId = this.generateSessionId();
+
+      // Per-user credentials take precedence over the service account
+      const sessionCredentials = credentials ?? this.credentials;
+      const call = await this.connect(joinInfo, sessionCredentials);
+      const startTime = new Date();
+
+      const session: MeetingSession = {
+        sessionId,
+        meetingId: joinInfo.meetingId,
+        platform: this.platform,
+        status: MeetingStatus.IN_PROGRESS,
+        startTime,
+        participants: await this.fetchParticipants(call, sessionCredentials)
+      };
+
+      this.activeSessions.set(sessionId, {
+        call,
+        joinInfo,
+        credentials: sessionCredentials,
+        startTime
+      });
+
+      this.emitEvent({
+        type: MeetingEventType.MEETING_STARTED,
+        sessionId,
+        meetingId: joinInfo.meetingId,
+        data: { participants: session.participants.length }
+      });
+
+      this.logger.log(`Successfully joined ${this.displayName} meeting: ${joinInfo.meetingId}`);
+      return session;
+    } catch (error) {
+      throw this.handleError(error, `Failed to join ${this.displayName} meeting`);
+    }
+  }
+
+  async rejoinMeeting(sessionId: string): Promise<MeetingSession> {
+    const session = this.getActiveSession(sessionId);
+
+    try {
+      this.logger.log(`Rejoining ${this.displayName} meeting session: ${sessionId}`);
+
+      // Re-establish the connection under the existing session id
+      const call = await this.connect(session.joinInfo, session.credentials);
+      this.activeSessions.set(sessionId, { ...session, call });
+
+      this.updateConnectionStatus({ isConnected: true, retryCount: 0, nextRetryAt: undefined });
+
+      this.emitEvent({
+        type: MeetingEventType.CONNECTION_RESTORED,
+        sessionId,
+        meetingId: session.joinInfo.meetingId,
+        data: { restoredAt: new Date() }
+      });
+
+      return {
+        sessionId,
+        meetingId: session.joinInfo.meetingId,
+        platform: this.platform,
+        status: MeetingStatus.IN_PROGRESS,
+        startTime: session.startTime,
+        participants: await this.fetchParticipants(call, session.credentials)
+      };
+    } catch (error) {
+      throw this.handleError(error, `Failed to rejoin ${this.displayName} meeting`);
+    }
+  }
+
+  override async resumeSession(
+    sessionId: string,
+    joinInfo: MeetingJoinInfo,
+    credentials?: MeetingCredentials
+  ): Promise<MeetingSession> {
+    this.validateSessionId(sessionId);
+    this.validateMeetingId(joinInfo.meetingId);
+
+    if (!credentials && !this.isAuthenticated) {
+      throw new Error(`Not authenticated with ${this.displayName}`);
+    }
+
+    try {
+      this.logger.log(`Resuming ${this.displayName} meeting session: ${sessionId}`);
+
+      // Connecting fails once the meeting has ended on the platform
+      const sessionCredentials = credentials ?? this.credentials;
+      const call = await this.connect(joinInfo, sessionCredentials);
+      const startTime = new Date();
+
+      this.activeSessions.set(sessionId, {
+        call,
+        joinInfo,
+        credentials: sessionCredentials,
+        startTime
+      });
+
+      return {
+        sessionId,
+        meetingId: joinInfo.meetingId,
+        platform: this.platform,
+        status: MeetingStatus.IN_PROGRESS,
+        startTime,
+        participants: await this.fetchParticipants(call, sessionCredentials)
+      };
+    } catch (error) {
+      throw this.handleError(error, `Failed to resume ${this.displayName} meeting`);
+    }
+  }
+
+  async leaveMeeting(sessionId: string): Promise<void> {
+    const session = this.getActiveSession(sessionId);
+
+    try {
+      this.logger.log(`Leaving ${this.displayName} meeting session: ${sessionId}`);
+
+      await this.disconnect(session.call, session.credentials);
+
+      this.activeSessions.delete(sessionId);
+
+      this.emitEvent({
+        type: MeetingEventType.MEETING_ENDED,
+        sessionId,
+        meetingId: session.joinInfo.meetingId,
+        data: { endTime: new Date() }
+      });
+
+      this.logger.log(`Successfully left ${this.displayName} meeting session: ${sessionId}`);
+    } catch (error) {
+      throw this.handleError(error, `Failed to leave ${this.displayName} meeting`);
+    }
+  }
+
+  async getMeetingInfo(meetingId: string, credentials?: MeetingCredentials): Promise<MeetingJoinInfo> {
+    this.validateMeetingId(meetingId);
+
+    if (!credentials && !this.isAuthenticated) {
+      throw new Error(`Not authenticated with ${this.displayName}`);
+    }
+
+    try {
+      return await this.fetchMeetingInfo(meetingId, credentials ?? this.credentials);
+    } catch (error) {
+      throw this.handleError(error, `Failed to get ${this.displayName} meeting info`);
+    }
+  }
+
+  async startRecording(sessionId: string, config: RecordingConfig): Promise<MeetingRecording> {
+    const session = this.getActiveSession(sessionId);
+
+    try {
+      this.logger.log(`Starting recording for ${this.displayName} session: ${sessionId}`);
+
+      const recordingId = this.generateRecordingId();
+      await this.beginRecording(session.call, config, session.credentials);
+
+      const recording: MeetingRecording = {
+        id: recordingId,
+        meetingId: session.joinInfo.meetingId,
+        sessionId,
+        platform: this.platform,
+        startTime: new Date(),
+        status: 'recording'
+      };
+
+      this.activeRecordings.set(recordingId, {
+        sessionId,
+        meetingId: recording.meetingId,
+        startTime: recording.startTime
+      });
+
+      this.emitEvent({
+        type: MeetingEventType.RECORDING_STARTED,
+        sessionId,
+        meetingId: recording.meetingId,
+        data: { recordingId, config }
+      });
+
+      this.logger.log(`Successfully started recording: ${recordingId}`);
+      return recording;
+    } catch (error) {
+      throw this.handleError(error, `Failed to start ${this.displayName} recording`);
+    }
+  }
+
+  async stopRecording(recordingId: string): Promise<MeetingRecording> {
+    this.validateRecordingId(recordingId);
+
+    const activeRecording = this.activeRecordings.get(recordingId);
+    if (!activeRecording) {
+      throw new Error(`No active ${this.displayName} recording found: ${recordingId}`);
+    }
+
+    try {
+      this.logger.log(`Stopping ${this.displayName} recording: ${recordingId}`);
+
+      // The session may already be gone, e.g. when the meeting ended first
+      const session = this.activeSessions.get(activeRecording.sessionId);
+      const output = session ? await this.endRecording(session.call, session.credentials) : {};
+
+      const recording: MeetingRecording = {
+        id: recordingId,
+        meetingId: activeRecording.meetingId,
+        sessionId: activeRecording.sessionId,
+        platform: this.platform,
+        startTime: activeRecording.startTime,
+        endTime: new Date(),
+        duration: output.duration,
+        audioUrl: output.audioUrl,
+        videoUrl: output.videoUrl,
+        size: output.size,
+        status: 'completed'
+      };
+
+      this.activeRecordings.delete(recordingId);
+
+      this.emitEvent({
+        type: MeetingEventType.RECORDING_STOPPED,
+        sessionId: activeRecording.sessionId,
+        meetingId: activeRecording.meetingId,
+        data: { recordingId, duration: recording.duration }
+      });
+
+      this.logger.log(`Successfully stopped recording: ${recordingId}`);
+      return recording;
+    } catch (error) {
+      throw this.handleError(error, `Failed to stop ${this.displayName} recording`);
+    }
+  }
+
+  async getRecording(recordingId: string): Promise<MeetingRecording> {
+    this.validateRecordingId(recordingId);
+
+    try {
+      return await this.fetchRecording(recordingId, this.credentials);
+    } catch (error) {
+      throw this.handleError(error, `Failed to get ${this.displayName} recording`);
+    }
+  }
+
+  async listCloudRecordings(since: Date, credentials?: MeetingCredentials): Promise<CloudRecording[]> {
+    if (!credentials && !this.isAuthenticated) {
+      throw new Error(`Not authenticated with ${this.displayName}`);
+    }
+
+    try {
+      return await this.fetchCloudRecordings(since, credentials ?? this.credentials);
+    } catch (error) {
+      throw this.handleError(error, `Failed to list ${this.displayName} cloud recordings`);
+    }
+  }
+
+  async downloadRecording(recordingId: string, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream> {
+    this.validateRecordingId(recordingId);
+
+    if (!credentials && !this.isAuthenticated) {
+      throw new Error(`Not authenticated with ${this.displayName}`);
+    }
+
+    try {
+      return await this.openRecordingDownload(recordingId, credentials ?? this.credentials);
+    } catch (error) {
+      throw this.handleError(error, `Failed to download ${this.displayName} recording`);
+    }
+  }
+
+  // The transport only attaches the token to the vendor's own domains, so a
+  // forged link receives the request without it
+  override async downloadRecordingUrl(url: string, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream> {
+    try {
+      return await this.transport.stream({ method: 'GET', path: url, credentials: credentials ?? this.credentials });
+    } catch (error) {
+      throw this.handleError(error, `Failed to download ${this.displayName} recording`);
+    }
+  }
+
+  override supportsLiveAudio(): boolean {
+    return !!this.openAudioStream;
+  }
+
+  async getAudioStream(sessionId: string): Promise<NodeJS.ReadableStream> {
+    if (!this.openAudioStream) {
+      throw new Error(`Live audio is not available on ${this.platform} (session ${sessionId})`);
+    }
+    const session = this.getActiveSession(sessionId);
+
+    try {
+      return await this.openAudioStream(session.call, session.credentials);
+    } catch (error) {
+      throw this.handleError(error, `Failed to get ${this.displayName} audio stream`);
+    }
+  }
+
+  override supportsMultiTrackAudio(): boolean {
+    return !!this.openParticipantAudioStreams;
+  }
+
+  override async getParticipantAudioStreams(sessionId: string): Promise<ParticipantAudioStream[]> {
+    if (!this.openParticipantAudioStreams) {
+      return super.getParticipantAudioStreams(sessionId);
+    }
+    const session = this.getActiveSession(sessionId);
+
+    try {
+      const participants = await this.fetchParticipants(session.call, session.credentials);
+      return await this.openParticipantAudioStreams(session.call, participants, session.credentials);
+    } catch (error) {
+      throw this.handleError(error, `Failed to get ${this.displayName} participant audio streams`);
+    }
+  }
+
+  override supportsScreenShareCapture(): boolean {
+    return !!this.openScreenShareStream;
+  }
+
+  override async getScreenShareStream(sessionId: string): Promise<NodeJS.ReadableStream> {
+    if (!this.openScreenShareStream) {
+      return super.getScreenShareStream(sessionId);
+    }
+    const session = this.getActiveSession(sessionId);
+
+    try {
+      return await this.openScreenShareStream(session.call, session.credentials);
+    } catch (error) {
+      throw this.handleError(error, `Failed to get ${this.displayName} screen share stream`);
+    }
+  }
+
+  override async sendChatMessage(sessionId: string, message: string): Promise<void> {
+    if (!this.postChatMessage) {
+      return super.sendChatMessage(sessionId, message);
+    }
+    const session = this.getActiveSession(sessionId);
+
+    try {
+      await this.postChatMessage(session.call, message, session.credentials);
+    } catch (error) {
+      throw this.handleError(error, `Failed to send ${this.displayName} chat message`);
+    }
+  }
+
+  override async playAudio(sessionId: string, audio: Buffer): Promise<void> {
+    if (!this.sendAudio) {
+      return super.playAudio(sessionId, audio);
+    }
+    const session = this.getActiveSession(sessionId);
+
+    try {
+      await this.sendAudio(session.call, audio, session.credentials);
+    } catch (error) {
+      throw this.handleError(error, `Failed to play ${this.displayName} audio`);
+    }
+  }
+
+  async getParticipants(sessionId: string): Promise<MeetingParticipant[]> {
+    const session = this.getActiveSession(sessionId);
+
+    try {
+      return await this.fetchParticipants(session.call, session.credentials);
+    } catch (error) {
+      throw this.handleError(error, `Failed to get ${this.displayName} participants`);
+    }
+  }
+
+  hasActiveSession(sessionId: string): boolean {
+    return this.activeSessions.has(sessionId);
+  }
+
+  private getActiveSession(sessionId: string): ActiveSession {
+    this.validateSessionId(sessionId);
+
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`No active ${this.displayName} session found: ${sessionId}`);
+    }
+    return session;
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { MeetingPlatform, MeetingCredentials } from '../../../interfaces/meeting-platform.interface';
+import { HttpRestTransport, ServiceToken } from './http-rest.transport';
+
+// Google Meet REST API v2; Calendar and Drive calls pass absolute URLs. Google
+// has no app-only access to meetings, so calls act for a user whose refresh
+// token the credentials carry.
+@Injectable()
+export class GoogleMeetRestTransport extends HttpRestTransport {
+  constructor() {
+    super(MeetingPlatform.GOOGLE_MEET, 'https://meet.googleapis.com/v2', ['googleapis.com']);
+  }
+
+  protected async requestServiceToken(credentials: MeetingCredentials): Promise<ServiceToken> {
+    if (!credentials.clientId || !credentials.clientSecret || !credentials.refreshToken) {
+      throw new Error('Google Meet needs a client ID, secret and a user refresh token');
+    }
+
+    return this.postTokenForm('https://oauth2.googleapis.com/token', {
+      grant_type: 'refresh_token',
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
+      refresh_token: credentials.refreshToken
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { ZoomRestTransport } from './zoom-rest.transport';
+import { MeetingPlatform } from '../../../interfaces/meeting-platform.interface';
+
+describe('HttpRestTransport', () => {
+  let fetchMock: jest.Mock;
+  let transport: ZoomRestTransport;
+
+  const credentials = {
+    platform: MeetingPlatform.ZOOM,
+    accessToken: 'user-token',
+  };
+
+  const authorization = (call: number) =>
+    (fetchMock.mock.calls[call][1] as { headers: Record<string, string> })
+      .headers['Authorization'];
+
+  beforeEach(() => {
+    fetchMock = jest.fn(async () => new Response('{}', { status: 200 }));
+    jest.spyOn(global, 'fetch').mockImplementation(fetchMock);
+    transport = new ZoomRestTransport();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send the token to the API and the vendor download hosts', async () => {
+    await transport.request({ method: 'GET', path: '/users/me', credentials });
+    await transport.stream({
+      method: 'GET',
+      path: 'https://us02web.zoom.us/rec/download/m4a-token',
+      credentials,
+    });
+
+    expect(fetchMock.mock.calls[0][0].toString()).toBe(
+      'https://api.zoom.us/v2/users/me',
+    );
+    expect(authorization(0)).toBe('Bearer user-token');
+    expect(authorization(1)).toBe('Bearer user-token');
+  });
+
+  it('should not send the token to other hosts', async () => {
+    for (const path of [
+      'https://attacker.example/rec/download/m4a-token',
+      'https://zoom.us.attacker.example/rec',
+      'http://us02web.zoom.us/rec/download/m4a-token',
+    ]) {
+      await transport.stream({ method: 'GET', path, credentials });
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    [0, 1, 2].forEach((call) => expect(authorization(call)).toBeUndefined());
+  });
+});
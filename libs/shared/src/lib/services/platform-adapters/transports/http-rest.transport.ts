@@ -0,0 +1,142 @@
+import { Readable } from 'stream';
+import { MeetingPlatform, MeetingCredentials } from '../../../interfaces/meeting-platform.interface';
+import { PlatformTransport, TransportRequest } from './platform-transport.interface';
+
+export interface ServiceToken {
+  accessToken: string;
+  expiresIn: number; // seconds
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Tokens are renewed this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Failed calls carry the HTTP status as their error code
+export function createTransportError(
+  platform: MeetingPlatform,
+  request: Pick<TransportRequest, 'method' | 'path'>,
+  status: number,
+  detail?: string
+): Error {
+  const error = new Error(`${platform} API ${request.method} ${request.path} failed with ${status}${detail ? `: ${detail}` : ''}`);
+  return Object.assign(error, { code: `HTTP_${status}`, status });
+}
+
+// Calls a vendor's REST API with fetch. Vendors differ in their base URL, the
+// domains their access tokens may be sent to, and how service credentials
+// without an access token are exchanged for one.
+export abstract class HttpRestTransport implements PlatformTransport {
+  private tokens = new Map<string, CachedToken>();
+
+  constructor(
+    public readonly platform: MeetingPlatform,
+    protected readonly baseUrl: string,
+    // The vendor's own domains, subdomains included
+    private readonly tokenDomains: string[]
+  ) {}
+
+  async request<T = unknown>(request: TransportRequest): Promise<T> {
+    const response = await this.send(request);
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  async stream(request: TransportRequest): Promise<NodeJS.ReadableStream> {
+    const response = await this.send(request);
+    if (!response.body) {
+      throw createTransportError(this.platform, request, response.status, 'response has no body');
+    }
+    return Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]);
+  }
+
+  protected abstract requestServiceToken(credentials: MeetingCredentials): Promise<ServiceToken>;
+
+  // Shared by vendors whose token endpoint takes a form-encoded OAuth grant
+  protected async postTokenForm(
+    tokenUrl: string,
+    params: Record<string, string>,
+    basicAuth?: { username: string; password: string }
+  ): Promise<ServiceToken> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json'
+    };
+    if (basicAuth) {
+      headers['Authorization'] = `Basic ${Buffer.from(`${basicAuth.username}:${basicAuth.password}`).toString('base64')}`;
+    }
+
+    const response = await fetch(tokenUrl, { method: 'POST', headers, body: new URLSearchParams(params) });
+    if (!response.ok) {
+      throw createTransportError(this.platform, { method: 'POST', path: tokenUrl }, response.status, await response.text());
+    }
+
+    const token = (await response.json()) as { access_token?: string; expires_in?: number };
+    if (!token.access_token) {
+      throw new Error(`${this.platform} token response did not include an access token`);
+    }
+    return { accessToken: token.access_token, expiresIn: token.expires_in ?? 3600 };
+  }
+
+  private async send(request: TransportRequest): Promise<Response> {
+    const url = this.buildUrl(request);
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    // Absolute URLs come from responses and webhooks; the token only goes to the vendor
+    if (request.credentials && this.isVendorUrl(url)) {
+      headers['Authorization'] = `Bearer ${await this.getAccessToken(request.credentials)}`;
+    }
+
+    let body: string | Buffer | undefined;
+    if (Buffer.isBuffer(request.body)) {
+      body = request.body;
+      headers['Content-Type'] = request.contentType || 'application/octet-stream';
+    } else if (request.body !== undefined) {
+      body = JSON.stringify(request.body);
+      headers['Content-Type'] = request.contentType || 'application/json';
+    }
+
+    const response = await fetch(url, { method: request.method, headers, body });
+    if (!response.ok) {
+      throw createTransportError(this.platform, request, response.status, await response.text().catch(() => undefined));
+    }
+    return response;
+  }
+
+  private buildUrl(request: TransportRequest): URL {
+    const url = new URL(/^https?:\/\//.test(request.path) ? request.path : `${this.baseUrl}${request.path}`);
+    for (const [key, value] of Object.entries(request.query || {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+    return url;
+  }
+
+  private isVendorUrl(url: URL): boolean {
+    return (
+      url.protocol === 'https:' &&
+      this.tokenDomains.some(domain => url.hostname === domain || url.hostname.endsWith(`.${domain}`))
+    );
+  }
+
+  // Per-user credentials carry their own token; service credentials are
+  // exchanged once and reused until shortly before the token expires
+  private async getAccessToken(credentials: MeetingCredentials): Promise<string> {
+    if (credentials.accessToken) {
+      return credentials.accessToken;
+    }
+
+    const key = [credentials.apiKey, credentials.clientId, credentials.refreshToken].join(':');
+    const cached = this.tokens.get(key);
+    if (cached && cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+      return cached.accessToken;
+    }
+
+    const token = await this.requestServiceToken(credentials);
+    this.tokens.set(key, { accessToken: token.accessToken, expiresAt: Date.now() + token.expiresIn * 1000 });
+    return token.accessToken;
+  }
+}
@@ -0,0 +1,35 @@
+import { MeetingPlatform, MeetingCredentials } from '../../../interfaces/meeting-platform.interface';
+
+export type TransportMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface TransportRequest {
+  method: TransportMethod;
+  path: string; // relative to the vendor API, or an absolute URL such as a download link
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown; // sent as JSON, or as-is when a Buffer
+  contentType?: string;
+  // Credentials of the call; the transport turns them into an access token
+  credentials?: MeetingCredentials;
+}
+
+// A vendor API call as captured for replay; bodies of streamed responses are base64
+export interface RecordedExchange {
+  request: {
+    method: TransportMethod;
+    path: string;
+    query?: Record<string, string>;
+  };
+  response: {
+    status: number;
+    body?: unknown;
+    base64Body?: string;
+  };
+}
+
+// Every vendor API call an adapter makes goes through a transport, so adapters
+// can run against the live REST API or against captured responses
+export interface PlatformTransport {
+  readonly platform: MeetingPlatform;
+  request<T = unknown>(request: TransportRequest): Promise<T>;
+  stream(request: TransportRequest): Promise<NodeJS.ReadableStream>;
+}
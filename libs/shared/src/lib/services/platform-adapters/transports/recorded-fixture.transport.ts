@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { MeetingPlatform } from '../../../interfaces/meeting-platform.interface';
+import { PlatformTransport, TransportRequest, RecordedExchange } from './platform-transport.interface';
+import { createTransportError } from './http-rest.transport';
+
+// Fixture file of captured vendor responses
+export interface TransportFixture {
+  platform: MeetingPlatform;
+  // Where the exchanges came from, e.g. that they were written by hand
+  source?: string;
+  exchanges: RecordedExchange[];
+}
+
+// Replays captured vendor responses so adapters can be verified offline. Each
+// exchange answers one call, in the order it was recorded among calls to the
+// same method and path; a call nothing was recorded for fails.
+export class RecordedFixtureTransport implements PlatformTransport {
+  // Every call made, for assertions on what the adapter sent
+  readonly requests: TransportRequest[] = [];
+  private remaining: RecordedExchange[];
+
+  constructor(
+    public readonly platform: MeetingPlatform,
+    exchanges: RecordedExchange[]
+  ) {
+    this.remaining = [...exchanges];
+  }
+
+  static async fromFile(file: string): Promise<RecordedFixtureTransport> {
+    const fixture = JSON.parse(await fs.readFile(file, 'utf8')) as TransportFixture;
+    return new RecordedFixtureTransport(fixture.platform, fixture.exchanges);
+  }
+
+  async request<T = unknown>(request: TransportRequest): Promise<T> {
+    const { response } = this.replay(request);
+    return response.body as T;
+  }
+
+  async stream(request: TransportRequest): Promise<NodeJS.ReadableStream> {
+    const { response } = this.replay(request);
+    const body = response.base64Body !== undefined
+      ? Buffer.from(response.base64Body, 'base64')
+      : Buffer.from(typeof response.body === 'string' ? response.body : JSON.stringify(response.body ?? ''));
+    return Readable.from([body]);
+  }
+
+  // Exchanges no call has used yet
+  get pending(): RecordedExchange[] {
+    return [...this.remaining];
+  }
+
+  private replay(request: TransportRequest): RecordedExchange {
+    this.requests.push(request);
+
+    const index = this.remaining.findIndex(exchange => this.matches(exchange, request));
+    if (index === -1) {
+      throw new Error(`No recorded ${this.platform} response for ${request.method} ${request.path}`);
+    }
+
+    const [exchange] = this.remaining.splice(index, 1);
+    if (exchange.response.status >= 400) {
+      throw createTransportError(this.platform, request, exchange.response.status, JSON.stringify(exchange.response.body));
+    }
+    return exchange;
+  }
+
+  // Query parameters only have to match when the fixture records them
+  private matches(exchange: RecordedExchange, request: TransportRequest): boolean {
+    if (exchange.request.method !== request.method || exchange.request.path !== request.path) {
+      return false;
+    }
+
+    return Object.entries(exchange.request.query || {}).every(
+      ([key, value]) => String(request.query?.[key]) === value
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { MeetingPlatform, MeetingCredentials } from '../../../interfaces/meeting-platform.interface';
+import { HttpRestTransport, ServiceToken } from './http-rest.transport';
+
+// Microsoft Graph; the service account is an app registration in the tenant
+// the bot records meetings for
+@Injectable()
+export class TeamsRestTransport extends HttpRestTransport {
+  private readonly tenantId = process.env['TEAMS_TENANT_ID'];
+
+  constructor() {
+    super(MeetingPlatform.TEAMS, 'https://graph.microsoft.com/v1.0', ['graph.microsoft.com']);
+  }
+
+  protected async requestServiceToken(credentials: MeetingCredentials): Promise<ServiceToken> {
+    if (!credentials.clientId || !credentials.clientSecret || !this.tenantId) {
+      throw new Error('Microsoft Graph app access needs a client ID, secret and TEAMS_TENANT_ID');
+    }
+
+    return this.postTokenForm(`https://login.microsoftonline.com/${this.tenantId}/oauth2/v2.0/token`, {
+      grant_type: 'client_credentials',
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
+      scope: 'https://graph.microsoft.com/.default'
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { MeetingPlatform, MeetingCredentials } from '../../../interfaces/meeting-platform.interface';
+import { HttpRestTransport, ServiceToken } from './http-rest.transport';
+
+// Webex REST API; bots usually carry their own access token, integrations
+// refresh theirs with the client credentials
+@Injectable()
+export class WebExRestTransport extends HttpRestTransport {
+  constructor() {
+    // Temporary recording download links are pre-signed and get no token
+    super(MeetingPlatform.WEBEX, 'https://webexapis.com/v1', ['webexapis.com']);
+  }
+
+  protected async requestServiceToken(credentials: MeetingCredentials): Promise<ServiceToken> {
+    if (!credentials.clientId || !credentials.clientSecret || !credentials.refreshToken) {
+      throw new Error('Webex needs an access token, or a client ID, secret and refresh token');
+    }
+
+    return this.postTokenForm('https://webexapis.com/v1/access_token', {
+      grant_type: 'refresh_token',
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
+      refresh_token: credentials.refreshToken
+    });
+  }
+}
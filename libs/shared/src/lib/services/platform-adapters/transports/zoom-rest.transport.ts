@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { MeetingPlatform, MeetingCredentials } from '../../../interfaces/meeting-platform.interface';
+import { HttpRestTransport, ServiceToken } from './http-rest.transport';
+
+// Zoom REST API v2; the service account's API key and secret are the client
+// ID and secret of a server-to-server OAuth app
+@Injectable()
+export class ZoomRestTransport extends HttpRestTransport {
+  private readonly accountId = process.env['ZOOM_ACCOUNT_ID'];
+
+  constructor() {
+    // Recording download links are on the account's own zoom.us subdomain
+    super(MeetingPlatform.ZOOM, 'https://api.zoom.us/v2', ['zoom.us']);
+  }
+
+  protected async requestServiceToken(credentials: MeetingCredentials): Promise<ServiceToken> {
+    if (!credentials.apiKey || !credentials.apiSecret || !this.accountId) {
+      throw new Error('Zoom server-to-server OAuth needs an API key, secret and ZOOM_ACCOUNT_ID');
+    }
+
+    return this.postTokenForm(
+      'https://zoom.us/oauth/token',
+      { grant_type: 'account_credentials', account_id: this.accountId },
+      { username: credentials.apiKey, password: credentials.apiSecret }
+    );
+  }
+}
@@ -1,431 +1,186 @@
-import { Injectable } from '@nestjs/common';
-import { Readable } from 'stream';
+import { Injectable, Inject } from '@nestjs/common';
 import {
   MeetingPlatform,
   MeetingCredentials,
   MeetingJoinInfo,
-  MeetingSession,
   MeetingRecording,
-  RecordingConfig,
+  CloudRecording,
   MeetingParticipant,
-  MeetingStatus,
-  ParticipantRole,
-  MeetingEventType
+  ParticipantRole
 } from '../../interfaces/meeting-platform.interface';
-import { BasePlatformAdapter } from './base-platform.adapter';
-
+import { TransportPlatformAdapter, PlatformCall, RecordingOutput } from './transport-platform.adapter';
+import { PlatformTransport } from './transports/platform-transport.interface';
+import { WebExRestTransport } from './transports/webex-rest.transport';
+
+interface WebExMeeting {
+  id: string;
+  title?: string;
+  webLink: string;
+  password?: string;
+  start: string;
+  hostEmail?: string;
+}
+
+interface WebExParticipant {
+  id: string;
+  displayName: string;
+  email?: string;
+  host?: boolean;
+  coHost?: boolean;
+  state: 'lobby' | 'joined' | 'end';
+  joinedTime?: string;
+  muted?: boolean;
+}
+
+// Recording as listed by the Webex recordings API
+interface WebExRecording {
+  id: string;
+  meetingId: string;
+  topic: string;
+  createTime: string;
+  timeRecorded: string;
+  durationSeconds: number;
+  format: string;
+  sizeBytes: number;
+  temporaryDirectDownloadLinks?: { audioDownloadLink?: string; recordingDownloadLink?: string };
+  hostEmail: string;
+  status: 'available' | 'deleted' | 'purged';
+}
+
+// The Webex REST API cannot put a participant into a meeting or deliver its
+// media, so a session follows the meeting's participants instead and the
+// meeting is transcribed from the recording its host makes
 @Injectable()
-export class WebExAdapter extends BasePlatformAdapter {
-  private webexClient: any; // WebEx SDK client
-  private activeSessions = new Map<string, any>();
-  private activeRecordings = new Map<string, any>();
-
-  constructor() {
-    super(MeetingPlatform.WEBEX);
-  }
-
-  async authenticate(credentials: MeetingCredentials): Promise<boolean> {
-    try {
-      this.logger.log('Authenticating with WebEx...');
-      
-      if (!credentials.accessToken && (!credentials.clientId || !credentials.clientSecret)) {
-        throw new Error('WebEx access token or client credentials are required');
-      }
-
-      // Initialize WebEx SDK
-      this.webexClient = await this.initializeWebExClient(credentials);
-      
-      this.credentials = credentials;
-      this.isAuthenticated = true;
-      this.updateConnectionStatus({ isConnected: true });
-      
-      this.logger.log('Successfully authenticated with WebEx');
-      return true;
-    } catch (error) {
-      this.handleError(error, 'WebEx authentication failed');
-      return false;
-    }
-  }
-
-  async validateCredentials(credentials: MeetingCredentials): Promise<boolean> {
-    try {
-      // Validate required fields
-      if (!credentials.accessToken && (!credentials.clientId || !credentials.clientSecret)) {
-        return false;
-      }
-
-      // Test WebEx API connection
-      const testResult = await this.testWebExConnection(credentials);
-      return testResult;
-    } catch (error) {
-      this.logger.error('WebEx credentials validation failed:', error);
-      return false;
-    }
-  }
-
-  async joinMeeting(joinInfo: MeetingJoinInfo): Promise<MeetingSession> {
-    this.validateMeetingId(joinInfo.meetingId);
-    
-    if (!this.isAuthenticated) {
-      throw new Error('Not authenticated with WebEx');
-    }
-
-    try {
-      this.logger.log(`Joining WebEx meeting: ${joinInfo.meetingId}`);
-      
-      const sessionId = this.generateSessionId();
-      
-      // Join meeting using WebEx SDK
-      const webexSession = await this.joinWebExMeeting(joinInfo);
-      
-      const session: MeetingSession = {
-        sessionId,
-        meetingId: joinInfo.meetingId,
-        platform: MeetingPlatform.WEBEX,
-        status: MeetingStatus.IN_PROGRESS,
-        startTime: new Date(),
-        participants: await this.getWebExParticipants(webexSession),
-        audioStreamUrl: webexSession.audioStreamUrl
-      };
-
-      this.activeSessions.set(sessionId, webexSession);
-      
-      // Set up event listeners
-      this.setupWebExEventListeners(sessionId, webexSession);
-      
-      this.emitEvent({
-        type: MeetingEventType.MEETING_STARTED,
-        sessionId,
-        meetingId: joinInfo.meetingId,
-        data: { participants: session.participants.length }
-      });
-
-      this.logger.log(`Successfully joined WebEx meeting: ${joinInfo.meetingId}`);
-      return session;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to join WebEx meeting');
-    }
-  }
-
-  async leaveMeeting(sessionId: string): Promise<void> {
-    this.validateSessionId(sessionId);
-    
-    const webexSession = this.activeSessions.get(sessionId);
-    if (!webexSession) {
-      throw new Error(`No active WebEx session found: ${sessionId}`);
-    }
-
-    try {
-      this.logger.log(`Leaving WebEx meeting session: ${sessionId}`);
-      
-      // Leave meeting using WebEx SDK
-      await this.leaveWebExMeeting(webexSession);
-      
-      this.activeSessions.delete(sessionId);
-      
-      this.emitEvent({
-        type: MeetingEventType.MEETING_ENDED,
-        sessionId,
-        meetingId: webexSession.meetingId,
-        data: { endTime: new Date() }
-      });
-
-      this.logger.log(`Successfully left WebEx meeting session: ${sessionId}`);
-    } catch (error) {
-      throw this.handleError(error, 'Failed to leave WebEx meeting');
-    }
-  }
-
-  async getMeetingInfo(meetingId: string): Promise<MeetingJoinInfo> {
-    this.validateMeetingId(meetingId);
-    
-    if (!this.isAuthenticated) {
-      throw new Error('Not authenticated with WebEx');
-    }
-
-    try {
-      // Get meeting info from WebEx API
-      const meetingInfo = await this.getWebExMeetingInfo(meetingId);
-      
-      return {
-        meetingId,
-        meetingUrl: meetingInfo.webLink,
-        password: meetingInfo.password,
-        platform: MeetingPlatform.WEBEX,
-        scheduledTime: new Date(meetingInfo.start),
-        hostEmail: meetingInfo.hostEmail
-      };
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get WebEx meeting info');
-    }
-  }
-
-  async startRecording(sessionId: string, config: RecordingConfig): Promise<MeetingRecording> {
-    this.validateSessionId(sessionId);
-    
-    const webexSession = this.activeSessions.get(sessionId);
-    if (!webexSession) {
-      throw new Error(`No active WebEx session found: ${sessionId}`);
-    }
-
-    try {
-      this.logger.log(`Starting recording for WebEx session: ${sessionId}`);
-      
-      const recordingId = this.generateRecordingId();
-      
-      // Start recording using WebEx SDK
-      const webexRecording = await this.startWebExRecording(webexSession, config);
-      
-      const recording: MeetingRecording = {
-        id: recordingId,
-        meetingId: webexSession.meetingId,
-        sessionId,
-        platform: MeetingPlatform.WEBEX,
-        startTime: new Date(),
-        status: 'recording'
-      };
-
-      this.activeRecordings.set(recordingId, {
-        ...webexRecording,
-        recordingId,
-        sessionId
-      });
-      
-      this.emitEvent({
-        type: MeetingEventType.RECORDING_STARTED,
-        sessionId,
-        meetingId: webexSession.meetingId,
-        data: { recordingId, config }
-      });
-
-      this.logger.log(`Successfully started recording: ${recordingId}`);
-      return recording;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to start WebEx recording');
-    }
+export class WebExAdapter extends TransportPlatformAdapter {
+  constructor(@Inject(WebExRestTransport) transport: PlatformTransport) {
+    super(MeetingPlatform.WEBEX, transport, 'WebEx');
   }
 
-  async stopRecording(recordingId: string): Promise<MeetingRecording> {
-    this.validateRecordingId(recordingId);
-    
-    const webexRecording = this.activeRecordings.get(recordingId);
-    if (!webexRecording) {
-      throw new Error(`No active WebEx recording found: ${recordingId}`);
-    }
-
-    try {
-      this.logger.log(`Stopping WebEx recording: ${recordingId}`);
-      
-      // Stop recording using WebEx SDK
-      const finalRecording = await this.stopWebExRecording(webexRecording);
-      
-      const recording: MeetingRecording = {
-        id: recordingId,
-        meetingId: webexRecording.meetingId,
-        sessionId: webexRecording.sessionId,
-        platform: MeetingPlatform.WEBEX,
-        startTime: webexRecording.startTime,
-        endTime: new Date(),
-        duration: finalRecording.duration,
-        audioUrl: finalRecording.audioUrl,
-        videoUrl: finalRecording.videoUrl,
-        size: finalRecording.size,
-        status: 'completed'
-      };
-
-      this.activeRecordings.delete(recordingId);
-      
-      this.emitEvent({
-        type: MeetingEventType.RECORDING_STOPPED,
-        sessionId: webexRecording.sessionId,
-        meetingId: webexRecording.meetingId,
-        data: { recordingId, duration: recording.duration }
-      });
-
-      this.logger.log(`Successfully stopped recording: ${recordingId}`);
-      return recording;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to stop WebEx recording');
-    }
-  }
-
-  async getRecording(recordingId: string): Promise<MeetingRecording> {
-    this.validateRecordingId(recordingId);
-    
-    try {
-      // Get recording info from WebEx API
-      const webexRecording = await this.getWebExRecordingInfo(recordingId);
-      
-      return {
-        id: recordingId,
-        meetingId: webexRecording.meetingId,
-        sessionId: webexRecording.sessionId,
-        platform: MeetingPlatform.WEBEX,
-        startTime: new Date(webexRecording.createTime),
-        endTime: new Date(webexRecording.timeRecorded),
-        duration: webexRecording.durationSeconds,
-        audioUrl: webexRecording.downloadUrl,
-        size: webexRecording.sizeBytes,
-        status: webexRecording.status
-      };
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get WebEx recording');
-    }
+  protected hasRequiredCredentials(credentials: MeetingCredentials): boolean {
+    return !!credentials.accessToken || (!!credentials.clientId && !!credentials.clientSecret);
   }
 
-  async getAudioStream(sessionId: string): Promise<NodeJS.ReadableStream> {
-    this.validateSessionId(sessionId);
-    
-    const webexSession = this.activeSessions.get(sessionId);
-    if (!webexSession) {
-      throw new Error(`No active WebEx session found: ${sessionId}`);
-    }
-
-    try {
-      // Get audio stream from WebEx SDK
-      const audioStream = await this.getWebExAudioStream(webexSession);
-      return audioStream;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get WebEx audio stream');
-    }
+  protected async testConnection(credentials: MeetingCredentials): Promise<boolean> {
+    await this.transport.request({ method: 'GET', path: '/people/me', credentials });
+    return true;
   }
 
-  async getParticipants(sessionId: string): Promise<MeetingParticipant[]> {
-    this.validateSessionId(sessionId);
-    
-    const webexSession = this.activeSessions.get(sessionId);
-    if (!webexSession) {
-      throw new Error(`No active WebEx session found: ${sessionId}`);
-    }
-
-    try {
-      return await this.getWebExParticipants(webexSession);
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get WebEx participants');
-    }
-  }
+  protected async fetchMeetingInfo(meetingId: string, credentials?: MeetingCredentials): Promise<MeetingJoinInfo> {
+    const meeting = await this.transport.request<WebExMeeting>({ method: 'GET', path: `/meetings/${meetingId}`, credentials });
 
-  // Private helper methods (placeholder implementations)
-  private async initializeWebExClient(credentials: MeetingCredentials): Promise<any> {
-    // Placeholder for WebEx SDK initialization
-    this.logger.debug('Initializing WebEx SDK...');
     return {
-      accessToken: credentials.accessToken,
-      clientId: credentials.clientId,
-      clientSecret: credentials.clientSecret,
-      initialized: true
+      meetingId,
+      meetingUrl: meeting.webLink,
+      password: meeting.password,
+      platform: MeetingPlatform.WEBEX,
+      scheduledTime: new Date(meeting.start),
+      hostEmail: meeting.hostEmail,
+      title: meeting.title
     };
   }
 
-  private async testWebExConnection(credentials: MeetingCredentials): Promise<boolean> {
-    // Placeholder for testing WebEx API connection
-    this.logger.debug('Testing WebEx connection...');
-    return true;
-  }
+  // Looking the meeting up checks it exists and the credentials may see it
+  protected async connect(joinInfo: MeetingJoinInfo, credentials?: MeetingCredentials): Promise<PlatformCall> {
+    const meeting = await this.transport.request<WebExMeeting>({
+      method: 'GET',
+      path: `/meetings/${joinInfo.meetingId}`,
+      credentials
+    });
 
-  private async joinWebExMeeting(joinInfo: MeetingJoinInfo): Promise<any> {
-    // Placeholder for joining WebEx meeting
-    this.logger.debug(`Joining WebEx meeting: ${joinInfo.meetingId}`);
-    return {
-      meetingId: joinInfo.meetingId,
-      sessionId: this.generateSessionId(),
-      audioStreamUrl: `webex://audio/${joinInfo.meetingId}`,
-      participants: []
-    };
+    return { callId: meeting.id, meetingId: joinInfo.meetingId };
   }
 
-  private async leaveWebExMeeting(webexSession: any): Promise<void> {
-    // Placeholder for leaving WebEx meeting
-    this.logger.debug('Leaving WebEx meeting...');
+  // Nothing joined the meeting, so there is nothing to leave
+  protected async disconnect(): Promise<void> {
+    return;
   }
 
-  private async getWebExMeetingInfo(meetingId: string): Promise<any> {
-    // Placeholder for getting WebEx meeting info
-    this.logger.debug(`Getting WebEx meeting info: ${meetingId}`);
-    return {
-      id: meetingId,
-      webLink: `https://example.webex.com/meet/${meetingId}`,
-      password: 'webex123',
-      start: new Date().toISOString(),
-      hostEmail: 'host@example.com'
-    };
+  protected async fetchParticipants(call: PlatformCall, credentials?: MeetingCredentials): Promise<MeetingParticipant[]> {
+    const { items } = await this.transport.request<{ items: WebExParticipant[] }>({
+      method: 'GET',
+      path: '/meetingParticipants',
+      query: { meetingId: call.meetingId },
+      credentials
+    });
+
+    return items
+      .filter(participant => participant.state === 'joined')
+      .map(participant => ({
+        id: participant.id,
+        name: participant.displayName,
+        email: participant.email,
+        role: participant.host
+          ? ParticipantRole.HOST
+          : participant.coHost
+            ? ParticipantRole.CO_HOST
+            : ParticipantRole.PARTICIPANT,
+        joinTime: participant.joinedTime ? new Date(participant.joinedTime) : undefined,
+        isMuted: participant.muted
+      }));
   }
 
-  private async startWebExRecording(webexSession: any, config: RecordingConfig): Promise<any> {
-    // Placeholder for starting WebEx recording
-    this.logger.debug('Starting WebEx recording...');
-    return {
-      recordingId: this.generateRecordingId(),
-      startTime: new Date()
-    };
+  // Webex recordings are started by the host in the meeting
+  protected async beginRecording(call: PlatformCall): Promise<void> {
+    this.logger.debug(`WebEx meeting ${call.meetingId} is transcribed from the recording its host starts`);
   }
 
-  private async stopWebExRecording(webexRecording: any): Promise<any> {
-    // Placeholder for stopping WebEx recording
-    this.logger.debug('Stopping WebEx recording...');
-    return {
-      duration: 3600, // 1 hour in seconds
-      audioUrl: 'https://webex.com/recording/audio/123',
-      videoUrl: 'https://webex.com/recording/video/123',
-      size: 1024 * 1024 * 100 // 100MB
-    };
+  protected async endRecording(): Promise<RecordingOutput> {
+    return {};
   }
 
-  private async getWebExRecordingInfo(recordingId: string): Promise<any> {
-    // Placeholder for getting WebEx recording info
-    this.logger.debug(`Getting WebEx recording info: ${recordingId}`);
+  protected async fetchRecording(recordingId: string, credentials?: MeetingCredentials): Promise<MeetingRecording> {
+    const recording = await this.getWebExRecording(recordingId, credentials);
+
     return {
       id: recordingId,
-      meetingId: 'meeting123',
-      sessionId: 'session123',
-      createTime: new Date().toISOString(),
-      timeRecorded: new Date().toISOString(),
-      durationSeconds: 3600,
-      downloadUrl: 'https://webex.com/recording/123',
-      sizeBytes: 1024 * 1024 * 100,
-      status: 'completed'
+      meetingId: recording.meetingId,
+      sessionId: recording.id,
+      platform: MeetingPlatform.WEBEX,
+      startTime: new Date(recording.createTime),
+      endTime: new Date(recording.timeRecorded),
+      duration: recording.durationSeconds,
+      audioUrl: recording.temporaryDirectDownloadLinks?.audioDownloadLink,
+      videoUrl: recording.temporaryDirectDownloadLinks?.recordingDownloadLink,
+      size: recording.sizeBytes,
+      status: recording.status === 'available' ? 'completed' : 'failed'
     };
   }
 
-  private async getWebExAudioStream(webexSession: any): Promise<NodeJS.ReadableStream> {
-    // Placeholder for getting WebEx audio stream
-    this.logger.debug('Getting WebEx audio stream...');
-    return new Readable({
-      read() {
-        // Placeholder audio data
-        this.push(Buffer.from('webex audio data'));
-      }
+  protected async fetchCloudRecordings(since: Date, credentials?: MeetingCredentials): Promise<CloudRecording[]> {
+    const { items } = await this.transport.request<{ items: WebExRecording[] }>({
+      method: 'GET',
+      path: '/recordings',
+      query: { from: since.toISOString() },
+      credentials
     });
+
+    return items.map(recording => ({
+      id: recording.id,
+      platform: MeetingPlatform.WEBEX,
+      platformMeetingId: recording.meetingId,
+      title: recording.topic,
+      startTime: new Date(recording.timeRecorded),
+      duration: recording.durationSeconds,
+      fileType: recording.format,
+      size: recording.sizeBytes,
+      downloadUrl: recording.temporaryDirectDownloadLinks?.audioDownloadLink,
+      hostEmail: recording.hostEmail
+    }));
   }
 
-  private async getWebExParticipants(webexSession: any): Promise<MeetingParticipant[]> {
-    // Placeholder for getting WebEx participants
-    this.logger.debug('Getting WebEx participants...');
-    return [
-      {
-        id: 'participant1',
-        name: 'Alice Wilson',
-        email: 'alice@example.com',
-        role: ParticipantRole.HOST,
-        joinTime: new Date(),
-        isMuted: false,
-        isVideoOn: true
-      }
-    ];
+  // Download links are only handed out with the recording's details
+  protected async openRecordingDownload(recordingId: string, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream> {
+    const recording = await this.getWebExRecording(recordingId, credentials);
+    const links = recording.temporaryDirectDownloadLinks;
+    const url = links?.audioDownloadLink || links?.recordingDownloadLink;
+    if (!url) {
+      throw new Error(`WebEx recording ${recordingId} has no download link`);
+    }
+
+    return this.transport.stream({ method: 'GET', path: url, credentials });
   }
 
-  private setupWebExEventListeners(sessionId: string, webexSession: any): void {
-    // Placeholder for setting up WebEx event listeners
-    this.logger.debug(`Setting up WebEx event listeners for session: ${sessionId}`);
-    
-    // Simulate participant events
-    setTimeout(() => {
-      this.emitEvent({
-        type: MeetingEventType.PARTICIPANT_JOINED,
-        sessionId,
-        meetingId: webexSession.meetingId,
-        data: { participantId: 'participant1', name: 'Alice Wilson' }
-      });
-    }, 1000);
+  private async getWebExRecording(recordingId: string, credentials?: MeetingCredentials): Promise<WebExRecording> {
+    return this.transport.request<WebExRecording>({ method: 'GET', path: `/recordings/${recordingId}`, credentials });
   }
-}
\ No newline at end of file
+}
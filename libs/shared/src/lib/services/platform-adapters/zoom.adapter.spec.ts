@@ -0,0 +1,169 @@
+import * as path from 'path';
+import { ZoomAdapter } from './zoom.adapter';
+import { RecordedFixtureTransport } from './transports/recorded-fixture.transport';
+import {
+  MeetingPlatform,
+  ParticipantRole,
+} from '../../interfaces/meeting-platform.interface';
+
+describe('ZoomAdapter', () => {
+  let transport: RecordedFixtureTransport;
+  let adapter: ZoomAdapter;
+
+  const credentials = {
+    platform: MeetingPlatform.ZOOM,
+    apiKey: 'key',
+    apiSecret: 'secret',
+  };
+
+  beforeEach(async () => {
+    transport = await RecordedFixtureTransport.fromFile(
+      path.join(__dirname, '__fixtures__', 'zoom.json'),
+    );
+    adapter = new ZoomAdapter(transport);
+    await adapter.authenticate(credentials);
+  });
+
+  afterEach(async () => {
+    await adapter.cleanup();
+  });
+
+  it('should map the meeting details', async () => {
+    const info = await adapter.getMeetingInfo('85746065432');
+
+    expect(info.meetingUrl).toBe(
+      'https://us02web.zoom.us/j/85746065432?pwd=c2VjcmV0',
+    );
+    expect(info.password).toBe('8fT2kq');
+    expect(info.hostEmail).toBe('host@example.com');
+    expect(info.scheduledTime).toEqual(new Date('2026-03-02T15:00:00Z'));
+  });
+
+  it('should follow the meeting with the service credentials and map live participants', async () => {
+    const info = await adapter.getMeetingInfo('85746065432');
+    const session = await adapter.joinMeeting({
+      ...info,
+      botName: 'Notetaker',
+    });
+
+    expect(session.participants).toEqual([
+      expect.objectContaining({
+        id: '16778240',
+        name: 'Dana Host',
+        role: ParticipantRole.HOST,
+      }),
+      expect.objectContaining({
+        id: '16779264',
+        name: 'Sam Guest',
+        role: ParticipantRole.PARTICIPANT,
+      }),
+    ]);
+    expect(transport.requests[1]).toMatchObject({
+      method: 'GET',
+      path: '/meetings/85746065432',
+      credentials,
+    });
+  });
+
+  it('should leave live audio unsupported', async () => {
+    const info = await adapter.getMeetingInfo('85746065432');
+    const session = await adapter.joinMeeting(info);
+
+    expect(adapter.supportsLiveAudio()).toBe(false);
+    await expect(adapter.getAudioStream(session.sessionId)).rejects.toThrow(
+      'Live audio is not available on zoom',
+    );
+  });
+
+  it('should start and stop the cloud recording through live meeting events', async () => {
+    const info = await adapter.getMeetingInfo('85746065432');
+    const session = await adapter.joinMeeting(info);
+
+    const recording = await adapter.startRecording(session.sessionId, {
+      audioOnly: true,
+      autoStart: true,
+      autoStop: true,
+      cloudStorage: true,
+      localStorage: false,
+    });
+    const stopped = await adapter.stopRecording(recording.id);
+
+    expect(stopped.status).toBe('completed');
+    expect(
+      transport.requests
+        .filter((request) => request.method === 'PATCH')
+        .map((request) => request.body),
+    ).toEqual([{ method: 'recording.start' }, { method: 'recording.stop' }]);
+  });
+
+  it('should list one cloud recording per meeting, preferring the audio file', async () => {
+    const recordings = await adapter.listCloudRecordings(
+      new Date('2026-03-01T00:00:00Z'),
+    );
+
+    expect(recordings).toEqual([
+      expect.objectContaining({
+        id: 'aDYlohsHRtCd4ii1uC2+hA==',
+        platformMeetingId: '85746065432',
+        duration: 42 * 60,
+        fileType: 'M4A',
+        downloadUrl: 'https://us02web.zoom.us/rec/download/m4a-token',
+      }),
+    ]);
+  });
+
+  it('should download the audio file of a recording', async () => {
+    const stream = await adapter.downloadRecording('aDYlohsHRtCd4ii1uC2+hA==');
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+
+    expect(Buffer.concat(chunks).subarray(4, 8).toString()).toBe('ftyp');
+  });
+
+  it("should look up meetings with a user's credentials when given", async () => {
+    const userCredentials = {
+      platform: MeetingPlatform.ZOOM,
+      accessToken: 'user-token',
+    };
+
+    await adapter.getMeetingInfo('85746065432', userCredentials);
+
+    expect(transport.requests[transport.requests.length - 1]).toMatchObject({
+      method: 'GET',
+      path: '/meetings/85746065432',
+      credentials: userCredentials,
+    });
+  });
+
+  it('should download webhook links through its transport', async () => {
+    const userCredentials = {
+      platform: MeetingPlatform.ZOOM,
+      accessToken: 'user-token',
+    };
+
+    const stream = await adapter.downloadRecordingUrl(
+      'https://us02web.zoom.us/rec/download/m4a-token',
+      userCredentials,
+    );
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+
+    expect(Buffer.concat(chunks).subarray(4, 8).toString()).toBe('ftyp');
+    expect(transport.requests[transport.requests.length - 1]).toMatchObject({
+      method: 'GET',
+      path: 'https://us02web.zoom.us/rec/download/m4a-token',
+      credentials: userCredentials,
+    });
+  });
+
+  it('should report vendor errors with their HTTP status', async () => {
+    await expect(adapter.getMeetingInfo('99999999999')).rejects.toMatchObject({
+      code: 'HTTP_404',
+      platform: MeetingPlatform.ZOOM,
+    });
+  });
+});
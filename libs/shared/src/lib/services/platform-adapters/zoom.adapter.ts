@@ -1,432 +1,222 @@
-import { Injectable } from '@nestjs/common';
-import { Readable } from 'stream';
+import { Injectable, Inject } from '@nestjs/common';
 import {
   MeetingPlatform,
   MeetingCredentials,
   MeetingJoinInfo,
-  MeetingSession,
   MeetingRecording,
+  CloudRecording,
   RecordingConfig,
   MeetingParticipant,
-  MeetingStatus,
-  ParticipantRole,
-  MeetingEventType
+  ParticipantRole
 } from '../../interfaces/meeting-platform.interface';
-import { BasePlatformAdapter } from './base-platform.adapter';
-
+import { TransportPlatformAdapter, PlatformCall, RecordingOutput } from './transport-platform.adapter';
+import { PlatformTransport } from './transports/platform-transport.interface';
+import { ZoomRestTransport } from './transports/zoom-rest.transport';
+
+interface ZoomMeeting {
+  id: number | string;
+  uuid: string;
+  topic?: string;
+  join_url: string;
+  password?: string;
+  start_time: string;
+  host_email?: string;
+}
+
+interface ZoomParticipant {
+  id: string;
+  user_id?: string;
+  user_name: string;
+  email?: string;
+  role?: string;
+  join_time?: string;
+}
+
+interface ZoomRecordingFile {
+  id: string;
+  recording_start: string;
+  recording_end: string;
+  file_type: string;
+  file_size: number;
+  download_url: string;
+  recording_type: string;
+  status?: string;
+}
+
+// A meeting's cloud recording; its UUID identifies the recording
+interface ZoomMeetingRecording {
+  uuid: string;
+  id: number | string;
+  topic: string;
+  start_time: string;
+  duration: number; // minutes
+  total_size: number;
+  host_email?: string;
+  recording_files: ZoomRecordingFile[];
+}
+
+const ZOOM_ROLES: Record<string, ParticipantRole> = {
+  host: ParticipantRole.HOST,
+  cohost: ParticipantRole.CO_HOST,
+  attendee: ParticipantRole.ATTENDEE
+};
+
+// Zoom's REST API cannot put a participant into a meeting: live media needs the
+// Meeting SDK or Realtime Media Streams, which this adapter does not implement.
+// A session follows the meeting through the REST API instead, controlling its
+// cloud recording, which is transcribed once Zoom has processed it.
 @Injectable()
-export class ZoomAdapter extends BasePlatformAdapter {
-  private zoomSdk: any; // Zoom SDK instance
-  private activeSessions = new Map<string, any>();
-  private activeRecordings = new Map<string, any>();
-
-  constructor() {
-    super(MeetingPlatform.ZOOM);
-  }
-
-  async authenticate(credentials: MeetingCredentials): Promise<boolean> {
-    try {
-      this.logger.log('Authenticating with Zoom SDK...');
-      
-      if (!credentials.apiKey || !credentials.apiSecret) {
-        throw new Error('Zoom API key and secret are required');
-      }
-
-      // Initialize Zoom SDK (placeholder - actual implementation would use real Zoom SDK)
-      this.zoomSdk = await this.initializeZoomSdk(credentials);
-      
-      this.credentials = credentials;
-      this.isAuthenticated = true;
-      this.updateConnectionStatus({ isConnected: true });
-      
-      this.logger.log('Successfully authenticated with Zoom');
-      return true;
-    } catch (error) {
-      this.handleError(error, 'Zoom authentication failed');
-      return false;
-    }
-  }
-
-  async validateCredentials(credentials: MeetingCredentials): Promise<boolean> {
-    try {
-      // Validate required fields
-      if (!credentials.apiKey || !credentials.apiSecret) {
-        return false;
-      }
-
-      // Test API connection (placeholder)
-      const testResult = await this.testZoomConnection(credentials);
-      return testResult;
-    } catch (error) {
-      this.logger.error('Zoom credentials validation failed:', error);
-      return false;
-    }
-  }
-
-  async joinMeeting(joinInfo: MeetingJoinInfo): Promise<MeetingSession> {
-    this.validateMeetingId(joinInfo.meetingId);
-    
-    if (!this.isAuthenticated) {
-      throw new Error('Not authenticated with Zoom');
-    }
-
-    try {
-      this.logger.log(`Joining Zoom meeting: ${joinInfo.meetingId}`);
-      
-      const sessionId = this.generateSessionId();
-      
-      // Join meeting using Zoom SDK (placeholder implementation)
-      const zoomSession = await this.joinZoomMeeting(joinInfo);
-      
-      const session: MeetingSession = {
-        sessionId,
-        meetingId: joinInfo.meetingId,
-        platform: MeetingPlatform.ZOOM,
-        status: MeetingStatus.IN_PROGRESS,
-        startTime: new Date(),
-        participants: await this.getZoomParticipants(zoomSession),
-        audioStreamUrl: zoomSession.audioStreamUrl
-      };
-
-      this.activeSessions.set(sessionId, zoomSession);
-      
-      // Set up event listeners
-      this.setupZoomEventListeners(sessionId, zoomSession);
-      
-      this.emitEvent({
-        type: MeetingEventType.MEETING_STARTED,
-        sessionId,
-        meetingId: joinInfo.meetingId,
-        data: { participants: session.participants.length }
-      });
-
-      this.logger.log(`Successfully joined Zoom meeting: ${joinInfo.meetingId}`);
-      return session;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to join Zoom meeting');
-    }
+export class ZoomAdapter extends TransportPlatformAdapter {
+  constructor(@Inject(ZoomRestTransport) transport: PlatformTransport) {
+    super(MeetingPlatform.ZOOM, transport, 'Zoom');
   }
 
-  async leaveMeeting(sessionId: string): Promise<void> {
-    this.validateSessionId(sessionId);
-    
-    const zoomSession = this.activeSessions.get(sessionId);
-    if (!zoomSession) {
-      throw new Error(`No active Zoom session found: ${sessionId}`);
-    }
-
-    try {
-      this.logger.log(`Leaving Zoom meeting session: ${sessionId}`);
-      
-      // Leave meeting using Zoom SDK
-      await this.leaveZoomMeeting(zoomSession);
-      
-      this.activeSessions.delete(sessionId);
-      
-      this.emitEvent({
-        type: MeetingEventType.MEETING_ENDED,
-        sessionId,
-        meetingId: zoomSession.meetingId,
-        data: { endTime: new Date() }
-      });
-
-      this.logger.log(`Successfully left Zoom meeting session: ${sessionId}`);
-    } catch (error) {
-      throw this.handleError(error, 'Failed to leave Zoom meeting');
-    }
+  protected hasRequiredCredentials(credentials: MeetingCredentials): boolean {
+    return !!credentials.accessToken || (!!credentials.apiKey && !!credentials.apiSecret);
   }
 
-  async getMeetingInfo(meetingId: string): Promise<MeetingJoinInfo> {
-    this.validateMeetingId(meetingId);
-    
-    if (!this.isAuthenticated) {
-      throw new Error('Not authenticated with Zoom');
-    }
-
-    try {
-      // Get meeting info from Zoom API
-      const meetingInfo = await this.getZoomMeetingInfo(meetingId);
-      
-      return {
-        meetingId,
-        meetingUrl: meetingInfo.join_url,
-        password: meetingInfo.password,
-        platform: MeetingPlatform.ZOOM,
-        scheduledTime: new Date(meetingInfo.start_time),
-        hostEmail: meetingInfo.host_email
-      };
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Zoom meeting info');
-    }
+  protected async testConnection(credentials: MeetingCredentials): Promise<boolean> {
+    await this.transport.request({ method: 'GET', path: '/users/me', credentials });
+    return true;
   }
 
-  async startRecording(sessionId: string, config: RecordingConfig): Promise<MeetingRecording> {
-    this.validateSessionId(sessionId);
-    
-    const zoomSession = this.activeSessions.get(sessionId);
-    if (!zoomSession) {
-      throw new Error(`No active Zoom session found: ${sessionId}`);
-    }
-
-    try {
-      this.logger.log(`Starting recording for Zoom session: ${sessionId}`);
-      
-      const recordingId = this.generateRecordingId();
-      
-      // Start recording using Zoom SDK
-      const zoomRecording = await this.startZoomRecording(zoomSession, config);
-      
-      const recording: MeetingRecording = {
-        id: recordingId,
-        meetingId: zoomSession.meetingId,
-        sessionId,
-        platform: MeetingPlatform.ZOOM,
-        startTime: new Date(),
-        status: 'recording'
-      };
-
-      this.activeRecordings.set(recordingId, {
-        ...zoomRecording,
-        recordingId,
-        sessionId
-      });
-      
-      this.emitEvent({
-        type: MeetingEventType.RECORDING_STARTED,
-        sessionId,
-        meetingId: zoomSession.meetingId,
-        data: { recordingId, config }
-      });
+  protected async fetchMeetingInfo(meetingId: string, credentials?: MeetingCredentials): Promise<MeetingJoinInfo> {
+    const meeting = await this.transport.request<ZoomMeeting>({ method: 'GET', path: `/meetings/${meetingId}`, credentials });
 
-      this.logger.log(`Successfully started recording: ${recordingId}`);
-      return recording;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to start Zoom recording');
-    }
+    return {
+      meetingId,
+      meetingUrl: meeting.join_url,
+      password: meeting.password,
+      platform: MeetingPlatform.ZOOM,
+      scheduledTime: new Date(meeting.start_time),
+      hostEmail: meeting.host_email,
+      title: meeting.topic
+    };
   }
 
-  async stopRecording(recordingId: string): Promise<MeetingRecording> {
-    this.validateRecordingId(recordingId);
-    
-    const zoomRecording = this.activeRecordings.get(recordingId);
-    if (!zoomRecording) {
-      throw new Error(`No active Zoom recording found: ${recordingId}`);
-    }
-
-    try {
-      this.logger.log(`Stopping Zoom recording: ${recordingId}`);
-      
-      // Stop recording using Zoom SDK
-      const finalRecording = await this.stopZoomRecording(zoomRecording);
-      
-      const recording: MeetingRecording = {
-        id: recordingId,
-        meetingId: zoomRecording.meetingId,
-        sessionId: zoomRecording.sessionId,
-        platform: MeetingPlatform.ZOOM,
-        startTime: zoomRecording.startTime,
-        endTime: new Date(),
-        duration: finalRecording.duration,
-        audioUrl: finalRecording.audioUrl,
-        videoUrl: finalRecording.videoUrl,
-        size: finalRecording.size,
-        status: 'completed'
-      };
-
-      this.activeRecordings.delete(recordingId);
-      
-      this.emitEvent({
-        type: MeetingEventType.RECORDING_STOPPED,
-        sessionId: zoomRecording.sessionId,
-        meetingId: zoomRecording.meetingId,
-        data: { recordingId, duration: recording.duration }
-      });
+  // Looking the meeting up checks it exists and the credentials may manage it
+  protected async connect(joinInfo: MeetingJoinInfo, credentials?: MeetingCredentials): Promise<PlatformCall> {
+    const meeting = await this.transport.request<ZoomMeeting>({
+      method: 'GET',
+      path: `/meetings/${joinInfo.meetingId}`,
+      credentials
+    });
 
-      this.logger.log(`Successfully stopped recording: ${recordingId}`);
-      return recording;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to stop Zoom recording');
-    }
+    return { callId: meeting.uuid, meetingId: joinInfo.meetingId };
   }
 
-  async getRecording(recordingId: string): Promise<MeetingRecording> {
-    this.validateRecordingId(recordingId);
-    
-    try {
-      // Get recording info from Zoom API
-      const zoomRecording = await this.getZoomRecordingInfo(recordingId);
-      
-      return {
-        id: recordingId,
-        meetingId: zoomRecording.meetingId,
-        sessionId: zoomRecording.sessionId,
-        platform: MeetingPlatform.ZOOM,
-        startTime: new Date(zoomRecording.start_time),
-        endTime: new Date(zoomRecording.end_time),
-        duration: zoomRecording.duration,
-        audioUrl: zoomRecording.audio_url,
-        videoUrl: zoomRecording.video_url,
-        size: zoomRecording.file_size,
-        status: zoomRecording.status
-      };
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Zoom recording');
-    }
+  // Nothing joined the meeting, so there is nothing to leave
+  protected async disconnect(): Promise<void> {
+    return;
   }
 
-  async getAudioStream(sessionId: string): Promise<NodeJS.ReadableStream> {
-    this.validateSessionId(sessionId);
-    
-    const zoomSession = this.activeSessions.get(sessionId);
-    if (!zoomSession) {
-      throw new Error(`No active Zoom session found: ${sessionId}`);
-    }
+  protected async fetchParticipants(call: PlatformCall, credentials?: MeetingCredentials): Promise<MeetingParticipant[]> {
+    const { participants } = await this.transport.request<{ participants: ZoomParticipant[] }>({
+      method: 'GET',
+      path: `/metrics/meetings/${call.meetingId}/participants`,
+      query: { type: 'live', page_size: 300 },
+      credentials
+    });
 
-    try {
-      // Get audio stream from Zoom SDK
-      const audioStream = await this.getZoomAudioStream(zoomSession);
-      return audioStream;
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Zoom audio stream');
-    }
+    return participants.map(participant => ({
+      id: participant.user_id || participant.id,
+      name: participant.user_name,
+      email: participant.email,
+      role: ZOOM_ROLES[participant.role ?? ''] ?? ParticipantRole.PARTICIPANT,
+      joinTime: participant.join_time ? new Date(participant.join_time) : undefined
+    }));
   }
 
-  async getParticipants(sessionId: string): Promise<MeetingParticipant[]> {
-    this.validateSessionId(sessionId);
-    
-    const zoomSession = this.activeSessions.get(sessionId);
-    if (!zoomSession) {
-      throw new Error(`No active Zoom session found: ${sessionId}`);
-    }
-
-    try {
-      return await this.getZoomParticipants(zoomSession);
-    } catch (error) {
-      throw this.handleError(error, 'Failed to get Zoom participants');
-    }
+  protected async beginRecording(call: PlatformCall, config: RecordingConfig, credentials?: MeetingCredentials): Promise<void> {
+    await this.controlLiveMeeting(call, 'recording.start', credentials);
   }
 
-  // Private helper methods (placeholder implementations)
-  private async initializeZoomSdk(credentials: MeetingCredentials): Promise<any> {
-    // Placeholder for actual Zoom SDK initialization
-    this.logger.debug('Initializing Zoom SDK...');
-    return {
-      apiKey: credentials.apiKey,
-      apiSecret: credentials.apiSecret,
-      initialized: true
-    };
+  // Zoom processes the cloud recording after the meeting; its files are
+  // picked up through listCloudRecordings
+  protected async endRecording(call: PlatformCall, credentials?: MeetingCredentials): Promise<RecordingOutput> {
+    await this.controlLiveMeeting(call, 'recording.stop', credentials);
+    return {};
   }
 
-  private async testZoomConnection(credentials: MeetingCredentials): Promise<boolean> {
-    // Placeholder for testing Zoom API connection
-    this.logger.debug('Testing Zoom connection...');
-    return true;
-  }
+  protected async fetchRecording(recordingId: string, credentials?: MeetingCredentials): Promise<MeetingRecording> {
+    const recording = await this.getMeetingRecording(recordingId, credentials);
+    const files = recording.recording_files;
 
-  private async joinZoomMeeting(joinInfo: MeetingJoinInfo): Promise<any> {
-    // Placeholder for joining Zoom meeting
-    this.logger.debug(`Joining Zoom meeting: ${joinInfo.meetingId}`);
     return {
-      meetingId: joinInfo.meetingId,
-      sessionId: this.generateSessionId(),
-      audioStreamUrl: `zoom://audio/${joinInfo.meetingId}`,
-      participants: []
+      id: recordingId,
+      meetingId: String(recording.id),
+      sessionId: recording.uuid,
+      platform: MeetingPlatform.ZOOM,
+      startTime: new Date(recording.start_time),
+      endTime: files.length ? new Date(files[files.length - 1].recording_end) : undefined,
+      duration: recording.duration * 60, // Zoom reports minutes
+      audioUrl: files.find(file => file.recording_type === 'audio_only')?.download_url,
+      videoUrl: files.find(file => file.file_type === 'MP4')?.download_url,
+      size: recording.total_size,
+      status: files.every(file => !file.status || file.status === 'completed') ? 'completed' : 'processing'
     };
   }
 
-  private async leaveZoomMeeting(zoomSession: any): Promise<void> {
-    // Placeholder for leaving Zoom meeting
-    this.logger.debug('Leaving Zoom meeting...');
-  }
+  protected async fetchCloudRecordings(since: Date, credentials?: MeetingCredentials): Promise<CloudRecording[]> {
+    const { meetings } = await this.transport.request<{ meetings: ZoomMeetingRecording[] }>({
+      method: 'GET',
+      path: '/users/me/recordings',
+      query: { from: since.toISOString().slice(0, 10), page_size: 300 },
+      credentials
+    });
 
-  private async getZoomMeetingInfo(meetingId: string): Promise<any> {
-    // Placeholder for getting Zoom meeting info
-    this.logger.debug(`Getting Zoom meeting info: ${meetingId}`);
-    return {
-      id: meetingId,
-      join_url: `https://zoom.us/j/${meetingId}`,
-      password: 'password123',
-      start_time: new Date().toISOString(),
-      host_email: 'host@example.com'
-    };
+    // One entry per meeting, pointing at the file transcription should use
+    return meetings
+      .filter(meeting => new Date(meeting.start_time) >= since)
+      .map(meeting => {
+        const file = this.pickTranscriptionFile(meeting.recording_files);
+        return {
+          id: meeting.uuid,
+          platform: MeetingPlatform.ZOOM,
+          platformMeetingId: String(meeting.id),
+          title: meeting.topic,
+          startTime: new Date(meeting.start_time),
+          endTime: file ? new Date(file.recording_end) : undefined,
+          duration: meeting.duration * 60, // Zoom reports minutes
+          fileType: file?.file_type,
+          size: file?.file_size,
+          downloadUrl: file?.download_url,
+          hostEmail: meeting.host_email
+        };
+      });
   }
 
-  private async startZoomRecording(zoomSession: any, config: RecordingConfig): Promise<any> {
-    // Placeholder for starting Zoom recording
-    this.logger.debug('Starting Zoom recording...');
-    return {
-      recordingId: this.generateRecordingId(),
-      startTime: new Date()
-    };
-  }
+  protected async openRecordingDownload(recordingId: string, credentials?: MeetingCredentials): Promise<NodeJS.ReadableStream> {
+    const recording = await this.getMeetingRecording(recordingId, credentials);
+    const file = this.pickTranscriptionFile(recording.recording_files);
+    if (!file) {
+      throw new Error(`Zoom recording ${recordingId} has no audio or video file`);
+    }
 
-  private async stopZoomRecording(zoomRecording: any): Promise<any> {
-    // Placeholder for stopping Zoom recording
-    this.logger.debug('Stopping Zoom recording...');
-    return {
-      duration: 3600, // 1 hour in seconds
-      audioUrl: 'https://zoom.us/recording/audio/123',
-      videoUrl: 'https://zoom.us/recording/video/123',
-      size: 1024 * 1024 * 100 // 100MB
-    };
+    return this.transport.stream({ method: 'GET', path: file.download_url, credentials });
   }
 
-  private async getZoomRecordingInfo(recordingId: string): Promise<any> {
-    // Placeholder for getting Zoom recording info
-    this.logger.debug(`Getting Zoom recording info: ${recordingId}`);
-    return {
-      id: recordingId,
-      meetingId: 'meeting123',
-      sessionId: 'session123',
-      start_time: new Date().toISOString(),
-      end_time: new Date().toISOString(),
-      duration: 3600,
-      audio_url: 'https://zoom.us/recording/audio/123',
-      video_url: 'https://zoom.us/recording/video/123',
-      file_size: 1024 * 1024 * 100,
-      status: 'completed'
-    };
+  private async controlLiveMeeting(call: PlatformCall, method: string, credentials?: MeetingCredentials): Promise<void> {
+    await this.transport.request({ method: 'PATCH', path: `/live_meetings/${call.meetingId}/events`, body: { method }, credentials });
   }
 
-  private async getZoomAudioStream(zoomSession: any): Promise<NodeJS.ReadableStream> {
-    // Placeholder for getting Zoom audio stream
-    this.logger.debug('Getting Zoom audio stream...');
-    return new Readable({
-      read() {
-        // Placeholder audio data
-        this.push(Buffer.from('audio data'));
-      }
+  private async getMeetingRecording(uuid: string, credentials?: MeetingCredentials): Promise<ZoomMeetingRecording> {
+    return this.transport.request<ZoomMeetingRecording>({
+      method: 'GET',
+      path: `/meetings/${this.encodeMeetingUuid(uuid)}/recordings`,
+      credentials
     });
   }
 
-  private async getZoomParticipants(zoomSession: any): Promise<MeetingParticipant[]> {
-    // Placeholder for getting Zoom participants
-    this.logger.debug('Getting Zoom participants...');
-    return [
-      {
-        id: 'participant1',
-        name: 'John Doe',
-        email: 'john@example.com',
-        role: ParticipantRole.HOST,
-        joinTime: new Date(),
-        isMuted: false,
-        isVideoOn: true
-      }
-    ];
+  // Audio-only files transcribe fastest; the video is the fallback
+  private pickTranscriptionFile(files: ZoomRecordingFile[]): ZoomRecordingFile | undefined {
+    return files.find(file => file.recording_type === 'audio_only') ?? files.find(file => file.file_type === 'MP4');
   }
 
-  private setupZoomEventListeners(sessionId: string, zoomSession: any): void {
-    // Placeholder for setting up Zoom event listeners
-    this.logger.debug(`Setting up Zoom event listeners for session: ${sessionId}`);
-    
-    // Simulate participant events
-    setTimeout(() => {
-      this.emitEvent({
-        type: MeetingEventType.PARTICIPANT_JOINED,
-        sessionId,
-        meetingId: zoomSession.meetingId,
-        data: { participantId: 'participant1', name: 'John Doe' }
-      });
-    }, 1000);
+  // Zoom wants UUIDs that start with or contain a slash encoded twice
+  private encodeMeetingUuid(uuid: string): string {
+    return uuid.startsWith('/') || uuid.includes('//')
+      ? encodeURIComponent(encodeURIComponent(uuid))
+      : encodeURIComponent(uuid);
   }
-}
\ No newline at end of file
+}
@@ -1,13 +1,17 @@
 import { Injectable, Logger } from '@nestjs/common';
 import * as wav from 'node-wav';
 import * as ffmpeg from 'fluent-ffmpeg';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { 
   AudioPreprocessingService, 
   AudioPreprocessingConfig, 
   AudioPreprocessingResult, 
   AudioQualityMetrics, 
   AudioEnhancement,
-  AudioFormat 
+  AudioFormat,
+  AudioInfo
 } from '../interfaces/transcription.interface';
 
 @Injectable()
@@ -234,12 +238,40 @@ export class AudioPreprocessingServiceImpl implements AudioPreprocessingService
     }
   }
 
-  private async getAudioInfo(audioData: Buffer): Promise<{
-    sampleRate: number;
-    channels: number;
-    duration: number;
-    format: AudioFormat;
-  }> {
+  // Reads container and stream details through ffprobe, so every format
+  // ffmpeg can decode is supported without loading the file into memory
+  async probeAudio(filePath: string): Promise<AudioInfo> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(filePath, (error, data) => {
+        if (error) {
+          reject(new Error(`Unable to read audio: ${error.message}`));
+          return;
+        }
+
+        const audioStream = data.streams.find(stream => stream.codec_type === 'audio');
+        if (!audioStream) {
+          reject(new Error('No audio stream found'));
+          return;
+        }
+
+        const hasVideo = data.streams.some(stream => stream.codec_type === 'video');
+        const format = this.toAudioFormat(data.format.format_name || '', hasVideo);
+        if (!format) {
+          reject(new Error(`Unsupported audio format: ${data.format.format_name}`));
+          return;
+        }
+
+        resolve({
+          sampleRate: Number(audioStream.sample_rate) || 0,
+          channels: audioStream.channels || 1,
+          duration: Number(data.format.duration ?? audioStream.duration) || 0,
+          format
+        });
+      });
+    });
+  }
+
+  private async getAudioInfo(audioData: Buffer): Promise<AudioInfo> {
     try {
       const decoded = wav.decode(audioData);
       return {
@@ -249,14 +281,30 @@ export class AudioPreprocessingServiceImpl implements AudioPreprocessingService
         format: AudioFormat.WAV
       };
     } catch (error) {
-      // Fallback for non-WAV formats
-      return {
-        sampleRate: 16000,
-        channels: 1,
-        duration: 0,
-        format: AudioFormat.WAV
-      };
+      // Compressed formats are described by ffprobe instead
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'audio-probe-'));
+      try {
+        const file = path.join(directory, 'input');
+        await fs.writeFile(file, audioData);
+        return await this.probeAudio(file);
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    }
+  }
+
+  private toAudioFormat(formatName: string, hasVideo: boolean): AudioFormat | null {
+    const names = formatName.split(',');
+
+    if (names.includes('wav')) return AudioFormat.WAV;
+    if (names.includes('mp3')) return AudioFormat.MP3;
+    if (names.includes('flac')) return AudioFormat.FLAC;
+    if (names.includes('ogg')) return AudioFormat.OGG;
+    if (names.includes('webm')) return AudioFormat.WEBM;
+    if (names.includes('mp4') || names.includes('m4a')) {
+      return hasVideo ? AudioFormat.MP4 : AudioFormat.M4A;
     }
+    return null;
   }
 
   private async convertAudioFormat(audioData: Buffer, config: AudioPreprocessingConfig): Promise<Buffer> {
@@ -267,7 +315,6 @@ export class AudioPreprocessingServiceImpl implements AudioPreprocessingService
       bufferStream.end(audioData);
       
       ffmpeg(bufferStream)
-        .inputFormat('wav')
         .audioFrequency(config.targetSampleRate)
         .audioChannels(config.targetChannels)
         .format('wav')
@@ -0,0 +1,30 @@
+import { decodeAudioSamples, resampleAudio } from './audio-samples';
+
+describe('decodeAudioSamples', () => {
+  it('should read the first channel of 16-bit PCM', () => {
+    const pcm = Buffer.alloc(8);
+    pcm.writeInt16LE(16384, 0);
+    pcm.writeInt16LE(-32768, 4);
+
+    const { samples, sampleRate } = decodeAudioSamples(pcm, {
+      sampleRate: 16000,
+      channels: 2,
+      bitDepth: 16,
+    });
+
+    expect(sampleRate).toBe(16000);
+    expect(Array.from(samples)).toEqual([0.5, -1]);
+  });
+});
+
+describe('resampleAudio', () => {
+  it('should interpolate between the original samples', () => {
+    const resampled = resampleAudio(
+      new Float32Array([0, 1, 0, -1]),
+      8000,
+      16000,
+    );
+
+    expect(Array.from(resampled)).toEqual([0, 0.5, 1, 0.5, 0, -0.5, -1, -1]);
+  });
+});
@@ -0,0 +1,44 @@
+import * as wav from 'node-wav';
+import { TranscriptionConfig } from '../../interfaces/transcription.interface';
+
+export type AudioFormatSpec = Pick<TranscriptionConfig, 'sampleRate' | 'channels' | 'bitDepth'>;
+
+// Reads the first channel of a WAV file or of raw little-endian PCM
+export function decodeAudioSamples(audioData: Buffer, format: AudioFormatSpec): { samples: Float32Array; sampleRate: number } {
+  if (audioData.slice(0, 4).toString('ascii') === 'RIFF') {
+    const decoded = wav.decode(audioData);
+    return { samples: new Float32Array(decoded.channelData[0]), sampleRate: decoded.sampleRate };
+  }
+
+  const bytesPerSample = format.bitDepth / 8;
+  const frameSize = bytesPerSample * format.channels;
+  const samples = new Float32Array(Math.floor(audioData.length / frameSize));
+  for (let i = 0; i < samples.length; i++) {
+    const offset = i * frameSize;
+    if (format.bitDepth === 8) {
+      samples[i] = (audioData.readUInt8(offset) - 128) / 128;
+    } else if (format.bitDepth === 32) {
+      samples[i] = audioData.readInt32LE(offset) / 2147483648;
+    } else {
+      samples[i] = audioData.readInt16LE(offset) / 32768;
+    }
+  }
+  return { samples, sampleRate: format.sampleRate };
+}
+
+// Linear interpolation, which is enough for speech models
+export function resampleAudio(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) {
+    return samples;
+  }
+
+  const ratio = fromRate / toRate;
+  const resampled = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < resampled.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    resampled[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
+  }
+  return resampled;
+}
@@ -0,0 +1,84 @@
+import { applyGlossary, extractCorrectionTerms } from './glossary-matcher';
+
+// One word per 500ms
+const words = (text: string) =>
+  text.split(' ').map((word, i) => ({
+    text: word,
+    start: i * 500,
+    end: (i + 1) * 500,
+    confidence: 0.9,
+  }));
+
+const texts = (result: ReturnType<typeof applyGlossary>) =>
+  result.words.map((word) => word.text).join(' ');
+
+describe('applyGlossary', () => {
+  it('should respell known aliases and close misspellings', () => {
+    const result = applyGlossary(
+      words('we shipped meet genie to cooper nettes.'),
+      [
+        { term: 'MeetGenie', aliases: [] },
+        { term: 'Kubernetes', aliases: ['cooper nettes'] },
+      ],
+    );
+
+    expect(texts(result)).toBe('we shipped MeetGenie to Kubernetes.');
+    expect(result.replacements).toBe(2);
+  });
+
+  it('should share the replaced words time span out among the term', () => {
+    const result = applyGlossary(words('ask jon now'), [
+      { term: 'Jon Smith', aliases: ['jon'] },
+    ]);
+
+    expect(texts(result)).toBe('ask Jon Smith now');
+    expect(
+      result.words.slice(1, 3).map((word) => [word.start, word.end]),
+    ).toEqual([
+      [500, 750],
+      [750, 1000],
+    ]);
+  });
+
+  it('should not impose the casing of plain capitalised words', () => {
+    const result = applyGlossary(words('mark the api as done'), [
+      { term: 'Mark', aliases: [] },
+      { term: 'API', aliases: [] },
+    ]);
+
+    expect(texts(result)).toBe('mark the API as done');
+    expect(result.replacements).toBe(1);
+  });
+
+  it('should leave short words that are only close to a term', () => {
+    const result = applyGlossary(words('the cat sat'), [
+      { term: 'CAT', aliases: [] },
+      { term: 'Sam', aliases: [] },
+    ]);
+
+    expect(texts(result)).toBe('the CAT sat');
+  });
+});
+
+describe('extractCorrectionTerms', () => {
+  it('should learn names and products from rewritten spans', () => {
+    expect(
+      extractCorrectionTerms(
+        'then meet genie sends it to sarah',
+        'Then MeetGenie sends it to Sara',
+      ),
+    ).toEqual([
+      { term: 'MeetGenie', aliases: ['meet genie'] },
+      { term: 'Sara', aliases: ['sarah'] },
+    ]);
+  });
+
+  it('should ignore ordinary rewrites and sentence capitalisation', () => {
+    expect(
+      extractCorrectionTerms(
+        'their going home. so we',
+        'They are going home. So we',
+      ),
+    ).toEqual([]);
+  });
+});
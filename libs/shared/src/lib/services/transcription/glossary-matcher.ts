@@ -0,0 +1,174 @@
+import { TranscriptWord } from '../../interfaces/transcription.interface';
+import { diffWords, splitWords } from './word-diff';
+
+// A spelling transcripts should use, with misrecognitions known to stand for it
+export interface GlossaryEntry {
+  term: string;
+  aliases: string[];
+}
+
+// Terms shorter than this are only respelled for a known alias or their casing,
+// as fuzzy matches of short words are mostly ordinary words
+const MIN_FUZZY_LENGTH = 6;
+
+// Share of characters that must match for a fuzzy replacement
+const FUZZY_SIMILARITY = 0.8;
+
+// Corrections of longer spans are rewrites rather than misheard terms
+const MAX_CORRECTION_WORDS = 3;
+
+const PUNCTUATION = /[.,!?;:"()'-]/g;
+const LEADING_PUNCTUATION = /^[("'-]+/;
+const TRAILING_PUNCTUATION = /[.,!?;:"')-]+$/;
+
+interface GlossaryCandidate {
+  term: string;
+  size: number; // words
+  normalized: string;
+  aliases: string[];
+}
+
+interface GlossaryMatch {
+  term: string;
+  length: number; // words of the segment it replaces
+}
+
+// Respells a segment's words that match a glossary term: by its spelling or a
+// known alias, or for longer terms closely enough. A term takes the span of time
+// of the words it replaces, shared out among its own words.
+export function applyGlossary(words: TranscriptWord[], entries: GlossaryEntry[]): { words: TranscriptWord[]; replacements: number } {
+  const candidates: GlossaryCandidate[] = entries
+    .map(entry => ({
+      term: entry.term.trim(),
+      size: entry.term.trim().split(/\s+/).length,
+      normalized: normalize(entry.term),
+      aliases: entry.aliases.map(normalize).filter(alias => alias.length > 0)
+    }))
+    .filter(candidate => candidate.normalized.length > 0)
+    .sort((a, b) => b.normalized.length - a.normalized.length);
+
+  const respelled: TranscriptWord[] = [];
+  let replacements = 0;
+  let index = 0;
+  while (index < words.length) {
+    const match = findMatch(words, index, candidates);
+    if (!match) {
+      respelled.push(words[index]);
+      index++;
+      continue;
+    }
+
+    const span = words.slice(index, index + match.length);
+    const replaced = respell(span, match.term);
+    if (replaced.map(word => word.text).join(' ') !== span.map(word => word.text).join(' ')) {
+      replacements++;
+    }
+    respelled.push(...replaced);
+    index += match.length;
+  }
+
+  return { words: respelled, replacements };
+}
+
+// Terms a correction of a segment teaches: short spans rewritten into something
+// spelled like a name, product or acronym, with what was heard as their alias
+export function extractCorrectionTerms(original: string, corrected: string): GlossaryEntry[] {
+  const meant = splitWords(corrected);
+
+  return diffWords(splitWords(original), meant)
+    .filter(span => span.before.length > 0 && span.before.length <= MAX_CORRECTION_WORDS)
+    .filter(span => span.after.length > 0 && span.after.length <= MAX_CORRECTION_WORDS)
+    .map(span => ({
+      term: stripPunctuation(span.after.join(' ')),
+      alias: stripPunctuation(span.before.join(' ')),
+      atSentenceStart: span.afterStart === 0 || /[.!?]$/.test(meant[span.afterStart - 1])
+    }))
+    .filter(({ term, alias }) => term.length > 0 && term !== alias)
+    .filter(({ term, atSentenceStart }) => isDistinctiveSpelling(term) || (!atSentenceStart && /^[A-Z]/.test(term)))
+    .map(({ term, alias }) => ({ term, aliases: [alias] }));
+}
+
+function findMatch(words: TranscriptWord[], index: number, candidates: GlossaryCandidate[]): GlossaryMatch | null {
+  let best: (GlossaryMatch & { similarity: number }) | null = null;
+
+  for (const candidate of candidates) {
+    // A term can be heard as one word more or less than it has
+    for (const length of [candidate.size, candidate.size - 1, candidate.size + 1]) {
+      if (length < 1 || index + length > words.length) {
+        continue;
+      }
+
+      const text = words.slice(index, index + length).map(word => word.text).join(' ');
+      const heard = normalize(text);
+      if (heard === candidate.normalized) {
+        // Correct spellings are kept as they are, and only distinctive casing
+        // is imposed, so a name like "Mark" leaves the verb alone
+        if (stripPunctuation(text) === candidate.term || isDistinctiveSpelling(candidate.term)) {
+          return { term: candidate.term, length };
+        }
+        continue;
+      }
+
+      if (candidate.aliases.includes(heard)) {
+        return { term: candidate.term, length };
+      }
+
+      if (candidate.normalized.length < MIN_FUZZY_LENGTH) {
+        continue;
+      }
+      const similarity = 1 - editDistance(heard, candidate.normalized) / Math.max(heard.length, candidate.normalized.length);
+      if (similarity >= FUZZY_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = { term: candidate.term, length, similarity };
+      }
+    }
+  }
+
+  return best && { term: best.term, length: best.length };
+}
+
+function respell(span: TranscriptWord[], term: string): TranscriptWord[] {
+  const leading = span[0].text.match(LEADING_PUNCTUATION)?.[0] || '';
+  const trailing = span[span.length - 1].text.match(TRAILING_PUNCTUATION)?.[0] || '';
+  const termWords = term.split(/\s+/);
+
+  const start = span[0].start;
+  const duration = (span[span.length - 1].end - start) / termWords.length;
+  const confidence = Math.min(...span.map(word => word.confidence));
+
+  return termWords.map((text, index) => ({
+    text: (index === 0 ? leading : '') + text + (index === termWords.length - 1 ? trailing : ''),
+    start: start + index * duration,
+    end: start + (index + 1) * duration,
+    confidence
+  }));
+}
+
+// Acronyms, product names and full names stand out by capitals past their
+// first letter; a single capitalised word could be an ordinary word too
+export function isDistinctiveSpelling(term: string): boolean {
+  return /[A-Z0-9]/.test(term.slice(1));
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(PUNCTUATION, '').replace(/\s+/g, '');
+}
+
+function stripPunctuation(text: string): string {
+  return text.replace(LEADING_PUNCTUATION, '').replace(TRAILING_PUNCTUATION, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
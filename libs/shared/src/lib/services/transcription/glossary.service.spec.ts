@@ -0,0 +1,145 @@
+import { GlossaryService } from './glossary.service';
+import type { PrismaService } from '../database/prisma.service';
+
+jest.mock('../database/prisma.service', () => ({ PrismaService: class {} }));
+
+describe('GlossaryService', () => {
+  let prisma: {
+    meeting: { findUnique: jest.Mock };
+    transcript: { findUnique: jest.Mock };
+    glossaryTerm: {
+      findMany: jest.Mock;
+      upsert: jest.Mock;
+      update: jest.Mock;
+      deleteMany: jest.Mock;
+    };
+  };
+  let service: GlossaryService;
+
+  beforeEach(() => {
+    prisma = {
+      meeting: {
+        findUnique: jest.fn().mockResolvedValue({
+          title: 'Weekly sync',
+          participants: [],
+          organizer: { organizationId: 'org-1' },
+        }),
+      },
+      transcript: {
+        findUnique: jest.fn().mockResolvedValue({
+          meetingId: 'meeting-1',
+          meeting: { organizer: { organizationId: 'org-1' } },
+        }),
+      },
+      glossaryTerm: {
+        findMany: jest.fn().mockResolvedValue([]),
+        upsert: jest.fn(async ({ create }) => ({ id: 'term-1', ...create })),
+        update: jest.fn(async ({ data }) => ({ id: 'term-1', ...data })),
+        deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    service = new GlossaryService(prisma as unknown as PrismaService);
+  });
+
+  describe('addTerm', () => {
+    it('should store a term in one write keyed by its scope', async () => {
+      await service.addTerm(' MeetGenie ', ['meet genie'], {
+        organizationId: 'org-1',
+      });
+
+      expect(prisma.glossaryTerm.upsert).toHaveBeenCalledWith({
+        where: { scope_term: { scope: 'org-1', term: 'MeetGenie' } },
+        create: {
+          scope: 'org-1',
+          term: 'MeetGenie',
+          organizationId: 'org-1',
+          aliases: ['meet genie'],
+          source: 'manual',
+        },
+        update: { aliases: { push: ['meet genie'] } },
+      });
+    });
+
+    it('should not keep an alias twice when the term was stored', async () => {
+      prisma.glossaryTerm.upsert.mockResolvedValueOnce({
+        id: 'term-1',
+        aliases: ['meet genie', 'meat jeanie', 'meet genie'],
+      });
+
+      const term = await service.addTerm('MeetGenie', ['meet genie'], {
+        meetingId: 'meeting-1',
+      });
+
+      expect(prisma.glossaryTerm.update).toHaveBeenCalledWith({
+        where: { id: 'term-1' },
+        data: { aliases: ['meet genie', 'meat jeanie'] },
+      });
+      expect(term.aliases).toEqual(['meet genie', 'meat jeanie']);
+    });
+  });
+
+  it('should only remove terms of the given scope', async () => {
+    prisma.glossaryTerm.deleteMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(
+      service.removeTerm('term-1', { organizationId: 'org-2' }),
+    ).resolves.toBe(false);
+    expect(prisma.glossaryTerm.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'term-1', scope: 'org-2' },
+    });
+  });
+
+  it("should correct a meeting with its own and its organizer's organization's terms", async () => {
+    prisma.glossaryTerm.findMany.mockResolvedValueOnce([
+      { term: 'MeetGenie', aliases: ['meet genie'] },
+    ]);
+
+    const glossary = await service.getMeetingGlossary('meeting-1');
+
+    expect(prisma.glossaryTerm.findMany).toHaveBeenCalledWith({
+      where: { scope: { in: ['meeting-1', 'org-1'] } },
+    });
+    expect(glossary).toEqual([{ term: 'MeetGenie', aliases: ['meet genie'] }]);
+  });
+
+  describe('recordCorrection', () => {
+    const correct = () =>
+      service.recordCorrection(
+        'then meet genie sends it',
+        'Then MeetGenie sends it',
+        'transcript-1',
+      );
+
+    it("should learn terms for the meeting organizer's organization", async () => {
+      await correct();
+
+      expect(prisma.glossaryTerm.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            organizationId: 'org-1',
+            term: 'MeetGenie',
+            source: 'correction',
+          }),
+        }),
+      );
+    });
+
+    it('should learn terms for the meeting when its organizer has no organization', async () => {
+      prisma.transcript.findUnique.mockResolvedValueOnce({
+        meetingId: 'meeting-1',
+        meeting: { organizer: { organizationId: null } },
+      });
+
+      await correct();
+
+      expect(prisma.glossaryTerm.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            scope: 'meeting-1',
+            meetingId: 'meeting-1',
+          }),
+        }),
+      );
+    });
+  });
+});
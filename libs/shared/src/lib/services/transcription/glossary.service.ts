@@ -0,0 +1,278 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../database/prisma.service';
+import { GlossarySource, GlossaryTerm, Prisma } from '../../generated/prisma';
+import { TranscriptWord } from '../../interfaces/transcription.interface';
+import {
+  GlossaryEntry,
+  applyGlossary,
+  extractCorrectionTerms,
+  isDistinctiveSpelling,
+} from './glossary-matcher';
+
+// Transcripts of sessions without a transcript row carry generated ids
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Terms are kept for an organization, or for one meeting
+export type GlossaryScope = { organizationId: string } | { meetingId: string };
+
+@Injectable()
+export class GlossaryService {
+  private readonly logger = new Logger(GlossaryService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * The organization whose glossary a user keeps, if they belong to one
+   */
+  async getOrganizationId(userId: string): Promise<string | null> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: { organizationId: true },
+    });
+    return user?.organizationId ?? null;
+  }
+
+  /**
+   * Stored terms of an organization or of a meeting
+   */
+  async listTerms(scope: GlossaryScope): Promise<GlossaryTerm[]> {
+    return this.prismaService.glossaryTerm.findMany({
+      where: { scope: this.scopeKey(scope) },
+      orderBy: { term: 'asc' },
+    });
+  }
+
+  /**
+   * Store a term for an organization or a meeting; aliases are added to those
+   * of a term that is already stored
+   */
+  async addTerm(
+    term: string,
+    aliases: string[],
+    scope: GlossaryScope,
+    source: GlossarySource = GlossarySource.manual,
+  ): Promise<GlossaryTerm> {
+    const key = { scope: this.scopeKey(scope), term: term.trim() };
+    const added = Array.from(new Set(aliases));
+
+    // One write, so concurrent additions of a term cannot both create it
+    const stored = await this.prismaService.glossaryTerm.upsert({
+      where: { scope_term: key },
+      create: { ...key, ...scope, aliases: added, source },
+      update: added.length ? { aliases: { push: added } } : {},
+    });
+
+    const unique = Array.from(new Set(stored.aliases));
+    if (unique.length === stored.aliases.length) {
+      return stored;
+    }
+    return this.prismaService.glossaryTerm.update({
+      where: { id: stored.id },
+      data: { aliases: unique },
+    });
+  }
+
+  /**
+   * Remove a term of the scope; false when it has no such term
+   */
+  async removeTerm(id: string, scope: GlossaryScope): Promise<boolean> {
+    const { count } = await this.prismaService.glossaryTerm.deleteMany({
+      where: { id, scope: this.scopeKey(scope) },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Everything a meeting's transcript should spell right: the terms of its
+   * organizer's organization and its own, its participants' names and the
+   * names, products and acronyms in its title
+   */
+  async getMeetingGlossary(meetingId: string): Promise<GlossaryEntry[]> {
+    const meeting = await this.prismaService.meeting.findUnique({
+      where: { id: meetingId },
+      select: {
+        title: true,
+        participants: { select: { name: true } },
+        organizer: { select: { organizationId: true } },
+      },
+    });
+    const organizationId = meeting?.organizer.organizationId;
+    const terms = await this.prismaService.glossaryTerm.findMany({
+      where: {
+        scope: {
+          in: organizationId ? [meetingId, organizationId] : [meetingId],
+        },
+      },
+    });
+
+    const names = (meeting?.participants ?? []).flatMap(({ name }) => {
+      const parts = name.trim().split(/\s+/);
+      // People are mostly called by their first name
+      return parts.length > 1 ? [name.trim(), parts[0]] : [name.trim()];
+    });
+    const titleTerms = (meeting?.title ?? '')
+      .split(/[\s,.:;!?()"/]+/)
+      .filter((word) => word.length > 1 && isDistinctiveSpelling(word));
+
+    const glossary = new Map<string, GlossaryEntry>();
+    for (const entry of [
+      ...terms.map(({ term, aliases }) => ({ term, aliases })),
+      ...[...names, ...titleTerms].map((term) => ({ term, aliases: [] })),
+    ]) {
+      if (!entry.term) {
+        continue;
+      }
+      const key = entry.term.toLowerCase();
+      const known = glossary.get(key);
+      glossary.set(key, {
+        term: known?.term ?? entry.term,
+        aliases: Array.from(
+          new Set([...(known?.aliases ?? []), ...entry.aliases]),
+        ),
+      });
+    }
+    return Array.from(glossary.values());
+  }
+
+  async getTranscriptGlossary(transcriptId: string): Promise<GlossaryEntry[]> {
+    if (!UUID_PATTERN.test(transcriptId)) {
+      return [];
+    }
+    const transcript = await this.prismaService.transcript.findUnique({
+      where: { id: transcriptId },
+      select: { meetingId: true },
+    });
+    return transcript ? this.getMeetingGlossary(transcript.meetingId) : [];
+  }
+
+  /**
+   * Learn the names, products and acronyms a user's correction of a segment
+   * of the transcript respelled, so the later transcripts of the meeting
+   * organizer's organization spell them right. Without an organization they
+   * are learned for the meeting.
+   */
+  async recordCorrection(
+    original: string,
+    corrected: string,
+    transcriptId: string,
+  ): Promise<GlossaryEntry[]> {
+    const learned = extractCorrectionTerms(original, corrected);
+    if (!learned.length) {
+      return learned;
+    }
+
+    const transcript = await this.prismaService.transcript.findUnique({
+      where: { id: transcriptId },
+      select: {
+        meetingId: true,
+        meeting: {
+          select: { organizer: { select: { organizationId: true } } },
+        },
+      },
+    });
+    if (!transcript) {
+      return [];
+    }
+    const organizationId = transcript.meeting.organizer.organizationId;
+    const scope: GlossaryScope = organizationId
+      ? { organizationId }
+      : { meetingId: transcript.meetingId };
+
+    for (const { term, aliases } of learned) {
+      await this.addTerm(term, aliases, scope, GlossarySource.correction);
+    }
+    this.logger.log(
+      `Learned glossary terms from a correction: ${learned.map((entry) => entry.term).join(', ')}`,
+    );
+    return learned;
+  }
+
+  /**
+   * Respell a stored transcript's segments with its meeting's glossary;
+   * returns how many terms were replaced
+   */
+  async applyToTranscript(transcriptId: string): Promise<number> {
+    const glossary = await this.getTranscriptGlossary(transcriptId);
+    if (!glossary.length) {
+      return 0;
+    }
+
+    const segments = await this.prismaService.transcriptSegment.findMany({
+      where: { transcriptId },
+      select: {
+        id: true,
+        text: true,
+        startTime: true,
+        endTime: true,
+        confidence: true,
+        words: true,
+      },
+    });
+
+    const updates: Prisma.PrismaPromise<unknown>[] = [];
+    let replacements = 0;
+    for (const segment of segments) {
+      const stored = (segment.words as unknown as TranscriptWord[]) ?? [];
+      // Segments without word timings are matched on their text alone
+      const words = stored.length
+        ? stored
+        : segment.text
+            .split(/\s+/)
+            .filter(Boolean)
+            .map((text) => ({
+              text,
+              start: segment.startTime,
+              end: segment.endTime,
+              confidence: Number(segment.confidence),
+            }));
+
+      const result = applyGlossary(words, glossary);
+      if (!result.replacements) {
+        continue;
+      }
+
+      replacements += result.replacements;
+      updates.push(
+        this.prismaService.transcriptSegment.update({
+          where: { id: segment.id },
+          data: {
+            text: result.words.map((word) => word.text).join(' '),
+            wordCount: result.words.length,
+            ...(stored.length > 0 && {
+              words: result.words.map((word) => ({
+                text: word.text,
+                start: Math.round(word.start),
+                end: Math.round(word.end),
+                confidence: word.confidence,
+              })),
+            }),
+          },
+        }),
+      );
+    }
+
+    if (!updates.length) {
+      return 0;
+    }
+
+    await this.prismaService.$transaction(updates);
+    const { _sum } = await this.prismaService.transcriptSegment.aggregate({
+      where: { transcriptId },
+      _sum: { wordCount: true },
+    });
+    await this.prismaService.transcript.update({
+      where: { id: transcriptId },
+      data: { wordCount: _sum.wordCount ?? 0 },
+    });
+
+    this.logger.log(
+      `Applied ${replacements} glossary replacements to transcript ${transcriptId}`,
+    );
+    return replacements;
+  }
+
+  private scopeKey(scope: GlossaryScope): string {
+    return 'meetingId' in scope ? scope.meetingId : scope.organizationId;
+  }
+}
@@ -0,0 +1,21 @@
+import { toLanguageCode, toLanguageDetection } from './language-codes';
+
+describe('toLanguageCode', () => {
+  it('should map ISO 639-3 labels and keep ISO 639-1 codes', () => {
+    expect(toLanguageCode('fra')).toBe('fr');
+    expect(toLanguageCode('en-US')).toBe('en');
+    expect(toLanguageCode('xyz')).toBeNull();
+  });
+});
+
+describe('toLanguageDetection', () => {
+  it('should pick the most likely language that has a code', () => {
+    expect(
+      toLanguageDetection([
+        { label: 'deu', score: 0.2 },
+        { label: 'xyz', score: 0.5 },
+        { label: 'spa', score: 0.3 },
+      ]),
+    ).toEqual({ language: 'es', confidence: 0.3 });
+  });
+});
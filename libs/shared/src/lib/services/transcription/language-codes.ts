@@ -0,0 +1,59 @@
+import { LanguageDetection } from '../../interfaces/transcription.interface';
+
+// Language identification models label audio with ISO 639-3 codes, while
+// transcripts use the ISO 639-1 codes of TranscriptionConfig.language
+const ISO_639_1_CODES: Record<string, string> = {
+  ara: 'ar',
+  ben: 'bn',
+  ces: 'cs',
+  cmn: 'zh',
+  dan: 'da',
+  deu: 'de',
+  ell: 'el',
+  eng: 'en',
+  fas: 'fa',
+  fin: 'fi',
+  fra: 'fr',
+  heb: 'he',
+  hin: 'hi',
+  hun: 'hu',
+  ind: 'id',
+  ita: 'it',
+  jpn: 'ja',
+  kor: 'ko',
+  nld: 'nl',
+  nor: 'no',
+  pol: 'pl',
+  por: 'pt',
+  ron: 'ro',
+  rus: 'ru',
+  spa: 'es',
+  swe: 'sv',
+  tha: 'th',
+  tur: 'tr',
+  ukr: 'uk',
+  urd: 'ur',
+  vie: 'vi',
+  zho: 'zh'
+};
+
+// Null for languages without an ISO 639-1 code
+export function toLanguageCode(label: string): string | null {
+  const code = label.trim().toLowerCase().split(/[-_]/)[0];
+  if (code.length === 2) {
+    return code;
+  }
+  return ISO_639_1_CODES[code] || null;
+}
+
+// The most likely language of a classifier's labels that maps onto a code
+export function toLanguageDetection(labels: Array<{ label: string; score: number }>): LanguageDetection | null {
+  const ranked = [...labels].sort((a, b) => b.score - a.score);
+  for (const { label, score } of ranked) {
+    const language = toLanguageCode(label);
+    if (language) {
+      return { language, confidence: score };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,85 @@
+import { OverlapStitcher, estimateWordTimings } from './overlap-stitcher';
+import { TranscriptWord } from '../../interfaces/transcription.interface';
+
+const word = (
+  text: string,
+  start: number,
+  end: number,
+  confidence = 0.9,
+): TranscriptWord => ({ text, start, end, confidence });
+
+describe('OverlapStitcher', () => {
+  let stitcher: OverlapStitcher;
+
+  beforeEach(() => {
+    stitcher = new OverlapStitcher();
+  });
+
+  it('should hold back the words in the overlap with the next window', () => {
+    const segment = stitcher.stitch(
+      { start: 0, end: 1000, overlapBefore: 0, overlapAfter: 200 },
+      [
+        word('hello', 100, 400),
+        word('there', 500, 750),
+        word('general', 820, 990),
+      ],
+    );
+
+    expect(segment.text).toBe('hello there');
+    expect(segment.start).toBe(0);
+    expect(segment.end).toBe(800);
+  });
+
+  it('should emit a word recognised by both windows once', () => {
+    stitcher.stitch(
+      { start: 0, end: 1000, overlapBefore: 0, overlapAfter: 200 },
+      [word('hello', 100, 400), word('general', 820, 990)],
+    );
+    const segment = stitcher.stitch(
+      { start: 800, end: 1800, overlapBefore: 200, overlapAfter: 0 },
+      [word('General', 830, 1000), word('kenobi', 1050, 1400)],
+    );
+
+    expect(segment.text).toBe('General kenobi');
+    expect(segment.start).toBe(800);
+    expect(segment.end).toBe(1800);
+  });
+
+  it('should keep the more confident recognition of the shared audio', () => {
+    stitcher.stitch(
+      { start: 0, end: 1000, overlapBefore: 0, overlapAfter: 200 },
+      [word('gen', 850, 1000, 0.4)],
+    );
+    const segment = stitcher.stitch(
+      { start: 800, end: 1800, overlapBefore: 200, overlapAfter: 0 },
+      [word('general', 820, 990, 0.95), word('kenobi', 1050, 1400)],
+    );
+
+    expect(segment.words.map((w) => w.text)).toEqual(['general', 'kenobi']);
+    expect(segment.words[0].confidence).toBe(0.95);
+  });
+
+  it('should keep words only one window recognised in the overlap', () => {
+    stitcher.stitch(
+      { start: 0, end: 1000, overlapBefore: 0, overlapAfter: 200 },
+      [word('so', 810, 870)],
+    );
+    const segment = stitcher.stitch(
+      { start: 800, end: 1800, overlapBefore: 200, overlapAfter: 0 },
+      [word('yes', 900, 990), word('indeed', 1100, 1400)],
+    );
+
+    expect(segment.text).toBe('so yes indeed');
+  });
+});
+
+describe('estimateWordTimings', () => {
+  it('should spread the words over the audio by their length', () => {
+    const words = estimateWordTimings('hi there', 1000, 1700, 0.8);
+
+    expect(words).toEqual([
+      word('hi', 1000, 1200, 0.8),
+      word('there', 1200, 1700, 0.8),
+    ]);
+  });
+});
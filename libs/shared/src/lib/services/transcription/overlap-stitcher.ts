@@ -0,0 +1,113 @@
+import { AudioWindow, TranscriptWord } from '../../interfaces/transcription.interface';
+
+// Words are timed on the stream's timeline, in ms from the start of the session
+export interface StitchedSegment {
+  start: number;
+  end: number;
+  text: string;
+  confidence: number;
+  words: TranscriptWord[];
+}
+
+// Two recognitions of the same spoken word rarely drift further apart than this
+const SAME_WORD_TOLERANCE_MS = 250;
+
+// Words whose timings overlap by at least this share are treated as the same audio
+const CONFLICT_OVERLAP_RATIO = 0.5;
+
+// Spreads a chunk's words over its audio in proportion to their length, for
+// models that return text without word timings
+export function estimateWordTimings(text: string, start: number, end: number, confidence: number): TranscriptWord[] {
+  const tokens = text.split(/\s+/).filter(token => token.length > 0);
+  const totalLength = tokens.reduce((sum, token) => sum + token.length, 0);
+  const msPerCharacter = totalLength > 0 ? (end - start) / totalLength : 0;
+
+  let cursor = start;
+  return tokens.map(token => {
+    const word = { text: token, start: cursor, end: cursor + token.length * msPerCharacter, confidence };
+    cursor = word.end;
+    return word;
+  });
+}
+
+// Joins the transcripts of overlapping chunks of one audio stream. Each chunk's
+// words that fall into the overlap with the next chunk are held back until that
+// chunk arrives, then merged with its copy of the same audio, so every word is
+// emitted exactly once and segments cover back-to-back stretches of the stream.
+export class OverlapStitcher {
+  private carried: TranscriptWord[] = [];
+
+  stitch(window: AudioWindow, words: TranscriptWord[]): StitchedSegment {
+    const previousEnd = window.start + window.overlapBefore;
+    const nextStart = window.end - window.overlapAfter;
+
+    const head = words.filter(word => this.midpoint(word) < previousEnd);
+    const rest = words.filter(word => this.midpoint(word) >= previousEnd);
+    const merged = this.mergeOverlap(this.carried, head, window.start + window.overlapBefore / 2);
+
+    const body = rest.filter(word => this.midpoint(word) < nextStart);
+    this.carried = rest.filter(word => this.midpoint(word) >= nextStart);
+
+    const kept = [...merged, ...body];
+    return {
+      start: window.start,
+      end: nextStart,
+      text: kept.map(word => word.text).join(' '),
+      confidence: kept.length > 0 ? kept.reduce((sum, word) => sum + word.confidence, 0) / kept.length : 0,
+      words: kept
+    };
+  }
+
+  // Walks both copies of the overlap in time order. Where they recognised the
+  // same audio the more confident word wins; on a tie, the copy from the chunk
+  // whose edge is further from the word, as words are cut at chunk edges.
+  private mergeOverlap(earlier: TranscriptWord[], later: TranscriptWord[], center: number): TranscriptWord[] {
+    const merged: TranscriptWord[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < earlier.length && j < later.length) {
+      const a = earlier[i];
+      const b = later[j];
+
+      if (this.isSameWord(a, b) || this.overlapRatio(a, b) >= CONFLICT_OVERLAP_RATIO) {
+        if (a.confidence !== b.confidence) {
+          merged.push(a.confidence > b.confidence ? a : b);
+        } else {
+          merged.push(this.midpoint(a) < center ? a : b);
+        }
+        i++;
+        j++;
+      } else if (a.start <= b.start) {
+        merged.push(a);
+        i++;
+      } else {
+        merged.push(b);
+        j++;
+      }
+    }
+
+    return merged.concat(earlier.slice(i), later.slice(j));
+  }
+
+  private isSameWord(a: TranscriptWord, b: TranscriptWord): boolean {
+    return (
+      this.normalize(a.text) === this.normalize(b.text) &&
+      Math.abs(this.midpoint(a) - this.midpoint(b)) <= SAME_WORD_TOLERANCE_MS
+    );
+  }
+
+  private overlapRatio(a: TranscriptWord, b: TranscriptWord): number {
+    const shared = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+    const shortest = Math.min(a.end - a.start, b.end - b.start);
+    return shared > 0 && shortest > 0 ? shared / shortest : 0;
+  }
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(/[.,!?;:"()]/g, '');
+  }
+
+  private midpoint(word: TranscriptWord): number {
+    return (word.start + word.end) / 2;
+  }
+}
@@ -3,15 +3,19 @@ import { EventEmitter2 } from '@nestjs/event-emitter';
 import { TranscriptionServiceImpl } from './transcription.service';
 import { RealTimeAudioStreamService, AudioStreamConfig } from './real-time-audio-stream.service';
 import { WebSocketTranscriptionServiceImpl } from './websocket-transcription.service';
+import { TranscriptPersistenceService } from './transcript-persistence.service';
 import { 
   TranscriptionConfig, 
   TranscriptionSession, 
   TranscriptSegment,
   FullTranscript,
   TranscriptionSessionStatus 
-} from '../interfaces/transcription.interface';
+} from '../../interfaces/transcription.interface';
 
 export interface RealTimeTranscriptionConfig {
+  // Segments are written to transcriptionConfig.transcriptId, or to a new
+  // transcript of this meeting when none is given
+  meetingId?: string;
   transcriptionConfig: TranscriptionConfig;
   audioStreamConfig: AudioStreamConfig;
   enableRealTimeUpdates: boolean;
@@ -50,7 +54,8 @@ export class RealTimeTranscriptionIntegrationService {
     private transcriptionService: TranscriptionServiceImpl,
     private audioStreamService: RealTimeAudioStreamService,
     private websocketService: WebSocketTranscriptionServiceImpl,
-    private eventEmitter: EventEmitter2
+    private eventEmitter: EventEmitter2,
+    private transcriptPersistence: TranscriptPersistenceService
   ) {
     this.setupEventListeners();
   }
@@ -61,9 +66,18 @@ export class RealTimeTranscriptionIntegrationService {
     sourceData?: any
   ): Promise<RealTimeTranscriptionSession> {
     const sessionId = this.generateSessionId();
+    let createdTranscriptId: string | undefined;
     
     try {
       this.logger.log(`Starting real-time transcription session: ${sessionId}`);
+
+      let transcriptId = config.transcriptionConfig.transcriptId;
+      if (!transcriptId) {
+        if (!config.meetingId) {
+          throw new Error('A meeting or transcript is required to store the transcription');
+        }
+        transcriptId = createdTranscriptId = await this.transcriptPersistence.createTranscript(config.meetingId);
+      }
       
       // Create audio stream based on source type
       let audioStreamSession;
@@ -84,8 +98,9 @@ export class RealTimeTranscriptionIntegrationService {
       // Start transcription session
       const transcriptionSession = await this.transcriptionService.startTranscription(
         audioStreamSession.stream,
-        config.transcriptionConfig
+        { ...config.transcriptionConfig, transcriptId }
       );
+      transcriptionSession.meetingId = config.meetingId || transcriptionSession.meetingId;
 
       // Create real-time session
       const rtSession: RealTimeTranscriptionSession = {
@@ -134,6 +149,9 @@ export class RealTimeTranscriptionIntegrationService {
 
     } catch (error) {
       this.logger.error(`Failed to start real-time transcription session ${sessionId}:`, error);
+      if (createdTranscriptId) {
+        await this.transcriptPersistence.markTranscriptFailed(createdTranscriptId).catch(() => undefined);
+      }
       throw error;
     }
   }
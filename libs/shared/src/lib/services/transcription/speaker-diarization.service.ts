@@ -9,6 +9,7 @@ import {
   Speaker, 
   VoiceProfile 
 } from '../interfaces/transcription.interface';
+import { VoiceActivityDetectionService } from './voice-activity-detection.service';
 
 @Injectable()
 export class SpeakerDiarizationServiceImpl implements SpeakerDiarizationService {
@@ -24,6 +25,8 @@ export class SpeakerDiarizationServiceImpl implements SpeakerDiarizationService
     modelName: 'pyannote/speaker-diarization'
   };
 
+  constructor(private voiceActivityDetection: VoiceActivityDetectionService) {}
+
   async diarizeAudio(audioData: Buffer, config: DiarizationConfig = this.defaultConfig): Promise<SpeakerDiarizationResult> {
     const startTime = Date.now();
     this.logger.debug('Starting speaker diarization...');
@@ -36,7 +39,7 @@ export class SpeakerDiarizationServiceImpl implements SpeakerDiarizationService
       const duration = samples.length / sampleRate;
       
       // Extract voice activity detection (VAD)
-      const voiceSegments = this.detectVoiceActivity(samples, sampleRate);
+      const voiceSegments = this.voiceActivityDetection.detectVoiceActivity(samples, sampleRate);
       
       // Extract speaker embeddings for each voice segment
       const speakerEmbeddings = await this.extractSpeakerEmbeddings(samples, voiceSegments, sampleRate);
@@ -189,58 +192,6 @@ export class SpeakerDiarizationServiceImpl implements SpeakerDiarizationService
     return mergedSpeaker;
   }
 
-  private detectVoiceActivity(samples: Float32Array, sampleRate: number): Array<{
-    startTime: number;
-    endTime: number;
-    samples: Float32Array;
-  }> {
-    const segments: Array<{ startTime: number; endTime: number; samples: Float32Array }> = [];
-    const windowSize = Math.floor(sampleRate * 0.025); // 25ms windows
-    const hopSize = Math.floor(sampleRate * 0.010); // 10ms hop
-    const energyThreshold = 0.01; // Adjust based on audio characteristics
-    
-    let inVoiceSegment = false;
-    let segmentStart = 0;
-    
-    for (let i = 0; i < samples.length - windowSize; i += hopSize) {
-      const window = samples.slice(i, i + windowSize);
-      const energy = this.calculateEnergy(window);
-      
-      if (energy > energyThreshold && !inVoiceSegment) {
-        // Start of voice segment
-        inVoiceSegment = true;
-        segmentStart = i;
-      } else if (energy <= energyThreshold && inVoiceSegment) {
-        // End of voice segment
-        inVoiceSegment = false;
-        const segmentEnd = i;
-        const duration = (segmentEnd - segmentStart) / sampleRate;
-        
-        if (duration >= 0.5) { // Minimum segment length
-          segments.push({
-            startTime: segmentStart / sampleRate,
-            endTime: segmentEnd / sampleRate,
-            samples: samples.slice(segmentStart, segmentEnd)
-          });
-        }
-      }
-    }
-    
-    // Handle case where audio ends during a voice segment
-    if (inVoiceSegment) {
-      const duration = (samples.length - segmentStart) / sampleRate;
-      if (duration >= 0.5) {
-        segments.push({
-          startTime: segmentStart / sampleRate,
-          endTime: samples.length / sampleRate,
-          samples: samples.slice(segmentStart)
-        });
-      }
-    }
-    
-    return segments;
-  }
-
   private async extractSpeakerEmbeddings(
     samples: Float32Array, 
     voiceSegments: Array<{ startTime: number; endTime: number; samples: Float32Array }>, 
@@ -0,0 +1,184 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../database/prisma.service';
+import {
+  SegmentFeedback,
+  TranscriptSegmentRevision,
+} from '../../generated/prisma';
+import { TranscriptWord } from '../../interfaces/transcription.interface';
+import { GlossaryService } from './glossary.service';
+import { countWordErrors, retimeWords, splitWords } from './word-diff';
+
+// Live segments are written in batches, so feedback can arrive before its
+// segment is stored; it is retried until the next batch has been written
+const FEEDBACK_RETRY_DELAY = 5000;
+const FEEDBACK_RETRIES = 3;
+
+// Segments of transcripts without a transcript row are never stored
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface TranscriptSegmentFeedback {
+  segmentId: string;
+  transcriptId: string; // the segment is only revised if it belongs to it
+  feedback: SegmentFeedback;
+  correction?: string;
+  userId?: string;
+}
+
+@Injectable()
+export class TranscriptFeedbackService {
+  private readonly logger = new Logger(TranscriptFeedbackService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly glossaryService: GlossaryService,
+  ) {}
+
+  /**
+   * Store feedback on a segment as its next revision, rewriting the segment
+   * with a correction and learning glossary terms from it; resolves to null
+   * when the segment is not stored
+   */
+  async recordFeedback(
+    feedback: TranscriptSegmentFeedback,
+  ): Promise<TranscriptSegmentRevision | null> {
+    if (!UUID_PATTERN.test(feedback.segmentId)) {
+      return null;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const revision = await this.reviseSegment(feedback);
+      if (revision || attempt >= FEEDBACK_RETRIES) {
+        return revision;
+      }
+      await new Promise((resolve) => setTimeout(resolve, FEEDBACK_RETRY_DELAY));
+    }
+  }
+
+  /**
+   * The edit history of a segment of the meeting's transcripts, oldest first
+   */
+  async getRevisions(
+    meetingId: string,
+    segmentId: string,
+  ): Promise<TranscriptSegmentRevision[]> {
+    return this.prismaService.transcriptSegmentRevision.findMany({
+      where: { segmentId, segment: { transcript: { meetingId } } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Word error rate of each model over the segments users corrected or
+   * confirmed: the edits from its text to theirs per word of theirs
+   */
+  async getWordErrorRates(): Promise<Record<string, number>> {
+    const totals = await this.prismaService.transcriptSegmentRevision.groupBy({
+      by: ['modelName'],
+      where: { modelName: { not: null }, wordErrors: { not: null } },
+      _sum: { wordErrors: true, referenceWords: true },
+    });
+
+    return Object.fromEntries(
+      totals
+        .filter(({ _sum }) => _sum.referenceWords)
+        .map(({ modelName, _sum }) => [
+          modelName as string,
+          (_sum.wordErrors ?? 0) / (_sum.referenceWords as number),
+        ]),
+    );
+  }
+
+  private async reviseSegment(
+    feedback: TranscriptSegmentFeedback,
+  ): Promise<TranscriptSegmentRevision | null> {
+    const segment = await this.prismaService.transcriptSegment.findFirst({
+      where: { id: feedback.segmentId, transcriptId: feedback.transcriptId },
+      include: { revisions: { orderBy: { createdAt: 'asc' }, take: 1 } },
+    });
+    if (!segment) {
+      return null;
+    }
+
+    const correction = feedback.correction?.trim();
+    const corrected =
+      correction && correction !== segment.text ? correction : null;
+    // What the model recognised is what the first revision replaced
+    const recognised = segment.revisions[0]?.previousText ?? segment.text;
+    // The right text is known from a correction or a confirmation
+    const reference =
+      corrected ??
+      (feedback.feedback === SegmentFeedback.correct ? segment.text : null);
+    const words = segment.words as unknown as TranscriptWord[];
+
+    const revision = await this.prismaService.$transaction(async (tx) => {
+      if (reference !== null) {
+        // Only the latest known text of a segment counts towards error rates
+        await tx.transcriptSegmentRevision.updateMany({
+          where: { segmentId: segment.id },
+          data: { wordErrors: null, referenceWords: null },
+        });
+      }
+
+      if (corrected) {
+        await tx.transcriptSegment.update({
+          where: { id: segment.id },
+          data: {
+            text: corrected,
+            wordCount: splitWords(corrected).length,
+            // Segments without word timings keep none
+            ...(words.length > 0 && {
+              words: retimeWords(words, corrected).map((word) => ({
+                text: word.text,
+                start: Math.round(word.start),
+                end: Math.round(word.end),
+                confidence: word.confidence,
+              })),
+            }),
+          },
+        });
+
+        const { _sum } = await tx.transcriptSegment.aggregate({
+          where: { transcriptId: segment.transcriptId },
+          _sum: { wordCount: true },
+        });
+        await tx.transcript.update({
+          where: { id: segment.transcriptId },
+          data: { wordCount: _sum.wordCount ?? 0 },
+        });
+      }
+
+      return tx.transcriptSegmentRevision.create({
+        data: {
+          segmentId: segment.id,
+          userId: feedback.userId,
+          feedback: feedback.feedback,
+          previousText: segment.text,
+          text: corrected,
+          modelName: segment.modelName,
+          wordErrors:
+            reference !== null ? countWordErrors(recognised, reference) : null,
+          referenceWords:
+            reference !== null ? splitWords(reference).length : null,
+        },
+      });
+    });
+
+    if (corrected) {
+      // A lost glossary candidate shouldn't lose the correction
+      await this.glossaryService
+        .recordCorrection(segment.text, corrected, segment.transcriptId)
+        .catch((error) =>
+          this.logger.warn(
+            `Failed to learn glossary terms from segment ${segment.id}:`,
+            error,
+          ),
+        );
+    }
+
+    this.logger.log(
+      `Recorded ${feedback.feedback} feedback on segment ${segment.id}`,
+    );
+    return revision;
+  }
+}
@@ -0,0 +1,190 @@
+import { TranscriptPersistenceService } from './transcript-persistence.service';
+import type { PrismaService } from '../database/prisma.service';
+
+jest.mock('../database/prisma.service', () => ({ PrismaService: class {} }));
+
+describe('TranscriptPersistenceService', () => {
+  const meetingStart = new Date('2024-01-01T10:00:00Z');
+  const at = (seconds: number) =>
+    new Date(meetingStart.getTime() + seconds * 1000);
+
+  let prisma: {
+    meeting: { findUnique: jest.Mock };
+    transcript: {
+      findFirst: jest.Mock;
+      findMany: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    meetingChatMessage: { findMany: jest.Mock };
+    visualSegment: { findMany: jest.Mock };
+  };
+  let service: TranscriptPersistenceService;
+
+  const segment = (start: number, name: string, text: string) => ({
+    startTime: start * 1000,
+    text,
+    speaker: { name },
+  });
+
+  const chat = (offset: number, senderName: string, message: string) => ({
+    sentAt: at(offset),
+    offset: offset * 1000,
+    senderName,
+    message,
+  });
+
+  beforeEach(() => {
+    prisma = {
+      meeting: {
+        findUnique: jest.fn().mockResolvedValue({
+          actualStartTime: meetingStart,
+          scheduledTime: meetingStart,
+        }),
+      },
+      transcript: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      meetingChatMessage: { findMany: jest.fn().mockResolvedValue([]) },
+      visualSegment: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    service = new TranscriptPersistenceService(
+      prisma as unknown as PrismaService,
+    );
+  });
+
+  describe('buildMeetingContext', () => {
+    it('should weave chat between the segments it was sent between', async () => {
+      prisma.transcript.findFirst.mockResolvedValue({
+        sessionStartedAt: meetingStart,
+        segments: [
+          segment(5, 'Alice', 'Shall we start?'),
+          segment(40, 'Bob', 'The link is in the chat.'),
+        ],
+      });
+      prisma.meetingChatMessage.findMany.mockResolvedValue([
+        chat(20, 'Carol', 'Running late'),
+        chat(45, 'Bob', 'https://example.com/plan'),
+      ]);
+
+      const context = await service.buildMeetingContext('meeting-1');
+
+      expect(context.split('\n')).toEqual([
+        '[00:00:05] Alice: Shall we start?',
+        '[00:00:20] Carol (chat): Running late',
+        '[00:00:40] Bob: The link is in the chat.',
+        '[00:00:45] Bob (chat): https://example.com/plan',
+      ]);
+    });
+
+    it('should place segments of a session started after the meeting on the meeting timeline', async () => {
+      // The recorder joined two minutes in, so segment times start there
+      prisma.transcript.findFirst.mockResolvedValue({
+        sessionStartedAt: at(120),
+        segments: [segment(10, 'Alice', 'Welcome everyone.')],
+      });
+      prisma.meetingChatMessage.findMany.mockResolvedValue([
+        chat(60, 'Carol', 'Is this being recorded?'),
+        chat(125, 'Bob', 'Hi all'),
+      ]);
+      prisma.visualSegment.findMany.mockResolvedValue([
+        { startTime: 128_000, text: 'Q3   roadmap' },
+      ]);
+
+      const context = await service.buildMeetingContext('meeting-1');
+
+      expect(context.split('\n')).toEqual([
+        '[00:01:00] Carol (chat): Is this being recorded?',
+        '[00:02:05] Bob (chat): Hi all',
+        '[00:02:08] On screen: Q3 roadmap',
+        '[00:02:10] Alice: Welcome everyone.',
+      ]);
+    });
+
+    it('should leave segments of transcripts without a live session as they are', async () => {
+      prisma.transcript.findFirst.mockResolvedValue({
+        sessionStartedAt: null,
+        segments: [segment(30, 'Alice', 'From the recording.')],
+      });
+
+      const context = await service.buildMeetingContext('meeting-1');
+
+      expect(context).toBe('[00:00:30] Alice: From the recording.');
+    });
+
+    it('should name senders it does not know', async () => {
+      prisma.meetingChatMessage.findMany.mockResolvedValue([
+        { ...chat(3, '', 'Hello'), senderName: null },
+      ]);
+
+      const context = await service.buildMeetingContext('meeting-1');
+
+      expect(context).toBe('[00:00:03] Unknown participant (chat): Hello');
+    });
+  });
+
+  describe('claimStaleLiveTranscripts', () => {
+    const staleBefore = at(0);
+
+    it('should only load the transcripts whose claim this replica won', async () => {
+      prisma.transcript.findMany
+        .mockResolvedValueOnce([{ id: 'transcript-1' }, { id: 'transcript-2' }])
+        .mockResolvedValueOnce([
+          {
+            id: 'transcript-1',
+            meetingId: 'meeting-1',
+            sessionId: 'session-1',
+            sessionStartedAt: meetingStart,
+            sessionConfig: { modelName: 'openai/whisper-small' },
+            sessionResumable: false,
+            language: 'en',
+            createdAt: meetingStart,
+            segments: [],
+          },
+        ]);
+      // Another replica claimed the second one first
+      prisma.transcript.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const claimed = await service.claimStaleLiveTranscripts(
+        'replica-b',
+        staleBefore,
+      );
+
+      expect(prisma.transcript.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          id: 'transcript-2',
+          OR: [
+            { sessionHeartbeat: null },
+            { sessionHeartbeat: { lt: staleBefore } },
+          ],
+        }),
+        data: { sessionOwner: 'replica-b', sessionHeartbeat: expect.any(Date) },
+      });
+      expect(prisma.transcript.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { id: { in: ['transcript-1'] } } }),
+      );
+      expect(claimed).toEqual([
+        expect.objectContaining({
+          transcriptId: 'transcript-1',
+          sessionId: 'session-1',
+          resumable: false,
+        }),
+      ]);
+    });
+
+    it('should not load anything when no claim was won', async () => {
+      prisma.transcript.findMany.mockResolvedValueOnce([
+        { id: 'transcript-1' },
+      ]);
+      prisma.transcript.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        service.claimStaleLiveTranscripts('replica-b', staleBefore),
+      ).resolves.toEqual([]);
+      expect(prisma.transcript.findMany).toHaveBeenCalledTimes(1);
+    });
+  });
+});
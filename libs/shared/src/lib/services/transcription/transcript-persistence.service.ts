@@ -0,0 +1,617 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../database/prisma.service';
+import { Prisma, ProcessingStatus } from '../../generated/prisma';
+import {
+  AUTO_LANGUAGE,
+  FullTranscript,
+  Speaker,
+  TranscriptSegment,
+  TranscriptWord,
+  TranscriptionConfig,
+  TranscriptionSession,
+} from '../../interfaces/transcription.interface';
+
+// A live transcription session as last written to the database
+export interface PersistedTranscriptionSession {
+  transcriptId: string;
+  meetingId: string;
+  sessionId: string;
+  startTime: Date;
+  config: TranscriptionConfig;
+  // Whether audio can still be sent to it, or its source died with its process
+  resumable: boolean;
+  segments: TranscriptSegment[];
+  speakers: Speaker[];
+}
+
+// The replica running a live session, and whether another one could take over
+export interface LiveTranscriptClaim {
+  owner: string;
+  resumable: boolean;
+}
+
+@Injectable()
+export class TranscriptPersistenceService {
+  private readonly logger = new Logger(TranscriptPersistenceService.name);
+  // transcriptId -> diarization label -> Speaker row id, for live transcripts
+  private readonly speakerRows = new Map<string, Map<string, string>>();
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Create a pending transcript for a meeting, returning its id
+   */
+  async createTranscript(meetingId: string): Promise<string> {
+    try {
+      const record = await this.prismaService.transcript.create({
+        data: { meetingId },
+        select: { id: true },
+      });
+      return record.id;
+    } catch (error) {
+      this.logger.error(
+        `Failed to create a transcript for meeting ${meetingId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Flag a pending transcript as being worked on
+   */
+  async markTranscriptProcessing(transcriptId: string): Promise<void> {
+    await this.updateStatus(transcriptId, ProcessingStatus.processing);
+  }
+
+  /**
+   * Flag a transcript whose processing could not be completed
+   */
+  async markTranscriptFailed(transcriptId: string): Promise<void> {
+    await this.updateStatus(transcriptId, ProcessingStatus.failed);
+  }
+
+  /**
+   * Store a finished transcript's speakers and segments and complete its row
+   */
+  async saveTranscript(
+    transcriptId: string,
+    transcript: FullTranscript,
+  ): Promise<void> {
+    try {
+      const record = await this.prismaService.transcript.findUnique({
+        where: { id: transcriptId },
+        select: { meetingId: true },
+      });
+      if (!record) {
+        throw new Error(`Transcript not found: ${transcriptId}`);
+      }
+
+      // Segment timestamps are stored relative to the start of the recording
+      const origin = transcript.segments.length
+        ? Math.min(...transcript.segments.map((segment) => segment.timestamp))
+        : 0;
+      const end = transcript.segments.reduce(
+        (latest, segment) => Math.max(latest, segment.endTimestamp - origin),
+        0,
+      );
+      const averageConfidence =
+        transcript.modelMetadata?.averageConfidence ??
+        transcript.segments.reduce((sum, s) => sum + s.confidence, 0) /
+          Math.max(transcript.segments.length, 1);
+
+      await this.prismaService.$transaction(async (tx) => {
+        const speakerIds = await this.createSpeakers(
+          tx,
+          record.meetingId,
+          transcript.segments,
+          transcript.speakers,
+          new Map(),
+        );
+
+        await tx.transcriptSegment.deleteMany({ where: { transcriptId } });
+        await tx.transcriptSegment.createMany({
+          data: transcript.segments.map((segment) =>
+            this.toSegmentRow(transcriptId, segment, speakerIds, origin),
+          ),
+        });
+
+        // Screen-share scenes captured during the meeting belong to its transcript
+        await tx.visualSegment.updateMany({
+          where: { meetingId: record.meetingId, transcriptId: null },
+          data: { transcriptId },
+        });
+
+        await tx.transcript.update({
+          where: { id: transcriptId },
+          data: {
+            language: transcript.language,
+            confidence: this.roundConfidence(averageConfidence),
+            processingStatus: ProcessingStatus.completed,
+            wordCount: transcript.segments.reduce(
+              (sum, segment) => sum + this.countWords(segment.text),
+              0,
+            ),
+            duration: Math.round(end / 1000),
+          },
+        });
+      });
+
+      this.logger.log(
+        `Saved ${transcript.segments.length} segments to transcript ${transcriptId}`,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to save transcript ${transcriptId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Tie a pending transcript to the live session that will write its segments
+   * and to the replica running it
+   */
+  async startLiveTranscript(
+    transcriptId: string,
+    session: Pick<TranscriptionSession, 'sessionId' | 'startTime' | 'config'>,
+    claim: LiveTranscriptClaim,
+  ): Promise<void> {
+    try {
+      await this.prismaService.transcript.update({
+        where: { id: transcriptId },
+        data: {
+          sessionId: session.sessionId,
+          sessionStartedAt: session.startTime,
+          sessionConfig: session.config as unknown as Prisma.InputJsonValue,
+          sessionOwner: claim.owner,
+          sessionHeartbeat: new Date(),
+          sessionResumable: claim.resumable,
+          // An identified language is only known once the transcript completes
+          ...(session.config.language !== AUTO_LANGUAGE && {
+            language: session.config.language,
+          }),
+          processingStatus: ProcessingStatus.processing,
+        },
+      });
+      this.speakerRows.set(transcriptId, new Map());
+    } catch (error) {
+      this.logger.error(
+        `Failed to start live transcript ${transcriptId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Write a batch of a live session's segments and refresh the transcript's
+   * totals. Segments are timed from origin, the start of the session.
+   */
+  async appendSegments(
+    transcriptId: string,
+    segments: TranscriptSegment[],
+    speakers: Speaker[],
+    origin: number,
+  ): Promise<void> {
+    if (segments.length === 0) {
+      return;
+    }
+
+    try {
+      const record = await this.prismaService.transcript.findUnique({
+        where: { id: transcriptId },
+        select: { meetingId: true },
+      });
+      if (!record) {
+        throw new Error(`Transcript not found: ${transcriptId}`);
+      }
+
+      const speakerIds = await this.prismaService.$transaction(async (tx) => {
+        const speakerIds = await this.createSpeakers(
+          tx,
+          record.meetingId,
+          segments,
+          speakers,
+          this.speakerRows.get(transcriptId) ?? new Map(),
+        );
+
+        // Segment ids are kept, so a batch retried after an unclear failure
+        // is not written twice
+        await tx.transcriptSegment.createMany({
+          data: segments.map((segment) => ({
+            id: segment.id,
+            ...this.toSegmentRow(transcriptId, segment, speakerIds, origin),
+          })),
+          skipDuplicates: true,
+        });
+
+        const totals = await tx.transcriptSegment.aggregate({
+          where: { transcriptId },
+          _sum: { wordCount: true },
+          _avg: { confidence: true },
+          _max: { endTime: true },
+        });
+        await tx.transcript.update({
+          where: { id: transcriptId },
+          data: {
+            wordCount: totals._sum.wordCount ?? 0,
+            confidence: this.roundConfidence(
+              Number(totals._avg.confidence ?? 0),
+            ),
+            duration: Math.round((totals._max.endTime ?? 0) / 1000),
+          },
+        });
+
+        return speakerIds;
+      });
+
+      // Only once committed, so rolled back speakers are created again
+      this.speakerRows.set(transcriptId, speakerIds);
+    } catch (error) {
+      this.logger.error(
+        `Failed to append ${segments.length} segments to transcript ${transcriptId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Complete a transcript whose segments were written while it was live
+   */
+  async completeLiveTranscript(
+    transcriptId: string,
+    transcript: FullTranscript,
+  ): Promise<void> {
+    try {
+      const record = await this.prismaService.transcript.findUnique({
+        where: { id: transcriptId },
+        select: { meetingId: true },
+      });
+      if (!record) {
+        throw new Error(`Transcript not found: ${transcriptId}`);
+      }
+
+      await this.prismaService.$transaction([
+        this.prismaService.visualSegment.updateMany({
+          where: { meetingId: record.meetingId, transcriptId: null },
+          data: { transcriptId },
+        }),
+        this.prismaService.transcript.update({
+          where: { id: transcriptId },
+          data: {
+            language: transcript.language,
+            confidence: this.roundConfidence(
+              transcript.modelMetadata.averageConfidence,
+            ),
+            processingStatus: ProcessingStatus.completed,
+          },
+        }),
+      ]);
+      this.speakerRows.delete(transcriptId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to complete live transcript ${transcriptId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * The transcript a live session writes, if it is stored
+   */
+  async findSessionTranscript(
+    sessionId: string,
+  ): Promise<{ id: string; meetingId: string } | null> {
+    return this.prismaService.transcript.findUnique({
+      where: { sessionId },
+      select: { id: true, meetingId: true },
+    });
+  }
+
+  /**
+   * Keep the owner's claim on the live transcripts it is still writing
+   */
+  async renewLiveTranscripts(
+    owner: string,
+    transcriptIds: string[],
+  ): Promise<void> {
+    if (transcriptIds.length === 0) {
+      return;
+    }
+
+    await this.prismaService.transcript.updateMany({
+      where: { id: { in: transcriptIds }, sessionOwner: owner },
+      data: { sessionHeartbeat: new Date() },
+    });
+  }
+
+  /**
+   * Take over the live sessions whose transcripts were still being written by
+   * a replica that stopped renewing its claim before staleBefore, e.g. one
+   * that crashed. Each is claimed by a conditional write, so when several
+   * replicas look at once only one of them gets it.
+   */
+  async claimStaleLiveTranscripts(
+    owner: string,
+    staleBefore: Date,
+  ): Promise<PersistedTranscriptionSession[]> {
+    const stale: Prisma.TranscriptWhereInput = {
+      processingStatus: ProcessingStatus.processing,
+      sessionId: { not: null },
+      OR: [
+        { sessionHeartbeat: null },
+        { sessionHeartbeat: { lt: staleBefore } },
+      ],
+    };
+
+    const candidates = await this.prismaService.transcript.findMany({
+      where: stale,
+      select: { id: true },
+    });
+
+    const claimed: string[] = [];
+    for (const candidate of candidates) {
+      const { count } = await this.prismaService.transcript.updateMany({
+        where: { id: candidate.id, ...stale },
+        data: { sessionOwner: owner, sessionHeartbeat: new Date() },
+      });
+      if (count === 1) {
+        claimed.push(candidate.id);
+      }
+    }
+
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    const records = await this.prismaService.transcript.findMany({
+      where: { id: { in: claimed } },
+      include: {
+        segments: {
+          orderBy: { startTime: 'asc' },
+          include: { speaker: true },
+        },
+      },
+    });
+
+    return records.map((record) => {
+      const startTime = record.sessionStartedAt ?? record.createdAt;
+      const origin = startTime.getTime();
+      const config = record.sessionConfig as unknown as TranscriptionConfig;
+
+      // Restored segments are labelled with their Speaker row ids
+      const speakers = new Map<string, Speaker>();
+      const segments = record.segments.map((row) => {
+        const segment: TranscriptSegment = {
+          id: row.id,
+          timestamp: origin + row.startTime,
+          endTimestamp: origin + row.endTime,
+          speakerId: row.speakerId ?? 'unknown',
+          text: row.text,
+          confidence: Number(row.confidence),
+          modelUsed: row.modelName ?? config.modelName,
+          processingTime: 0,
+          language: row.language ?? record.language,
+          words: (row.words as unknown as TranscriptWord[]).map((word) => ({
+            ...word,
+            start: origin + word.start,
+            end: origin + word.end,
+          })),
+        };
+
+        if (row.speaker) {
+          const speaker =
+            speakers.get(row.speaker.id) ?? this.toSpeaker(row.speaker);
+          speaker.segments.push(segment.id);
+          speaker.totalSpeakingTime += row.endTime - row.startTime;
+          speaker.averageConfidence +=
+            (segment.confidence - speaker.averageConfidence) /
+            speaker.segments.length;
+          speakers.set(speaker.id, speaker);
+        }
+        return segment;
+      });
+
+      this.speakerRows.set(
+        record.id,
+        new Map(Array.from(speakers.keys()).map((id) => [id, id])),
+      );
+
+      return {
+        transcriptId: record.id,
+        meetingId: record.meetingId,
+        sessionId: record.sessionId as string,
+        startTime,
+        config,
+        resumable: record.sessionResumable,
+        segments,
+        speakers: Array.from(speakers.values()),
+      };
+    });
+  }
+
+  /**
+   * The meeting's latest completed transcript with its chat messages and
+   * on-screen text woven in by time, as text for summaries and Q&A
+   */
+  async buildMeetingContext(meetingId: string): Promise<string> {
+    const [transcript, chatMessages, visualSegments] = await Promise.all([
+      this.prismaService.transcript.findFirst({
+        where: { meetingId, processingStatus: ProcessingStatus.completed },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          segments: {
+            orderBy: { startTime: 'asc' },
+            include: { speaker: { select: { name: true } } },
+          },
+        },
+      }),
+      this.prismaService.meetingChatMessage.findMany({
+        where: { meetingId },
+        orderBy: { sentAt: 'asc' },
+      }),
+      this.prismaService.visualSegment.findMany({
+        where: { meetingId, text: { not: '' } },
+        orderBy: { startTime: 'asc' },
+        select: { startTime: true, text: true },
+      }),
+    ]);
+
+    // Chat and screen text are in ms from the start of the meeting, segments
+    // from the start of their transcription session, which may differ
+    const meeting = await this.prismaService.meeting.findUnique({
+      where: { id: meetingId },
+      select: { actualStartTime: true, scheduledTime: true },
+    });
+    const meetingStart = meeting?.actualStartTime ?? meeting?.scheduledTime;
+    const segmentShift =
+      meetingStart && transcript?.sessionStartedAt
+        ? transcript.sessionStartedAt.getTime() - meetingStart.getTime()
+        : 0;
+
+    const lines = [
+      ...(transcript?.segments ?? []).map((segment) => ({
+        time: Math.max(0, segment.startTime + segmentShift),
+        text: `${segment.speaker?.name || 'Unknown speaker'}: ${segment.text}`,
+      })),
+      ...chatMessages.map((chat) => ({
+        time: chat.offset,
+        text: `${chat.senderName || 'Unknown participant'} (chat): ${chat.message}`,
+      })),
+      ...visualSegments.map((visual) => ({
+        time: visual.startTime,
+        text: `On screen: ${visual.text.replace(/\s+/g, ' ').trim()}`,
+      })),
+    ];
+
+    return lines
+      .sort((a, b) => a.time - b.time)
+      .map((line) => `[${this.formatOffset(line.time)}] ${line.text}`)
+      .join('\n');
+  }
+
+  // Diarization labels become Speaker rows so they can be linked later;
+  // returns the known rows with the ones created for new labels
+  private async createSpeakers(
+    tx: Prisma.TransactionClient,
+    meetingId: string,
+    segments: TranscriptSegment[],
+    speakers: Speaker[],
+    known: Map<string, string>,
+  ): Promise<Map<string, string>> {
+    const speakerIds = new Map(known);
+    const labels = Array.from(
+      new Set(segments.map((segment) => segment.speakerId)),
+    ).filter((label) => label && !speakerIds.has(label));
+
+    for (const label of labels) {
+      const speaker = speakers.find((s) => s.id === label);
+      const created = await tx.speaker.create({
+        data: {
+          meetingId,
+          name: speaker?.name,
+          voiceProfile: JSON.stringify(speaker?.voiceProfile?.features ?? []),
+        },
+      });
+      speakerIds.set(label, created.id);
+    }
+
+    return speakerIds;
+  }
+
+  private toSegmentRow(
+    transcriptId: string,
+    segment: TranscriptSegment,
+    speakerIds: Map<string, string>,
+    origin: number,
+  ): Prisma.TranscriptSegmentCreateManyInput {
+    return {
+      transcriptId,
+      speakerId: speakerIds.get(segment.speakerId),
+      text: segment.text,
+      startTime: Math.round(segment.timestamp - origin),
+      endTime: Math.round(segment.endTimestamp - origin),
+      confidence: this.roundConfidence(segment.confidence),
+      wordCount: this.countWords(segment.text),
+      language: segment.language,
+      modelName: segment.modelUsed,
+      words: segment.words.map((word) => ({
+        text: word.text,
+        start: Math.round(word.start - origin),
+        end: Math.round(word.end - origin),
+        confidence: word.confidence,
+      })),
+    };
+  }
+
+  private toSpeaker(row: {
+    id: string;
+    name: string | null;
+    voiceProfile: string;
+    createdAt: Date;
+  }): Speaker {
+    // Profiles are stored as a plain array or as { features }
+    let features: number[] = [];
+    try {
+      const parsed = JSON.parse(row.voiceProfile);
+      features = (Array.isArray(parsed) ? parsed : parsed?.features) ?? [];
+    } catch {
+      features = [];
+    }
+
+    return {
+      id: row.id,
+      name: row.name ?? undefined,
+      voiceProfile: {
+        id: row.id,
+        features,
+        confidence: 1,
+        sampleCount: 0,
+        lastUpdated: row.createdAt,
+      },
+      segments: [],
+      totalSpeakingTime: 0,
+      averageConfidence: 0,
+      detectedAt: row.createdAt,
+    };
+  }
+
+  private async updateStatus(
+    transcriptId: string,
+    processingStatus: ProcessingStatus,
+  ): Promise<void> {
+    try {
+      await this.prismaService.transcript.update({
+        where: { id: transcriptId },
+        data: { processingStatus },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to mark transcript ${transcriptId} as ${processingStatus}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  private formatOffset(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    return [
+      Math.floor(seconds / 3600),
+      Math.floor(seconds / 60) % 60,
+      seconds % 60,
+    ]
+      .map((part) => String(part).padStart(2, '0'))
+      .join(':');
+  }
+
+  // Confidence columns are Decimal(3, 2)
+  private roundConfidence(confidence: number): number {
+    return Math.round(Math.max(0, Math.min(1, confidence)) * 100) / 100;
+  }
+}
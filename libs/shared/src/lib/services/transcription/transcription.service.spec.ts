@@ -0,0 +1,542 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Readable } from 'stream';
+import { TranscriptionServiceImpl } from './transcription.service';
+import {
+  PersistedTranscriptionSession,
+  TranscriptPersistenceService,
+} from './transcript-persistence.service';
+import type { AsrProviderFactory } from '../ai/asr-provider.factory';
+import type { AudioPreprocessingServiceImpl } from './audio-preprocessing.service';
+import type { SpeakerDiarizationServiceImpl } from './speaker-diarization.service';
+import type { WebSocketTranscriptionServiceImpl } from './websocket-transcription.service';
+import type { InngestFunctionsService } from '../infrastructure/inngest-functions.service';
+import type { AICostMonitorService } from '../ai/ai-cost-monitor.service';
+import type { VoiceActivityDetectionService } from './voice-activity-detection.service';
+import type { TranscriptFeedbackService } from './transcript-feedback.service';
+import type { PrismaService } from '../database/prisma.service';
+import {
+  AUTO_LANGUAGE,
+  AsrTranscriptionResult,
+  TranscriptionConfig,
+} from '../../interfaces/transcription.interface';
+
+jest.mock('../database/prisma.service', () => ({ PrismaService: class {} }));
+jest.mock('../ai/asr-provider.factory', () => ({
+  AsrProviderFactory: class {},
+}));
+jest.mock('./audio-preprocessing.service', () => ({
+  AudioPreprocessingServiceImpl: class {},
+}));
+jest.mock('./speaker-diarization.service', () => ({
+  SpeakerDiarizationServiceImpl: class {},
+}));
+jest.mock('./websocket-transcription.service', () => ({
+  WebSocketTranscriptionServiceImpl: class {},
+}));
+jest.mock('../infrastructure/inngest-functions.service', () => ({
+  InngestFunctionsService: class {},
+}));
+jest.mock('../ai/ai-cost-monitor.service', () => ({
+  AICostMonitorService: class {},
+}));
+jest.mock('./voice-activity-detection.service', () => ({
+  VoiceActivityDetectionService: class {},
+}));
+jest.mock('./transcript-feedback.service', () => ({
+  TranscriptFeedbackService: class {},
+}));
+
+// A speech-to-text backend serving the given models
+const stubProvider = (isLocal: boolean, models: string[]) => ({
+  isLocal,
+  supportsModel: jest.fn((model: string) => models.includes(model)),
+  listModels: jest.fn().mockReturnValue(models),
+  loadModel: jest.fn(),
+  getModelStatus: jest.fn().mockResolvedValue({ status: 'ready' }),
+  getAllModelStatuses: jest.fn().mockResolvedValue([]),
+  transcribeAudio: jest.fn(),
+  supportsLanguage: jest.fn().mockReturnValue(true),
+  identifyLanguage: jest.fn().mockResolvedValue(null),
+});
+
+type StubProvider = ReturnType<typeof stubProvider>;
+
+describe('TranscriptionServiceImpl', () => {
+  const config: TranscriptionConfig = {
+    modelName: 'openai/whisper-small',
+    language: 'en',
+    enableSpeakerDiarization: false,
+    chunkSize: 32000,
+    overlapSize: 0,
+    confidenceThreshold: 0.7,
+    sampleRate: 16000,
+    channels: 1,
+    bitDepth: 16,
+  };
+
+  let asrProvider: StubProvider;
+  let localProvider: StubProvider;
+  let costMonitor: { trackExecution: jest.Mock };
+  let tx: {
+    speaker: { create: jest.Mock };
+    transcriptSegment: { createMany: jest.Mock; aggregate: jest.Mock };
+    transcript: { update: jest.Mock };
+  };
+  let prisma: {
+    transcript: { findUnique: jest.Mock; update: jest.Mock };
+    visualSegment: { updateMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let events: EventEmitter2;
+  let persistence: TranscriptPersistenceService;
+  let service: TranscriptionServiceImpl;
+
+  const recognized = (result: Partial<AsrTranscriptionResult>) =>
+    asrProvider.transcribeAudio.mockResolvedValueOnce({
+      text: '',
+      confidence: 0.9,
+      processingTime: 10,
+      words: [],
+      ...result,
+    });
+
+  const writtenRows = () =>
+    tx.transcriptSegment.createMany.mock.calls.flatMap(([{ data }]) => data);
+
+  beforeEach(() => {
+    asrProvider = stubProvider(false, [
+      'openai/whisper-small',
+      'facebook/wav2vec2-base-960h',
+    ]);
+    localProvider = stubProvider(true, [
+      'local:Xenova/whisper-base',
+      'local:Xenova/whisper-tiny.en',
+    ]);
+    costMonitor = { trackExecution: jest.fn() };
+    tx = {
+      speaker: {
+        create: jest.fn(async ({ data }) => ({ id: `row-${data.name}` })),
+      },
+      transcriptSegment: {
+        createMany: jest.fn(),
+        aggregate: jest.fn().mockResolvedValue({
+          _sum: { wordCount: 0 },
+          _avg: { confidence: 0 },
+          _max: { endTime: 0 },
+        }),
+      },
+      transcript: { update: jest.fn() },
+    };
+    prisma = {
+      transcript: {
+        findUnique: jest.fn().mockResolvedValue({ meetingId: 'meeting-1' }),
+        update: jest.fn(),
+      },
+      visualSegment: { updateMany: jest.fn() },
+      $transaction: jest.fn(async (work) =>
+        typeof work === 'function' ? work(tx) : Promise.all(work),
+      ),
+    };
+
+    events = new EventEmitter2();
+    persistence = new TranscriptPersistenceService(
+      prisma as unknown as PrismaService,
+    );
+    service = new TranscriptionServiceImpl(
+      {
+        getProvider: (model: string) =>
+          [localProvider, asrProvider].find((provider) =>
+            provider.supportsModel(model),
+          ),
+        getAllProviders: () => [localProvider, asrProvider],
+      } as unknown as AsrProviderFactory,
+      {
+        preprocessAudio: jest.fn(async (audio: Buffer) => ({
+          processedAudio: audio,
+        })),
+      } as unknown as AudioPreprocessingServiceImpl,
+      {} as SpeakerDiarizationServiceImpl,
+      {
+        createConnection: jest.fn().mockResolvedValue('socket-1'),
+        createStatusMessage: jest.fn(),
+        createSegmentMessage: jest.fn(),
+        sendTranscriptionUpdate: jest.fn(),
+        closeConnection: jest.fn(),
+      } as unknown as WebSocketTranscriptionServiceImpl,
+      {
+        scheduleTranscriptionPostProcessing: jest.fn(),
+      } as unknown as InngestFunctionsService,
+      events,
+      costMonitor as unknown as AICostMonitorService,
+      {
+        containsSpeech: () => true,
+        findPause: () => null,
+      } as unknown as VoiceActivityDetectionService,
+      persistence,
+      {} as TranscriptFeedbackService,
+    );
+  });
+
+  describe('word timings', () => {
+    it('should place model word timings at their window and store them from the session start', async () => {
+      const session = await service.openLiveTranscription({
+        ...config,
+        transcriptId: 'transcript-1',
+      });
+      const sessionStart = session.startTime.getTime();
+      // Timed from the start of the audio the model was given
+      recognized({
+        text: 'Hello world',
+        words: [
+          { text: 'Hello', start: 200, end: 600, confidence: 0.8 },
+          { text: 'world', start: 650, end: 950, confidence: 0.95 },
+        ],
+      });
+
+      const segment = await service.processAudioChunk(
+        session.sessionId,
+        Buffer.alloc(32000),
+        undefined,
+        { start: 30000, end: 31000, overlapBefore: 0, overlapAfter: 0 },
+      );
+      await service.finalizeTranscript(session.sessionId);
+
+      expect(segment?.words).toEqual([
+        {
+          text: 'Hello',
+          start: sessionStart + 30200,
+          end: sessionStart + 30600,
+          confidence: 0.8,
+        },
+        {
+          text: 'world',
+          start: sessionStart + 30650,
+          end: sessionStart + 30950,
+          confidence: 0.95,
+        },
+      ]);
+      expect(writtenRows()).toEqual([
+        expect.objectContaining({
+          startTime: 30000,
+          endTime: 31000,
+          words: [
+            { text: 'Hello', start: 30200, end: 30600, confidence: 0.8 },
+            { text: 'world', start: 30650, end: 30950, confidence: 0.95 },
+          ],
+        }),
+      ]);
+    });
+
+    it('should spread the words over the window when the model gives no timings', async () => {
+      const session = await service.openLiveTranscription(config);
+      recognized({ text: 'one two' });
+
+      const segment = await service.processAudioChunk(
+        session.sessionId,
+        Buffer.alloc(32000),
+        undefined,
+        { start: 4000, end: 5000, overlapBefore: 0, overlapAfter: 0 },
+      );
+
+      const sessionStart = session.startTime.getTime();
+      expect(
+        segment?.words.map((word) => [
+          word.start - sessionStart,
+          word.end - sessionStart,
+        ]),
+      ).toEqual([
+        [4000, 4500],
+        [4500, 5000],
+      ]);
+    });
+  });
+
+  describe('ASR backends', () => {
+    const window = {
+      start: 0,
+      end: 1000,
+      overlapBefore: 0,
+      overlapAfter: 0,
+    };
+
+    const estimatedCost = () =>
+      costMonitor.trackExecution.mock.calls[0][0].metadata.tokenUsage
+        .estimatedCost;
+
+    it('should transcribe with the backend of the model and track no cost for local models', async () => {
+      const session = await service.openLiveTranscription({
+        ...config,
+        modelName: 'local:Xenova/whisper-base',
+      });
+      localProvider.transcribeAudio.mockResolvedValueOnce({
+        text: 'offline words',
+        confidence: 0.9,
+        processingTime: 10,
+        words: [],
+      });
+
+      await service.processAudioChunk(
+        session.sessionId,
+        Buffer.alloc(32000),
+        undefined,
+        window,
+      );
+
+      expect(localProvider.transcribeAudio).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        expect.objectContaining({ modelName: 'local:Xenova/whisper-base' }),
+      );
+      expect(asrProvider.transcribeAudio).not.toHaveBeenCalled();
+      expect(estimatedCost()).toBe(0);
+    });
+
+    it('should track the cost of hosted models', async () => {
+      const session = await service.openLiveTranscription(config);
+      recognized({ text: 'hosted words' });
+
+      await service.processAudioChunk(
+        session.sessionId,
+        Buffer.alloc(32000),
+        undefined,
+        window,
+      );
+
+      expect(estimatedCost()).toBeGreaterThan(0);
+    });
+
+    it('should fall back to another model of the same backend', async () => {
+      const session = await service.openLiveTranscription({
+        ...config,
+        modelName: 'local:Xenova/whisper-base',
+      });
+      localProvider.transcribeAudio
+        .mockRejectedValueOnce(new Error('ONNX session failed'))
+        .mockResolvedValueOnce({
+          text: 'still offline',
+          confidence: 0.9,
+          processingTime: 10,
+          words: [],
+        });
+
+      const segment = await service.processAudioChunk(
+        session.sessionId,
+        Buffer.alloc(32000),
+        undefined,
+        window,
+      );
+
+      expect(session.fallbackModels).toEqual(['local:Xenova/whisper-tiny.en']);
+      expect(segment?.modelUsed).toBe('local:Xenova/whisper-tiny.en');
+      expect(asrProvider.transcribeAudio).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('spoken languages', () => {
+    const autoConfig = { ...config, language: AUTO_LANGUAGE };
+
+    const chunkAt = (sessionId: string, start: number) =>
+      service.processAudioChunk(sessionId, Buffer.alloc(32000), undefined, {
+        start,
+        end: start + 1000,
+        overlapBefore: 0,
+        overlapAfter: 0,
+      });
+
+    const languageCalls = () =>
+      costMonitor.trackExecution.mock.calls
+        .map(([execution]) => execution)
+        .filter((execution) =>
+          execution.nodeId.startsWith('language_identification_node_'),
+        );
+
+    beforeEach(() => {
+      // Like the wav2vec2 960h models, which only know English
+      asrProvider.supportsLanguage.mockImplementation(
+        (model: string, language: string) =>
+          language === 'en' || !model.includes('960h'),
+      );
+    });
+
+    it('should identify a stream again only after the check interval, tracking each call', async () => {
+      asrProvider.identifyLanguage.mockResolvedValue({
+        language: 'en',
+        confidence: 0.9,
+      });
+      const session = await service.openLiveTranscription(autoConfig);
+
+      for (const start of [0, 1000, 2000, 30000]) {
+        recognized({ text: 'hello' });
+        await chunkAt(session.sessionId, start);
+      }
+
+      expect(asrProvider.identifyLanguage).toHaveBeenCalledTimes(2);
+      expect(languageCalls()).toHaveLength(2);
+      expect(
+        languageCalls()[0].metadata.tokenUsage.estimatedCost,
+      ).toBeGreaterThan(0);
+    });
+
+    it('should move to a model of the same backend that knows the identified language', async () => {
+      asrProvider.identifyLanguage.mockResolvedValue({
+        language: 'de',
+        confidence: 0.9,
+      });
+      const session = await service.openLiveTranscription({
+        ...autoConfig,
+        modelName: 'facebook/wav2vec2-base-960h',
+      });
+      recognized({ text: 'guten Morgen' });
+
+      const segment = await chunkAt(session.sessionId, 0);
+
+      expect(session.currentModel).toBe('openai/whisper-small');
+      expect(asrProvider.transcribeAudio).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        expect.objectContaining({
+          modelName: 'openai/whisper-small',
+          language: 'de',
+        }),
+      );
+      expect(segment?.language).toBe('de');
+      expect(session.language).toBe('de');
+    });
+
+    it('should label segments with the language they are spoken in and ignore unclear identifications', async () => {
+      asrProvider.identifyLanguage
+        .mockResolvedValueOnce({ language: 'de', confidence: 0.9 })
+        .mockResolvedValueOnce({ language: 'fr', confidence: 0.3 })
+        .mockResolvedValueOnce({ language: 'fr', confidence: 0.9 });
+      const session = await service.openLiveTranscription({
+        ...autoConfig,
+        modelName: 'openai/whisper-small',
+      });
+
+      const languages = [];
+      for (const start of [0, 30000, 60000, 61000]) {
+        recognized({ text: 'words' });
+        languages.push((await chunkAt(session.sessionId, start))?.language);
+      }
+
+      expect(languages).toEqual(['de', 'de', 'fr', 'fr']);
+      expect(session.language).toBe('de');
+    });
+
+    it('should not identify the language of sessions given one', async () => {
+      const session = await service.openLiveTranscription({
+        ...config,
+        language: 'de',
+        modelName: 'openai/whisper-small',
+      });
+      recognized({ text: 'guten Morgen' });
+
+      await chunkAt(session.sessionId, 0);
+
+      expect(asrProvider.identifyLanguage).not.toHaveBeenCalled();
+      expect(asrProvider.transcribeAudio).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        expect.objectContaining({ language: 'de' }),
+      );
+    });
+  });
+
+  describe('taking over sessions of stopped replicas', () => {
+    const persisted = (resumable: boolean): PersistedTranscriptionSession => ({
+      transcriptId: 'transcript-1',
+      meetingId: 'meeting-1',
+      sessionId: 'session-1',
+      startTime: new Date(),
+      config,
+      resumable,
+      segments: [],
+      speakers: [],
+    });
+
+    let abandoned: jest.Mock;
+
+    beforeEach(() => {
+      abandoned = jest.fn();
+      events.on('transcription.session.abandoned', abandoned);
+      jest.spyOn(persistence, 'markTranscriptFailed').mockResolvedValue();
+      jest.spyOn(persistence, 'completeLiveTranscript').mockResolvedValue();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should claim live sessions as one replica and tell whether they can resume', async () => {
+      const start = jest
+        .spyOn(persistence, 'startLiveTranscript')
+        .mockResolvedValue();
+
+      await service.openLiveTranscription({
+        ...config,
+        transcriptId: 'transcript-1',
+      });
+      await service.startTranscription(Readable.from([]), {
+        ...config,
+        transcriptId: 'transcript-2',
+      });
+
+      const [live, streamed] = start.mock.calls.map(([, , claim]) => claim);
+      expect(live).toEqual({ owner: expect.any(String), resumable: true });
+      expect(streamed).toEqual({ owner: live.owner, resumable: false });
+    });
+
+    it('should fail transcripts whose only audio stream was lost', async () => {
+      jest
+        .spyOn(persistence, 'claimStaleLiveTranscripts')
+        .mockResolvedValue([persisted(false)]);
+
+      await service.restorePersistedSessions();
+
+      expect(persistence.markTranscriptFailed).toHaveBeenCalledWith(
+        'transcript-1',
+      );
+      expect(abandoned).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transcriptId: 'transcript-1',
+          meetingId: 'meeting-1',
+          reason: expect.any(String),
+        }),
+      );
+      await expect(
+        service.getTranscriptionSession('session-1'),
+      ).rejects.toThrow('Transcription session not found');
+    });
+
+    it('should finalize restored sessions that are sent no audio', async () => {
+      jest.useFakeTimers();
+      jest
+        .spyOn(persistence, 'claimStaleLiveTranscripts')
+        .mockResolvedValue([persisted(true)]);
+
+      await service.restorePersistedSessions();
+      const session = await service.getTranscriptionSession('session-1');
+      expect(session.status).toBe('paused');
+
+      // Audio keeps the session open
+      await jest.advanceTimersByTimeAsync(9 * 60 * 1000);
+      recognized({ text: 'back again' });
+      await service.processAudioChunk('session-1', Buffer.alloc(32000));
+      await jest.advanceTimersByTimeAsync(9 * 60 * 1000);
+      expect(abandoned).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(persistence.completeLiveTranscript).toHaveBeenCalledWith(
+        'transcript-1',
+        expect.objectContaining({
+          segments: [expect.objectContaining({ text: 'back again' })],
+        }),
+      );
+      expect(abandoned).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transcriptId: 'transcript-1',
+          transcript: expect.objectContaining({ id: 'transcript-1' }),
+        }),
+      );
+      expect(persistence.markTranscriptFailed).not.toHaveBeenCalled();
+    });
+  });
+});
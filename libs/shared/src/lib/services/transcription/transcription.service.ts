@@ -1,39 +1,96 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import * as crypto from 'crypto';
+import * as os from 'os';
 import { 
   TranscriptionService, 
   TranscriptionConfig, 
   TranscriptionSession, 
   TranscriptSegment, 
+  TranscriptWord, 
   FullTranscript, 
   HuggingFaceModelStatus, 
   SpeakerDiarizationResult, 
   TranscriptionQualityMetrics, 
   AudioChunk, 
+  AudioWindow, 
+  AudioTrack, 
+  Speaker, 
   TranscriptionSessionStatus, 
   TranscriptionStatus, 
   TranscriptionError, 
-  TranscriptionErrorCode
-} from '../interfaces/transcription.interface';
-import { ExecutionStatus } from '../interfaces/langchain.interface';
-import { HuggingFaceService } from './huggingface.service';
+  TranscriptionErrorCode,
+  AsrProvider,
+  LanguageDetection,
+  AUTO_LANGUAGE
+} from '../../interfaces/transcription.interface';
+import { ExecutionStatus } from '../../interfaces/langchain.interface';
+import { AsrProviderFactory } from '../ai/asr-provider.factory';
 import { AudioPreprocessingServiceImpl } from './audio-preprocessing.service';
 import { SpeakerDiarizationServiceImpl } from './speaker-diarization.service';
 import { WebSocketTranscriptionServiceImpl } from './websocket-transcription.service';
-import { InngestFunctionsService } from './inngest-functions.service';
-import { AICostMonitorService } from './ai-cost-monitor.service';
+import { InngestFunctionsService } from '../infrastructure/inngest-functions.service';
+import { AICostMonitorService } from '../ai/ai-cost-monitor.service';
+import { OverlapStitcher, StitchedSegment, estimateWordTimings } from './overlap-stitcher';
+import { VoiceActivityDetectionService } from './voice-activity-detection.service';
+import { PersistedTranscriptionSession, TranscriptPersistenceService } from './transcript-persistence.service';
+import { TranscriptFeedbackService } from './transcript-feedback.service';
+import { decodeAudioSamples } from './audio-samples';
+
+// Silence a stream window is cut at instead of at its full size, in seconds
+const SPEECH_PAUSE_DURATION = 0.3;
+
+// Live segments are written once this many are pending, or this many ms after
+// the first of them, so a crash loses little of the transcript
+const SEGMENT_BATCH_SIZE = 10;
+const SEGMENT_FLUSH_INTERVAL = 5000;
+
+// An identified language is only taken over the session's at this confidence,
+// so short or unclear chunks do not flip the language of their segments
+const LANGUAGE_CONFIDENCE_THRESHOLD = 0.6;
+const DEFAULT_LANGUAGE = 'en';
+
+// Identification is a model call of its own, so a stream's language is only
+// identified again once this many ms of audio followed the last identification
+const LANGUAGE_CHECK_INTERVAL = 30 * 1000;
+const LANGUAGE_ID_ESTIMATED_COST = 0.0001; // per hosted call, rough like the transcription estimate
+
+// Replicas renew their claim on the live transcripts they write; one not
+// renewed for this long is of a replica that stopped and may be taken over
+const SESSION_CLAIM_TTL = 90 * 1000;
+const SESSION_CLAIM_RENEW_INTERVAL = SESSION_CLAIM_TTL / 3;
+
+// A taken over session that is sent no audio for this long is finalized with
+// what was transcribed before its replica stopped
+const RESTORED_SESSION_IDLE_TIMEOUT = 10 * 60 * 1000;
+
+// Stitching state of one audio stream of a session: the mixed stream, or a participant's track
+interface AudioStreamState {
+  stitcher: OverlapStitcher;
+  endOffset: number; // ms from the session start up to which audio has been received
+  language?: string; // last language confidently identified in the stream
+  languageCheckedAt?: number; // ms from the session start of the audio last identified
+}
 
 @Injectable()
-export class TranscriptionServiceImpl implements TranscriptionService {
+export class TranscriptionServiceImpl implements TranscriptionService, OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(TranscriptionServiceImpl.name);
+  private readonly replicaId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private claimRenewal?: NodeJS.Timeout;
   private activeSessions = new Map<string, TranscriptionSession>();
   private audioChunks = new Map<string, AudioChunk[]>(); // sessionId -> chunks
   private processingQueue = new Map<string, AudioChunk[]>(); // sessionId -> pending chunks
+  private audioStreams = new Map<string, Map<string, AudioStreamState>>(); // sessionId -> stream key -> state
+  private skippedAudio = new Map<string, number>(); // sessionId -> ms of silence not sent to the model
+  private pendingSegments = new Map<string, TranscriptSegment[]>(); // sessionId -> segments not yet written
+  private segmentWrites = new Map<string, Promise<void>>(); // sessionId -> latest batch write
+  private flushTimers = new Map<string, NodeJS.Timeout>();
+  private idleTimers = new Map<string, NodeJS.Timeout>(); // sessionId -> finalization of a restored session left without audio
   private sessionMetrics = new Map<string, TranscriptionQualityMetrics>();
 
   private readonly defaultConfig: TranscriptionConfig = {
     modelName: 'facebook/wav2vec2-large-960h-lv60-self',
-    language: 'en',
+    language: AUTO_LANGUAGE,
     enableSpeakerDiarization: true,
     chunkSize: 1024 * 16, // 16KB chunks
     overlapSize: 1024 * 2, // 2KB overlap
@@ -44,16 +101,94 @@ export class TranscriptionServiceImpl implements TranscriptionService {
   };
 
   constructor(
-    private huggingFaceService: HuggingFaceService,
+    private asrProviders: AsrProviderFactory,
     private audioPreprocessingService: AudioPreprocessingServiceImpl,
     private speakerDiarizationService: SpeakerDiarizationServiceImpl,
     private websocketService: WebSocketTranscriptionServiceImpl,
     private inngestService: InngestFunctionsService,
     private eventEmitter: EventEmitter2,
-    private costMonitorService: AICostMonitorService
+    private costMonitorService: AICostMonitorService,
+    private voiceActivityDetection: VoiceActivityDetectionService,
+    private transcriptPersistence: TranscriptPersistenceService,
+    private transcriptFeedback: TranscriptFeedbackService
   ) {}
 
+  onModuleInit(): void {
+    this.claimRenewal = setInterval(() => {
+      this.renewSessionClaims().catch(error => this.logger.warn('Failed to renew live transcript claims:', error));
+    }, SESSION_CLAIM_RENEW_INTERVAL);
+  }
+
+  onModuleDestroy(): void {
+    if (this.claimRenewal) {
+      clearInterval(this.claimRenewal);
+    }
+    for (const timer of this.idleTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.idleTimers.clear();
+  }
+
+  // The stream is the session's only audio, so it cannot be resumed elsewhere
   async startTranscription(audioStream: NodeJS.ReadableStream, config: TranscriptionConfig = this.defaultConfig): Promise<TranscriptionSession> {
+    return this.openSession(config, session => this.setupAudioStreamProcessing(audioStream, session), false);
+  }
+
+  // Each participant's track is transcribed separately and attributed to that
+  // participant, so no diarization is needed
+  async startMultiTrackTranscription(tracks: AudioTrack[], config: TranscriptionConfig = this.defaultConfig): Promise<TranscriptionSession> {
+    if (tracks.length === 0) {
+      throw new Error('No audio tracks to transcribe');
+    }
+
+    return this.openSession({ ...config, enableSpeakerDiarization: false }, async session => {
+      session.speakers = tracks.map(track => this.createTrackSpeaker(track));
+
+      await Promise.all(
+        tracks.map(track => this.setupAudioStreamProcessing(track.stream, session, track.speakerId))
+      );
+    }, false);
+  }
+
+  // Opens a session without audio, for sources that come and go during it,
+  // like a meeting's audio across reconnections; see attachAudioStream
+  async openLiveTranscription(config: TranscriptionConfig = this.defaultConfig): Promise<TranscriptionSession> {
+    return this.openSession(config, async () => undefined, true);
+  }
+
+  // Transcribes another stream into an open session. The stream is placed on
+  // the session's timeline where it starts, so audio missed before it is a gap
+  // in the transcript. Resolves once the stream has ended and been transcribed.
+  async attachAudioStream(sessionId: string, audioStream: NodeJS.ReadableStream, speakerId?: string): Promise<void> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Transcription session not found: ${sessionId}`);
+    }
+
+    const startOffset = Math.max(Date.now() - session.startTime.getTime(), this.getAudioStream(sessionId, speakerId).endOffset);
+    this.logger.log(`Attaching audio to session ${sessionId} at ${startOffset}ms`);
+    await this.setupAudioStreamProcessing(audioStream, session, speakerId, startOffset);
+  }
+
+  // Like attachAudioStream, for one participant's isolated audio; the track's
+  // segments are attributed to that participant without diarization
+  async attachAudioTrack(sessionId: string, track: AudioTrack): Promise<void> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Transcription session not found: ${sessionId}`);
+    }
+
+    if (!session.speakers.some((speaker: Speaker) => speaker.id === track.speakerId)) {
+      session.speakers.push(this.createTrackSpeaker(track));
+    }
+    await this.attachAudioStream(sessionId, track.stream, track.speakerId);
+  }
+
+  private async openSession(
+    config: TranscriptionConfig,
+    attachAudio: (session: TranscriptionSession) => Promise<void>,
+    resumable: boolean
+  ): Promise<TranscriptionSession> {
     const sessionId = this.generateSessionId();
     const startTime = Date.now();
     
@@ -64,9 +199,10 @@ export class TranscriptionServiceImpl implements TranscriptionService {
       const finalConfig = { ...this.defaultConfig, ...config };
       
       // Check model availability
-      const modelStatus = await this.huggingFaceService.getModelStatus(finalConfig.modelName);
+      const asrProvider = this.asrProviders.getProvider(finalConfig.modelName);
+      const modelStatus = await asrProvider.getModelStatus(finalConfig.modelName);
       if (modelStatus.status !== 'ready') {
-        await this.huggingFaceService.loadModel(finalConfig.modelName);
+        await asrProvider.loadModel(finalConfig.modelName);
       }
 
       // Create transcription session
@@ -87,14 +223,24 @@ export class TranscriptionServiceImpl implements TranscriptionService {
       this.activeSessions.set(sessionId, session);
       this.audioChunks.set(sessionId, []);
       this.processingQueue.set(sessionId, []);
+      this.audioStreams.set(sessionId, new Map());
+      this.skippedAudio.set(sessionId, 0);
+      this.pendingSegments.set(sessionId, []);
       this.initializeSessionMetrics(sessionId);
 
+      if (finalConfig.transcriptId) {
+        await this.transcriptPersistence.startLiveTranscript(finalConfig.transcriptId, session, {
+          owner: this.replicaId,
+          resumable
+        });
+      }
+
       // Create WebSocket connection for real-time updates
       const websocketId = await this.websocketService.createConnection(sessionId);
       session.websocketId = websocketId;
 
       // Set up audio stream processing
-      await this.setupAudioStreamProcessing(audioStream, session);
+      await attachAudio(session);
 
       // Update session status
       session.status = TranscriptionSessionStatus.ACTIVE;
@@ -123,30 +269,45 @@ export class TranscriptionServiceImpl implements TranscriptionService {
       this.activeSessions.delete(sessionId);
       this.audioChunks.delete(sessionId);
       this.processingQueue.delete(sessionId);
+      this.audioStreams.delete(sessionId);
+      this.skippedAudio.delete(sessionId);
+      this.pendingSegments.delete(sessionId);
       
       throw error;
     }
   }
 
-  async processAudioChunk(sessionId: string, audioChunk: Buffer): Promise<TranscriptSegment> {
+  // Without a window the chunk is taken to follow the stream's previous audio
+  // directly, with no overlap. Resolves to null for silence that yields no text.
+  async processAudioChunk(sessionId: string, audioChunk: Buffer, speakerId?: string, window?: AudioWindow): Promise<TranscriptSegment | null> {
     const session = this.activeSessions.get(sessionId);
     if (!session) {
       throw new Error(`Transcription session not found: ${sessionId}`);
     }
+    this.rearmIdleTimer(session);
 
     const chunkStartTime = Date.now();
+    const stream = this.getAudioStream(sessionId, speakerId);
+    const duration = this.estimateAudioDuration(audioChunk, session.config);
+    const chunkWindow = window || {
+      start: stream.endOffset,
+      end: stream.endOffset + duration,
+      overlapBefore: 0,
+      overlapAfter: 0
+    };
     
     try {
-      // Create audio chunk record
+      // Create audio chunk record, timed by its position in the audio
       const chunk: AudioChunk = {
         id: this.generateChunkId(),
         sessionId,
         data: audioChunk,
-        timestamp: Date.now(),
-        duration: this.estimateAudioDuration(audioChunk, session.config),
+        timestamp: session.startTime.getTime() + chunkWindow.start,
+        duration,
         sampleRate: session.config.sampleRate,
         channels: session.config.channels,
-        processed: false
+        processed: false,
+        speakerId
       };
 
       // Store chunk
@@ -160,11 +321,19 @@ export class TranscriptionServiceImpl implements TranscriptionService {
       this.processingQueue.set(sessionId, queue);
 
       // Process chunk
-      const segment = await this.processChunk(session, chunk);
+      const segment = await this.processChunk(session, chunk, chunkWindow, stream);
+      stream.endOffset = Math.max(stream.endOffset, chunkWindow.end);
+      if (!segment) {
+        return null;
+      }
       
       // Update session
       session.segments.push(segment);
+      if (speakerId) {
+        this.updateTrackSpeaker(session, segment, segment.endTimestamp - segment.timestamp);
+      }
       this.activeSessions.set(sessionId, session);
+      this.queueSegmentWrite(session, segment);
 
       // Update metrics
       this.updateSessionMetrics(sessionId, chunkStartTime, true, segment.confidence);
@@ -202,7 +371,7 @@ export class TranscriptionServiceImpl implements TranscriptionService {
         
         try {
           await this.switchModel(sessionId, fallbackModel);
-          return this.processAudioChunk(sessionId, audioChunk);
+          return this.processAudioChunk(sessionId, audioChunk, speakerId, chunkWindow);
         } catch (fallbackError) {
           this.logger.error(`Fallback model also failed:`, fallbackError);
         }
@@ -212,8 +381,36 @@ export class TranscriptionServiceImpl implements TranscriptionService {
     }
   }
 
-  private async processChunk(session: TranscriptionSession, chunk: AudioChunk): Promise<TranscriptSegment> {
+  private async processChunk(
+    session: TranscriptionSession,
+    chunk: AudioChunk,
+    window: AudioWindow,
+    stream: AudioStreamState
+  ): Promise<TranscriptSegment | null> {
     const executionStartTime = Date.now();
+
+    // Silence is not sent to the model; its chunk only releases the words the
+    // previous chunk of the stream held back for stitching
+    if (!this.containsSpeech(chunk.data, session.config)) {
+      const skipped = window.end - window.start - window.overlapBefore;
+      this.skippedAudio.set(session.sessionId, (this.skippedAudio.get(session.sessionId) || 0) + skipped);
+      chunk.processed = true;
+
+      const stitched = stream.stitcher.stitch(window, []);
+      if (stitched.words.length === 0) {
+        return null;
+      }
+
+      const previousSegment = session.segments[session.segments.length - 1];
+      return this.createSegment(
+        session,
+        chunk,
+        stitched,
+        chunk.speakerId || previousSegment?.speakerId || 'unknown',
+        previousSegment?.language || this.getSessionLanguage(session),
+        0
+      );
+    }
     
     // Preprocess audio
     const preprocessingResult = await this.audioPreprocessingService.preprocessAudio(
@@ -228,31 +425,28 @@ export class TranscriptionServiceImpl implements TranscriptionService {
       }
     );
 
-    // Transcribe audio
-    const transcriptionResult = await this.huggingFaceService.transcribeAudio(
+    // Transcribe audio, with a model that knows the language spoken
+    const language = await this.identifyChunkLanguage(session, chunk, window, stream, preprocessingResult.processedAudio);
+    const asrProvider = this.asrProviders.getProvider(session.currentModel);
+    const transcriptionResult = await asrProvider.transcribeAudio(
       preprocessingResult.processedAudio,
-      session.config
+      { ...session.config, modelName: session.currentModel, language }
     );
 
-    // Identify speaker if diarization is enabled
-    let speakerId = 'unknown';
-    if (session.config.enableSpeakerDiarization) {
+    // Chunks from a participant's own track already know their speaker;
+    // otherwise identify the speaker if diarization is enabled
+    let speakerId = chunk.speakerId || 'unknown';
+    if (!chunk.speakerId && session.config.enableSpeakerDiarization) {
       speakerId = await this.identifySpeakerForChunk(session, preprocessingResult.processedAudio);
     }
 
-    // Create transcript segment
-    const segment: TranscriptSegment = {
-      id: this.generateSegmentId(),
-      timestamp: chunk.timestamp,
-      endTimestamp: chunk.timestamp + chunk.duration,
-      speakerId,
-      text: transcriptionResult.text,
-      confidence: transcriptionResult.confidence,
-      modelUsed: session.currentModel,
-      processingTime: transcriptionResult.processingTime,
-      audioChunkId: chunk.id,
-      language: session.config.language
-    };
+    // Merge the words this chunk shares with the previous one of its stream;
+    // without word timings from the model, words are spread over the chunk
+    const words = transcriptionResult.words.length > 0
+      ? transcriptionResult.words.map((word: TranscriptWord) => ({ ...word, start: window.start + word.start, end: window.start + word.end }))
+      : estimateWordTimings(transcriptionResult.text, window.start, window.end, transcriptionResult.confidence);
+    const stitched = stream.stitcher.stitch(window, words);
+    const segment = this.createSegment(session, chunk, stitched, speakerId, language, transcriptionResult.processingTime);
 
     // Track cost for this transcription
     try {
@@ -281,7 +475,7 @@ export class TranscriptionServiceImpl implements TranscriptionService {
             promptTokens: 0, // Audio input doesn't have prompt tokens
             completionTokens: estimatedTokens,
             totalTokens: estimatedTokens,
-            estimatedCost: estimatedTokens * 0.00001 // Rough HuggingFace cost estimation
+            estimatedCost: asrProvider.isLocal ? 0 : estimatedTokens * 0.00001 // Rough HuggingFace cost estimation
           }
         }
       });
@@ -296,6 +490,161 @@ export class TranscriptionServiceImpl implements TranscriptionService {
     return segment;
   }
 
+  private createSegment(
+    session: TranscriptionSession,
+    chunk: AudioChunk,
+    stitched: StitchedSegment,
+    speakerId: string,
+    language: string,
+    processingTime: number
+  ): TranscriptSegment {
+    const sessionStart = session.startTime.getTime();
+
+    return {
+      id: this.generateSegmentId(),
+      timestamp: sessionStart + stitched.start,
+      endTimestamp: sessionStart + stitched.end,
+      speakerId,
+      text: stitched.text,
+      confidence: stitched.confidence,
+      modelUsed: session.currentModel,
+      processingTime,
+      audioChunkId: chunk.id,
+      language,
+      words: stitched.words.map(word => ({ ...word, start: sessionStart + word.start, end: sessionStart + word.end }))
+    };
+  }
+
+  // With AUTO_LANGUAGE a stream's language is identified from its first speech
+  // and again every LANGUAGE_CHECK_INTERVAL; its chunks in between keep it. The
+  // first confident identification becomes the session's language. The
+  // session moves to a model of the same backend that knows the language when
+  // its current one does not.
+  private async identifyChunkLanguage(
+    session: TranscriptionSession,
+    chunk: AudioChunk,
+    window: AudioWindow,
+    stream: AudioStreamState,
+    audioData: Buffer
+  ): Promise<string> {
+    if (session.config.language !== AUTO_LANGUAGE) {
+      return session.config.language;
+    }
+
+    let language = stream.language || this.getSessionLanguage(session);
+    if (stream.languageCheckedAt === undefined || window.start - stream.languageCheckedAt >= LANGUAGE_CHECK_INTERVAL) {
+      stream.languageCheckedAt = window.start;
+      const detection = await this.detectLanguage(session, chunk, audioData);
+      if (detection && detection.confidence >= LANGUAGE_CONFIDENCE_THRESHOLD) {
+        session.language = session.language || detection.language;
+        stream.language = language = detection.language;
+      }
+    }
+
+    const asrProvider = this.asrProviders.getProvider(session.currentModel);
+    if (!asrProvider.supportsLanguage(session.currentModel, language)) {
+      const model = asrProvider.listModels().find(candidate => asrProvider.supportsLanguage(candidate, language));
+      if (model) {
+        this.logger.log(`Session ${session.sessionId} switched to ${language}, moving to model ${model}`);
+        await this.switchModel(session.sessionId, model);
+      } else {
+        this.logger.warn(`No ${session.currentModel} alternative transcribes ${language} for session ${session.sessionId}`);
+      }
+    }
+
+    return language;
+  }
+
+  private async detectLanguage(session: TranscriptionSession, chunk: AudioChunk, audioData: Buffer): Promise<LanguageDetection | null> {
+    const asrProvider = this.asrProviders.getProvider(session.currentModel);
+    const startTime = Date.now();
+    const detection = await asrProvider.identifyLanguage(audioData, session.config);
+
+    // Local backends without an identification model make no call
+    if (detection || !asrProvider.isLocal) {
+      await this.trackLanguageIdentification(session, chunk, asrProvider, startTime, detection);
+    }
+    return detection;
+  }
+
+  private async trackLanguageIdentification(
+    session: TranscriptionSession,
+    chunk: AudioChunk,
+    asrProvider: AsrProvider,
+    startTime: number,
+    detection: LanguageDetection | null
+  ): Promise<void> {
+    try {
+      await this.costMonitorService.trackExecution({
+        id: `language_${chunk.id}`,
+        nodeId: `language_identification_node_${session.sessionId}`,
+        workflowId: `transcription_${session.sessionId}`,
+        startTime: new Date(startTime),
+        endTime: new Date(),
+        duration: Date.now() - startTime,
+        status: ExecutionStatus.COMPLETED,
+        input: {
+          audioChunkSize: chunk.data.length,
+          sessionId: session.sessionId
+        },
+        output: {
+          language: detection?.language,
+          confidence: detection?.confidence
+        },
+        metadata: {
+          modelUsed: session.currentModel,
+          tokenUsage: {
+            promptTokens: 0,
+            completionTokens: 0,
+            totalTokens: 0,
+            estimatedCost: asrProvider.isLocal ? 0 : LANGUAGE_ID_ESTIMATED_COST
+          }
+        }
+      });
+    } catch (costError) {
+      this.logger.warn(`Failed to track language identification cost:`, costError);
+    }
+  }
+
+  private getSessionLanguage(session: TranscriptionSession): string {
+    if (session.config.language !== AUTO_LANGUAGE) {
+      return session.config.language;
+    }
+    return session.language || DEFAULT_LANGUAGE;
+  }
+
+  // The language most of the transcript is spoken in
+  private getTranscriptLanguage(session: TranscriptionSession): string {
+    const durations = new Map<string, number>();
+    for (const segment of session.segments) {
+      const language = segment.language || this.getSessionLanguage(session);
+      durations.set(language, (durations.get(language) || 0) + segment.endTimestamp - segment.timestamp);
+    }
+
+    let dominant = this.getSessionLanguage(session);
+    durations.forEach((duration, language) => {
+      if (duration > (durations.get(dominant) || 0)) {
+        dominant = language;
+      }
+    });
+    return dominant;
+  }
+
+  // Audio the detector cannot read is left to the model
+  private containsSpeech(audioData: Buffer, config: TranscriptionConfig): boolean {
+    const decoded = this.decodeSamples(audioData, config);
+    return !decoded || this.voiceActivityDetection.containsSpeech(decoded.samples, decoded.sampleRate);
+  }
+
+  private decodeSamples(audioData: Buffer, config: TranscriptionConfig): { samples: Float32Array; sampleRate: number } | null {
+    try {
+      return decodeAudioSamples(audioData, config);
+    } catch (error) {
+      this.logger.debug(`Could not decode audio for voice activity detection: ${error}`);
+      return null;
+    }
+  }
+
   private async identifySpeakerForChunk(session: TranscriptionSession, audioData: Buffer): Promise<string> {
     try {
       // If we don't have speakers yet, perform initial diarization
@@ -339,6 +688,38 @@ export class TranscriptionServiceImpl implements TranscriptionService {
     }
   }
 
+  private createTrackSpeaker(track: AudioTrack): Speaker {
+    return {
+      id: track.speakerId,
+      name: track.speakerName,
+      voiceProfile: {
+        id: track.speakerId,
+        features: [],
+        confidence: 1,
+        sampleCount: 0,
+        lastUpdated: new Date()
+      },
+      segments: [],
+      totalSpeakingTime: 0,
+      averageConfidence: 0,
+      detectedAt: new Date()
+    };
+  }
+
+  private updateTrackSpeaker(session: TranscriptionSession, segment: TranscriptSegment, duration: number): void {
+    const speaker = session.speakers.find((s: Speaker) => s.id === segment.speakerId);
+    if (!speaker) {
+      return;
+    }
+
+    speaker.segments.push(segment.id);
+    speaker.totalSpeakingTime += duration;
+    speaker.averageConfidence +=
+      (segment.confidence - speaker.averageConfidence) / speaker.segments.length;
+    speaker.voiceProfile.sampleCount++;
+    speaker.voiceProfile.lastUpdated = new Date();
+  }
+
   private async extractVoiceEmbedding(audioData: Buffer): Promise<number[]> {
     // This would typically use the same embedding extraction as the diarization service
     // For now, return a placeholder
@@ -356,6 +737,7 @@ export class TranscriptionServiceImpl implements TranscriptionService {
     }
 
     this.logger.log(`Finalizing transcript for session: ${sessionId}`);
+    this.clearIdleTimer(sessionId);
 
     try {
       // Update session status
@@ -365,13 +747,14 @@ export class TranscriptionServiceImpl implements TranscriptionService {
 
       // Create full transcript
       const transcript: FullTranscript = {
-        id: this.generateTranscriptId(),
+        id: session.config.transcriptId || this.generateTranscriptId(),
         meetingId: session.meetingId,
         sessionId,
-        segments: session.segments,
+        // Tracks are transcribed side by side, so segments arrive interleaved
+        segments: [...session.segments].sort((a, b) => a.timestamp - b.timestamp),
         speakers: session.speakers,
         duration: this.calculateSessionDuration(session),
-        language: session.config.language,
+        language: this.getTranscriptLanguage(session),
         modelMetadata: {
           primaryModel: session.currentModel,
           fallbackModelsUsed: this.getFallbackModelsUsed(session),
@@ -381,7 +764,8 @@ export class TranscriptionServiceImpl implements TranscriptionService {
             averageProcessingTime: this.calculateAverageProcessingTime(session.segments),
             modelSwitches: this.countModelSwitches(session),
             errorCount: session.errorCount,
-            retryCount: 0 // TODO: Track retries
+            retryCount: 0, // TODO: Track retries
+            skippedAudioDuration: this.skippedAudio.get(sessionId) || 0
           },
           totalTokensProcessed: this.calculateTotalTokens(session.segments),
           apiCalls: session.segments.length,
@@ -392,6 +776,12 @@ export class TranscriptionServiceImpl implements TranscriptionService {
         status: TranscriptionStatus.COMPLETED
       };
 
+      // Write the segments still pending and complete the transcript row
+      if (session.config.transcriptId) {
+        await this.flushSegments(session);
+        await this.transcriptPersistence.completeLiveTranscript(session.config.transcriptId, transcript);
+      }
+
       // Send completion update via WebSocket
       if (session.websocketId) {
         await this.websocketService.sendTranscriptionUpdate(
@@ -432,11 +822,14 @@ export class TranscriptionServiceImpl implements TranscriptionService {
 
   async getModelStatus(modelName?: string): Promise<HuggingFaceModelStatus[]> {
     if (modelName) {
-      const status = await this.huggingFaceService.getModelStatus(modelName);
+      const status = await this.asrProviders.getProvider(modelName).getModelStatus(modelName);
       return [status];
     }
     
-    return this.huggingFaceService.getAllModelStatuses();
+    const statuses = await Promise.all(
+      this.asrProviders.getAllProviders().map(provider => provider.getAllModelStatuses())
+    );
+    return statuses.flat();
   }
 
   async switchModel(sessionId: string, modelName: string): Promise<void> {
@@ -449,7 +842,11 @@ export class TranscriptionServiceImpl implements TranscriptionService {
 
     try {
       // Ensure new model is ready
-      await this.huggingFaceService.switchModel(session.currentModel, modelName);
+      const asrProvider = this.asrProviders.getProvider(modelName);
+      const status = await asrProvider.getModelStatus(modelName);
+      if (status.status !== 'ready') {
+        await asrProvider.loadModel(modelName);
+      }
       
       // Update session
       session.currentModel = modelName;
@@ -496,10 +893,23 @@ export class TranscriptionServiceImpl implements TranscriptionService {
     session.status = TranscriptionSessionStatus.CANCELLED;
     session.endTime = new Date();
     this.activeSessions.set(sessionId, session);
+    this.clearIdleTimer(sessionId);
+
+    // What was transcribed so far is kept, but the transcript is not completed
+    if (session.config.transcriptId) {
+      const transcriptId = session.config.transcriptId;
+      await this.flushSegments(session)
+        .then(() => this.transcriptPersistence.markTranscriptFailed(transcriptId))
+        .catch(error => this.logger.warn(`Failed to store cancelled transcript ${transcriptId}:`, error));
+    }
 
     // Clean up resources
     this.audioChunks.delete(sessionId);
     this.processingQueue.delete(sessionId);
+    this.audioStreams.delete(sessionId);
+    this.skippedAudio.delete(sessionId);
+    this.pendingSegments.delete(sessionId);
+    this.segmentWrites.delete(sessionId);
     this.sessionMetrics.delete(sessionId);
 
     // Close WebSocket connection
@@ -510,6 +920,68 @@ export class TranscriptionServiceImpl implements TranscriptionService {
     this.logger.log(`Transcription cancelled for session: ${sessionId}`);
   }
 
+  // Takes over the sessions whose transcripts were still being written by a
+  // replica that stopped. Sessions fed by a single stream lost their audio
+  // with it and are failed. Others wait paused for audio chunks to be sent
+  // again, and are finalized with what they have if none comes.
+  async restorePersistedSessions(): Promise<void> {
+    const persisted = await this.transcriptPersistence.claimStaleLiveTranscripts(
+      this.replicaId,
+      new Date(Date.now() - SESSION_CLAIM_TTL)
+    );
+
+    for (const state of persisted) {
+      if (this.activeSessions.has(state.sessionId)) {
+        continue;
+      }
+
+      if (!state.resumable) {
+        await this.abandonPersistedSession(state);
+        continue;
+      }
+
+      try {
+        const config = { ...this.defaultConfig, ...state.config, transcriptId: state.transcriptId };
+        const session: TranscriptionSession = {
+          id: state.sessionId,
+          meetingId: state.meetingId,
+          sessionId: state.sessionId,
+          config,
+          status: TranscriptionSessionStatus.PAUSED,
+          startTime: state.startTime,
+          currentModel: config.modelName,
+          fallbackModels: this.getFallbackModels(config.modelName),
+          segments: state.segments,
+          speakers: state.speakers,
+          errorCount: 0,
+          language: config.language === AUTO_LANGUAGE ? state.segments[0]?.language : undefined
+        };
+
+        this.activeSessions.set(state.sessionId, session);
+        this.audioChunks.set(state.sessionId, []);
+        this.processingQueue.set(state.sessionId, []);
+        this.audioStreams.set(state.sessionId, new Map());
+        this.skippedAudio.set(state.sessionId, 0);
+        this.pendingSegments.set(state.sessionId, []);
+        this.initializeSessionMetrics(state.sessionId);
+
+        // Audio sent without a window follows what was already transcribed
+        this.getAudioStream(state.sessionId).endOffset = state.segments.reduce(
+          (end: number, segment: TranscriptSegment) => Math.max(end, segment.endTimestamp - state.startTime.getTime()),
+          0
+        );
+
+        this.idleTimers.set(state.sessionId, this.createIdleTimer(session));
+        session.websocketId = await this.websocketService.createConnection(state.sessionId);
+        this.logger.log(`Restored transcription session ${state.sessionId} with ${state.segments.length} segments`);
+      } catch (error) {
+        this.logger.error(`Failed to restore transcription session ${state.sessionId}:`, error);
+      }
+    }
+
+    this.logger.log(`Took over ${persisted.length} live transcripts`);
+  }
+
   async getTranscriptionSession(sessionId: string): Promise<TranscriptionSession> {
     const session = this.activeSessions.get(sessionId);
     if (!session) {
@@ -524,57 +996,263 @@ export class TranscriptionServiceImpl implements TranscriptionService {
     if (!metrics) {
       throw new Error(`Quality metrics not found for session: ${sessionId}`);
     }
+
+    // Measured on users' corrections of every transcript the model produced
+    const session = this.activeSessions.get(sessionId);
+    if (session) {
+      const wordErrorRates = await this.transcriptFeedback.getWordErrorRates();
+      metrics.wordErrorRate = wordErrorRates[session.currentModel];
+    }
     
     return metrics;
   }
 
   // Private helper methods
-  private async setupAudioStreamProcessing(audioStream: NodeJS.ReadableStream, session: TranscriptionSession): Promise<void> {
-    return new Promise((resolve, reject) => {
-      let buffer = Buffer.alloc(0);
-      
-      audioStream.on('data', async (chunk: Buffer) => {
+  // Cuts the stream into windows on sample frame boundaries, at a speech pause
+  // where there is one and otherwise at full size, overlapping the next window.
+  // Windows are transcribed one after another, so each is stitched onto the
+  // previous one; resolves once the last window has been transcribed.
+  private async setupAudioStreamProcessing(
+    audioStream: NodeJS.ReadableStream,
+    session: TranscriptionSession,
+    speakerId?: string,
+    startOffset = 0 // ms from the session start at which the stream begins
+  ): Promise<void> {
+    const frameSize = (session.config.bitDepth / 8) * session.config.channels;
+    const chunkSize = Math.max(frameSize, session.config.chunkSize - (session.config.chunkSize % frameSize));
+    const overlapSize = Math.min(
+      session.config.overlapSize - (session.config.overlapSize % frameSize),
+      chunkSize - frameSize
+    );
+
+    let buffer = Buffer.alloc(0);
+    let bufferOffset = 0; // stream byte offset of the buffer's first byte
+    let previousOverlap = 0; // bytes the buffer shares with the last window cut
+    let processing = Promise.resolve();
+
+    const enqueue = (length: number, overlapAfter: number) => {
+      const audioChunk = buffer.slice(0, length);
+      const start = startOffset + this.bytesToMs(bufferOffset, session.config);
+      const window: AudioWindow = {
+        start,
+        end: start + this.bytesToMs(length, session.config),
+        overlapBefore: this.bytesToMs(previousOverlap, session.config),
+        overlapAfter: this.bytesToMs(overlapAfter, session.config)
+      };
+
+      processing = processing.then(() =>
+        this.processAudioChunk(session.sessionId, audioChunk, speakerId, window)
+          .then(() => undefined)
+          .catch(error => {
+            this.logger.error(`Error processing audio chunk:`, error);
+          })
+      );
+
+      buffer = buffer.slice(length - overlapAfter);
+      bufferOffset += length - overlapAfter;
+      previousOverlap = overlapAfter;
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      audioStream.on('data', (chunk: Buffer) => {
         try {
           buffer = Buffer.concat([buffer, chunk]);
           
-          // Process chunks when we have enough data
-          while (buffer.length >= session.config.chunkSize) {
-            const audioChunk = buffer.slice(0, session.config.chunkSize);
-            buffer = buffer.slice(session.config.chunkSize - session.config.overlapSize);
-            
-            // Process chunk asynchronously
-            this.processAudioChunk(session.sessionId, audioChunk).catch(error => {
-              this.logger.error(`Error processing audio chunk:`, error);
-            });
+          // Cut a window once the audio after it has started arriving, so the
+          // last window of the stream is known to be the last
+          while (buffer.length > chunkSize) {
+            const pause = this.findSpeechPause(buffer.slice(0, chunkSize), session.config, previousOverlap);
+            if (pause !== null) {
+              enqueue(pause, 0);
+            } else {
+              enqueue(chunkSize, overlapSize);
+            }
           }
         } catch (error) {
           this.logger.error('Error in audio stream processing:', error);
         }
       });
 
-      audioStream.on('end', () => {
-        // Process remaining buffer
+      let ended = false;
+      const finish = () => {
+        if (ended) {
+          return;
+        }
+        ended = true;
+
+        // The remainder starts with the previous window's overlap, which closes
+        // its stitching even when no new audio follows it
         if (buffer.length > 0) {
-          this.processAudioChunk(session.sessionId, buffer).catch(error => {
-            this.logger.error(`Error processing final audio chunk:`, error);
-          });
+          enqueue(buffer.length, 0);
         }
         resolve();
-      });
+      };
+
+      audioStream.on('end', finish);
+      // A stream destroyed when its source drops closes without ending
+      audioStream.on('close', finish);
 
       audioStream.on('error', reject);
     });
+
+    await processing;
+  }
+
+  // Byte offset of a pause in the second half of a window, past the audio it
+  // shares with the previous window; nothing is cut there, so no overlap is needed
+  private findSpeechPause(window: Buffer, config: TranscriptionConfig, overlapBefore: number): number | null {
+    const decoded = this.decodeSamples(window, config);
+    if (!decoded) {
+      return null;
+    }
+
+    // Offsets only map onto raw PCM; a window with a WAV header is cut at full size
+    const frameSize = (config.bitDepth / 8) * config.channels;
+    if (decoded.samples.length * frameSize !== window.length) {
+      return null;
+    }
+
+    const minOffset = Math.max(decoded.samples.length / 2, overlapBefore / frameSize);
+    const pause = this.voiceActivityDetection.findPause(decoded.samples, decoded.sampleRate, SPEECH_PAUSE_DURATION, minOffset);
+    return pause === null ? null : pause * frameSize;
+  }
+
+  private async renewSessionClaims(): Promise<void> {
+    const transcriptIds = Array.from(this.activeSessions.values())
+      .filter(session =>
+        session.config.transcriptId &&
+        session.status !== TranscriptionSessionStatus.COMPLETED &&
+        session.status !== TranscriptionSessionStatus.CANCELLED
+      )
+      .map(session => session.config.transcriptId as string);
+
+    await this.transcriptPersistence.renewLiveTranscripts(this.replicaId, transcriptIds);
+  }
+
+  // Whoever requested the transcript learns of its end through
+  // 'transcription.session.abandoned'
+  private async abandonPersistedSession(state: PersistedTranscriptionSession): Promise<void> {
+    this.logger.warn(`Audio of transcription session ${state.sessionId} was lost, failing transcript ${state.transcriptId}`);
+
+    try {
+      await this.transcriptPersistence.markTranscriptFailed(state.transcriptId);
+      this.eventEmitter.emit('transcription.session.abandoned', {
+        sessionId: state.sessionId,
+        transcriptId: state.transcriptId,
+        meetingId: state.meetingId,
+        reason: 'The audio source stopped with the replica transcribing it',
+        timestamp: new Date()
+      });
+    } catch (error) {
+      this.logger.error(`Failed to fail transcript ${state.transcriptId}:`, error);
+    }
+  }
+
+  private createIdleTimer(session: TranscriptionSession): NodeJS.Timeout {
+    return setTimeout(async () => {
+      this.idleTimers.delete(session.sessionId);
+      this.logger.warn(`No audio for restored session ${session.sessionId}, finalizing it`);
+
+      try {
+        const transcript = await this.finalizeTranscript(session.sessionId);
+        this.eventEmitter.emit('transcription.session.abandoned', {
+          sessionId: session.sessionId,
+          transcriptId: transcript.id,
+          meetingId: session.meetingId,
+          transcript,
+          timestamp: new Date()
+        });
+      } catch (error) {
+        this.logger.error(`Failed to finalize restored session ${session.sessionId}:`, error);
+      }
+    }, RESTORED_SESSION_IDLE_TIMEOUT);
+  }
+
+  // Only restored sessions are finalized when left without audio
+  private rearmIdleTimer(session: TranscriptionSession): void {
+    const timer = this.idleTimers.get(session.sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.idleTimers.set(session.sessionId, this.createIdleTimer(session));
+    }
+  }
+
+  private clearIdleTimer(sessionId: string): void {
+    const timer = this.idleTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.idleTimers.delete(sessionId);
+    }
+  }
+
+  private queueSegmentWrite(session: TranscriptionSession, segment: TranscriptSegment): void {
+    if (!session.config.transcriptId) {
+      return;
+    }
+
+    const pending = this.pendingSegments.get(session.sessionId) || [];
+    pending.push(segment);
+    this.pendingSegments.set(session.sessionId, pending);
+
+    if (pending.length >= SEGMENT_BATCH_SIZE) {
+      this.flushSegmentsInBackground(session);
+    } else if (!this.flushTimers.has(session.sessionId)) {
+      this.flushTimers.set(
+        session.sessionId,
+        setTimeout(() => this.flushSegmentsInBackground(session), SEGMENT_FLUSH_INTERVAL)
+      );
+    }
+  }
+
+  private flushSegmentsInBackground(session: TranscriptionSession): void {
+    this.flushSegments(session).catch(error => {
+      this.logger.warn(`Failed to write segments of session ${session.sessionId}, will retry:`, error);
+    });
+  }
+
+  // Batches are written one after another; a batch that fails goes back to
+  // the front of the pending segments for the next write
+  private flushSegments(session: TranscriptionSession): Promise<void> {
+    const sessionId = session.sessionId;
+    const timer = this.flushTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.flushTimers.delete(sessionId);
+    }
+
+    const previousWrite = this.segmentWrites.get(sessionId) || Promise.resolve();
+    const write = previousWrite
+      .catch(() => undefined)
+      .then(async () => {
+        const batch = this.pendingSegments.get(sessionId) || [];
+        if (batch.length === 0 || !session.config.transcriptId) {
+          return;
+        }
+
+        this.pendingSegments.set(sessionId, []);
+        try {
+          await this.transcriptPersistence.appendSegments(
+            session.config.transcriptId,
+            batch,
+            session.speakers,
+            session.startTime.getTime()
+          );
+        } catch (error) {
+          this.pendingSegments.set(sessionId, [...batch, ...(this.pendingSegments.get(sessionId) || [])]);
+          throw error;
+        }
+      });
+
+    this.segmentWrites.set(sessionId, write);
+    return write;
   }
 
+  // Falls back within the same backend, so offline sessions stay offline
   private getFallbackModels(currentModel: string): string[] {
-    const allModels = [
-      'facebook/wav2vec2-large-960h-lv60-self',
-      'facebook/wav2vec2-base-960h',
-      'openai/whisper-base',
-      'openai/whisper-small'
-    ];
-    
-    return allModels.filter(model => model !== currentModel);
+    return this.asrProviders
+      .getProvider(currentModel)
+      .listModels()
+      .filter(model => model !== currentModel);
   }
 
   private getFallbackModelsUsed(session: TranscriptionSession): string[] {
@@ -585,11 +1263,28 @@ export class TranscriptionServiceImpl implements TranscriptionService {
   }
 
   private estimateAudioDuration(audioData: Buffer, config: TranscriptionConfig): number {
-    // Estimate duration based on buffer size and audio format
+    return this.bytesToMs(audioData.length, config);
+  }
+
+  private bytesToMs(byteCount: number, config: TranscriptionConfig): number {
+    // Duration from the byte count and the audio format
     const bytesPerSample = config.bitDepth / 8;
     const samplesPerSecond = config.sampleRate * config.channels;
     const bytesPerSecond = samplesPerSecond * bytesPerSample;
-    return (audioData.length / bytesPerSecond) * 1000; // Return in milliseconds
+    return (byteCount / bytesPerSecond) * 1000; // Return in milliseconds
+  }
+
+  private getAudioStream(sessionId: string, speakerId?: string): AudioStreamState {
+    const streams = this.audioStreams.get(sessionId) || new Map<string, AudioStreamState>();
+    this.audioStreams.set(sessionId, streams);
+
+    const key = speakerId || 'mixed';
+    let stream = streams.get(key);
+    if (!stream) {
+      stream = { stitcher: new OverlapStitcher(), endOffset: 0 };
+      streams.set(key, stream);
+    }
+    return stream;
   }
 
   private calculateSessionDuration(session: TranscriptionSession): number {
@@ -698,8 +1393,9 @@ export class TranscriptionServiceImpl implements TranscriptionService {
     return `chunk_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
+  // Segments keep their id as TranscriptSegment rows
   private generateSegmentId(): string {
-    return `segment_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    return crypto.randomUUID();
   }
 
   private generateTranscriptId(): string {
@@ -0,0 +1,51 @@
+import { VoiceActivityDetectionService } from './voice-activity-detection.service';
+
+const SAMPLE_RATE = 16000;
+
+// A 440Hz tone for each truthy entry and silence otherwise, 100ms per entry
+const audio = (pattern: number[]): Float32Array => {
+  const samples = new Float32Array(pattern.length * SAMPLE_RATE * 0.1);
+  samples.forEach((_, i) => {
+    if (pattern[Math.floor(i / (SAMPLE_RATE * 0.1))]) {
+      samples[i] = 0.5 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE);
+    }
+  });
+  return samples;
+};
+
+describe('VoiceActivityDetectionService', () => {
+  const vad = new VoiceActivityDetectionService();
+
+  it('should find the speech segments', () => {
+    const segments = vad.detectVoiceActivity(
+      audio([0, 1, 1, 1, 1, 1, 1, 0, 0]),
+      SAMPLE_RATE,
+    );
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0].startTime).toBeCloseTo(0.1, 1);
+    expect(segments[0].endTime).toBeCloseTo(0.7, 1);
+  });
+
+  it('should tell silence from short speech', () => {
+    expect(vad.containsSpeech(audio([0, 0, 0, 0, 0]), SAMPLE_RATE)).toBe(false);
+    expect(vad.containsSpeech(audio([0, 0, 1, 1, 0]), SAMPLE_RATE)).toBe(true);
+  });
+
+  it('should place a cut in the middle of the latest long enough pause', () => {
+    const pause = vad.findPause(
+      audio([1, 1, 0, 0, 0, 0, 1, 1, 0, 1]),
+      SAMPLE_RATE,
+      0.3,
+    );
+
+    expect(pause).not.toBeNull();
+    expect((pause as number) / SAMPLE_RATE).toBeCloseTo(0.4, 1);
+  });
+
+  it('should not cut before the minimum offset', () => {
+    expect(
+      vad.findPause(audio([1, 1, 0, 0, 0, 0, 1, 1]), SAMPLE_RATE, 0.3, 8000),
+    ).toBeNull();
+  });
+});
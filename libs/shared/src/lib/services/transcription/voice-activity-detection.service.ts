@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+
+export interface VoiceSegment {
+  startTime: number; // seconds
+  endTime: number;
+  samples: Float32Array;
+}
+
+export interface VoiceActivityOptions {
+  energyThreshold?: number;
+  minSpeechDuration?: number; // seconds
+}
+
+// Short bursts are enough to keep a chunk, as chunks are often under a second long
+const GATE_MIN_SPEECH_DURATION = 0.1;
+
+// Energy-based voice activity detection, shared by diarization and the ASR gate
+@Injectable()
+export class VoiceActivityDetectionService {
+  private readonly defaultOptions: Required<VoiceActivityOptions> = {
+    energyThreshold: 0.01, // Adjust based on audio characteristics
+    minSpeechDuration: 0.5
+  };
+
+  detectVoiceActivity(samples: Float32Array, sampleRate: number, options: VoiceActivityOptions = {}): VoiceSegment[] {
+    const { energyThreshold, minSpeechDuration } = { ...this.defaultOptions, ...options };
+    const segments: VoiceSegment[] = [];
+    const windowSize = Math.floor(sampleRate * 0.025); // 25ms windows
+    const hopSize = Math.floor(sampleRate * 0.010); // 10ms hop
+
+    let inVoiceSegment = false;
+    let segmentStart = 0;
+
+    for (let i = 0; i < samples.length - windowSize; i += hopSize) {
+      const window = samples.slice(i, i + windowSize);
+      const energy = this.calculateEnergy(window);
+
+      if (energy > energyThreshold && !inVoiceSegment) {
+        // Start of voice segment
+        inVoiceSegment = true;
+        segmentStart = i;
+      } else if (energy <= energyThreshold && inVoiceSegment) {
+        // End of voice segment
+        inVoiceSegment = false;
+        const segmentEnd = i;
+        const duration = (segmentEnd - segmentStart) / sampleRate;
+
+        if (duration >= minSpeechDuration) {
+          segments.push({
+            startTime: segmentStart / sampleRate,
+            endTime: segmentEnd / sampleRate,
+            samples: samples.slice(segmentStart, segmentEnd)
+          });
+        }
+      }
+    }
+
+    // Handle case where audio ends during a voice segment
+    if (inVoiceSegment) {
+      const duration = (samples.length - segmentStart) / sampleRate;
+      if (duration >= minSpeechDuration) {
+        segments.push({
+          startTime: segmentStart / sampleRate,
+          endTime: samples.length / sampleRate,
+          samples: samples.slice(segmentStart)
+        });
+      }
+    }
+
+    return segments;
+  }
+
+  containsSpeech(samples: Float32Array, sampleRate: number): boolean {
+    return this.detectVoiceActivity(samples, sampleRate, { minSpeechDuration: GATE_MIN_SPEECH_DURATION }).length > 0;
+  }
+
+  // Sample index in the middle of the latest pause of at least minPauseDuration
+  // seconds, if that lies past minOffset; null when the audio has no such pause
+  findPause(samples: Float32Array, sampleRate: number, minPauseDuration: number, minOffset = 0): number | null {
+    const speech = this.detectVoiceActivity(samples, sampleRate, { minSpeechDuration: GATE_MIN_SPEECH_DURATION });
+    if (speech.length === 0) {
+      return null;
+    }
+
+    const pauses = speech.map((segment, index) => ({
+      start: index === 0 ? 0 : speech[index - 1].endTime,
+      end: segment.startTime
+    }));
+    pauses.push({ start: speech[speech.length - 1].endTime, end: samples.length / sampleRate });
+
+    for (let i = pauses.length - 1; i >= 0; i--) {
+      const middle = Math.floor(((pauses[i].start + pauses[i].end) / 2) * sampleRate);
+      if (pauses[i].end - pauses[i].start >= minPauseDuration && middle > minOffset) {
+        return middle;
+      }
+    }
+    return null;
+  }
+
+  private calculateEnergy(samples: Float32Array): number {
+    let energy = 0;
+    for (let i = 0; i < samples.length; i++) {
+      energy += samples[i] * samples[i];
+    }
+    return energy / samples.length;
+  }
+}
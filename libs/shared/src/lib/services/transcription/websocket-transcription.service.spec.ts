@@ -0,0 +1,191 @@
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { WebSocketTranscriptionServiceImpl } from './websocket-transcription.service';
+import type { TranscriptFeedbackService } from './transcript-feedback.service';
+import type { TranscriptPersistenceService } from './transcript-persistence.service';
+import type { MeetingPersistenceService } from '../meeting/meeting-persistence.service';
+import type { ClerkSyncService } from '../auth/clerk-sync.service';
+
+jest.mock('./transcript-feedback.service', () => ({
+  TranscriptFeedbackService: class {},
+}));
+jest.mock('./transcript-persistence.service', () => ({
+  TranscriptPersistenceService: class {},
+}));
+jest.mock('../meeting/meeting-persistence.service', () => ({
+  MeetingPersistenceService: class {},
+}));
+jest.mock('../auth/clerk-sync.service', () => ({ ClerkSyncService: class {} }));
+
+describe('WebSocketTranscriptionServiceImpl', () => {
+  let httpServer: HttpServer;
+  let url: string;
+  let clients: ClientSocket[];
+  let transcriptFeedback: { recordFeedback: jest.Mock };
+  let transcriptPersistence: { findSessionTranscript: jest.Mock };
+  let meetingPersistence: { isMeetingMember: jest.Mock };
+  let clerkSync: { validateClerkToken: jest.Mock };
+  let service: WebSocketTranscriptionServiceImpl;
+
+  const next = <T>(client: ClientSocket, event: string) =>
+    new Promise<T>((resolve) => client.once(event, resolve));
+
+  const open = (token?: string) => {
+    const client = connect(url, {
+      transports: ['websocket'],
+      auth: token ? { token } : {},
+      reconnection: false,
+    });
+    clients.push(client);
+    return client;
+  };
+
+  const join = async (token = 'token-1') => {
+    const client = open(token);
+    await next(client, 'connect');
+    client.emit('join_transcription', { sessionId: 'session-1' });
+    await next(client, 'joined_transcription');
+    return client;
+  };
+
+  beforeEach(async () => {
+    transcriptFeedback = {
+      recordFeedback: jest.fn(async () => ({
+        id: 'revision-1',
+        text: 'Hello MeetGenie',
+        previousText: 'Hello meet genie',
+        createdAt: new Date(),
+      })),
+    };
+    transcriptPersistence = {
+      findSessionTranscript: jest.fn(async (sessionId: string) =>
+        sessionId === 'session-1'
+          ? { id: 'transcript-1', meetingId: 'meeting-1' }
+          : null,
+      ),
+    };
+    meetingPersistence = {
+      isMeetingMember: jest.fn(
+        async (_meetingId: string, userId: string) => userId === 'user-1',
+      ),
+    };
+    clerkSync = {
+      validateClerkToken: jest.fn(async (token: string) =>
+        token.startsWith('token-')
+          ? { userId: token.replace('token-', 'user-') }
+          : null,
+      ),
+    };
+    service = new WebSocketTranscriptionServiceImpl(
+      transcriptFeedback as unknown as TranscriptFeedbackService,
+      transcriptPersistence as unknown as TranscriptPersistenceService,
+      meetingPersistence as unknown as MeetingPersistenceService,
+      clerkSync as unknown as ClerkSyncService,
+    );
+
+    clients = [];
+    httpServer = createServer();
+    service.initialize(httpServer);
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      client.disconnect();
+    }
+    await service.shutdown();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should refuse sockets without a valid token', async () => {
+    const error = await next<Error>(open(), 'connect_error');
+    expect(error.message).toBe('Authentication failed');
+
+    await expect(
+      next<Error>(open('expired'), 'connect_error'),
+    ).resolves.toMatchObject({ message: 'Authentication failed' });
+  });
+
+  it("should only let members of the session's meeting join", async () => {
+    const client = open('token-2');
+    await next(client, 'connect');
+    client.emit('join_transcription', { sessionId: 'session-1' });
+
+    await expect(next(client, 'error')).resolves.toMatchObject({
+      message: 'Transcription session not found: session-1',
+    });
+    expect(meetingPersistence.isMeetingMember).toHaveBeenCalledWith(
+      'meeting-1',
+      'user-2',
+    );
+  });
+
+  it("should revise segments of the joined session's transcript as the socket's user", async () => {
+    const client = await join();
+    client.emit('transcription_feedback', {
+      sessionId: 'session-1',
+      segmentId: 'segment-1',
+      feedback: 'incorrect',
+      correction: 'Hello MeetGenie',
+    });
+
+    await expect(
+      next(client, 'transcription_feedback_saved'),
+    ).resolves.toMatchObject({
+      segmentId: 'segment-1',
+      revisionId: 'revision-1',
+    });
+    expect(transcriptFeedback.recordFeedback).toHaveBeenCalledWith({
+      segmentId: 'segment-1',
+      transcriptId: 'transcript-1',
+      feedback: 'incorrect',
+      correction: 'Hello MeetGenie',
+      userId: 'user-1',
+    });
+  });
+
+  it('should not take feedback for sessions the socket has not joined', async () => {
+    const client = await join();
+    client.emit('transcription_feedback', {
+      sessionId: 'session-2',
+      segmentId: 'segment-1',
+      feedback: 'correct',
+    });
+
+    await expect(next(client, 'error')).resolves.toMatchObject({
+      message: 'Join the transcription session before sending feedback',
+    });
+    expect(transcriptFeedback.recordFeedback).not.toHaveBeenCalled();
+  });
+
+  it('should reject feedback that is not a known verdict', async () => {
+    const client = await join();
+    client.emit('transcription_feedback', {
+      sessionId: 'session-1',
+      segmentId: 'segment-1',
+      feedback: 'great',
+    });
+
+    await expect(next(client, 'error')).resolves.toMatchObject({
+      message:
+        'Invalid transcription feedback, expected one of: correct, incorrect, partial',
+    });
+    expect(transcriptFeedback.recordFeedback).not.toHaveBeenCalled();
+  });
+
+  it('should report segments outside the transcript as missing', async () => {
+    transcriptFeedback.recordFeedback.mockResolvedValueOnce(null);
+    const client = await join();
+    client.emit('transcription_feedback', {
+      sessionId: 'session-1',
+      segmentId: 'segment-9',
+      feedback: 'correct',
+    });
+
+    await expect(next(client, 'error')).resolves.toMatchObject({
+      message: 'Transcript segment not found: segment-9',
+    });
+  });
+});
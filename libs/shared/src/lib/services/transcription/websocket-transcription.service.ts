@@ -7,17 +7,32 @@ import {
   Speaker, 
   TranscriptionStatus, 
   TranscriptionError 
-} from '../interfaces/transcription.interface';
+} from '../../interfaces/transcription.interface';
+import { UserSession } from '../../interfaces/clerk.interface';
+import { SegmentFeedback } from '../../generated/prisma';
+import { TranscriptFeedbackService } from './transcript-feedback.service';
+import { TranscriptPersistenceService } from './transcript-persistence.service';
+import { ClerkSyncService } from '../auth/clerk-sync.service';
+import { MeetingPersistenceService } from '../meeting/meeting-persistence.service';
 
 interface TranscriptionConnection {
   id: string;
   sessionId: string;
+  transcriptId: string; // stored transcript of the session, the only one feedback may revise
+  meetingId: string;
   socket: Socket;
-  userId?: string;
+  userId: string;
   connectedAt: Date;
   lastActivity: Date;
 }
 
+interface TranscriptionFeedbackMessage {
+  sessionId: string;
+  segmentId: string;
+  feedback: SegmentFeedback;
+  correction?: string;
+}
+
 @Injectable()
 export class WebSocketTranscriptionServiceImpl implements WebSocketTranscriptionService {
   private readonly logger = new Logger(WebSocketTranscriptionServiceImpl.name);
@@ -26,6 +41,13 @@ export class WebSocketTranscriptionServiceImpl implements WebSocketTranscription
   private sessionConnections = new Map<string, Set<string>>(); // sessionId -> connectionIds
   private heartbeatInterval: NodeJS.Timeout | null = null;
 
+  constructor(
+    private transcriptFeedback: TranscriptFeedbackService,
+    private transcriptPersistence: TranscriptPersistenceService,
+    private meetingPersistence: MeetingPersistenceService,
+    private clerkSyncService: ClerkSyncService
+  ) {}
+
   initialize(server: any): void {
     this.io = new Server(server, {
       cors: {
@@ -45,10 +67,20 @@ export class WebSocketTranscriptionServiceImpl implements WebSocketTranscription
   private setupEventHandlers(): void {
     if (!this.io) return;
 
+    this.io.use((socket, next) => {
+      this.authenticate(socket).then(
+        () => next(),
+        error => {
+          this.logger.warn(`Rejected WebSocket connection ${socket.id}: ${error instanceof Error ? error.message : error}`);
+          next(new Error('Authentication failed'));
+        }
+      );
+    });
+
     this.io.on('connection', (socket: Socket) => {
       this.logger.debug(`New WebSocket connection: ${socket.id}`);
 
-      socket.on('join_transcription', async (data: { sessionId: string; userId?: string }) => {
+      socket.on('join_transcription', async (data: { sessionId: string }) => {
         await this.handleJoinTranscription(socket, data);
       });
 
@@ -56,12 +88,7 @@ export class WebSocketTranscriptionServiceImpl implements WebSocketTranscription
         await this.handleLeaveTranscription(socket, data);
       });
 
-      socket.on('transcription_feedback', (data: { 
-        sessionId: string; 
-        segmentId: string; 
-        feedback: 'correct' | 'incorrect' | 'partial';
-        correction?: string;
-      }) => {
+      socket.on('transcription_feedback', (data: TranscriptionFeedbackMessage) => {
         this.handleTranscriptionFeedback(socket, data);
       });
 
@@ -81,14 +108,46 @@ export class WebSocketTranscriptionServiceImpl implements WebSocketTranscription
     });
   }
 
-  private async handleJoinTranscription(socket: Socket, data: { sessionId: string; userId?: string }): Promise<void> {
+  // Sockets authenticate like HTTP requests do with AuthGuard, with the token
+  // as auth.token or in an Authorization header
+  private async authenticate(socket: Socket): Promise<void> {
+    const [type, bearer] = socket.handshake.headers.authorization?.split(' ') ?? [];
+    const token = socket.handshake.auth?.['token'] ?? (type === 'Bearer' ? bearer : undefined);
+    if (typeof token !== 'string' || !token) {
+      throw new Error('No authentication token provided');
+    }
+
+    const session = await this.clerkSyncService.validateClerkToken(token);
+    if (!session) {
+      throw new Error('Invalid or expired token');
+    }
+    socket.data.user = session;
+  }
+
+  // Only the organizer and participants of the session's meeting may join;
+  // other sessions are reported as missing, like meetings over HTTP
+  private async handleJoinTranscription(socket: Socket, data: { sessionId: string }): Promise<void> {
     try {
+      const user = socket.data.user as UserSession;
+      const transcript = typeof data?.sessionId === 'string'
+        ? await this.transcriptPersistence.findSessionTranscript(data.sessionId)
+        : null;
+      if (!transcript || !(await this.meetingPersistence.isMeetingMember(transcript.meetingId, user.userId))) {
+        socket.emit('error', {
+          message: `Transcription session not found: ${data?.sessionId}`,
+          timestamp: new Date()
+        });
+        return;
+      }
+
       const connectionId = socket.id;
       const connection: TranscriptionConnection = {
         id: connectionId,
         sessionId: data.sessionId,
+        transcriptId: transcript.id,
+        meetingId: transcript.meetingId,
         socket,
-        userId: data.userId,
+        userId: user.userId,
         connectedAt: new Date(),
         lastActivity: new Date()
       };
@@ -136,6 +195,11 @@ export class WebSocketTranscriptionServiceImpl implements WebSocketTranscription
         }
       }
 
+      // Feedback is no longer taken for the session
+      if (this.connections.get(connectionId)?.sessionId === data.sessionId) {
+        this.connections.delete(connectionId);
+      }
+
       // Leave socket room
       socket.leave(`transcription_${data.sessionId}`);
 
@@ -153,20 +217,50 @@ export class WebSocketTranscriptionServiceImpl implements WebSocketTranscription
     }
   }
 
-  private handleTranscriptionFeedback(socket: Socket, data: {
-    sessionId: string;
-    segmentId: string;
-    feedback: 'correct' | 'incorrect' | 'partial';
-    correction?: string;
-  }): void {
+  // Feedback is taken on segments of the transcript of the session the socket joined
+  private async handleTranscriptionFeedback(socket: Socket, data: TranscriptionFeedbackMessage): Promise<void> {
     try {
-      // Update connection activity
       const connection = this.connections.get(socket.id);
-      if (connection) {
-        connection.lastActivity = new Date();
+      if (!connection || connection.sessionId !== data?.sessionId) {
+        socket.emit('error', {
+          message: 'Join the transcription session before sending feedback',
+          timestamp: new Date()
+        });
+        return;
       }
+      connection.lastActivity = new Date();
+
+      if (
+        typeof data.segmentId !== 'string' ||
+        !Object.values(SegmentFeedback).includes(data.feedback) ||
+        (data.correction !== undefined && typeof data.correction !== 'string')
+      ) {
+        socket.emit('error', {
+          message: `Invalid transcription feedback, expected one of: ${Object.values(SegmentFeedback).join(', ')}`,
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      this.logger.debug(`Received transcription feedback for segment ${data.segmentId}: ${data.feedback}`);
 
-      // Broadcast feedback to other clients in the session (optional)
+      // Feedback is kept as a revision of the stored segment
+      const revision = await this.transcriptFeedback.recordFeedback({
+        segmentId: data.segmentId,
+        transcriptId: connection.transcriptId,
+        feedback: data.feedback,
+        correction: data.correction,
+        userId: connection.userId
+      });
+      if (!revision) {
+        socket.emit('error', {
+          message: `Transcript segment not found: ${data.segmentId}`,
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      // Let the session's other clients know of the stored feedback
       socket.to(`transcription_${data.sessionId}`).emit('transcription_feedback_received', {
         segmentId: data.segmentId,
         feedback: data.feedback,
@@ -174,10 +268,19 @@ export class WebSocketTranscriptionServiceImpl implements WebSocketTranscription
         timestamp: new Date()
       });
 
-      this.logger.debug(`Received transcription feedback for segment ${data.segmentId}: ${data.feedback}`);
+      socket.emit('transcription_feedback_saved', {
+        segmentId: data.segmentId,
+        revisionId: revision.id,
+        text: revision.text ?? revision.previousText,
+        timestamp: revision.createdAt
+      });
 
     } catch (error) {
       this.logger.error('Failed to handle transcription feedback:', error);
+      socket.emit('error', {
+        message: 'Failed to save transcription feedback',
+        timestamp: new Date()
+      });
     }
   }
 
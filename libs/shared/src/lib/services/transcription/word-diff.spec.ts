@@ -0,0 +1,55 @@
+import { countWordErrors, diffWords, retimeWords } from './word-diff';
+
+// One word per 500ms
+const words = (text: string) =>
+  text.split(' ').map((word, i) => ({
+    text: word,
+    start: i * 500,
+    end: (i + 1) * 500,
+    confidence: 0.8,
+  }));
+
+describe('diffWords', () => {
+  it('should find the rewritten runs ignoring casing and punctuation', () => {
+    expect(
+      diffWords(
+        ['so', 'meet', 'genie', 'works'],
+        ['So,', 'MeetGenie', 'works', 'well'],
+      ),
+    ).toEqual([
+      {
+        beforeStart: 1,
+        before: ['meet', 'genie'],
+        afterStart: 1,
+        after: ['MeetGenie'],
+      },
+      { beforeStart: 4, before: [], afterStart: 3, after: ['well'] },
+    ]);
+  });
+});
+
+describe('countWordErrors', () => {
+  it('should count substitutions, insertions and deletions', () => {
+    expect(
+      countWordErrors('the cat sat on mat', 'the cat sat on the mat'),
+    ).toBe(1);
+    expect(countWordErrors('meet genie works', 'MeetGenie works')).toBe(2);
+    expect(countWordErrors('All good.', 'all good')).toBe(0);
+  });
+});
+
+describe('retimeWords', () => {
+  it('should keep the timings of kept words and share out replaced ones', () => {
+    const retimed = retimeWords(
+      words('ask meet genie now'),
+      'Ask MeetGenie now please',
+    );
+
+    expect(retimed).toEqual([
+      { text: 'Ask', start: 0, end: 500, confidence: 0.8 },
+      { text: 'MeetGenie', start: 500, end: 1500, confidence: 1 },
+      { text: 'now', start: 1500, end: 2000, confidence: 0.8 },
+      { text: 'please', start: 2000, end: 2000, confidence: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { TranscriptWord } from '../../interfaces/transcription.interface';
+
+const PUNCTUATION = /[.,!?;:"()'-]/g;
+
+// A run of words one text has in place of the other's
+export interface WordDiffSpan {
+  beforeStart: number;
+  before: string[];
+  afterStart: number;
+  after: string[];
+}
+
+// Spans where two texts differ, aligned on their longest common subsequence of
+// words; casing and punctuation don't count as differences
+export function diffWords(before: string[], after: string[]): WordDiffSpan[] {
+  const same = (i: number, j: number) => normalizeWord(before[i]) === normalizeWord(after[j]);
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(i, j) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const spans: WordDiffSpan[] = [];
+  let current: WordDiffSpan | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && same(i, j)) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+
+    if (!current) {
+      current = { beforeStart: i, before: [], afterStart: j, after: [] };
+      spans.push(current);
+    }
+    if (j >= after.length || (i < before.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      current.before.push(before[i++]);
+    } else {
+      current.after.push(after[j++]);
+    }
+  }
+  return spans;
+}
+
+// Substitutions, insertions and deletions that turn the recognised text into
+// the reference, the numerator of a word error rate
+export function countWordErrors(recognised: string, reference: string): number {
+  return diffWords(splitWords(recognised), splitWords(reference))
+    .reduce((errors, span) => errors + Math.max(span.before.length, span.after.length), 0);
+}
+
+// The corrected text as timed words: words the correction kept keep their
+// timings, and rewritten runs share out the time of the words they replace
+export function retimeWords(words: TranscriptWord[], corrected: string): TranscriptWord[] {
+  const correctedWords = splitWords(corrected);
+  const spans = diffWords(words.map(word => word.text), correctedWords);
+
+  const retimed: TranscriptWord[] = [];
+  let i = 0;
+  let j = 0;
+  for (const span of [...spans, null]) {
+    // Kept words up to the next span
+    const keptUntil = span ? span.afterStart : correctedWords.length;
+    while (j < keptUntil) {
+      retimed.push({ ...words[i++], text: correctedWords[j++] });
+    }
+    if (!span) {
+      break;
+    }
+
+    const replaced = words.slice(span.beforeStart, span.beforeStart + span.before.length);
+    // Inserted words take no time, at the boundary they were inserted at
+    const start = replaced.length ? replaced[0].start : words[i - 1]?.end ?? words[i]?.start ?? 0;
+    const end = replaced.length ? replaced[replaced.length - 1].end : start;
+    const duration = span.after.length ? (end - start) / span.after.length : 0;
+
+    // A person wrote these, so they are certain
+    span.after.forEach((text, index) => {
+      retimed.push({ text, start: start + index * duration, end: start + (index + 1) * duration, confidence: 1 });
+    });
+    i += span.before.length;
+    j += span.after.length;
+  }
+  return retimed;
+}
+
+export function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(PUNCTUATION, '');
+}
@@ -16,21 +16,38 @@ import { InngestFunctionsService } from './services/infrastructure/inngest-funct
 
 // Meeting services
 import { MeetingRecorderService } from './services/meeting/meeting-recorder.service';
+import { MeetingPersistenceService } from './services/meeting/meeting-persistence.service';
+import { SpeakerLinkingService } from './services/meeting/speaker-linking.service';
+import { PlatformConnectionService } from './services/meeting/platform-connection.service';
+import { RecordingDisclosureService } from './services/meeting/recording-disclosure.service';
+import { SessionCapacityService } from './services/meeting/session-capacity.service';
+import { TranscriptPersistenceService } from './services/transcription/transcript-persistence.service';
+import { GlossaryService } from './services/transcription/glossary.service';
+import { TranscriptFeedbackService } from './services/transcription/transcript-feedback.service';
+import { ZoomRestTransport } from './services/platform-adapters/transports/zoom-rest.transport';
+import { TeamsRestTransport } from './services/platform-adapters/transports/teams-rest.transport';
+import { GoogleMeetRestTransport } from './services/platform-adapters/transports/google-meet-rest.transport';
+import { WebExRestTransport } from './services/platform-adapters/transports/webex-rest.transport';
 import { ZoomAdapter } from './services/platform-adapters/zoom.adapter';
 import { TeamsAdapter } from './services/platform-adapters/teams.adapter';
 import { GoogleMeetAdapter } from './services/platform-adapters/google-meet.adapter';
 import { WebExAdapter } from './services/platform-adapters/webex.adapter';
+import { LocalAdapter } from './services/platform-adapters/local.adapter';
 import { PlatformAdapterFactory } from './services/platform-adapters/platform-adapter.factory';
 
 // Guards
 import { AuthGuard } from './guards/auth.guard';
 import { ClerkAuthGuard } from './guards/clerk-auth.guard';
+import { MeetingMemberGuard } from './guards/meeting-member.guard';
 
 // Transcription services
 import { TranscriptionServiceImpl } from './services/transcription/transcription.service';
 import { HuggingFaceService } from './services/ai/huggingface.service';
+import { LocalAsrService } from './services/ai/local-asr.service';
+import { AsrProviderFactory } from './services/ai/asr-provider.factory';
 import { AudioPreprocessingServiceImpl } from './services/transcription/audio-preprocessing.service';
 import { SpeakerDiarizationServiceImpl } from './services/transcription/speaker-diarization.service';
+import { VoiceActivityDetectionService } from './services/transcription/voice-activity-detection.service';
 import { WebSocketTranscriptionServiceImpl } from './services/transcription/websocket-transcription.service';
 import { RealTimeAudioStreamService } from './services/transcription/real-time-audio-stream.service';
 import { RealTimeTranscriptionIntegrationService } from './services/transcription/real-time-transcription-integration.service';
@@ -44,6 +61,9 @@ import { LangChainExampleService } from './services/ai/langchain-example.service
 import { LangChainConfigService } from './config/langchain.config';
 import kafkaConfig from './config/kafka.config';
 import redisConfig from './config/redis.config';
+import platformOAuthConfig from './config/platform-oauth.config';
+import recordingDisclosureConfig from './config/recording-disclosure.config';
+import sessionCapacityConfig from './config/session-capacity.config';
 
 import environmentConfig from './config/environment.config';
 
@@ -51,7 +71,14 @@ import environmentConfig from './config/environment.config';
 @Module({
   imports: [
     ConfigModule.forRoot({
-      load: [kafkaConfig, redisConfig, environmentConfig],
+      load: [
+        kafkaConfig,
+        redisConfig,
+        environmentConfig,
+        platformOAuthConfig,
+        recordingDisclosureConfig,
+        sessionCapacityConfig,
+      ],
       isGlobal: true,
       envFilePath: ['.env.local', '.env'],
       expandVariables: true,
@@ -66,18 +93,35 @@ import environmentConfig from './config/environment.config';
     ClerkSyncService,
     InngestFunctionsService,
     MeetingRecorderService,
+    MeetingPersistenceService,
+    SpeakerLinkingService,
+    PlatformConnectionService,
+    RecordingDisclosureService,
+    SessionCapacityService,
+    TranscriptPersistenceService,
+    GlossaryService,
+    TranscriptFeedbackService,
+    ZoomRestTransport,
+    TeamsRestTransport,
+    GoogleMeetRestTransport,
+    WebExRestTransport,
     ZoomAdapter,
     TeamsAdapter,
     GoogleMeetAdapter,
     WebExAdapter,
+    LocalAdapter,
     PlatformAdapterFactory,
     AuthGuard,
     ClerkAuthGuard,
+    MeetingMemberGuard,
     // Transcription services
     TranscriptionServiceImpl,
     HuggingFaceService,
+    LocalAsrService,
+    AsrProviderFactory,
     AudioPreprocessingServiceImpl,
     SpeakerDiarizationServiceImpl,
+    VoiceActivityDetectionService,
     WebSocketTranscriptionServiceImpl,
     RealTimeAudioStreamService,
     RealTimeTranscriptionIntegrationService,
@@ -95,19 +139,36 @@ import environmentConfig from './config/environment.config';
     ClerkSyncService,
     InngestFunctionsService,
     MeetingRecorderService,
+    MeetingPersistenceService,
+    SpeakerLinkingService,
+    PlatformConnectionService,
+    RecordingDisclosureService,
+    SessionCapacityService,
+    TranscriptPersistenceService,
+    GlossaryService,
+    TranscriptFeedbackService,
+    ZoomRestTransport,
+    TeamsRestTransport,
+    GoogleMeetRestTransport,
+    WebExRestTransport,
     ZoomAdapter,
     TeamsAdapter,
     GoogleMeetAdapter,
     WebExAdapter,
+    LocalAdapter,
     PlatformAdapterFactory,
     AuthGuard,
     ClerkAuthGuard,
+    MeetingMemberGuard,
     ConfigModule,
     // Transcription services
     TranscriptionServiceImpl,
     HuggingFaceService,
+    LocalAsrService,
+    AsrProviderFactory,
     AudioPreprocessingServiceImpl,
     SpeakerDiarizationServiceImpl,
+    VoiceActivityDetectionService,
     WebSocketTranscriptionServiceImpl,
     RealTimeAudioStreamService,
     RealTimeTranscriptionIntegrationService,